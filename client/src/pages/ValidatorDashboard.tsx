@@ -20,6 +20,13 @@ export default function ValidatorDashboard() {
   const validatorData = allWallets?.find(w => w.validatorId === 'StellarNode');
   const validatorId = 'StellarNode';
 
+  const { data: tierData } = useQuery<{ validator: { jail: { jailed: boolean; reason: string | null; releasableAt: number | null; canUnjail: boolean; jailCount: number } } }>({
+    queryKey: [`/api/validators/${validatorId}/tier`],
+    staleTime: 10000,
+    refetchInterval: 15000
+  });
+  const jail = tierData?.validator?.jail;
+
   const formatNumber = (num: number) => {
     return num.toLocaleString('en-US');
   };
@@ -55,8 +62,24 @@ export default function ValidatorDashboard() {
               <h3 className="text-terminal-green text-sm font-medium terminal-text">NODE STATUS</h3>
               <Server className="w-5 h-5 text-terminal-success" />
             </div>
-            <p className="text-2xl font-bold text-terminal-success terminal-text">ACTIVE</p>
-            <p className="text-terminal-green/70 text-sm terminal-text">Uptime: 99.8%</p>
+            {jail?.jailed ? (
+              <>
+                <p className="text-2xl font-bold text-terminal-orange terminal-text">JAILED</p>
+                <p className="text-terminal-green/70 text-sm terminal-text">
+                  Reason: {jail.reason?.replace(/_/g, ' ')}
+                </p>
+                <p className="text-terminal-green/70 text-sm terminal-text">
+                  {jail.canUnjail
+                    ? 'Unjail transaction accepted now'
+                    : `Unjail after ${new Date(jail.releasableAt!).toLocaleString()}`}
+                </p>
+              </>
+            ) : (
+              <>
+                <p className="text-2xl font-bold text-terminal-success terminal-text">ACTIVE</p>
+                <p className="text-terminal-green/70 text-sm terminal-text">Uptime: 99.8%</p>
+              </>
+            )}
           </div>
           
           <div className="terminal-window p-6">
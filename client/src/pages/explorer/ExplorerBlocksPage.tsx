@@ -1,6 +1,6 @@
 import { useQuery } from "@tanstack/react-query";
 import { formatNumber } from "../../lib/utils";
-import { Zap, User, Hash, Clock, Database } from "lucide-react";
+import { Zap, User, Hash, Clock, Database, ShieldCheck } from "lucide-react";
 
 export default function ExplorerBlocksPage() {
   // Fetch real block data from blockchain API
@@ -36,6 +36,18 @@ export default function ExplorerBlocksPage() {
     staleTime: 0
   });
 
+  // Fetch latest, safe and finalized heads
+  const { data: heads } = useQuery({
+    queryKey: ['chain-heads'],
+    queryFn: async () => {
+      const response = await fetch('/api/blockchain/heads');
+      const result = await response.json();
+      return result.data;
+    },
+    refetchInterval: 10000,
+    staleTime: 0
+  });
+
   if (isLoading) {
     return (
       <div className="space-y-8">
@@ -96,6 +108,12 @@ export default function ExplorerBlocksPage() {
     return `${size.toFixed(1)} ${units[unitIndex]}`;
   };
 
+  const blockStatus = (height: number) => {
+    if (heads?.finalized && height <= heads.finalized.height) return { label: 'finalized', className: 'text-terminal-success' };
+    if (heads?.safe && height <= heads.safe.height) return { label: 'safe', className: 'text-terminal-gold' };
+    return { label: 'latest', className: 'text-terminal-orange' };
+  };
+
   return (
     <div className="space-y-8">
       {/* Header */}
@@ -149,6 +167,29 @@ export default function ExplorerBlocksPage() {
         </div>
       </div>
 
+      {/* Chain Heads */}
+      <div className="terminal-window p-6">
+        <h3 className="text-lg font-semibold text-terminal-green terminal-text mb-4 flex items-center">
+          <ShieldCheck className="w-5 h-5 mr-2 text-terminal-success" />
+          Chain Heads
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {[
+            { label: 'FINALIZED', head: heads?.finalized, className: 'text-terminal-success', note: 'Signed by 2/3 of stake, never re-orged' },
+            { label: 'SAFE', head: heads?.safe, className: 'text-terminal-gold', note: 'Buried under the finality depth' },
+            { label: 'LATEST', head: heads?.latest, className: 'text-terminal-orange', note: 'Current tip, may still re-org' }
+          ].map(({ label, head, className, note }) => (
+            <div key={label}>
+              <p className="text-terminal-green text-sm font-medium terminal-text">{label}</p>
+              <p className={`text-2xl font-bold terminal-text ${className}`}>{head ? `#${formatNumber(head.height)}` : 'None yet'}</p>
+              <p className="text-terminal-green/70 text-xs font-mono terminal-text">
+                {head?.hash ? `${head.hash.substring(0, 12)}...` : note}
+              </p>
+            </div>
+          ))}
+        </div>
+      </div>
+
       {/* Blocks List */}
       <div className="terminal-window overflow-hidden">
         <div className="p-6 border-b-2 border-terminal-border">
@@ -180,7 +221,10 @@ export default function ExplorerBlocksPage() {
                         <Hash className="w-4 h-4 text-terminal-cyan" />
                       </div>
                       <div>
-                        <p className="text-terminal-green font-medium terminal-text">#{block.height}</p>
+                        <p className="text-terminal-green font-medium terminal-text">
+                          #{block.height}{' '}
+                          <span className={`text-xs ${blockStatus(block.height).className}`}>[{blockStatus(block.height).label}]</span>
+                        </p>
                         <p className="text-terminal-green/70 text-xs font-mono terminal-text">
                           {block.hash.substring(0, 12)}...{block.hash.substring(58)}
                         </p>
@@ -1,16 +1,18 @@
 import { EventEmitter } from 'eventemitter3';
-import * as _ from 'lodash';
+import _ from 'lodash';
 import { EmotionalValidator } from './EmotionalValidator';
 import { ConsensusRound, Vote } from './ConsensusRound';
+import type { ValidatorJail, JailRecord } from './ValidatorJail';
 /**
  * Byzantine fault detection and mitigation for Proof of Emotion consensus
- * Handles malicious validator identification and network security
+ * Handles malicious validator identification and network security. Quarantined
+ * validators are jailed by the next finalized block, and released only by an unjail transaction.
  */
 export interface ByzantineConfig {
   byzantineThreshold: number; // 67% - maximum tolerated Byzantine nodes
   detectionWindow: number; // Time window for pattern analysis (ms)
   suspicionThreshold: number; // Score threshold for suspicious behavior
-  quarantineDuration: number; // How long to quarantine suspicious validators (ms)
+  quarantineDuration: number; // Minimum jail time for suspicious validators (ms)
 }
 export interface ByzantineEvidence {
   validatorId: string;
@@ -36,8 +38,10 @@ export class ByzantineTolerance extends EventEmitter {
   private voteHistory = new Map<string, Vote[]>();
   private proposalHistory = new Map<string, any[]>();
   private emotionalHistory = new Map<string, number[]>();
-  constructor(config: Partial<ByzantineConfig> = {}) {
+  private jail: ValidatorJail | null;
+  constructor(config: Partial<ByzantineConfig> = {}, jail: ValidatorJail | null = null) {
     super();
+    this.jail = jail;
     this.config = {
       byzantineThreshold: 67,
       detectionWindow: 300000, // 5 minutes
@@ -47,6 +51,14 @@ export class ByzantineTolerance extends EventEmitter {
     };
   }
   async initialize(): Promise<void> {
+    if (this.jail) {
+      for (const record of this.jail.getJailed()) {
+        if (record.reason === 'byzantine_behaviour') this.quarantinedValidators.add(record.validatorId);
+      }
+      this.jail.on('validator-unjailed', (record: JailRecord) => {
+        if (this.quarantinedValidators.has(record.validatorId)) this.releaseFromQuarantine(record.validatorId);
+      });
+    }
     // Start periodic cleanup
     setInterval(() => {
       this.cleanupOldEvidence();
@@ -407,10 +419,14 @@ export class ByzantineTolerance extends EventEmitter {
   private async quarantineValidator(validatorId: string): Promise<void> {
     this.quarantinedValidators.add(validatorId);
     console.log(`🚫 Validator ${validatorId} quarantined for suspicious behavior`);
-    // Set release timer
-    setTimeout(() => {
-      this.releaseFromQuarantine(validatorId);
-    }, this.config.quarantineDuration);
+    if (this.jail) {
+      // Jailed by the next block; released by an unjail transaction once the quarantine duration is served
+      this.jail.proposeJail(validatorId, 'byzantine_behaviour', null, this.config.quarantineDuration);
+    } else {
+      setTimeout(() => {
+        this.releaseFromQuarantine(validatorId);
+      }, this.config.quarantineDuration);
+    }
     this.emit('validator-quarantined', validatorId);
   }
   private releaseFromQuarantine(validatorId: string): void {
@@ -424,7 +440,7 @@ export class ByzantineTolerance extends EventEmitter {
     this.emit('validator-released', validatorId);
   }
   private processQuarantineReleases(): void {
-    // Automatic quarantine releases are handled by setTimeout
+    // Jailed validators are released by unjail transactions, others by setTimeout
     // This method can be used for manual reviews
   }
   // Evidence cleanup
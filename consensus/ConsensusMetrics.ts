@@ -1,5 +1,5 @@
 import { EventEmitter } from 'eventemitter3';
-import * as _ from 'lodash';
+import _ from 'lodash';
 /**
  * Real-time consensus performance monitoring and analytics
  * Tracks validator participation, emotional scores, and network health
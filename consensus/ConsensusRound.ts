@@ -1,18 +1,25 @@
 import { EventEmitter } from 'eventemitter3';
 import { performance } from 'perf_hooks';
-import * as _ from 'lodash';
+import _ from 'lodash';
 import { Block } from '../server/blockchain/Block';
 import { P2PNode } from '../network/P2PNode';
 import { EmotionalValidator } from './EmotionalValidator';
 import { EmotionalCommittee } from './EmotionalCommittee';
 import { EmotionalProof } from './EmotionalProof';
+import { EvidencePool } from './EquivocationEvidence';
+import { ViewChange, RoundLock, PreparedCertificate, TimeoutCertificate, TimeoutVote } from './ViewChange';
+import { QuorumCertificates, QuorumCertificate, CommitMessage, SignerKey } from '../crypto/QuorumCertificate';
 /**
  * Individual consensus round implementation
- * Three-phase process: PROPOSE → VOTE → COMMIT
+ * Three-phase process: PROPOSE → VOTE → COMMIT, repeated in a new view under the next
+ * backup leader when a view fails. The round resolves once a quorum prepares a block;
+ * the commit phase then runs on so the next height can be proposed while it completes.
+ * Approving votes carry a BLS share, aggregated into the quorum certificate the block keeps.
  */
 export enum RoundPhase {
   PROPOSE = 'PROPOSE',
   VOTE = 'VOTE', 
+  VIEW_CHANGE = 'VIEW_CHANGE',
   COMMIT = 'COMMIT',
   FINALIZED = 'FINALIZED',
   ABORTED = 'ABORTED'
@@ -22,12 +29,19 @@ export interface RoundConfig {
   proposalTimeout: number;
   finalityTimeout: number;
   byzantineThreshold: number;
+  viewChangeTimeout?: number; // Wait for a timeout quorum; defaults to votingTimeout
+  maxViews?: number; // Views tried before the round fails; defaults to the committee size
 }
+// Produces the block a view's leader proposes after a view change with no prepared block
+export type BlockProposer = (leader: EmotionalValidator, view: number, certificate: TimeoutCertificate) => Promise<Block>;
 export interface Vote {
   validatorId: string;
+  height: number; // Signed with the vote so conflicting votes for one height are provable
+  roundId: string;
   blockHash: string;
   emotionalScore: number;
   signature: string;
+  aggregateShare?: string; // BLS share of the quorum certificate; required on approving votes
   timestamp: number;
   approved: boolean;
   reason?: string;
@@ -39,19 +53,34 @@ export interface VotingResult {
   byzantineCount: number;
   averageEmotionalScore: number;
   participants: string[];
-  votes: Vote[];
+  votes: Vote[]; // Kept in memory for rewards; the block carries the quorum certificate instead
   reason?: string;
+  view?: number; // View in which the block was prepared
+  prepared?: PreparedCertificate;
+  quorumCertificate?: QuorumCertificate;
+  timeoutCertificates?: TimeoutCertificate[]; // Justify every view change the round went through
 }
 export class ConsensusRound extends EventEmitter {
   private roundId: string;
   private committee: EmotionalCommittee;
-  private proposedBlock: Block;
+  private proposedBlock: Block; // Proposal of the current view
   private config: RoundConfig;
   private p2pNode: P2PNode;
+  private proposer: BlockProposer | null;
+  private validatorSet: EmotionalValidator[]; // Signer set the quorum certificate bitmap indexes
   private phase = RoundPhase.PROPOSE;
   private startTime = performance.now();
-  private votes = new Map<string, Vote>();
+  private view = 0;
+  private proposals = new Map<string, Block>(); // Every block proposed in this round, by hash
+  private votes = new Map<string, Vote>(); // Votes of the current view
+  private signedVotes = new Map<string, Vote>(); // First validly signed vote per view round and validator, for equivocation checks
+  private equivocators = new Set<string>();
   private timeouts = new Map<string, NodeJS.Timeout>();
+  private lock = new RoundLock();
+  private timeoutVotes = new Map<number, Map<string, TimeoutVote>>(); // view -> validator -> timeout vote
+  private timeoutCertificates: TimeoutCertificate[] = [];
+  private timeoutQuorumReached: (() => void) | null = null;
+  private commitment: Promise<VotingResult> | null = null;
   private result: VotingResult | null = null;
   private aborted = false;
   constructor(
@@ -59,33 +88,50 @@ export class ConsensusRound extends EventEmitter {
     committee: EmotionalCommittee,
     proposedBlock: Block,
     config: RoundConfig,
-    p2pNode: P2PNode
+    p2pNode: P2PNode,
+    proposer: BlockProposer | null = null,
+    validatorSet: EmotionalValidator[] = committee.getValidators()
   ) {
     super();
     this.roundId = roundId;
     this.committee = committee;
     this.proposedBlock = proposedBlock;
+    this.proposals.set(proposedBlock.hash, proposedBlock);
     this.config = config;
     this.p2pNode = p2pNode;
+    this.proposer = proposer;
+    this.validatorSet = validatorSet;
     this.setupNetworkHandlers();
   }
+  /**
+   * Run views until a quorum prepares a block; resolves before the commit phase
+   * completes (see waitForCommit)
+   */
   async executeVoting(): Promise<VotingResult> {
     if (this.aborted) {
       throw new Error('Consensus round already aborted');
     }
     try {
-      // Phase 1: Proposal Broadcasting (already done in ProofOfEmotionEngine)
-      await this.executeProposalPhase();
-      // Phase 2: Voting
-      await this.executeVotingPhase();
-      // Phase 3: Commit
-      await this.executeCommitPhase();
-      this.phase = RoundPhase.FINALIZED;
-      const result = this.calculateResult();
-      this.result = result;
-      this.emit('round-completed', result);
-      return result;
+      for (;;) {
+        // Phase 1: Proposal Broadcasting (already done in ProofOfEmotionEngine)
+        await this.executeProposalPhase();
+        // Phase 2: Voting
+        await this.executeVotingPhase();
+        const result = this.calculateResult();
+        if (result.success) {
+          // Phase 3: Commit, pipelined
+          return this.prepare(result);
+        }
+        if (this.aborted) {
+          throw new Error('Consensus round aborted');
+        }
+        if (this.view + 1 >= this.maxViews()) {
+          throw new Error(`${result.reason} after ${this.view + 1} view(s)`);
+        }
+        await this.changeView(result.reason || 'view failed');
+      }
     } catch (error) {
+      await this.broadcastReject((error as Error).message);
       this.phase = RoundPhase.ABORTED;
       const errorResult: VotingResult = {
         success: false,
@@ -95,7 +141,9 @@ export class ConsensusRound extends EventEmitter {
         averageEmotionalScore: 0,
         participants: [],
         votes: [],
-        reason: error.message
+        reason: error.message,
+        view: this.view,
+        timeoutCertificates: [...this.timeoutCertificates]
       };
       this.result = errorResult;
       this.emit('round-failed', errorResult);
@@ -104,14 +152,63 @@ export class ConsensusRound extends EventEmitter {
       this.cleanup();
     }
   }
+  /**
+   * Resolves once the prepared block's commit phase completes
+   */
+  waitForCommit(): Promise<VotingResult> {
+    if (!this.commitment) {
+      return Promise.reject(new Error(`Round ${this.roundId} has no prepared block to commit`));
+    }
+    return this.commitment;
+  }
+  /**
+   * Sign a vote as a committee member: ECDSA over the vote and, when approving, the BLS
+   * share aggregated into the block's quorum certificate
+   */
+  static signVote(vote: Omit<Vote, 'signature' | 'aggregateShare'>, committeeSize: number, privateKey: string): Vote {
+    const signed = EvidencePool.signVote(vote, privateKey);
+    if (!vote.approved) return signed;
+    const { height, roundId, blockHash } = vote;
+    return { ...signed, aggregateShare: QuorumCertificates.signShare({ height, roundId, blockHash, committeeSize }, privateKey) };
+  }
+  // A quorum approved the current proposal: lock it and commit in the background
+  private prepare(result: VotingResult): VotingResult {
+    const prepared = ViewChange.createPreparedCertificate(
+      this.proposedBlock.height, this.view, this.roundId, this.proposedBlock.hash, result.votes
+    );
+    this.lock.lock(prepared);
+    const shares = new Map<string, string>();
+    for (const vote of prepared.votes) {
+      shares.set(vote.validatorId, vote.aggregateShare!);
+    }
+    const preparedResult: VotingResult = {
+      ...result,
+      view: this.view,
+      prepared,
+      quorumCertificate: QuorumCertificates.create(this.commitMessage(this.proposedBlock.hash), shares, this.signerSet()),
+      timeoutCertificates: [...this.timeoutCertificates]
+    };
+    this.result = preparedResult;
+    this.emit('round-prepared', preparedResult);
+    this.commitment = this.executeCommitPhase(preparedResult).then(() => {
+      this.phase = RoundPhase.FINALIZED;
+      this.emit('round-completed', preparedResult);
+      return preparedResult;
+    });
+    // Callers that never wait for the commit must not see an unhandled rejection
+    this.commitment.catch(() => undefined);
+    return preparedResult;
+  }
   // Phase 1: Proposal Broadcasting
   private async executeProposalPhase(): Promise<void> {
     this.phase = RoundPhase.PROPOSE;
     const proposalMessage = {
       type: 'block-proposal',
-      roundId: this.roundId,
+      roundId: this.currentRoundId(),
+      view: this.view,
       block: this.proposedBlock,
-      proposer: this.committee.getPrimaryValidator()?.getId(),
+      proposer: this.committee.getLeaderForView(this.view)?.getId(),
+      justify: this.timeoutCertificates[this.timeoutCertificates.length - 1] || null, // Timeout certificate that opened this view
       timestamp: Date.now()
     };
     // Broadcast to all committee members
@@ -120,7 +217,7 @@ export class ConsensusRound extends EventEmitter {
     }
     // Wait for proposal timeout
     await this.wait(this.config.proposalTimeout);
-    console.log(`📨 Block proposal broadcasted to ${this.committee.size()} validators`);
+    console.log(`📨 Block proposal broadcasted to ${this.committee.size()} validators (view ${this.view})`);
   }
   // Phase 2: Voting
   private async executeVotingPhase(): Promise<void> {
@@ -128,7 +225,8 @@ export class ConsensusRound extends EventEmitter {
     // Request votes from all committee members
     const votingMessage = {
       type: 'voting-request',
-      roundId: this.roundId,
+      roundId: this.currentRoundId(),
+      view: this.view,
       blockHash: this.proposedBlock.hash,
       timeout: this.config.votingTimeout,
       timestamp: Date.now()
@@ -150,51 +248,169 @@ export class ConsensusRound extends EventEmitter {
     await this.wait(this.config.votingTimeout);
   }
   // Phase 3: Commit
-  private async executeCommitPhase(): Promise<void> {
+  private async executeCommitPhase(result: VotingResult): Promise<void> {
     this.phase = RoundPhase.COMMIT;
-    const result = this.calculateResult();
-    if (result.success) {
-      // Broadcast commit message
-      const commitMessage = {
-        type: 'block-commit',
+    // Broadcast commit message with the certificate that justifies it
+    const commitMessage = {
+      type: 'block-commit',
+      roundId: this.currentRoundId(),
+      view: this.view,
+      blockHash: this.proposedBlock.hash,
+      consensusStrength: result.consensusStrength,
+      participants: result.participants,
+      prepared: result.prepared,
+      quorumCertificate: result.quorumCertificate,
+      timestamp: Date.now()
+    };
+    // Notify all committee members of successful consensus
+    await this.sendToCommittee(commitMessage);
+    // Wait for finality timeout
+    await this.wait(this.config.finalityTimeout);
+    if (this.aborted) {
+      throw new Error('Consensus round aborted during commit');
+    }
+  }
+  private async broadcastReject(reason: string): Promise<void> {
+    const rejectMessage = {
+      type: 'block-reject',
+      roundId: this.currentRoundId(),
+      view: this.view,
+      blockHash: this.proposedBlock.hash,
+      reason,
+      timestamp: Date.now()
+    };
+    await this.sendToCommittee(rejectMessage);
+  }
+  // Best effort: unreachable members catch up from the certificates in later messages
+  private async sendToCommittee(message: any): Promise<void> {
+    for (const validator of this.committee.getValidators()) {
+      try {
+        await this.p2pNode.sendMessage(validator.getId(), message);
+      } catch (error) {
+      }
+    }
+  }
+  // View change
+  /**
+   * Abandon the current view: sign timeout votes for local committee members, collect a
+   * timeout quorum into a certificate and move to the next view's leader
+   */
+  private async changeView(reason: string): Promise<void> {
+    this.phase = RoundPhase.VIEW_CHANGE;
+    const view = this.view;
+    console.warn(`⏭️ View ${view} of round ${this.roundId} failed: ${reason}`);
+    this.emit('view-timeout', { view, reason });
+    const localVotes: TimeoutVote[] = [];
+    for (const validator of this.committee.getValidators()) {
+      if (!validator.getPrivateKey()) continue;
+      const vote = ViewChange.signTimeout({
+        validatorId: validator.getId(),
+        height: this.proposedBlock.height,
         roundId: this.roundId,
-        blockHash: this.proposedBlock.hash,
-        consensusStrength: result.consensusStrength,
-        participants: result.participants,
+        view,
+        prepared: this.lock.getLocked(),
         timestamp: Date.now()
-      };
-      // Notify all committee members of successful consensus
-      for (const validator of this.committee.getValidators()) {
-        try {
-          await this.p2pNode.sendMessage(validator.getId(), commitMessage);
-        } catch (error) {
-        }
+      }, validator.getPrivateKey());
+      if (this.addTimeoutVote(vote)) localVotes.push(vote);
+    }
+    const timeoutMessage = {
+      type: 'view-timeout',
+      roundId: this.roundId,
+      view,
+      votes: localVotes,
+      timestamp: Date.now()
+    };
+    await this.sendToCommittee(timeoutMessage);
+    const certificate = await this.awaitTimeoutCertificate(view);
+    if (!certificate) {
+      throw new Error(`View change from view ${view} failed: no timeout quorum`);
+    }
+    await this.enterView(certificate);
+  }
+  private async awaitTimeoutCertificate(view: number): Promise<TimeoutCertificate | null> {
+    const required = ViewChange.quorum(this.committee.size(), this.config.byzantineThreshold);
+    const collected = () => Array.from(this.timeoutVotes.get(view)?.values() || []);
+    if (collected().length < required) {
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, this.config.viewChangeTimeout ?? this.config.votingTimeout);
+        this.timeoutQuorumReached = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      this.timeoutQuorumReached = null;
+    }
+    const votes = collected();
+    if (this.aborted || votes.length < required) return null;
+    return ViewChange.createTimeoutCertificate(votes);
+  }
+  /**
+   * Start the view after a timeout certificate. A block some quorum may have prepared
+   * must be re-proposed; otherwise the new leader proposes a fresh block.
+   */
+  private async enterView(certificate: TimeoutCertificate): Promise<void> {
+    this.timeoutCertificates.push(certificate);
+    this.view = certificate.view + 1;
+    this.cleanup();
+    this.votes.clear();
+    const leader = this.committee.getLeaderForView(this.view);
+    if (!leader) {
+      throw new Error(`No leader for view ${this.view}`);
+    }
+    let block: Block | undefined;
+    if (certificate.highPrepared) {
+      block = this.proposals.get(certificate.highPrepared.blockHash);
+      if (!block) {
+        throw new Error(`Prepared block ${certificate.highPrepared.blockHash} from view ${certificate.highPrepared.view} is unknown`);
       }
     } else {
-      // Broadcast rejection message
-      const rejectMessage = {
-        type: 'block-reject',
-        roundId: this.roundId,
-        blockHash: this.proposedBlock.hash,
-        reason: result.reason,
-        timestamp: Date.now()
-      };
-      for (const validator of this.committee.getValidators()) {
-        try {
-          await this.p2pNode.sendMessage(validator.getId(), rejectMessage);
-        } catch (error) {
-        }
+      if (!this.proposer) {
+        throw new Error(`No proposer for view ${this.view}`);
       }
+      block = await this.proposer(leader, this.view, certificate);
     }
-    // Wait for finality timeout
-    await this.wait(this.config.finalityTimeout);
+    if (!this.lock.canVoteFor(block.hash, certificate.highPrepared)) {
+      throw new Error(`View ${this.view} proposal ${block.hash} conflicts with the block locked in view ${this.lock.getLocked()!.view}`);
+    }
+    this.proposedBlock = block;
+    this.proposals.set(block.hash, block);
+    console.log(`🔁 Round ${this.roundId} entered view ${this.view} led by ${leader.getId()}`);
+    this.emit('view-change', { view: this.view, leader: leader.getId(), certificate });
+  }
+  /**
+   * Verify and record a timeout vote; returns false when it is rejected or a duplicate
+   */
+  private addTimeoutVote(vote: TimeoutVote): boolean {
+    if (vote?.roundId !== this.roundId || vote.height !== this.proposedBlock.height || vote.view < this.view) {
+      return false;
+    }
+    const validator = this.committee.getValidators().find(v => v.getId() === vote.validatorId);
+    if (!validator || !ViewChange.verifyTimeout(vote, validator.getPublicKey())) {
+      return false;
+    }
+    if (vote.prepared) {
+      if (ViewChange.verifyPrepared(vote, this.committee, this.config.byzantineThreshold)) {
+        return false;
+      }
+      // A newer prepared block seen by a peer moves our lock forward
+      this.lock.lock(vote.prepared);
+    }
+    const votes = this.timeoutVotes.get(vote.view) || new Map<string, TimeoutVote>();
+    if (votes.has(vote.validatorId)) return false;
+    votes.set(vote.validatorId, vote);
+    this.timeoutVotes.set(vote.view, votes);
+    if (vote.view === this.view &&
+        votes.size >= ViewChange.quorum(this.committee.size(), this.config.byzantineThreshold)) {
+      this.timeoutQuorumReached?.();
+    }
+    return true;
   }
   // Message handling
   private setupNetworkHandlers(): void {
     // Already handled in ProofOfEmotionEngine, but we can process specific round messages
   }
   async handleMessage(message: any): Promise<void> {
-    if (message.roundId !== this.roundId) return;
+    if (message.roundId !== this.roundId && message.roundId !== this.currentRoundId()) return;
     switch (message.type) {
       case 'vote-response':
         await this.handleVoteResponse(message);
@@ -202,18 +418,40 @@ export class ConsensusRound extends EventEmitter {
       case 'vote-timeout':
         this.handleVoteTimeout(message.validatorId);
         break;
+      case 'view-timeout':
+        for (const vote of message.votes || []) {
+          this.addTimeoutVote(vote);
+        }
+        break;
       default:
         console.warn(`Unknown message type in consensus round: ${message.type}`);
     }
   }
   private async handleVoteResponse(message: any): Promise<void> {
     const { validatorId, vote } = message;
-    // Validate vote
-    if (!this.isValidVote(vote)) {
+    // Check if validator is in committee
+    if (!this.committee.hasValidator(validatorId) || vote?.validatorId !== validatorId) {
       return;
     }
-    // Check if validator is in committee
-    if (!this.committee.hasValidator(validatorId)) {
+    if (this.equivocators.has(validatorId) || !this.hasValidSignature(vote)) {
+      return;
+    }
+    // A second signed vote for a different block at this height and view is provable double signing
+    const signedKey = `${vote.roundId}|${validatorId}`;
+    const previous = this.signedVotes.get(signedKey);
+    if (previous && EvidencePool.conflicts(previous, vote)) {
+      const evidence = EvidencePool.createEvidence(previous, vote);
+      this.equivocators.add(validatorId);
+      this.votes.delete(validatorId);
+      console.warn(`⚔️ Equivocation by ${validatorId} at height ${vote.height} (round ${vote.roundId})`);
+      this.emit('equivocation', evidence);
+      return;
+    }
+    if (!previous) {
+      this.signedVotes.set(signedKey, vote);
+    }
+    // Validate vote
+    if (!this.isValidVote(vote)) {
       return;
     }
     // Check if already voted
@@ -244,6 +482,8 @@ export class ConsensusRound extends EventEmitter {
     // Create timeout vote (counts as abstain/reject)
     const timeoutVote: Vote = {
       validatorId,
+      height: this.proposedBlock.height,
+      roundId: this.currentRoundId(),
       blockHash: this.proposedBlock.hash,
       emotionalScore: 0,
       signature: '',
@@ -254,15 +494,12 @@ export class ConsensusRound extends EventEmitter {
     this.votes.set(validatorId, timeoutVote);
     this.emit('vote-timeout', { validatorId });
   }
-  // CRITICAL FIX: Vote validation with real cryptographic verification
-  private async isValidVote(vote: Vote): Promise<boolean> {
-    // Check required fields
-    if (!vote.validatorId || !vote.blockHash || !vote.signature) {
-      return false;
-    }
-    
-    // Check block hash matches
-    if (vote.blockHash !== this.proposedBlock.hash) {
+  // Vote validation; signatures are checked first in hasValidSignature
+  private isValidVote(vote: Vote): boolean {
+    // Check vote is for the current view's proposal
+    if (vote.blockHash !== this.proposedBlock.hash ||
+        vote.height !== this.proposedBlock.height ||
+        vote.roundId !== this.currentRoundId()) {
       return false;
     }
     
@@ -275,46 +512,32 @@ export class ConsensusRound extends EventEmitter {
     if (Date.now() - vote.timestamp > 60000) { // 1 minute max age
       return false;
     }
-    
-    // CRITICAL: Verify cryptographic signature
-    try {
-      const validators = this.committee.getValidators();
-      const validator = validators.find(v => v.getId() === vote.validatorId);
-      if (!validator) {
-        console.warn(`Unknown validator ${vote.validatorId}`);
-        return false;
-      }
-      
-      const voteData = JSON.stringify({
-        validatorId: vote.validatorId,
-        blockHash: vote.blockHash,
-        emotionalScore: vote.emotionalScore,
-        timestamp: vote.timestamp,
-        approved: vote.approved
-      });
-      
-      const messageHash = crypto.createHash('sha256').update(voteData).digest();
-      const publicKey = Buffer.from(validator.getPublicKey(), 'hex');
-      
-      const { ProductionCrypto } = await import('../crypto/ProductionCrypto');
-      const signatureObj = {
-        signature: vote.signature,
-        algorithm: 'ECDSA-secp256k1' as const,
-        r: '', s: '', recovery: 0
-      };
-      
-      const isValidSignature = ProductionCrypto.verifyECDSA(messageHash, signatureObj, publicKey);
-      if (!isValidSignature) {
-        console.error(`Invalid signature for vote from ${vote.validatorId}`);
-        return false;
-      }
-      
-      return true;
-      
-    } catch (error) {
-      console.error('Vote signature verification failed:', error);
+    return true;
+  }
+  // CRITICAL: Verify cryptographic signature against the committee member's key
+  private hasValidSignature(vote: Vote): boolean {
+    if (!vote.validatorId || !vote.blockHash || !vote.signature) {
       return false;
     }
+    const validator = this.committee.getValidators().find(v => v.getId() === vote.validatorId);
+    if (!validator) {
+      console.warn(`Unknown validator ${vote.validatorId}`);
+      return false;
+    }
+    if (!EvidencePool.verifyVote(vote, validator.getPublicKey())) {
+      console.error(`Invalid signature for vote from ${vote.validatorId}`);
+      return false;
+    }
+    // An approval only counts if it can be aggregated into the quorum certificate
+    if (vote.approved && !QuorumCertificates.verifyShare(
+      { ...this.commitMessage(vote.blockHash), height: vote.height, roundId: vote.roundId },
+      vote.aggregateShare || '',
+      validator.getBlsPublicKey()
+    )) {
+      console.error(`Invalid aggregate signature share in vote from ${vote.validatorId}`);
+      return false;
+    }
+    return true;
   }
   // Result calculation
   private calculateResult(): VotingResult {
@@ -362,6 +585,27 @@ export class ConsensusRound extends EventEmitter {
     };
   }
   // Utilities
+  private currentRoundId(): string {
+    return ViewChange.viewRoundId(this.roundId, this.view);
+  }
+  private commitMessage(blockHash: string): CommitMessage {
+    return {
+      height: this.proposedBlock.height,
+      roundId: this.currentRoundId(),
+      blockHash,
+      committeeSize: this.committee.size()
+    };
+  }
+  private signerSet(): SignerKey[] {
+    return this.validatorSet.map(validator => ({
+      validatorId: validator.getId(),
+      blsPublicKey: validator.getBlsPublicKey(),
+      blsProof: validator.getBlsProof()
+    }));
+  }
+  private maxViews(): number {
+    return this.config.maxViews ?? Math.max(1, this.committee.size());
+  }
   private async wait(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
@@ -377,6 +621,7 @@ export class ConsensusRound extends EventEmitter {
     if (this.aborted) return;
     this.aborted = true;
     this.phase = RoundPhase.ABORTED;
+    this.timeoutQuorumReached?.();
     console.log(`🛑 Aborting consensus round ${this.roundId}`);
     // Notify committee members
     const abortMessage = {
@@ -404,6 +649,18 @@ export class ConsensusRound extends EventEmitter {
   getProposedBlock(): Block {
     return this.proposedBlock;
   }
+  getView(): number {
+    return this.view;
+  }
+  getLockedCertificate(): PreparedCertificate | null {
+    return this.lock.getLocked();
+  }
+  getTimeoutCertificates(): TimeoutCertificate[] {
+    return [...this.timeoutCertificates];
+  }
+  getQuorumCertificate(): QuorumCertificate | null {
+    return this.result?.quorumCertificate || null;
+  }
   getCommittee(): EmotionalCommittee {
     return this.committee;
   }
@@ -426,6 +683,7 @@ export class ConsensusRound extends EventEmitter {
   getStatistics(): {
     duration: number;
     phase: RoundPhase;
+    view: number;
     voteCount: number;
     consensusStrength: number;
     averageEmotionalScore: number;
@@ -434,6 +692,7 @@ export class ConsensusRound extends EventEmitter {
     return {
       duration: this.getDuration(),
       phase: this.phase,
+      view: this.view,
       voteCount: this.votes.size,
       consensusStrength: result.consensusStrength,
       averageEmotionalScore: result.averageEmotionalScore
@@ -1,6 +1,7 @@
-import * as _ from 'lodash';
+import _ from 'lodash';
 import { EmotionalValidator } from './EmotionalValidator';
 import { Block } from '../server/blockchain/Block';
+import { RandomnessBeacon, BeaconState, CommitteeSelectionProof } from './RandomnessBeacon';
 /**
  * Dynamic validator committee selection for Proof of Emotion consensus
  * Handles rotation, selection, and anti-collusion mechanisms
@@ -18,6 +19,9 @@ export interface CommitteeSelection {
   averageEmotionalScore: number;
   diversityScore: number;
   selectionTimestamp: number;
+  seed: string; // Beacon seed the committee was drawn from
+  beaconRound: number;
+  proof: CommitteeSelectionProof; // Replayable with RandomnessBeacon.verifySelection
 }
 export class EmotionalCommittee {
   private config: CommitteeConfig;
@@ -34,24 +38,37 @@ export class EmotionalCommittee {
       ...config
     };
   }
-  async selectValidators(eligibleValidators: EmotionalValidator[]): Promise<void> {
-    if (eligibleValidators.length < this.config.size) {
-      throw new Error(`Insufficient validators: ${eligibleValidators.length} < ${this.config.size} required`);
+  /**
+   * Draw the committee from the beacon seed, weighted by stakeOf. Weights must come from
+   * chain state (bonded and delegated stake at the local tip), never from local
+   * observations such as biometrics or past selections, so that every node at the same
+   * height reproduces the draw and verifySelection can replay it.
+   */
+  async selectValidators(
+    eligibleValidators: EmotionalValidator[],
+    beacon: BeaconState,
+    stakeOf: (validatorId: string) => number
+  ): Promise<void> {
+    // Jailed validators sit out until an unjail transaction is included
+    const candidates = eligibleValidators.filter(validator => !validator.isJailed());
+    if (candidates.length < this.config.size) {
+      throw new Error(`Insufficient validators: ${candidates.length} < ${this.config.size} required` +
+        (candidates.length < eligibleValidators.length ? ` (${eligibleValidators.length - candidates.length} jailed)` : ''));
     }
-    // Calculate selection scores for all validators
-    const scoredValidators = await this.calculateSelectionScores(eligibleValidators);
-    // Apply anti-collusion filters
-    const filteredValidators = this.applyAntiCollusionFilters(scoredValidators);
-    // Select primary validator (highest score)
-    this.primaryValidator = filteredValidators[0]?.validator || null;
-    if (!this.primaryValidator) {
-      throw new Error('No suitable primary validator found');
-    }
-    // Select backup validators using weighted random selection
-    this.backupValidators = this.selectBackupValidators(
-      filteredValidators.slice(1),
-      this.config.size - 1
+    // Draw every seat from the beacon seed, weighted by stake; the first draw is the primary.
+    // A validator without chain stake yet keeps the minimum weight of 1.
+    const proof = RandomnessBeacon.selectWeighted(
+      beacon,
+      candidates.map(validator => ({
+        validatorId: validator.getId(),
+        weight: Math.max(1, Math.floor(stakeOf(validator.getId())))
+      })),
+      this.config.size
     );
+    const byId = new Map(candidates.map(validator => [validator.getId(), validator]));
+    const drawn = proof.selected.map(id => byId.get(id)!);
+    this.primaryValidator = drawn[0];
+    this.backupValidators = drawn.slice(1);
     // Combine primary and backups
     this.selectedValidators = [this.primaryValidator, ...this.backupValidators];
     // Record selection
@@ -61,7 +78,10 @@ export class EmotionalCommittee {
       totalEmotionalScore: _.sumBy(this.selectedValidators, v => v.getEmotionalScore()),
       averageEmotionalScore: _.meanBy(this.selectedValidators, v => v.getEmotionalScore()),
       diversityScore: this.calculateDiversityScore(this.selectedValidators),
-      selectionTimestamp: Date.now()
+      selectionTimestamp: Date.now(),
+      seed: beacon.seed,
+      beaconRound: beacon.round,
+      proof
     };
     this.selectionHistory.push(selection);
     // Keep only recent history
@@ -69,120 +89,6 @@ export class EmotionalCommittee {
       this.selectionHistory = this.selectionHistory.slice(-100);
     }
   }
-  private async calculateSelectionScores(validators: EmotionalValidator[]): Promise<Array<{ validator: EmotionalValidator; score: number }>> {
-    const scoredValidators = [];
-    for (const validator of validators) {
-      // Base score: emotional fitness
-      let score = validator.getEmotionalScore();
-      // Reputation bonus (0-20 points)
-      const reputationBonus = (validator.getReputationScore() / 100) * 20;
-      score += reputationBonus;
-      // Stake weight (0-10 points)
-      const stakeWeight = Math.min(10, (validator.getStake() / 50000) * 10);
-      score += stakeWeight;
-      // Trend bonus/penalty (-5 to +5 points)
-      const trend = validator.getScoreTrend();
-      const trendBonus = trend === 'improving' ? 5 : trend === 'declining' ? -5 : 0;
-      score += trendBonus;
-      // Confidence multiplier
-      const confidenceMultiplier = validator.getConfidence() / 100;
-      score *= confidenceMultiplier;
-      // Diversity bonus (calculated later)
-      const diversityBonus = this.calculateValidatorDiversityBonus(validator);
-      score += diversityBonus;
-      // Anti-repetition penalty
-      const repetitionPenalty = this.calculateRepetitionPenalty(validator);
-      score -= repetitionPenalty;
-      scoredValidators.push({ validator, score });
-    }
-    // Sort by score (highest first)
-    return scoredValidators.sort((a, b) => b.score - a.score);
-  }
-  private calculateValidatorDiversityBonus(validator: EmotionalValidator): number {
-    // Bonus for validators not recently selected
-    const recentSelections = this.selectionHistory.slice(-5);
-    const recentValidatorIds = new Set(
-      recentSelections.flatMap(s => [s.primary.getId(), ...s.backups.map(v => v.getId())])
-    );
-    return recentValidatorIds.has(validator.getId()) ? 0 : 10;
-  }
-  private calculateRepetitionPenalty(validator: EmotionalValidator): number {
-    // Penalty for validators selected too frequently
-    const recentSelections = this.selectionHistory.slice(-10);
-    const selectionCount = recentSelections.filter(s => 
-      s.primary.getId() === validator.getId() || 
-      s.backups.some(v => v.getId() === validator.getId())
-    ).length;
-    return Math.min(20, selectionCount * 2);
-  }
-  private applyAntiCollusionFilters(scoredValidators: Array<{ validator: EmotionalValidator; score: number }>): Array<{ validator: EmotionalValidator; score: number }> {
-    // Filter out validators with suspicious patterns
-    return scoredValidators.filter(({ validator }) => {
-      // Check for abnormal emotional patterns
-      if (this.detectAbnormalEmotionalPattern(validator)) {
-        return false;
-      }
-      // Check for collusion indicators
-      if (this.detectCollusionIndicators(validator)) {
-        return false;
-      }
-      return true;
-    });
-  }
-  private detectAbnormalEmotionalPattern(validator: EmotionalValidator): boolean {
-    // Simple heuristic: perfect scores are suspicious
-    const emotionalScore = validator.getEmotionalScore();
-    const confidence = validator.getConfidence();
-    // Perfect score with perfect confidence is suspicious
-    if (emotionalScore >= 99 && confidence >= 99) {
-      return true;
-    }
-    // Score that's too consistent (no natural variation)
-    // This would require historical data analysis in a real implementation
-    return false;
-  }
-  private detectCollusionIndicators(validator: EmotionalValidator): boolean {
-    // Check for validators that always have similar scores (possible coordination)
-    // This would require analyzing score correlations with other validators
-    // For now, just check reputation
-    return validator.getReputationScore() < 30;
-  }
-  private selectBackupValidators(
-    scoredValidators: Array<{ validator: EmotionalValidator; score: number }>,
-    count: number
-  ): EmotionalValidator[] {
-    if (scoredValidators.length <= count) {
-      return scoredValidators.map(sv => sv.validator);
-    }
-    // Use weighted random selection to ensure fairness
-    const selected: EmotionalValidator[] = [];
-    const candidates = [...scoredValidators];
-    for (let i = 0; i < count; i++) {
-      if (candidates.length === 0) break;
-      // Calculate selection probabilities based on scores
-      const totalScore = _.sumBy(candidates, 'score');
-      const probabilities = candidates.map(c => c.score / totalScore);
-      // Weighted random selection
-      const selectedIndex = this.weightedRandomSelect(probabilities);
-      selected.push(candidates[selectedIndex].validator);
-      // Remove selected validator from candidates
-      candidates.splice(selectedIndex, 1);
-    }
-    return selected;
-  }
-  private weightedRandomSelect(probabilities: number[]): number {
-    const randomByte = crypto.getRandomValues(new Uint8Array(1))[0];
-    const random = randomByte / 255;
-    let cumulativeProbability = 0;
-    for (let i = 0; i < probabilities.length; i++) {
-      cumulativeProbability += probabilities[i];
-      if (random <= cumulativeProbability) {
-        return i;
-      }
-    }
-    // Fallback to last index
-    return probabilities.length - 1;
-  }
   private calculateDiversityScore(validators: EmotionalValidator[]): number {
     if (validators.length === 0) return 0;
     // Calculate diversity based on different factors
@@ -208,19 +114,20 @@ export class EmotionalCommittee {
     return _.mean(squaredDiffs);
   }
   // Block proposal broadcasting
-  async broadcastProposal(block: Block): Promise<void> {
-    if (!this.primaryValidator) {
+  async broadcastProposal(block: Block, view: number = 0): Promise<void> {
+    const leader = this.getLeaderForView(view);
+    if (!leader) {
       throw new Error('No primary validator selected');
     }
-    console.log(`📡 Broadcasting block proposal from ${this.primaryValidator.getId()}`);
+    console.log(`📡 Broadcasting block proposal from ${leader.getId()} (view ${view})`);
     // In a real implementation, this would use the P2P network
-    // For now, we just validate that the primary validator can propose
-    if (!this.primaryValidator.isActive()) {
-      throw new Error('Primary validator is not active');
+    // For now, we just validate that the view's leader can propose
+    if (!leader.isActive()) {
+      throw new Error(view === 0 ? 'Primary validator is not active' : `View ${view} leader is not active`);
     }
-    // Validate the block was actually proposed by the primary validator
-    if (block.validatorId !== this.primaryValidator.getId()) {
-      throw new Error('Block not proposed by primary validator');
+    // Validate the block was actually proposed by the view's leader
+    if (block.validatorId !== leader.getId()) {
+      throw new Error(view === 0 ? 'Block not proposed by primary validator' : `Block not proposed by view ${view} leader`);
     }
   }
   // Committee management
@@ -250,6 +157,15 @@ export class EmotionalCommittee {
   getBackupValidators(): EmotionalValidator[] {
     return [...this.backupValidators];
   }
+  /**
+   * Leader of a view: the primary for view 0, then each backup in draw order, wrapping around
+   */
+  getLeaderForView(view: number): EmotionalValidator | null {
+    if (view === 0 || this.backupValidators.length === 0) {
+      return this.primaryValidator;
+    }
+    return this.backupValidators[(view - 1) % this.backupValidators.length];
+  }
   getValidators(): EmotionalValidator[] {
     return [...this.selectedValidators];
   }
@@ -342,13 +258,17 @@ export class EmotionalCommittee {
       }
     }
   }
-  async emergencyReselection(eligibleValidators: EmotionalValidator[]): Promise<void> {
+  async emergencyReselection(
+    eligibleValidators: EmotionalValidator[],
+    beacon: BeaconState,
+    stakeOf: (validatorId: string) => number
+  ): Promise<void> {
     console.log('🚨 Emergency committee reselection triggered');
     // Clear current selection
     this.selectedValidators = [];
     this.primaryValidator = null;
     this.backupValidators = [];
     // Perform new selection
-    await this.selectValidators(eligibleValidators);
+    await this.selectValidators(eligibleValidators, beacon, stakeOf);
   }
 }
\ No newline at end of file
@@ -1,15 +1,21 @@
 import { EventEmitter } from 'eventemitter3';
 import { BehaviorSubject, Observable } from 'rxjs';
 import { performance } from 'perf_hooks';
+import { createHash } from 'crypto';
 import { BiometricReading } from '../biometric/BiometricDevice';
 import { AuthenticityProof } from '../biometric/AuthenticityProof';
 import { BiometricWallet } from '../biometric/BiometricWallet';
+import { QuorumCertificates } from '../crypto/QuorumCertificate';
+import type { JailRecord } from './ValidatorJail';
+import type { ValidatorSetUpdate } from './ValidatorSetManager';
 import { VALIDATOR_CONFIG, VALIDATOR_THRESHOLDS, ValidatorConfigHelpers } from '../shared/ValidatorConfig';
 
 // Type definitions
 export interface KeyPair {
   publicKey: string;
   privateKey: string;
+  blsPublicKey?: string; // Remote validators; derived from the private key when it is held
+  blsProof?: string; // Proof of possession of the BLS key; derived like blsPublicKey
 }
 
 export interface Block {
@@ -27,6 +33,8 @@ export interface Block {
   signature: string;
   proposerPublicKey: string;
   transactions: any[];
+  validatorSetHash?: string; // Next validator set, on the last block of an epoch; covered by hash and signature
+  validatorSet?: ValidatorSetUpdate;
 }
 /**
  * Enhanced validator with real-time emotional monitoring
@@ -63,6 +71,7 @@ export class EmotionalValidator extends EventEmitter {
   private stake: number;
   private balance: number;
   private isActiveStatus = true;
+  private jailRecord: JailRecord | null = null; // Mirrored from ValidatorJail
   // Emotional state management
   private emotionalState$ = new BehaviorSubject<EmotionalState>({
     currentScore: 0,
@@ -117,6 +126,22 @@ export class EmotionalValidator extends EventEmitter {
     return this.keyPair.publicKey;
   }
 
+  // BLS key that verifies this validator's share of quorum certificates
+  getBlsPublicKey(): string {
+    if (!this.keyPair.blsPublicKey && this.keyPair.privateKey) {
+      this.keyPair.blsPublicKey = QuorumCertificates.blsPublicKey(this.keyPair.privateKey);
+    }
+    return this.keyPair.blsPublicKey || '';
+  }
+
+  // Proof of possession that lets this validator's BLS key join certificate aggregates
+  getBlsProof(): string {
+    if (!this.keyPair.blsProof && this.keyPair.privateKey) {
+      this.keyPair.blsProof = QuorumCertificates.proofOfPossession(this.keyPair.privateKey);
+    }
+    return this.keyPair.blsProof || '';
+  }
+
   getEmotionalScore(): number {
     return this.emotionalState$.value.currentScore;
   }
@@ -173,6 +198,7 @@ export class EmotionalValidator extends EventEmitter {
     transactions: Transaction[];
     emotionalProof: any;
     timestamp: number;
+    validatorSet?: ValidatorSetUpdate | null; // Next validator set, when the block ends an epoch
   }): Promise<Block> {
     if (!this.isActiveStatus) {
       throw new Error('Validator is not active');
@@ -192,11 +218,41 @@ export class EmotionalValidator extends EventEmitter {
     );
     // Sign the block
     await block.sign(this.keyPair);
+    // The next validator set is committed by the block hash and the proposer's signature
+    if (blockData.validatorSet) {
+      const { ProductionCrypto } = await import('../crypto/ProductionCrypto');
+      block.validatorSet = blockData.validatorSet;
+      block.validatorSetHash = blockData.validatorSet.validatorSetHash;
+      block.hash = EmotionalValidator.hashWithValidatorSet(block.hash, block.validatorSetHash);
+      block.signature = ProductionCrypto.signECDSA(
+        EmotionalValidator.proposalDigest(block),
+        Buffer.from(this.keyPair.privateKey, 'hex')
+      ).signature;
+      block.proposerPublicKey = this.keyPair.publicKey;
+    }
     // Update metrics
     this.metrics.totalBlocksProposed++;
     this.emit('block-proposed', block);
     return block;
   }
+  /**
+   * Digest a proposer signs: the block contents, plus the next validator set hash on an
+   * epoch-ending block
+   */
+  static proposalDigest(block: any): Buffer {
+    return createHash('sha256').update(JSON.stringify({
+      previousHash: block.previousHash,
+      transactions: block.transactions,
+      timestamp: block.timestamp,
+      emotionalScore: block.emotionalScore,
+      emotionalProof: block.emotionalProof,
+      ...(block.validatorSetHash ? { validatorSetHash: block.validatorSetHash } : {})
+    })).digest();
+  }
+  // Hash of an epoch-ending block: its content hash bound to the validator set it commits
+  static hashWithValidatorSet(contentHash: string, validatorSetHash: string): string {
+    return createHash('sha256').update(JSON.stringify({ contentHash, validatorSetHash })).digest('hex');
+  }
   // Block validation
   // CRITICAL FIX: Block validation with real cryptographic verification
   async validateBlock(block: Block): Promise<{ valid: boolean; reason?: string }> {
@@ -206,27 +262,18 @@ export class EmotionalValidator extends EventEmitter {
         return { valid: false, reason: 'Missing block hash or signature' };
       }
       
+      // A committed validator set must be the one carried, and covered by the hash and signature
+      if (block.validatorSetHash && block.validatorSet?.validatorSetHash !== block.validatorSetHash) {
+        return { valid: false, reason: 'Block carries a validator set other than the one it commits to' };
+      }
+      
       // CRITICAL: Verify block proposer signature
       try {
-        const blockData = JSON.stringify({
-          previousHash: block.previousHash,
-          transactions: block.transactions,
-          timestamp: block.timestamp,
-          emotionalScore: block.emotionalScore,
-          emotionalProof: block.emotionalProof
-        });
-        
-        const messageHash = crypto.createHash('sha256').update(blockData).digest();
+        const messageHash = EmotionalValidator.proposalDigest(block);
         const proposerPublicKey = Buffer.from(block.proposerPublicKey || this.keyPair.publicKey, 'hex');
         
         const { ProductionCrypto } = await import('../crypto/ProductionCrypto');
-        const signatureObj = {
-          signature: block.signature,
-          algorithm: 'ECDSA-secp256k1' as const,
-          r: '', s: '', recovery: 0
-        };
-        
-        const isValidSignature = ProductionCrypto.verifyECDSA(messageHash, signatureObj, proposerPublicKey);
+        const isValidSignature = ProductionCrypto.verifyECDSASignature(messageHash, block.signature, proposerPublicKey);
         if (!isValidSignature) {
           return { valid: false, reason: 'Invalid block proposer signature' };
         }
@@ -801,6 +848,16 @@ export class EmotionalValidator extends EventEmitter {
   isActive(): boolean {
     return this.isActiveStatus && this.stake >= 10000;
   }
+  // Jailed validators stay registered but are never selected into a committee
+  isJailed(): boolean {
+    return !!this.jailRecord && !this.jailRecord.releasedAt;
+  }
+  getJailRecord(): JailRecord | null {
+    return this.jailRecord;
+  }
+  setJailRecord(record: JailRecord | null): void {
+    this.jailRecord = record;
+  }
   getReputationScore(): number {
     return this.metrics.reputationScore;
   }
@@ -0,0 +1,126 @@
+import { EventEmitter } from 'eventemitter3';
+import * as crypto from 'crypto';
+import { ProductionCrypto } from '../crypto/ProductionCrypto';
+import type { Vote } from './ConsensusRound';
+/**
+ * Equivocation evidence for Proof of Emotion consensus
+ * Two validly signed votes from one validator for different blocks at the same
+ * height and round prove double signing. Evidence is gossiped, included in blocks
+ * and re-verified by every node before the state transition slashes the offender.
+ */
+export interface EquivocationEvidence {
+  type: 'double_signing';
+  validatorId: string;
+  height: number;
+  roundId: string;
+  voteA: Vote; // Ordered by blockHash so both reporters produce identical evidence
+  voteB: Vote;
+  hash: string; // sha256 of the canonical evidence
+}
+export class EvidencePool extends EventEmitter {
+  private pending = new Map<string, EquivocationEvidence>(); // evidence hash -> evidence
+  private committed = new Set<string>(); // offence keys already included in a block
+  /**
+   * Queue verified evidence for inclusion; returns false for duplicates and committed offences
+   */
+  add(evidence: EquivocationEvidence): boolean {
+    const offence = EvidencePool.offenceKey(evidence);
+    if (this.pending.has(evidence.hash) || this.committed.has(offence)) {
+      return false;
+    }
+    for (const queued of this.pending.values()) {
+      if (EvidencePool.offenceKey(queued) === offence) return false;
+    }
+    this.pending.set(evidence.hash, evidence);
+    this.emit('evidence', evidence);
+    return true;
+  }
+  selectForBlock(limit: number = 10): EquivocationEvidence[] {
+    return Array.from(this.pending.values())
+      .sort((a, b) => a.height - b.height || (a.hash < b.hash ? -1 : 1))
+      .slice(0, limit);
+  }
+  markIncluded(evidence: EquivocationEvidence[]): void {
+    for (const item of evidence) {
+      this.pending.delete(item.hash);
+      this.committed.add(EvidencePool.offenceKey(item));
+    }
+  }
+  getPending(): EquivocationEvidence[] {
+    return Array.from(this.pending.values());
+  }
+  size(): number {
+    return this.pending.size;
+  }
+  // Vote signatures
+  static signVote(vote: Omit<Vote, 'signature'>, privateKey: string): Vote {
+    const signature = ProductionCrypto.signECDSA(EvidencePool.hashVote(vote), Buffer.from(privateKey, 'hex'));
+    return { ...vote, signature: signature.signature };
+  }
+  static verifyVote(vote: Vote, publicKey: string): boolean {
+    if (!publicKey || !vote.signature) return false;
+    return ProductionCrypto.verifyECDSASignature(EvidencePool.hashVote(vote), vote.signature, Buffer.from(publicKey, 'hex'));
+  }
+  // Evidence
+  /**
+   * Two votes conflict when one validator signed different blocks for the same height and round
+   */
+  static conflicts(a: Vote, b: Vote): boolean {
+    return a.validatorId === b.validatorId &&
+      a.height === b.height &&
+      a.roundId === b.roundId &&
+      a.blockHash !== b.blockHash;
+  }
+  static createEvidence(a: Vote, b: Vote): EquivocationEvidence {
+    if (!EvidencePool.conflicts(a, b)) {
+      throw new Error('Votes do not conflict');
+    }
+    const [voteA, voteB] = a.blockHash < b.blockHash ? [a, b] : [b, a];
+    const evidence = {
+      type: 'double_signing' as const,
+      validatorId: a.validatorId,
+      height: a.height,
+      roundId: a.roundId,
+      voteA,
+      voteB
+    };
+    return { ...evidence, hash: EvidencePool.hashEvidence(evidence) };
+  }
+  /**
+   * Check that both votes are the validator's, signed by its bound key, and conflict in the
+   * canonical order the evidence hash commits to; returns the first mismatch, or null
+   */
+  static verifyEvidence(evidence: EquivocationEvidence, publicKey: string | null | undefined): string | null {
+    const { voteA, voteB } = evidence;
+    if (evidence.type !== 'double_signing') return `unknown evidence type ${evidence.type}`;
+    if (!voteA || !voteB || !EvidencePool.conflicts(voteA, voteB)) return 'votes do not conflict';
+    if (voteA.blockHash >= voteB.blockHash) return 'votes are not in canonical order';
+    if (voteA.validatorId !== evidence.validatorId || voteA.height !== evidence.height || voteA.roundId !== evidence.roundId) {
+      return 'evidence fields do not match its votes';
+    }
+    if (EvidencePool.hashEvidence(evidence) !== evidence.hash) return 'evidence hash mismatch';
+    if (!publicKey) return `no public key bound for ${evidence.validatorId}`;
+    if (!EvidencePool.verifyVote(voteA, publicKey) || !EvidencePool.verifyVote(voteB, publicKey)) {
+      return 'vote signature is invalid';
+    }
+    return null;
+  }
+  /**
+   * One offence per validator, height and round, however many conflicting votes it signed
+   */
+  static offenceKey(evidence: Pick<EquivocationEvidence, 'validatorId' | 'height' | 'roundId'>): string {
+    return `${evidence.validatorId}:${evidence.height}:${evidence.roundId}`;
+  }
+  private static hashEvidence(evidence: Omit<EquivocationEvidence, 'hash'>): string {
+    const { type, validatorId, height, roundId, voteA, voteB } = evidence;
+    return crypto.createHash('sha256')
+      .update(JSON.stringify({ type, validatorId, height, roundId, voteA: voteA.signature, voteB: voteB.signature, hashA: voteA.blockHash, hashB: voteB.blockHash }))
+      .digest('hex');
+  }
+  private static hashVote(vote: Omit<Vote, 'signature'>): Uint8Array {
+    const { validatorId, height, roundId, blockHash, emotionalScore, timestamp, approved } = vote;
+    return crypto.createHash('sha256')
+      .update(JSON.stringify({ type: 'consensus-vote', validatorId, height, roundId, blockHash, emotionalScore, timestamp, approved }))
+      .digest();
+  }
+}
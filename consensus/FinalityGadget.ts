@@ -0,0 +1,202 @@
+import { EventEmitter } from 'eventemitter3';
+import * as crypto from 'crypto';
+import { desc } from 'drizzle-orm';
+import { db } from '../server/db';
+import { finalizedCheckpoints } from '../shared/schema';
+import { CONFIG } from '../shared/config';
+import { ProductionCrypto } from '../crypto/ProductionCrypto';
+/**
+ * Checkpoint finality gadget for EmotionalChain
+ * Validators sign a vote for every checkpoint block (every checkpointInterval heights);
+ * once votes carrying more than 2/3 of total stake agree on a block it is finalized
+ * and fork choice may never revert it.
+ */
+export interface CheckpointVote {
+  checkpointHeight: number;
+  checkpointHash: string;
+  validatorId: string;
+  signature: string;
+  timestamp: number;
+}
+export interface CheckpointValidator {
+  validatorId: string;
+  stake: number;
+  publicKey: string; // hex encoded secp256k1 public key
+}
+export interface FinalizedCheckpoint {
+  height: number;
+  hash: string;
+  signedStake: number;
+  totalStake: number;
+  votes: CheckpointVote[];
+  finalizedAt: number;
+}
+export interface ChainHead {
+  height: number;
+  hash: string | null;
+}
+export interface ChainHeads {
+  latest: ChainHead; // Current tip, may still be re-orged
+  safe: ChainHead; // finalityDepth blocks below the tip, unlikely to be re-orged
+  finalized: ChainHead | null; // Latest finalized checkpoint, can never be re-orged
+}
+export class FinalityGadget extends EventEmitter {
+  private checkpointInterval: number;
+  private pendingVotes = new Map<string, Map<string, CheckpointVote>>(); // height:hash -> validatorId -> vote
+  private finalized: FinalizedCheckpoint | null = null;
+  constructor(
+    private getValidatorSet: () => CheckpointValidator[],
+    checkpointInterval: number = CONFIG.consensus.checkpointInterval
+  ) {
+    super();
+    this.checkpointInterval = checkpointInterval;
+  }
+  async initialize(): Promise<void> {
+    this.finalized = await FinalityGadget.loadLatestCheckpoint();
+    if (this.finalized) {
+      console.log(`🏁 Finalized checkpoint restored at height ${this.finalized.height}: ${this.finalized.hash.substring(0, 12)}...`);
+    }
+  }
+  isCheckpointHeight(height: number): boolean {
+    return height > 0 && height % this.checkpointInterval === 0;
+  }
+  /**
+   * Record a checkpoint vote; returns the checkpoint if this vote finalized it
+   */
+  async addVote(vote: CheckpointVote): Promise<FinalizedCheckpoint | null> {
+    if (!this.isCheckpointHeight(vote.checkpointHeight)) {
+      throw new Error(`Height ${vote.checkpointHeight} is not a checkpoint height`);
+    }
+    if (this.finalized && vote.checkpointHeight <= this.finalized.height) {
+      // Already final; late votes carry no weight
+      return null;
+    }
+    const validators = this.getValidatorSet();
+    const validator = validators.find(v => v.validatorId === vote.validatorId);
+    if (!validator) {
+      throw new Error(`Checkpoint vote from unknown validator ${vote.validatorId}`);
+    }
+    if (!FinalityGadget.verifyVote(vote, validator.publicKey)) {
+      throw new Error(`Invalid checkpoint vote signature from ${vote.validatorId}`);
+    }
+    const key = `${vote.checkpointHeight}:${vote.checkpointHash}`;
+    const votes = this.pendingVotes.get(key) || new Map<string, CheckpointVote>();
+    votes.set(vote.validatorId, vote);
+    this.pendingVotes.set(key, votes);
+    const stakeById = new Map(validators.map(v => [v.validatorId, v.stake]));
+    const totalStake = validators.reduce((sum, v) => sum + v.stake, 0);
+    const signedStake = Array.from(votes.keys()).reduce((sum, id) => sum + (stakeById.get(id) || 0), 0);
+    if (totalStake === 0 || signedStake * 3 <= totalStake * 2) {
+      return null;
+    }
+    return this.finalize({
+      height: vote.checkpointHeight,
+      hash: vote.checkpointHash,
+      signedStake,
+      totalStake,
+      votes: Array.from(votes.values()),
+      finalizedAt: Date.now()
+    });
+  }
+  getFinalizedCheckpoint(): FinalizedCheckpoint | null {
+    return this.finalized;
+  }
+  getFinalizedHeight(): number {
+    return this.finalized?.height || 0;
+  }
+  /**
+   * Whether replacing the block at this height would cross the finalized checkpoint
+   */
+  isFinalized(height: number): boolean {
+    return !!this.finalized && height <= this.finalized.height;
+  }
+  getHeads(tip: ChainHead): ChainHeads {
+    return FinalityGadget.buildHeads(tip, this.finalized);
+  }
+  static createVote(checkpointHeight: number, checkpointHash: string, validatorId: string, privateKey: string): CheckpointVote {
+    const timestamp = Date.now();
+    const signature = ProductionCrypto.signECDSA(
+      FinalityGadget.hashVote({ checkpointHeight, checkpointHash, validatorId, timestamp }),
+      Buffer.from(privateKey, 'hex')
+    );
+    return { checkpointHeight, checkpointHash, validatorId, signature: signature.signature, timestamp };
+  }
+  static verifyVote(vote: CheckpointVote, publicKey: string): boolean {
+    if (!publicKey) return false;
+    return ProductionCrypto.verifyECDSASignature(FinalityGadget.hashVote(vote), vote.signature, Buffer.from(publicKey, 'hex'));
+  }
+  /**
+   * Check a checkpoint a peer presents against a validator set this node already trusts:
+   * each vote must be for the checkpoint block and signed by a distinct member, and the
+   * signers must hold more than 2/3 of the set's stake. Returns why the checkpoint cannot
+   * be trusted, or null.
+   */
+  static verifyCheckpoint(checkpoint: FinalizedCheckpoint, validators: CheckpointValidator[]): string | null {
+    const byId = new Map(validators.map(v => [v.validatorId, v]));
+    const signers = new Set<string>();
+    for (const vote of checkpoint.votes) {
+      if (vote.checkpointHeight !== checkpoint.height || vote.checkpointHash !== checkpoint.hash) {
+        return `vote from ${vote.validatorId} is for another block`;
+      }
+      const validator = byId.get(vote.validatorId);
+      if (!validator) return `vote from unknown validator ${vote.validatorId}`;
+      if (signers.has(vote.validatorId)) return `duplicate vote from ${vote.validatorId}`;
+      if (!FinalityGadget.verifyVote(vote, validator.publicKey)) return `invalid vote signature from ${vote.validatorId}`;
+      signers.add(vote.validatorId);
+    }
+    const totalStake = validators.reduce((sum, v) => sum + v.stake, 0);
+    const signedStake = Array.from(signers).reduce((sum, id) => sum + byId.get(id)!.stake, 0);
+    if (totalStake === 0 || signedStake * 3 <= totalStake * 2) {
+      return `votes carry ${signedStake} of ${totalStake} stake, not more than 2/3`;
+    }
+    return null;
+  }
+  static buildHeads(tip: ChainHead, finalized: FinalizedCheckpoint | null, safeHash: string | null = null): ChainHeads {
+    const safeHeight = Math.max(finalized?.height || 0, tip.height - CONFIG.consensus.finalityDepth, 0);
+    return {
+      latest: tip,
+      safe: { height: safeHeight, hash: safeHeight === finalized?.height ? finalized.hash : safeHash },
+      finalized: finalized ? { height: finalized.height, hash: finalized.hash } : null
+    };
+  }
+  static async loadLatestCheckpoint(): Promise<FinalizedCheckpoint | null> {
+    const [record] = await db.select().from(finalizedCheckpoints)
+      .orderBy(desc(finalizedCheckpoints.height))
+      .limit(1);
+    if (!record) return null;
+    return {
+      height: record.height,
+      hash: record.blockHash,
+      signedStake: parseFloat(record.signedStake),
+      totalStake: parseFloat(record.totalStake),
+      votes: record.votes as CheckpointVote[],
+      finalizedAt: record.finalizedAt
+    };
+  }
+  private async finalize(checkpoint: FinalizedCheckpoint): Promise<FinalizedCheckpoint> {
+    await db.insert(finalizedCheckpoints).values({
+      height: checkpoint.height,
+      blockHash: checkpoint.hash,
+      signedStake: checkpoint.signedStake.toString(),
+      totalStake: checkpoint.totalStake.toString(),
+      votes: checkpoint.votes,
+      finalizedAt: checkpoint.finalizedAt
+    }).onConflictDoNothing();
+    this.finalized = checkpoint;
+    // Votes at or below the new checkpoint can no longer finalize anything
+    for (const key of Array.from(this.pendingVotes.keys())) {
+      if (parseInt(key.split(':')[0], 10) <= checkpoint.height) {
+        this.pendingVotes.delete(key);
+      }
+    }
+    console.log(`🏁 Checkpoint ${checkpoint.height} finalized (${checkpoint.votes.length} votes, ${((checkpoint.signedStake / checkpoint.totalStake) * 100).toFixed(1)}% stake)`);
+    this.emit('finalized', checkpoint);
+    return checkpoint;
+  }
+  private static hashVote(vote: Omit<CheckpointVote, 'signature'>): Uint8Array {
+    const { checkpointHeight, checkpointHash, validatorId, timestamp } = vote;
+    return crypto.createHash('sha256')
+      .update(JSON.stringify({ type: 'checkpoint-vote', checkpointHeight, checkpointHash, validatorId, timestamp }))
+      .digest();
+  }
+}
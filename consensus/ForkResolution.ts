@@ -1,14 +1,29 @@
 import { DatabaseStorage } from '../server/storage';
-import { Block } from '../shared/schema';
-import * as _ from 'lodash';
+import _ from 'lodash';
+import { FinalityGadget } from './FinalityGadget';
 /**
  * Automatic fork detection and resolution for EmotionalChain
  * Implements longest valid emotional chain rule with Byzantine fault tolerance
+ * Fork choice never crosses the latest finalized checkpoint
  */
+/**
+ * The block fields fork choice reads: satisfied by stored block rows and by the blocks
+ * consensus hands over (the simulator's in-memory blocks among them)
+ */
+export interface ForkBlock {
+  hash: string;
+  height: number;
+  previousHash: string;
+  timestamp: number;
+  validatorId: string;
+  emotionalScore: number | string; // Stored rows keep it as a decimal string
+  transactions: unknown;
+  consensusMetadata?: { consensusStrength: number; participantCount?: number; emotionalFitness?: number };
+}
 export interface ForkInfo {
   forkHeight: number;
-  mainChain: Block[];
-  alternativeChains: Block[][];
+  mainChain: ForkBlock[];
+  alternativeChains: ForkBlock[][];
   detectedAt: number;
   resolved: boolean;
   resolution: 'main_chain' | 'alternative_chain' | 'manual_intervention';
@@ -16,16 +31,18 @@ export interface ForkInfo {
 export class ForkResolution {
   private storage: DatabaseStorage;
   private detectedForks: Map<number, ForkInfo> = new Map();
-  private orphanBlocks: Map<string, Block> = new Map();
-  constructor(storage: DatabaseStorage) {
+  private orphanBlocks: Map<string, ForkBlock> = new Map();
+  private finality?: FinalityGadget;
+  constructor(storage: DatabaseStorage, finality?: FinalityGadget) {
     this.storage = storage;
+    this.finality = finality;
   }
   async initialize(): Promise<void> {
     console.log('🔀 Initializing fork resolution system...');
     // Load any existing orphan blocks
     await this.loadOrphanBlocks();
   }
-  async checkAndResolve(newBlock: Block): Promise<void> {
+  async checkAndResolve(newBlock: ForkBlock): Promise<void> {
     // Check if this block creates or resolves a fork
     const forkDetected = await this.detectFork(newBlock);
     if (forkDetected) {
@@ -35,7 +52,7 @@ export class ForkResolution {
     // Check for orphan block connections
     await this.checkOrphanConnections(newBlock);
   }
-  private async detectFork(newBlock: Block): Promise<ForkInfo | null> {
+  private async detectFork(newBlock: ForkBlock): Promise<ForkInfo | null> {
     // Get the current chain tip
     const chainTip = await this.storage.getLatestBlock();
     if (!chainTip) {
@@ -57,6 +74,11 @@ export class ForkResolution {
     }
     // Fork detected - new block extends a different branch
     const forkHeight = parentBlock.height + 1;
+    if (await this.crossesFinality([newBlock])) {
+      // Does not build on the finalized checkpoint - never a fork choice candidate
+      console.log(`🏁 Rejecting block ${newBlock.hash.substring(0, 12)}...: its branch does not contain finalized checkpoint ${this.finality!.getFinalizedHeight()}`);
+      return null;
+    }
     // Check if we already know about this fork
     const existingFork = this.detectedForks.get(forkHeight);
     if (existingFork) {
@@ -83,7 +105,7 @@ export class ForkResolution {
     console.log(` Resolving fork at height ${forkInfo.forkHeight}...`);
     // Compare chains using emotional weight rules
     const bestChain = await this.selectBestChain(forkInfo);
-    if (bestChain === 'main_chain') {
+    if (bestChain === 'main_chain' || await this.crossesFinality(forkInfo.alternativeChains[bestChain])) {
       // Main chain wins - reject alternative chains
       forkInfo.resolution = 'main_chain';
       await this.rejectAlternativeChains(forkInfo.alternativeChains);
@@ -109,7 +131,7 @@ export class ForkResolution {
     }
     return bestChainIndex === 0 ? 'main_chain' : bestChainIndex - 1;
   }
-  private async calculateChainScore(chain: Block[]): Promise<number> {
+  private async calculateChainScore(chain: ForkBlock[]): Promise<number> {
     if (chain.length === 0) return 0;
     let score = 0;
     // Base score: chain length (longer chains preferred)
@@ -136,7 +158,7 @@ export class ForkResolution {
     score -= byzantinePenalty;
     return Math.max(0, score);
   }
-  private calculateTemporalPenalty(chain: Block[]): number {
+  private calculateTemporalPenalty(chain: ForkBlock[]): number {
     let penalty = 0;
     for (let i = 1; i < chain.length; i++) {
       const timeDiff = chain[i].timestamp - chain[i-1].timestamp;
@@ -155,7 +177,7 @@ export class ForkResolution {
     }
     return penalty;
   }
-  private calculateByzantinePenalty(chain: Block[]): number {
+  private calculateByzantinePenalty(chain: ForkBlock[]): number {
     let penalty = 0;
     for (const block of chain) {
       const metadata = block.consensusMetadata;
@@ -164,7 +186,7 @@ export class ForkResolution {
         continue;
       }
       // Penalize low participation
-      if (metadata.participantCount < 10) {
+      if (metadata.participantCount !== undefined && metadata.participantCount < 10) {
         penalty += 10;
       }
       // Penalize low consensus strength
@@ -172,7 +194,7 @@ export class ForkResolution {
         penalty += 15;
       }
       // Penalize low emotional fitness
-      if (metadata.emotionalFitness < 75) {
+      if (metadata.emotionalFitness !== undefined && metadata.emotionalFitness < 75) {
         penalty += 8;
       }
     }
@@ -180,6 +202,9 @@ export class ForkResolution {
   }
   private async reorganizeBlockchain(forkInfo: ForkInfo, winningChainIndex: number): Promise<void> {
     const winningChain = forkInfo.alternativeChains[winningChainIndex];
+    if (await this.crossesFinality(winningChain)) {
+      throw new Error(`Reorganization at height ${forkInfo.forkHeight} would revert finalized checkpoint ${this.finality!.getFinalizedHeight()}`);
+    }
     // Revert main chain blocks after fork point
     const blocksToRevert = await this.getBlocksFromHeight(forkInfo.forkHeight);
     for (const block of blocksToRevert.reverse()) {
@@ -190,7 +215,7 @@ export class ForkResolution {
       await this.applyBlock(block);
     }
   }
-  private async revertBlock(block: Block): Promise<void> {
+  private async revertBlock(block: ForkBlock): Promise<void> {
     console.log(`⏪ Reverting block ${block.height}: ${block.hash.substring(0, 12)}...`);
     // Revert transactions (return to mempool)
     for (const transaction of block.transactions) {
@@ -208,7 +233,7 @@ export class ForkResolution {
       );
     }
   }
-  private async applyBlock(block: Block): Promise<void> {
+  private async applyBlock(block: ForkBlock): Promise<void> {
     console.log(`⏩ Applying block ${block.height}: ${block.hash.substring(0, 12)}...`);
     // Store block
     await this.storage.storeBlock(block);
@@ -226,13 +251,13 @@ export class ForkResolution {
       );
     }
   }
-  private calculateBlockReward(block: Block): number {
+  private calculateBlockReward(block: ForkBlock): number {
     // Calculate the reward that was given for this block
     const baseReward = 50;
     const emotionalBonus = Math.max(0, (block.emotionalScore - 75) * 0.4);
     return baseReward + emotionalBonus;
   }
-  private async rejectAlternativeChains(alternativeChains: Block[][]): Promise<void> {
+  private async rejectAlternativeChains(alternativeChains: ForkBlock[][]): Promise<void> {
     for (const chain of alternativeChains) {
       for (const block of chain) {
         // Move rejected blocks to orphan storage
@@ -240,12 +265,12 @@ export class ForkResolution {
       }
     }
   }
-  private findChainFromBlock(block: Block): Block[] {
+  private findChainFromBlock(block: ForkBlock): ForkBlock[] {
     // This would traverse backwards to build the full chain
     // For now, return single block (simplified)
     return [block];
   }
-  private async getChainFromHeight(height: number): Promise<Block[]> {
+  private async getChainFromHeight(height: number): Promise<ForkBlock[]> {
     const blocks = [];
     let currentHeight = height;
     while (currentHeight <= (await this.storage.getLatestBlock())?.height) {
@@ -259,10 +284,10 @@ export class ForkResolution {
     }
     return blocks;
   }
-  private async getBlocksFromHeight(height: number): Promise<Block[]> {
+  private async getBlocksFromHeight(height: number): Promise<ForkBlock[]> {
     return await this.getChainFromHeight(height);
   }
-  private async checkOrphanConnections(newBlock: Block): Promise<void> {
+  private async checkOrphanConnections(newBlock: ForkBlock): Promise<void> {
     // Check if any orphan blocks can now be connected
     const connectedOrphans = [];
     for (const [hash, orphanBlock] of this.orphanBlocks.entries()) {
@@ -303,11 +328,25 @@ export class ForkResolution {
       await this.resolveFork(fork);
     }
   }
+  /**
+   * Whether adopting a branch would drop the finalized checkpoint. The branch's block at the
+   * finalized height must be the checkpoint block: one of its own blocks, or, since a branch
+   * leaves the stored chain at its parent, the stored block at that height.
+   */
+  private async crossesFinality(branch: ForkBlock[]): Promise<boolean> {
+    const checkpoint = this.finality?.getFinalizedCheckpoint();
+    if (!checkpoint || branch.length === 0) return false;
+    const own = branch.find(block => block.height === checkpoint.height);
+    if (own) return own.hash !== checkpoint.hash;
+    if (branch[0].height <= checkpoint.height) return true;
+    const ancestor = await this.storage.getBlockByHeight(checkpoint.height);
+    return ancestor?.hash !== checkpoint.hash;
+  }
   // Public API
   getDetectedForks(): ForkInfo[] {
     return Array.from(this.detectedForks.values());
   }
-  getOrphanBlocks(): Block[] {
+  getOrphanBlocks(): ForkBlock[] {
     return Array.from(this.orphanBlocks.values());
   }
   async getForkStatistics(): Promise<{
@@ -332,6 +371,9 @@ export class ForkResolution {
   }
   // Emergency procedures
   async emergencyChainReset(resetToHeight: number): Promise<void> {
+    if (this.finality?.isFinalized(resetToHeight + 1)) {
+      throw new Error(`Cannot reset to height ${resetToHeight}: below finalized checkpoint ${this.finality!.getFinalizedHeight()}`);
+    }
     console.log(`🚨 Emergency chain reset to height ${resetToHeight}`);
     // This would be used in extreme cases where the chain state is corrupted
     // Remove all blocks after the reset height
@@ -6,7 +6,7 @@ import { Worker } from 'worker_threads';
 import LRU from 'lru-cache';
 import PQueue from 'p-queue';
 import { performance } from 'perf_hooks';
-import * as _ from 'lodash';
+import _ from 'lodash';
 
 interface ValidatorChunk {
   validators: EmotionalValidator[];
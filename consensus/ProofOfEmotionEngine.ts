@@ -6,21 +6,31 @@ import PQueue from 'p-queue';
 import pLimit from 'p-limit';
 import { performance } from 'perf_hooks';
 import { nanoid } from 'nanoid';
-import * as _ from 'lodash';
+import _ from 'lodash';
 import { BiometricReading } from '../biometric/BiometricDevice';
 import { AuthenticityProof } from '../biometric/AuthenticityProof';
 import { P2PNode } from '../network/P2PNode';
+import { EmotionalProtocol, MessageType, ChainStatus } from '../network/EmotionalProtocol';
+import { PeerDiscovery } from '../network/PeerDiscovery';
 import { DatabaseStorage } from '../storage/DatabaseStorage';
 import { Block } from '../server/blockchain/Block';
 import { Transaction } from '../crypto/Transaction';
-import { EmotionalValidator } from './EmotionalValidator';
-import { ConsensusRound } from './ConsensusRound';
-import { EmotionalCommittee } from './EmotionalCommittee';
+import { EmotionalValidator, SlashingCondition } from './EmotionalValidator';
+import { ConsensusRound, VotingResult } from './ConsensusRound';
+import { EmotionalCommittee, CommitteeSelection } from './EmotionalCommittee';
+import { RandomnessBeacon, BeaconState, BeaconContribution } from './RandomnessBeacon';
+import { EvidencePool, EquivocationEvidence } from './EquivocationEvidence';
 import { ByzantineTolerance } from './ByzantineTolerance';
+import { ValidatorJail, JailRecord, JailStatus, UnjailTransaction } from './ValidatorJail';
+import { ValidatorSetManager, ValidatorSetMember, ValidatorSetUpdate } from './ValidatorSetManager';
 import { EmotionalProof } from './EmotionalProof';
 import { RewardCalculator } from './RewardCalculator';
 import { ForkResolution } from './ForkResolution';
+import { FinalityGadget, CheckpointVote, ChainHeads } from './FinalityGadget';
 import { ConsensusMetrics } from './ConsensusMetrics';
+import { governanceParameters } from '../shared/governance/parameters';
+import { CONFIG } from '../shared/config';
+import { ImmutableBlockchainService } from '../server/blockchain/ImmutableBlockchainService';
 /**
  * Production-grade Proof of Emotion consensus engine
  * Implements Byzantine fault-tolerant emotional consensus with real-time validation
@@ -34,6 +44,8 @@ export interface ConsensusConfig {
   votingTimeout: number; // 8 seconds
   proposalTimeout: number; // 10 seconds
   finalityTimeout: number; // 2 seconds
+  viewChangeTimeout: number; // 8 seconds to gather a timeout quorum
+  maxViews: number; // Views (leaders) tried per height before the epoch fails
 }
 export interface ConsensusState {
   currentEpoch: number;
@@ -48,7 +60,7 @@ export interface ConsensusState {
 }
 export interface EpochResult {
   success: boolean;
-  block: Block | null;
+  block: Block | null; // Prepared block; it finalizes in the background (see block-committed)
   metrics: {
     duration: number;
     participantCount: number;
@@ -66,8 +78,15 @@ export class ProofOfEmotionEngine extends EventEmitter {
   private validatorPool = new Map<string, EmotionalValidator>();
   // Consensus components
   private byzantineTolerance: ByzantineTolerance;
+  private jail: ValidatorJail;
+  private validatorSet: ValidatorSetManager; // Pool members that take part in consensus this epoch
   private rewardCalculator: RewardCalculator;
   private forkResolution: ForkResolution;
+  private finality: FinalityGadget;
+  private beacon = new RandomnessBeacon();
+  private committeeHistory: CommitteeSelection[] = [];
+  private evidencePool = new EvidencePool();
+  private protocol: EmotionalProtocol | null = null; // Created on initialize, once the node id is known
   private metrics: ConsensusMetrics;
   // State management
   private state$ = new BehaviorSubject<ConsensusState>({
@@ -84,6 +103,9 @@ export class ProofOfEmotionEngine extends EventEmitter {
   private epochTimer?: NodeJS.Timeout;
   private isRunning = false;
   private epochStartTime = 0;
+  // Pipelining: the prepared block still committing, which the next proposal builds on
+  private pipelineTip: Block | null = null;
+  private inFlightCommit: Promise<Block | null> | null = null;
   constructor(
     p2pNode: P2PNode,
     storage: DatabaseStorage,
@@ -94,29 +116,82 @@ export class ProofOfEmotionEngine extends EventEmitter {
     this.storage = storage;
     this.config = {
       epochDuration: 30000, // 30 seconds
-      emotionalThreshold: 75,
+      emotionalThreshold: governanceParameters.get('consensus.emotionalThreshold'),
       byzantineThreshold: 67,
-      committeeSize: 21,
+      committeeSize: governanceParameters.get('consensus.committeeSize'),
       minimumStake: 10000,
       votingTimeout: 8000,
       proposalTimeout: 10000,
       finalityTimeout: 2000,
+      viewChangeTimeout: 8000,
+      maxViews: 4,
       ...config
     };
+    // Parameter changes activated by on-chain governance take effect from the next epoch
+    governanceParameters.onChange(parameters => {
+      this.config.emotionalThreshold = parameters['consensus.emotionalThreshold'];
+      this.config.committeeSize = parameters['consensus.committeeSize'];
+      this.jail.updateConfig({ emotionalThreshold: this.config.emotionalThreshold });
+      console.log(`🗳️ Consensus parameters updated by governance: threshold ${this.config.emotionalThreshold}, committee ${this.config.committeeSize}`);
+    });
     // Initialize consensus components
-    this.byzantineTolerance = new ByzantineTolerance(this.config);
+    this.jail = new ValidatorJail(this.storage, { emotionalThreshold: this.config.emotionalThreshold });
+    this.jail.on('validator-jailed', (record: JailRecord) => {
+      this.validatorPool.get(record.validatorId)?.setJailRecord(record);
+      this.emit('validator-jailed', record);
+    });
+    this.jail.on('validator-unjailed', (record: JailRecord) => {
+      this.validatorPool.get(record.validatorId)?.setJailRecord(record);
+      this.emit('validator-unjailed', record);
+    });
+    this.validatorSet = new ValidatorSetManager(this.storage);
+    this.validatorSet.on('set-changed', (update: ValidatorSetUpdate) => this.handleValidatorSetChange(update));
+    this.byzantineTolerance = new ByzantineTolerance(this.config, this.jail);
     this.rewardCalculator = new RewardCalculator(this.config);
-    this.forkResolution = new ForkResolution(this.storage);
+    this.finality = new FinalityGadget(() =>
+      this.getActiveSet()
+        .filter(v => v.isActive())
+        .map(v => ({ validatorId: v.getId(), stake: v.getStake(), publicKey: v.getPublicKey() }))
+    );
+    this.finality.on('finalized', checkpoint => {
+      ImmutableBlockchainService.getInstance().finalizeReceipts().catch(error => {
+        console.error(`Failed to finalize receipts at checkpoint ${checkpoint.height}:`, error);
+      });
+      this.emit('checkpoint-finalized', checkpoint);
+    });
+    this.forkResolution = new ForkResolution(this.storage, this.finality);
     this.metrics = new ConsensusMetrics();
     this.setupNetworkHandlers();
     this.startMetricsCollection();
   }
   async initialize(): Promise<void> {
-    // Load validator pool from storage
+    // Load jail records, then the validator pool they apply to
+    await this.jail.initialize();
     await this.loadValidatorPool();
+    await this.validatorSet.initialize(Array.from(this.validatorPool.keys()));
     // Initialize consensus components
     await this.byzantineTolerance.initialize();
+    await this.finality.initialize();
     await this.forkResolution.initialize();
+    await this.p2pNode.subscribeToTopic('checkpoint-votes', async (data: Uint8Array) => {
+      await this.handleCheckpointVote(JSON.parse(new TextDecoder().decode(data)));
+    });
+    await this.p2pNode.subscribeToTopic('unjail-transactions', async (data: Uint8Array, peerId: string) => {
+      await this.handleUnjail(JSON.parse(new TextDecoder().decode(data)), peerId);
+    });
+    // Hellos are signed with the node key, so peers can bind them to this node's peer id
+    const nodeKey = await PeerDiscovery.loadNodeKey(CONFIG.network.discovery.nodeKeyFile);
+    this.protocol = new EmotionalProtocol(this.p2pNode.getNodeInfo().peerId, nodeKey);
+    await this.p2pNode.enableHandshake(this.protocol, () => this.getChainStatus());
+    this.protocol.on('equivocationEvidence', async ({ evidence, senderId }) => {
+      await this.handleEvidence(evidence, senderId);
+    });
+    await this.p2pNode.subscribeToTopic('equivocation-evidence', (data: Uint8Array, peerId: string) => {
+      const message = this.protocol!.parseMessage(data);
+      if (message.valid && message.type === MessageType.EQUIVOCATION_EVIDENCE) {
+        this.protocol!.handleEquivocationEvidence(message.payload, peerId);
+      }
+    }, MessageType.EQUIVOCATION_EVIDENCE);
     await this.metrics.initialize();
     // Recover from any interrupted consensus
     await this.recoverConsensusState();
@@ -146,6 +221,7 @@ export class ProofOfEmotionEngine extends EventEmitter {
       await currentState.currentRound.abort();
     }
     await this.processingQueue.onIdle();
+    await this.inFlightCommit;
     this.emit('consensus-stopped');
   }
   // Epoch management
@@ -184,6 +260,10 @@ export class ProofOfEmotionEngine extends EventEmitter {
     const errors: string[] = [];
     try {
       return await this.consensusMutex.runExclusive(async () => {
+        // A committed validator set applies from the next height, so wait for the block carrying it
+        if (this.pipelineTip?.validatorSet) {
+          await this.inFlightCommit;
+        }
         // Phase 1: Emotional Assessment (5 seconds)
         const assessmentStart = performance.now();
         const eligibleValidators = await this.performEmotionalAssessment();
@@ -208,8 +288,17 @@ export class ProofOfEmotionEngine extends EventEmitter {
           committee,
           proposedBlock,
           this.config,
-          this.p2pNode
+          this.p2pNode,
+          // After a view change the next backup proposes on the same parent
+          (leader, view) => this.proposeBlock(committee, leader, view),
+          this.getActiveSet()
         );
+        consensusRound.on('equivocation', (evidence: EquivocationEvidence) => {
+          this.handleEvidence(evidence, 'local');
+        });
+        consensusRound.on('view-change', (change: any) => {
+          this.emit('view-change', { epochId, height: proposedBlock.height, ...change });
+        });
         // Update state with current round
         this.updateState({
           currentEpoch: this.state$.value.currentEpoch + 1,
@@ -221,23 +310,18 @@ export class ProofOfEmotionEngine extends EventEmitter {
           epochMetrics.byzantineFailures = votingResult.byzantineCount;
           throw new Error(`Voting failed: ${votingResult.reason}`);
         }
-        // Phase 5: Block Finalization (2 seconds)
-        const finalizedBlock = await this.finalizeBlock(proposedBlock, votingResult);
-        // Update metrics
+        // Phase 5: Block Finalization (2 seconds), pipelined with the next epoch's proposal
+        const preparedBlock = consensusRound.getProposedBlock();
         epochMetrics.duration = performance.now() - this.epochStartTime;
-        await this.metrics.recordEpoch(epochMetrics);
+        this.commitPipelined(consensusRound, committee, preparedBlock, votingResult, epochMetrics);
         // Update state
         this.updateState({
           currentRound: null,
-          lastFinalized: finalizedBlock,
-          networkHealth: this.calculateNetworkHealth(),
           consensusStrength: votingResult.consensusStrength
         });
-        // Distribute rewards
-        await this.distributeRewards(committee, votingResult, epochMetrics);
         return {
           success: true,
-          block: finalizedBlock,
+          block: preparedBlock,
           metrics: epochMetrics,
           errors
         };
@@ -260,9 +344,12 @@ export class ProofOfEmotionEngine extends EventEmitter {
   // Phase 1: Emotional Assessment
   private async performEmotionalAssessment(): Promise<EmotionalValidator[]> {
     console.log('💓 Performing emotional assessment...');
-    const assessmentPromises = Array.from(this.validatorPool.values()).map(async (validator) => {
+    const activeSet = this.getActiveSet();
+    const assessmentPromises = activeSet.map(async (validator) => {
       try {
         await validator.updateEmotionalState();
+        // Sustained scores below the threshold propose jailing the validator in the next block
+        this.jail.recordEmotionalScore(validator.getId(), validator.getEmotionalScore(), this.state$.value.lastFinalized?.height ?? null);
         // Check minimum requirements
         if (validator.getEmotionalScore() >= this.config.emotionalThreshold &&
             validator.getStake() >= this.config.minimumStake &&
@@ -278,7 +365,7 @@ export class ProofOfEmotionEngine extends EventEmitter {
     const eligibleValidators = results
       .filter(result => result.status === 'fulfilled' && result.value !== null)
       .map(result => (result as PromiseFulfilledResult<EmotionalValidator>).value);
-    console.log(`💓 ${eligibleValidators.length}/${this.validatorPool.size} validators eligible`);
+    console.log(`💓 ${eligibleValidators.length}/${activeSet.length} validators eligible`);
     return eligibleValidators;
   }
   // Phase 2: Committee Selection
@@ -287,53 +374,152 @@ export class ProofOfEmotionEngine extends EventEmitter {
       this.config.committeeSize,
       this.config.byzantineThreshold
     );
-    await committee.selectValidators(eligibleValidators);
+    // Weighted by chain stake, so every node at this height draws the same committee
+    const chain = ImmutableBlockchainService.getInstance();
+    await committee.selectValidators(eligibleValidators, this.beacon.getState(), validatorId => chain.getStake(validatorId));
+    const selection = _.last(committee.getSelectionHistory())!;
+    this.committeeHistory.push(selection);
+    if (this.committeeHistory.length > 100) {
+      this.committeeHistory = this.committeeHistory.slice(-100);
+    }
+    console.log(`🎲 Committee drawn from beacon round ${selection.beaconRound}, primary ${selection.primary.getId()}`);
     return committee;
   }
-  // Phase 3: Block Proposal
-  private async proposeBlock(committee: EmotionalCommittee): Promise<Block | null> {
-    const primaryValidator = committee.getPrimaryValidator();
-    if (!primaryValidator) {
+  // Phase 3: Block Proposal, by the primary or by a view's backup leader after a view change
+  private async proposeBlock(
+    committee: EmotionalCommittee,
+    leader: EmotionalValidator | null = committee.getPrimaryValidator(),
+    view: number = 0
+  ): Promise<Block> {
+    if (!leader) {
       throw new Error('No primary validator available');
     }
-    // Get pending transactions
-    const pendingTxs = this.state$.value.pendingTransactions.slice(0, 1000); // Limit to 1000 txs
-    // Get latest block for chaining
-    const latestBlock = await this.storage.getLatestBlock();
+    // Get pending transactions, leaving out those in the block still committing
+    const inFlight = new Set((this.pipelineTip?.transactions || []).map((tx: { hash: string }) => tx.hash));
+    const pendingTxs = this.state$.value.pendingTransactions
+      .filter(tx => !inFlight.has((tx as Transaction & { hash: string }).hash))
+      .slice(0, 1000); // Limit to 1000 txs
+    // Get latest block for chaining; a prepared block still committing is the parent
+    const latestBlock = this.pipelineTip || await this.storage.getLatestBlock();
     const height = latestBlock ? latestBlock.height + 1 : 1;
     // Create emotional proof for the block
     const emotionalProof = await EmotionalProof.createBlockProof(
       committee.getValidators(),
       await this.collectBiometricReadings(committee.getValidators())
     );
+    // The last block of an epoch commits the next validator set
+    const validatorSet = this.validatorSet.isEpochEnd(height)
+      ? this.validatorSet.prepareTransition(height, validatorId => this.setMemberOf(validatorId))
+      : null;
     // Propose block
-    const proposedBlock = await primaryValidator.proposeBlock({
+    const proposedBlock = await leader.proposeBlock({
       height,
       previousHash: latestBlock?.hash || '0'.repeat(64),
       transactions: pendingTxs,
       emotionalProof,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      validatorSet
     });
     // Broadcast proposal to committee
-    await committee.broadcastProposal(proposedBlock);
+    await committee.broadcastProposal(proposedBlock, view);
     return proposedBlock;
   }
+  /**
+   * Finalize a prepared block once its round commits. Commits run in height order behind
+   * the previous one; a block whose parent failed to commit is dropped.
+   */
+  private commitPipelined(
+    round: ConsensusRound,
+    committee: EmotionalCommittee,
+    block: Block,
+    votingResult: VotingResult,
+    epochMetrics: EpochResult['metrics']
+  ): void {
+    const parent = this.pipelineTip;
+    const previous = this.inFlightCommit;
+    const dependsOnParent = !!parent && block.previousHash === parent.hash;
+    this.pipelineTip = block;
+    this.inFlightCommit = (async (): Promise<Block | null> => {
+      try {
+        const parentCommitted = previous ? await previous : null;
+        if (dependsOnParent && !parentCommitted) {
+          throw new Error(`parent block ${parent!.height} failed to commit`);
+        }
+        await round.waitForCommit();
+        const finalizedBlock = await this.finalizeBlock(block, votingResult);
+        await this.metrics.recordEpoch(epochMetrics);
+        this.updateState({
+          lastFinalized: finalizedBlock,
+          networkHealth: this.calculateNetworkHealth()
+        });
+        // Distribute rewards
+        await this.distributeRewards(committee, votingResult, epochMetrics);
+        // Committee members whose approval is missing from the certificate missed the round
+        this.jail.recordRound(
+          committee.getValidators().map(validator => validator.getId()),
+          (votingResult.prepared?.votes || []).map(vote => vote.validatorId),
+          finalizedBlock.height
+        );
+        this.emit('block-committed', finalizedBlock);
+        return finalizedBlock;
+      } catch (error) {
+        console.error(`❌ Commit of block ${block.height} failed: ${(error as Error).message}`);
+        this.emit('commit-failed', { block, error });
+        return null;
+      } finally {
+        if (this.pipelineTip === block) {
+          this.pipelineTip = null;
+        }
+      }
+    })();
+  }
   // Phase 5: Block Finalization
   private async finalizeBlock(block: Block, votingResult: any): Promise<Block> {
     console.log(' Finalizing block...');
+    // Proposer's VRF over the current beacon seed; mixed in to seed the next committee
+    const proposer = this.validatorPool.get(block.validatorId);
+    const beaconContribution = RandomnessBeacon.contribute(
+      this.beacon.getState(),
+      block,
+      block.validatorId,
+      proposer?.getPrivateKey()
+    );
+    const beaconState = this.beacon.advance(beaconContribution, proposer?.getPublicKey() || null);
+    // Jail events and unjail transactions ride in the block, so every node jails and releases
+    // the same validators at the same height, timed by the block's timestamp
+    const jails = this.jail.selectJailsForBlock();
+    const unjails = this.jail.selectUnjailsForBlock();
     // Store block with consensus metadata
     const finalizedBlock = {
       ...block,
       consensusMetadata: {
-        votingResult,
+        // Compact justification: one aggregate signature and a signer bitmap, not every vote
+        quorumCertificate: votingResult.quorumCertificate,
         participantCount: votingResult.participants.length,
         consensusStrength: votingResult.consensusStrength,
         emotionalFitness: votingResult.averageEmotionalScore,
+        beacon: { ...beaconContribution, nextSeed: beaconState.seed },
+        jails,
+        unjails,
         finalizedAt: Date.now()
       }
     };
     // Persist to storage
     await this.storage.storeBlock(finalizedBlock);
+    await this.jail.applyJails(jails, finalizedBlock.height, finalizedBlock.timestamp);
+    await this.jail.applyUnjails(unjails, finalizedBlock.height, finalizedBlock.timestamp, validatorId => this.validatorPool.get(validatorId)?.getPublicKey());
+    if (block.validatorSet) {
+      const invalid = this.validatorSet.verifyTransition(
+        block.validatorSet,
+        finalizedBlock.height,
+        validatorId => this.setMemberOf(validatorId)
+      );
+      if (invalid) {
+        console.warn(`Skipped validator set in block ${finalizedBlock.height}: ${invalid}`);
+      } else {
+        this.validatorSet.applyTransition(block.validatorSet);
+      }
+    }
     // Remove finalized transactions from pending
     const finalizedTxHashes = new Set(block.transactions.map(tx => tx.hash));
     this.updateState({
@@ -344,8 +530,63 @@ export class ProofOfEmotionEngine extends EventEmitter {
     // Check for forks and resolve if necessary
     await this.forkResolution.checkAndResolve(finalizedBlock);
     console.log(` Block ${finalizedBlock.height} finalized with ${block.transactions.length} transactions`);
+    if (this.finality.isCheckpointHeight(finalizedBlock.height)) {
+      await this.castCheckpointVotes(finalizedBlock);
+    }
     return finalizedBlock;
   }
+  // Checkpoint votes from every local validator holding a signing key
+  private async castCheckpointVotes(block: Block): Promise<void> {
+    for (const validator of this.validatorPool.values()) {
+      if (!validator.isActive() || !validator.getPrivateKey()) continue;
+      const vote = FinalityGadget.createVote(block.height, block.hash, validator.getId(), validator.getPrivateKey());
+      await this.handleCheckpointVote(vote);
+      await this.p2pNode.publishToTopic('checkpoint-votes', new TextEncoder().encode(JSON.stringify(vote)));
+    }
+  }
+  private async handleCheckpointVote(vote: CheckpointVote): Promise<void> {
+    try {
+      await this.finality.addVote(vote);
+    } catch (error) {
+      console.warn(`Rejected checkpoint vote from ${vote.validatorId}: ${(error as Error).message}`);
+    }
+  }
+  // Equivocation evidence from local rounds and gossip; verified before it is relayed and handed,
+  // through the 'equivocation-evidence' event, to the chain whose state transition slashes it
+  private async handleEvidence(evidence: EquivocationEvidence, source: string): Promise<void> {
+    const invalid = EvidencePool.verifyEvidence(evidence, this.validatorPool.get(evidence.validatorId)?.getPublicKey());
+    if (invalid) {
+      console.warn(`Rejected equivocation evidence from ${source}: ${invalid}`);
+      return;
+    }
+    if (!this.evidencePool.add(evidence)) return;
+    // The chain's evidence pool queues it for a block; this pool only remembers the offence to drop repeats
+    this.evidencePool.markIncluded([evidence]);
+    console.log(`⚔️ Equivocation evidence against ${evidence.validatorId} handed to the chain`);
+    this.emit('equivocation-evidence', evidence);
+    if (this.protocol) {
+      try {
+        await this.p2pNode.publishToTopic('equivocation-evidence', this.protocol.createEquivocationEvidence(evidence), MessageType.EQUIVOCATION_EVIDENCE);
+      } catch (error) {
+        console.warn(`Failed to gossip equivocation evidence: ${(error as Error).message}`);
+      }
+    }
+  }
+  // Unjail transactions from local submission and gossip; verified before they are queued or relayed
+  private async handleUnjail(transaction: UnjailTransaction, source: string): Promise<string | null> {
+    const invalid = this.jail.submitUnjail(transaction, this.validatorPool.get(transaction?.validatorId)?.getPublicKey());
+    if (invalid) {
+      console.warn(`Rejected unjail transaction from ${source}: ${invalid}`);
+      return invalid;
+    }
+    console.log(`🔓 Unjail transaction for ${transaction.validatorId} queued for inclusion`);
+    try {
+      await this.p2pNode.publishToTopic('unjail-transactions', new TextEncoder().encode(JSON.stringify(transaction)));
+    } catch (error) {
+      console.warn(`Failed to gossip unjail transaction: ${(error as Error).message}`);
+    }
+    return null;
+  }
   // Reward distribution
   private async distributeRewards(
     committee: EmotionalCommittee,
@@ -388,20 +629,49 @@ export class ProofOfEmotionEngine extends EventEmitter {
     if (validator.getStake() < this.config.minimumStake) {
       throw new Error(`Minimum stake of ${this.config.minimumStake} EMO required`);
     }
-    this.validatorPool.set(validator.getId(), validator);
+    this.addToPool(validator);
     await this.storage.updateValidatorBalance(validator.getId(), validator.getBalance());
-    console.log(`👤 Validator ${validator.getId()} registered with ${validator.getStake()} EMO stake`);
+    await this.storage.storeValidatorKeys(validator.getId(), validator.getPublicKey(), validator.getBlsPublicKey(), validator.getBlsProof());
+    // Before the first block there is no committed set to change; afterwards joins wait for the epoch boundary
+    const lastFinalized = this.state$.value.lastFinalized;
+    if (!lastFinalized) {
+      this.validatorSet.addGenesis(validator.getId());
+      console.log(`👤 Validator ${validator.getId()} registered with ${validator.getStake()} EMO stake`);
+    } else {
+      this.validatorSet.queueJoin(validator.getId(), lastFinalized.height);
+      console.log(`👤 Validator ${validator.getId()} registered with ${validator.getStake()} EMO stake, joining at the next epoch`);
+    }
     this.emit('validator-registered', validator);
   }
+  /**
+   * Queue an active validator to leave at the next epoch boundary; one that has not joined yet is removed at once
+   */
   async removeValidator(validatorId: string): Promise<void> {
     const validator = this.validatorPool.get(validatorId);
     if (!validator) {
       throw new Error('Validator not found');
     }
+    if (this.validatorSet.isActive(validatorId)) {
+      this.validatorSet.queueLeave(validatorId, this.state$.value.lastFinalized?.height ?? 0);
+      console.log(`👤 Validator ${validatorId} leaves consensus at the next epoch`);
+      this.emit('validator-leave-queued', validatorId);
+      return;
+    }
+    this.validatorSet.queueLeave(validatorId, this.state$.value.lastFinalized?.height ?? 0); // Cancels a queued join
     this.validatorPool.delete(validatorId);
     console.log(`👤 Validator ${validatorId} removed from consensus`);
     this.emit('validator-removed', validatorId);
   }
+  // Validators that left with a committed set are dropped from the pool
+  private handleValidatorSetChange(update: ValidatorSetUpdate): void {
+    for (const validatorId of update.left) {
+      if (this.validatorPool.delete(validatorId)) {
+        console.log(`👤 Validator ${validatorId} removed from consensus`);
+        this.emit('validator-removed', validatorId);
+      }
+    }
+    this.emit('validator-set-changed', update);
+  }
   // Network event handlers
   private setupNetworkHandlers(): void {
     this.p2pNode.on('consensus-message', async (message: any) => {
@@ -452,10 +722,35 @@ export class ProofOfEmotionEngine extends EventEmitter {
           state.balance,
           state.emotionalScore
         );
-        this.validatorPool.set(state.validatorId, validator);
+        this.addToPool(validator);
       }
     }
   }
+  private getActiveSet(): EmotionalValidator[] {
+    return this.validatorSet.getActive()
+      .map(validatorId => this.validatorPool.get(validatorId))
+      .filter((validator): validator is EmotionalValidator => !!validator);
+  }
+  private setMemberOf(validatorId: string): ValidatorSetMember | null {
+    const validator = this.validatorPool.get(validatorId);
+    if (!validator) return null;
+    return {
+      validatorId,
+      publicKey: validator.getPublicKey(),
+      blsPublicKey: validator.getBlsPublicKey() || null,
+      blsProof: validator.getBlsProof() || null
+    };
+  }
+  private addToPool(validator: EmotionalValidator): void {
+    validator.setJailRecord(this.jail.getRecord(validator.getId()));
+    // Critical slashing also proposes jailing the validator
+    validator.on('slashed', (condition: SlashingCondition) => {
+      if (condition.severity === 'critical') {
+        this.jail.proposeJail(validator.getId(), 'slashed', this.state$.value.lastFinalized?.height ?? null);
+      }
+    });
+    this.validatorPool.set(validator.getId(), validator);
+  }
   private async recoverConsensusState(): Promise<void> {
     const latestBlock = await this.storage.getLatestBlock();
     if (latestBlock) {
@@ -463,8 +758,22 @@ export class ProofOfEmotionEngine extends EventEmitter {
         lastFinalized: latestBlock,
         currentEpoch: latestBlock.height
       });
+      const beacon: (BeaconContribution & { nextSeed: string }) | undefined = latestBlock.consensusMetadata?.beacon;
+      if (beacon?.nextSeed) {
+        this.beacon.restore({ round: beacon.round + 1, seed: beacon.nextSeed });
+      }
     }
   }
+  // Advertised in the wire protocol handshake
+  private async getChainStatus(): Promise<ChainStatus> {
+    const latestBlock = await this.storage.getLatestBlock();
+    const genesisBlock = latestBlock ? await this.storage.getBlockByHeight(1) : null;
+    return {
+      genesisHash: genesisBlock?.hash || null,
+      bestHeight: latestBlock?.height || 0,
+      bestHash: latestBlock?.hash || null
+    };
+  }
   private async collectBiometricReadings(validators: EmotionalValidator[]): Promise<Map<string, BiometricReading[]>> {
     const readings = new Map<string, BiometricReading[]>();
     for (const validator of validators) {
@@ -507,6 +816,44 @@ export class ProofOfEmotionEngine extends EventEmitter {
   getMetrics(): ConsensusMetrics {
     return this.metrics;
   }
+  getFinalityGadget(): FinalityGadget {
+    return this.finality;
+  }
+  getBeaconState(): BeaconState {
+    return this.beacon.getState();
+  }
+  getCommitteeHistory(): CommitteeSelection[] {
+    return [...this.committeeHistory];
+  }
+  /**
+   * Submit a validator's signed unjail transaction; it is gossiped and released in the next finalized block
+   */
+  async submitUnjail(transaction: UnjailTransaction): Promise<void> {
+    const invalid = await this.handleUnjail(transaction, 'local');
+    if (invalid) {
+      throw new Error(`Unjail transaction rejected: ${invalid}`);
+    }
+  }
+  getJailStatus(validatorId: string): JailStatus {
+    return this.jail.getStatus(validatorId);
+  }
+  getValidatorJail(): ValidatorJail {
+    return this.jail;
+  }
+  getValidatorSet(): ValidatorSetManager {
+    return this.validatorSet;
+  }
+  getEvidencePool(): EvidencePool {
+    return this.evidencePool;
+  }
+  async getChainHeads(): Promise<ChainHeads> {
+    const latestBlock = await this.storage.getLatestBlock();
+    const heads = this.finality.getHeads({ height: latestBlock?.height || 0, hash: latestBlock?.hash || null });
+    if (heads.safe.hash === null) {
+      heads.safe.hash = (await this.storage.getBlockByHeight(heads.safe.height))?.hash || null;
+    }
+    return heads;
+  }
   async getConsensusHealth(): Promise<{ healthy: boolean; details: any }> {
     const state = this.state$.value;
     const activeValidators = this.getActiveValidatorCount();
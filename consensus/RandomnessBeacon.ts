@@ -0,0 +1,149 @@
+import { EventEmitter } from 'eventemitter3';
+import * as crypto from 'crypto';
+import { VRF, VRFProof } from '../crypto/VRF';
+/**
+ * On-chain randomness beacon for committee selection
+ * Every finalized block's proposer evaluates a VRF over the current seed; the output
+ * is mixed into the next seed, so each round's seed is fixed by the previous round,
+ * identical on every node, and cannot be ground by the proposer.
+ */
+export interface BeaconState {
+  round: number;
+  seed: string;
+}
+export interface BeaconContribution {
+  round: number; // Round whose seed the VRF was evaluated on
+  blockHeight: number;
+  blockHash: string;
+  validatorId: string;
+  vrfOutput: string | null; // null when the proposer held no signing key
+  vrfProof: VRFProof | null;
+}
+export interface CommitteeCandidate {
+  validatorId: string;
+  weight: number; // Integer selection weight (milli-points of selection score)
+}
+export interface CommitteeSelectionProof {
+  seed: string;
+  round: number;
+  candidates: CommitteeCandidate[]; // Sorted by validatorId
+  draws: number[]; // Uniform draws in [0, 1) derived from the seed, one per seat
+  selected: string[]; // Primary first, then backups in draw order
+}
+export class RandomnessBeacon extends EventEmitter {
+  static readonly GENESIS_SEED = crypto.createHash('sha256').update('EmotionalChain randomness beacon genesis').digest('hex');
+  private state: BeaconState = { round: 0, seed: RandomnessBeacon.GENESIS_SEED };
+  private history: BeaconState[] = [];
+  getState(): BeaconState {
+    return { ...this.state };
+  }
+  getHistory(): BeaconState[] {
+    return [...this.history];
+  }
+  restore(state: BeaconState): void {
+    this.state = { ...state };
+    console.log(`🎲 Randomness beacon restored at round ${state.round}: ${state.seed.substring(0, 12)}...`);
+  }
+  /**
+   * Verify a proposer's contribution against the current round and mix it into the seed
+   * publicKey is required whenever the contribution carries a VRF proof, and a VRF output
+   * is only accepted with its proof
+   */
+  advance(contribution: BeaconContribution, publicKey: string | null): BeaconState {
+    if (contribution.round !== this.state.round) {
+      throw new Error(`Beacon contribution for round ${contribution.round}, current round is ${this.state.round}`);
+    }
+    // An output without its proof would let the proposer pick the entropy
+    if (contribution.vrfOutput && !contribution.vrfProof) {
+      throw new Error(`Beacon VRF output from ${contribution.validatorId} carries no proof`);
+    }
+    if (contribution.vrfProof) {
+      if (!publicKey || !RandomnessBeacon.verifyContribution(this.state, contribution, publicKey)) {
+        throw new Error(`Invalid beacon VRF proof from ${contribution.validatorId}`);
+      }
+    }
+    this.history.push(this.state);
+    if (this.history.length > 100) {
+      this.history = this.history.slice(-100);
+    }
+    this.state = {
+      round: this.state.round + 1,
+      seed: RandomnessBeacon.mix(this.state.seed, contribution)
+    };
+    this.emit('seed', this.state);
+    return this.getState();
+  }
+  // Beacon contributions
+  static contribute(
+    state: BeaconState,
+    block: { height: number; hash: string },
+    validatorId: string,
+    privateKey?: string
+  ): BeaconContribution {
+    const vrf = privateKey ? VRF.prove(privateKey, this.vrfInput(state)) : null;
+    return {
+      round: state.round,
+      blockHeight: block.height,
+      blockHash: block.hash,
+      validatorId,
+      vrfOutput: vrf?.output || null,
+      vrfProof: vrf?.proof || null
+    };
+  }
+  static verifyContribution(state: BeaconState, contribution: BeaconContribution, publicKey: string): boolean {
+    if (!contribution.vrfProof || contribution.round !== state.round) return false;
+    return VRF.verify(publicKey, this.vrfInput(state), contribution.vrfProof) === contribution.vrfOutput;
+  }
+  static mix(seed: string, contribution: BeaconContribution): string {
+    // Keyless proposers fall back to the block hash, which is weaker (grindable) entropy
+    const entropy = contribution.vrfOutput || contribution.blockHash;
+    return crypto.createHash('sha256').update(`${seed}:${entropy}`).digest('hex');
+  }
+  private static vrfInput(state: BeaconState): string {
+    return `beacon:${state.round}:${state.seed}`;
+  }
+  // Seeded committee selection
+  /**
+   * Uniform draw in [0, 1) for a seat, from the top 48 bits of sha256(seed:round:seat)
+   */
+  static draw(seed: string, round: number, seat: number): number {
+    const digest = crypto.createHash('sha256').update(`committee:${seed}:${round}:${seat}`).digest();
+    return digest.readUIntBE(0, 6) / 2 ** 48;
+  }
+  /**
+   * Stake-and-score weighted sampling without replacement, reproducible from the seed
+   */
+  static selectWeighted(state: BeaconState, candidates: CommitteeCandidate[], count: number): CommitteeSelectionProof {
+    // Code-unit order, not localeCompare, so every node sorts identically
+    const sorted = [...candidates].sort((a, b) => (a.validatorId < b.validatorId ? -1 : a.validatorId > b.validatorId ? 1 : 0));
+    const remaining = [...sorted];
+    const draws: number[] = [];
+    const selected: string[] = [];
+    for (let seat = 0; seat < count && remaining.length > 0; seat++) {
+      const draw = this.draw(state.seed, state.round, seat);
+      const totalWeight = remaining.reduce((sum, candidate) => sum + candidate.weight, 0);
+      let target = draw * totalWeight;
+      let index = remaining.length - 1;
+      for (let i = 0; i < remaining.length; i++) {
+        target -= remaining[i].weight;
+        if (target < 0) {
+          index = i;
+          break;
+        }
+      }
+      draws.push(draw);
+      selected.push(remaining[index].validatorId);
+      remaining.splice(index, 1);
+    }
+    return { seed: state.seed, round: state.round, candidates: sorted, draws, selected };
+  }
+  /**
+   * Re-run a recorded selection from its seed and candidate weights
+   */
+  static verifySelection(proof: CommitteeSelectionProof): boolean {
+    const replay = this.selectWeighted({ seed: proof.seed, round: proof.round }, proof.candidates, proof.selected.length);
+    return replay.selected.length === proof.selected.length &&
+      replay.selected.every((id, i) => id === proof.selected[i]) &&
+      replay.draws.every((draw, i) => draw === proof.draws[i]);
+  }
+}
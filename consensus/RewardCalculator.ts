@@ -1,4 +1,4 @@
-import * as _ from 'lodash';
+import _ from 'lodash';
 import { EmotionalValidator } from './EmotionalValidator';
 /**
  * Dynamic reward calculation based on emotional contribution
@@ -0,0 +1,297 @@
+import { EventEmitter } from 'eventemitter3';
+import * as crypto from 'crypto';
+import { ProductionCrypto } from '../crypto/ProductionCrypto';
+import { CONFIG } from '../shared/config';
+import type { DatabaseStorage } from '../storage/DatabaseStorage';
+/**
+ * Validator jail for Proof of Emotion consensus
+ * Validators that miss too many committee votes, stay below the emotional threshold or
+ * are caught behaving Byzantine are proposed for jailing. Like unjail transactions, jail
+ * events only take effect when a finalized block carries them, so every node jails the same
+ * validators at the same height. Jail times are measured in block time, never a node's clock.
+ * The jail record is persisted with the validator's state, committee selection skips jailed
+ * validators, and only a signed unjail transaction included in a block after the minimum
+ * jail time releases them.
+ */
+export type JailReason = 'missed_rounds' | 'low_emotional_score' | 'byzantine_behaviour' | 'slashed';
+const JAIL_REASONS: JailReason[] = ['missed_rounds', 'low_emotional_score', 'byzantine_behaviour', 'slashed'];
+export interface JailRecord {
+  validatorId: string;
+  reason: JailReason;
+  jailedAt: number; // Timestamp of the block that carried the jail event
+  jailedHeight: number;
+  observedHeight: number | null; // Height of the round or assessment that triggered it, when there was one
+  releasableAt: number; // Earliest block timestamp at which an unjail transaction is accepted
+  jailCount: number; // Times jailed, including this one
+  releasedAt: number | null; // Block timestamp; kept after release so jailCount survives restarts
+  releasedHeight: number | null;
+}
+export interface JailEvent {
+  type: 'jail';
+  validatorId: string;
+  reason: JailReason;
+  observedHeight: number | null;
+  duration: number; // Minimum jail time in ms of block time
+}
+export interface UnjailTransaction {
+  type: 'unjail';
+  validatorId: string;
+  jailCount: number; // Jailing it ends, so an old unjail transaction cannot be replayed
+  timestamp: number;
+  signature: string; // Validator's ECDSA signature
+  hash: string;
+}
+export interface JailStatus {
+  validatorId: string;
+  jailed: boolean;
+  reason: JailReason | null;
+  jailedAt: number | null;
+  releasableAt: number | null;
+  canUnjail: boolean; // Minimum jail time served
+  jailCount: number;
+  missedRounds: number; // In the current signing window
+  signingWindow: number;
+  lowScoreStreak: number;
+}
+export interface JailConfig {
+  signingWindow: number;
+  missedRoundsLimit: number;
+  lowScoreLimit: number;
+  minimumJailTime: number; // ms
+  emotionalThreshold: number;
+}
+type JailStorage = Pick<DatabaseStorage, 'storeJailRecord' | 'getJailRecords'>;
+export class ValidatorJail extends EventEmitter {
+  private config: JailConfig;
+  private records = new Map<string, JailRecord>(); // Latest record per validator, released or not
+  private signing = new Map<string, boolean[]>(); // validator -> recent committee rounds, true where it missed its vote
+  private lowScoreStreaks = new Map<string, number>();
+  private pendingJails = new Map<string, JailEvent>(); // validator -> proposed, awaiting inclusion
+  private pendingUnjails = new Map<string, UnjailTransaction>(); // transaction hash -> verified, awaiting inclusion
+  constructor(private storage: JailStorage, config: Partial<JailConfig> = {}) {
+    super();
+    this.config = {
+      ...CONFIG.consensus.jailing,
+      emotionalThreshold: CONFIG.consensus.thresholds.emotionalScore,
+      ...config
+    };
+  }
+  async initialize(): Promise<void> {
+    for (const record of await this.storage.getJailRecords()) {
+      this.records.set(record.validatorId, record);
+    }
+    const jailed = this.getJailed();
+    if (jailed.length > 0) {
+      console.log(`🔒 ${jailed.length} validator(s) still jailed: ${jailed.map(record => record.validatorId).join(', ')}`);
+    }
+  }
+  updateConfig(config: Partial<JailConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+  // Liveness and fitness tracking
+  /**
+   * Record a finalized round: committee members without an approving vote in its certificate
+   * missed it. Returns the jail events this proposed.
+   */
+  recordRound(committee: string[], signers: string[], height: number): JailEvent[] {
+    const signed = new Set(signers);
+    const proposed: JailEvent[] = [];
+    for (const validatorId of committee) {
+      if (this.isJailed(validatorId)) continue;
+      const window = this.signing.get(validatorId) || [];
+      window.push(!signed.has(validatorId));
+      if (window.length > this.config.signingWindow) window.shift();
+      this.signing.set(validatorId, window);
+      if (window.filter(missed => missed).length >= this.config.missedRoundsLimit) {
+        const event = this.proposeJail(validatorId, 'missed_rounds', height);
+        if (event) proposed.push(event);
+      }
+    }
+    return proposed;
+  }
+  /**
+   * Record an emotional assessment; consecutive scores below the threshold propose jailing the validator
+   */
+  recordEmotionalScore(validatorId: string, score: number, height: number | null = null): JailEvent | null {
+    if (this.isJailed(validatorId)) return null;
+    if (score >= this.config.emotionalThreshold) {
+      this.lowScoreStreaks.delete(validatorId);
+      return null;
+    }
+    const streak = (this.lowScoreStreaks.get(validatorId) || 0) + 1;
+    this.lowScoreStreaks.set(validatorId, streak);
+    return streak >= this.config.lowScoreLimit ? this.proposeJail(validatorId, 'low_emotional_score', height) : null;
+  }
+  /**
+   * Queue a jail event for the next block; nothing changes until a finalized block carries it.
+   * Returns null when the validator is already jailed or has a jailing pending.
+   */
+  proposeJail(validatorId: string, reason: JailReason, observedHeight: number | null = null, duration: number = this.config.minimumJailTime): JailEvent | null {
+    if (this.isJailed(validatorId) || this.pendingJails.has(validatorId)) return null;
+    const event: JailEvent = { type: 'jail', validatorId, reason, observedHeight, duration };
+    this.pendingJails.set(validatorId, event);
+    console.warn(`🔒 Jailing of ${validatorId} (${reason}) proposed for the next block`);
+    return event;
+  }
+  /**
+   * Check a jail event a block carries against the jail state every node shares at that block;
+   * returns why it cannot apply, or null
+   */
+  checkJail(event: JailEvent): string | null {
+    if (event?.type !== 'jail' || typeof event.validatorId !== 'string') return 'not a jail event';
+    if (!JAIL_REASONS.includes(event.reason)) return `unknown jail reason ${event.reason}`;
+    if (!(event.duration > 0)) return 'jail duration must be positive';
+    if (this.isJailed(event.validatorId)) return `${event.validatorId} is already jailed`;
+    return null;
+  }
+  selectJailsForBlock(limit: number = 10): JailEvent[] {
+    return Array.from(this.pendingJails.values())
+      .sort((a, b) => (a.validatorId < b.validatorId ? -1 : 1))
+      .slice(0, limit);
+  }
+  /**
+   * Jail the validators of jail events included in a finalized block, timed from the block's timestamp
+   */
+  async applyJails(events: JailEvent[], height: number, timestamp: number): Promise<JailRecord[]> {
+    const jailed: JailRecord[] = [];
+    for (const event of events) {
+      this.pendingJails.delete(event.validatorId);
+      const invalid = this.checkJail(event);
+      if (invalid) {
+        console.warn(`Skipped jail event for ${event.validatorId} in block ${height}: ${invalid}`);
+        continue;
+      }
+      const record: JailRecord = {
+        validatorId: event.validatorId,
+        reason: event.reason,
+        jailedAt: timestamp,
+        jailedHeight: height,
+        observedHeight: event.observedHeight,
+        releasableAt: timestamp + event.duration,
+        jailCount: (this.records.get(event.validatorId)?.jailCount || 0) + 1,
+        releasedAt: null,
+        releasedHeight: null
+      };
+      this.records.set(record.validatorId, record);
+      this.signing.delete(record.validatorId);
+      this.lowScoreStreaks.delete(record.validatorId);
+      await this.storage.storeJailRecord(record.validatorId, record);
+      console.warn(`🔒 Validator ${record.validatorId} jailed (${record.reason}) at height ${height} until at least ${new Date(record.releasableAt).toISOString()}`);
+      this.emit('validator-jailed', record);
+      jailed.push(record);
+    }
+    return jailed;
+  }
+  // Unjail transactions
+  static createUnjail(validatorId: string, jailCount: number, privateKey: string, timestamp: number = Date.now()): UnjailTransaction {
+    const unsigned = { type: 'unjail' as const, validatorId, jailCount, timestamp };
+    const signature = ProductionCrypto.signECDSA(ValidatorJail.hashUnjail(unsigned), Buffer.from(privateKey, 'hex'));
+    return { ...unsigned, signature: signature.signature, hash: ValidatorJail.transactionHash(unsigned, signature.signature) };
+  }
+  static verifyUnjailSignature(transaction: UnjailTransaction, publicKey: string): boolean {
+    if (!publicKey || !transaction.signature) return false;
+    return ProductionCrypto.verifyECDSASignature(ValidatorJail.hashUnjail(transaction), transaction.signature, Buffer.from(publicKey, 'hex'));
+  }
+  /**
+   * Check an unjail transaction against the validator's bound key and its current jailing, as of
+   * blockTimestamp: the minimum jail time must be served by then. Returns why it is rejected, or null.
+   */
+  checkUnjail(transaction: UnjailTransaction, publicKey: string | null | undefined, blockTimestamp: number): string | null {
+    if (transaction?.type !== 'unjail') return 'not an unjail transaction';
+    if (ValidatorJail.transactionHash(transaction, transaction.signature) !== transaction.hash) return 'transaction hash mismatch';
+    if (!publicKey) return `no public key bound for ${transaction.validatorId}`;
+    if (!ValidatorJail.verifyUnjailSignature(transaction, publicKey)) return 'signature is invalid';
+    const record = this.records.get(transaction.validatorId);
+    if (!record || record.releasedAt) return `${transaction.validatorId} is not jailed`;
+    if (transaction.jailCount !== record.jailCount) return `transaction is for jailing #${transaction.jailCount}, not the current #${record.jailCount}`;
+    if (transaction.timestamp < record.jailedAt) return 'transaction was signed before the validator was jailed';
+    if (blockTimestamp < record.releasableAt) return `minimum jail time ends at ${new Date(record.releasableAt).toISOString()}`;
+    return null;
+  }
+  /**
+   * Queue a valid unjail transaction for inclusion; returns the reason it is rejected, or null.
+   * Admission checks the jail time against this node's clock; the including block's timestamp decides.
+   */
+  submitUnjail(transaction: UnjailTransaction, publicKey: string | null | undefined): string | null {
+    const invalid = this.checkUnjail(transaction, publicKey, Date.now());
+    if (invalid) return invalid;
+    if (this.pendingUnjails.has(transaction.hash)) return 'transaction already pending';
+    this.pendingUnjails.set(transaction.hash, transaction);
+    return null;
+  }
+  selectUnjailsForBlock(limit: number = 10): UnjailTransaction[] {
+    return Array.from(this.pendingUnjails.values())
+      .sort((a, b) => a.timestamp - b.timestamp || (a.hash < b.hash ? -1 : 1))
+      .slice(0, limit);
+  }
+  /**
+   * Release the validators of unjail transactions included in a finalized block, as of its timestamp
+   */
+  async applyUnjails(
+    transactions: UnjailTransaction[],
+    height: number,
+    timestamp: number,
+    publicKeyOf: (validatorId: string) => string | null | undefined
+  ): Promise<JailRecord[]> {
+    const released: JailRecord[] = [];
+    for (const transaction of transactions) {
+      this.pendingUnjails.delete(transaction.hash);
+      const invalid = this.checkUnjail(transaction, publicKeyOf(transaction.validatorId), timestamp);
+      if (invalid) {
+        console.warn(`Skipped unjail transaction for ${transaction.validatorId} in block ${height}: ${invalid}`);
+        continue;
+      }
+      const record: JailRecord = { ...this.records.get(transaction.validatorId)!, releasedAt: timestamp, releasedHeight: height };
+      this.records.set(record.validatorId, record);
+      await this.storage.storeJailRecord(record.validatorId, record);
+      console.log(`🔓 Validator ${record.validatorId} unjailed at height ${height}`);
+      this.emit('validator-unjailed', record);
+      released.push(record);
+    }
+    return released;
+  }
+  // Status
+  isJailed(validatorId: string): boolean {
+    const record = this.records.get(validatorId);
+    return !!record && !record.releasedAt;
+  }
+  getRecord(validatorId: string): JailRecord | null {
+    return this.records.get(validatorId) || null;
+  }
+  getJailed(): JailRecord[] {
+    return Array.from(this.records.values()).filter(record => !record.releasedAt);
+  }
+  getStatus(validatorId: string, now: number = Date.now()): JailStatus {
+    const window = this.signing.get(validatorId) || [];
+    return {
+      ...ValidatorJail.statusOf(validatorId, this.records.get(validatorId) || null, now),
+      missedRounds: window.filter(missed => missed).length,
+      signingWindow: this.config.signingWindow,
+      lowScoreStreak: this.lowScoreStreaks.get(validatorId) || 0
+    };
+  }
+  /**
+   * Status from a persisted record alone, for readers without the live signing window
+   */
+  static statusOf(validatorId: string, record: JailRecord | null, now: number = Date.now()): Omit<JailStatus, 'missedRounds' | 'signingWindow' | 'lowScoreStreak'> {
+    const jailed = !!record && !record.releasedAt;
+    return {
+      validatorId,
+      jailed,
+      reason: jailed ? record!.reason : null,
+      jailedAt: jailed ? record!.jailedAt : null,
+      releasableAt: jailed ? record!.releasableAt : null,
+      canUnjail: jailed && now >= record!.releasableAt,
+      jailCount: record?.jailCount || 0
+    };
+  }
+  private static hashUnjail(transaction: Pick<UnjailTransaction, 'validatorId' | 'jailCount' | 'timestamp'>): Uint8Array {
+    const { validatorId, jailCount, timestamp } = transaction;
+    return crypto.createHash('sha256')
+      .update(JSON.stringify({ type: 'unjail', validatorId, jailCount, timestamp }))
+      .digest();
+  }
+  private static transactionHash(transaction: Pick<UnjailTransaction, 'validatorId' | 'jailCount' | 'timestamp'>, signature: string): string {
+    return crypto.createHash('sha256').update(ValidatorJail.hashUnjail(transaction)).update(signature || '').digest('hex');
+  }
+}
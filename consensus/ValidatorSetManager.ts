@@ -0,0 +1,249 @@
+import { EventEmitter } from 'eventemitter3';
+import { ProductionCrypto } from '../crypto/ProductionCrypto';
+import { CONFIG } from '../shared/config';
+import type { DatabaseStorage } from '../storage/DatabaseStorage';
+/**
+ * Epoch-based validator set for Proof of Emotion consensus
+ * Registrations and removals do not touch the active set directly: they are queued and
+ * applied together at the end of a validator-set epoch, at most churnLimit per epoch. The
+ * epoch's last block carries the new set and its hash, so a light client holding the old
+ * set can verify that block and switch to the new one from the next height.
+ */
+export type ValidatorSetChangeType = 'join' | 'leave';
+export interface QueuedValidatorChange {
+  type: ValidatorSetChangeType;
+  validatorId: string;
+  queuedAt: number;
+  queuedHeight: number; // Latest finalized height when queued
+}
+export interface ValidatorSetMember {
+  validatorId: string;
+  publicKey: string; // hex encoded secp256k1 public key (producer signatures)
+  blsPublicKey: string | null; // hex encoded BLS12-381 public key (quorum certificates)
+  blsProof: string | null; // Proof of possession of the BLS key
+}
+export interface ValidatorSetUpdate {
+  epoch: number; // Epoch the set is active for
+  activationHeight: number; // First block under this set
+  joined: string[];
+  left: string[];
+  validators: ValidatorSetMember[]; // Ordered by validator id
+  validatorSetHash: string; // ValidatorSetManager.hashSet(validators)
+}
+export interface ValidatorSetConfig {
+  epochLength: number; // blocks
+  churnLimit: number; // joins plus leaves applied per epoch
+  minimum: number;
+  maximum: number;
+}
+type ValidatorSetStorage = Pick<DatabaseStorage, 'getLatestValidatorSet'>;
+export class ValidatorSetManager extends EventEmitter {
+  private config: ValidatorSetConfig;
+  private active = new Set<string>();
+  private epoch = 0;
+  private latest: ValidatorSetUpdate | null = null; // Last set committed in a block
+  private queue: QueuedValidatorChange[] = []; // Oldest first
+  constructor(private storage: ValidatorSetStorage, config: Partial<ValidatorSetConfig> = {}) {
+    super();
+    const { epochLength, churnLimit, minimum, maximum } = CONFIG.consensus.validators;
+    this.config = { epochLength, churnLimit, minimum, maximum, ...config };
+  }
+  /**
+   * Restore the last committed set. Known validators outside it are queued to join and
+   * members no longer known are queued to leave; with no committed set yet they form
+   * the genesis set.
+   */
+  async initialize(knownValidators: string[]): Promise<void> {
+    this.latest = await this.storage.getLatestValidatorSet();
+    if (!this.latest) {
+      this.active = new Set(knownValidators);
+      console.log(`👥 Genesis validator set of ${this.active.size} validator(s)`);
+      return;
+    }
+    this.active = new Set(this.latest.validators.map(member => member.validatorId));
+    this.epoch = this.latest.epoch;
+    const known = new Set(knownValidators);
+    for (const validatorId of [...knownValidators].sort()) {
+      if (!this.active.has(validatorId)) this.queueJoin(validatorId, this.latest.activationHeight - 1);
+    }
+    for (const validatorId of Array.from(this.active).sort()) {
+      if (!known.has(validatorId)) this.queueLeave(validatorId, this.latest.activationHeight - 1);
+    }
+    console.log(`👥 Validator set for epoch ${this.epoch} restored: ${this.active.size} active, ${this.queue.length} queued`);
+  }
+  updateConfig(config: Partial<ValidatorSetConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+  // Epochs
+  epochOf(height: number): number {
+    return Math.floor(Math.max(height - 1, 0) / this.config.epochLength);
+  }
+  isEpochEnd(height: number): boolean {
+    return height > 0 && height % this.config.epochLength === 0;
+  }
+  // Queue
+  /**
+   * Activate a validator immediately; only before the first block, when there is no set to change
+   */
+  addGenesis(validatorId: string): void {
+    if (this.latest) {
+      throw new Error('Genesis validator set is already committed');
+    }
+    this.active.add(validatorId);
+  }
+  /**
+   * Queue a validator to join at the next epoch boundary; a queued leave is cancelled instead
+   */
+  queueJoin(validatorId: string, height: number): boolean {
+    if (this.cancel(validatorId, 'leave')) return true;
+    if (this.active.has(validatorId) || this.isQueued(validatorId)) return false;
+    this.queue.push({ type: 'join', validatorId, queuedAt: Date.now(), queuedHeight: height });
+    this.emit('change-queued', this.queue[this.queue.length - 1]);
+    return true;
+  }
+  /**
+   * Queue a validator to leave at the next epoch boundary; a queued join is cancelled instead
+   */
+  queueLeave(validatorId: string, height: number): boolean {
+    if (this.cancel(validatorId, 'join')) return true;
+    if (!this.active.has(validatorId) || this.isQueued(validatorId)) return false;
+    this.queue.push({ type: 'leave', validatorId, queuedAt: Date.now(), queuedHeight: height });
+    this.emit('change-queued', this.queue[this.queue.length - 1]);
+    return true;
+  }
+  // Transitions
+  /**
+   * Set to commit in the epoch's last block: the oldest queued changes up to the churn
+   * limit, skipping joins that would exceed the maximum set size and leaves that would go
+   * below the minimum. Does not change the queue; see applyTransition.
+   */
+  prepareTransition(height: number, memberOf: (validatorId: string) => ValidatorSetMember | null): ValidatorSetUpdate {
+    if (!this.isEpochEnd(height)) {
+      throw new Error(`Block ${height} does not end a validator set epoch`);
+    }
+    const next = new Set(this.active);
+    const joined: string[] = [];
+    const left: string[] = [];
+    for (const change of this.queue) {
+      if (joined.length + left.length >= this.config.churnLimit) break;
+      if (change.type === 'join') {
+        if (next.size >= this.config.maximum || !memberOf(change.validatorId)) continue;
+        next.add(change.validatorId);
+        joined.push(change.validatorId);
+      } else {
+        if (next.size <= this.config.minimum) continue;
+        next.delete(change.validatorId);
+        left.push(change.validatorId);
+      }
+    }
+    const validators = Array.from(next)
+      .map(validatorId => memberOf(validatorId))
+      .filter((member): member is ValidatorSetMember => !!member)
+      .sort((a, b) => (a.validatorId < b.validatorId ? -1 : a.validatorId > b.validatorId ? 1 : 0));
+    return {
+      epoch: this.epochOf(height) + 1,
+      activationHeight: height + 1,
+      joined,
+      left,
+      validators,
+      validatorSetHash: ValidatorSetManager.hashSet(validators)
+    };
+  }
+  /**
+   * Adopt the set committed in a finalized block and drop its changes from the queue
+   */
+  applyTransition(update: ValidatorSetUpdate): void {
+    const applied = new Set([...update.joined, ...update.left]);
+    this.queue = this.queue.filter(change => !applied.has(change.validatorId));
+    this.active = new Set(update.validators.map(member => member.validatorId));
+    this.epoch = update.epoch;
+    this.latest = update;
+    console.log(`👥 Validator set for epoch ${update.epoch} from height ${update.activationHeight}: ` +
+      `${update.validators.length} validators (+${update.joined.length} -${update.left.length}), ${this.queue.length} still queued`);
+    this.emit('set-changed', update);
+  }
+  /**
+   * Re-derive the transition for block `height` from this node's own set and queue, and
+   * compare it with the one the block commits. A proposer cannot slip in joins, leaves or
+   * keys the queue does not hold. Returns why the committed set differs, or null.
+   */
+  verifyTransition(
+    update: ValidatorSetUpdate,
+    height: number,
+    memberOf: (validatorId: string) => ValidatorSetMember | null
+  ): string | null {
+    const invalid = ValidatorSetManager.verifyUpdate(update, height, this.getActive());
+    if (invalid) return invalid;
+    const expected = this.prepareTransition(height, memberOf);
+    if (expected.epoch !== update.epoch) {
+      return `set is for epoch ${update.epoch}, expected ${expected.epoch}`;
+    }
+    if (expected.joined.join() !== update.joined.join() || expected.left.join() !== update.left.join()) {
+      return `set changes (+${update.joined.join(',')} -${update.left.join(',')}) differ from the queue ` +
+        `(+${expected.joined.join(',')} -${expected.left.join(',')})`;
+    }
+    if (expected.validatorSetHash !== update.validatorSetHash) {
+      return 'validator keys differ from the registered ones';
+    }
+    return null;
+  }
+  /**
+   * Checks that need no queue, for light clients: the activation height, the set hash and,
+   * given the set the update replaces, that the members are exactly that set with the
+   * listed joins and leaves applied. Returns why the update is invalid, or null.
+   */
+  static verifyUpdate(update: ValidatorSetUpdate, height: number, previous?: string[]): string | null {
+    if (update.activationHeight !== height + 1) {
+      return `set activates at ${update.activationHeight}, not after block ${height}`;
+    }
+    if (ValidatorSetManager.hashSet(update.validators) !== update.validatorSetHash) {
+      return 'validator set hash mismatch';
+    }
+    if (previous) {
+      const next = new Set(previous);
+      for (const validatorId of update.joined) {
+        if (next.has(validatorId)) return `${validatorId} joins but is already in the set`;
+        next.add(validatorId);
+      }
+      for (const validatorId of update.left) {
+        if (!next.delete(validatorId)) return `${validatorId} leaves but is not in the set`;
+      }
+      const members = update.validators.map(member => member.validatorId);
+      if (members.length !== next.size || members.some(validatorId => !next.has(validatorId))) {
+        return 'members are not the previous set with the listed changes applied';
+      }
+    }
+    return null;
+  }
+  static hashSet(validators: ValidatorSetMember[]): string {
+    const ordered = [...validators]
+      .sort((a, b) => (a.validatorId < b.validatorId ? -1 : a.validatorId > b.validatorId ? 1 : 0))
+      .map(member => [member.validatorId, member.publicKey, member.blsPublicKey || '', member.blsProof || '']);
+    return Buffer.from(ProductionCrypto.hash(new TextEncoder().encode(JSON.stringify(ordered)))).toString('hex');
+  }
+  // Status
+  isActive(validatorId: string): boolean {
+    return this.active.has(validatorId);
+  }
+  isQueued(validatorId: string): boolean {
+    return this.queue.some(change => change.validatorId === validatorId);
+  }
+  getActive(): string[] {
+    return Array.from(this.active).sort();
+  }
+  getQueue(): QueuedValidatorChange[] {
+    return [...this.queue];
+  }
+  getEpoch(): number {
+    return this.epoch;
+  }
+  getLatest(): ValidatorSetUpdate | null {
+    return this.latest;
+  }
+  private cancel(validatorId: string, type: ValidatorSetChangeType): boolean {
+    const index = this.queue.findIndex(change => change.validatorId === validatorId && change.type === type);
+    if (index === -1) return false;
+    this.queue.splice(index, 1);
+    return true;
+  }
+}
@@ -0,0 +1,193 @@
+import * as crypto from 'crypto';
+import { ProductionCrypto } from '../crypto/ProductionCrypto';
+import { EvidencePool } from './EquivocationEvidence';
+import type { Vote } from './ConsensusRound';
+import type { EmotionalCommittee } from './EmotionalCommittee';
+/**
+ * View changes for Proof of Emotion consensus rounds
+ * When a view's leader stalls, committee members sign timeout votes; a quorum of them
+ * forms a timeout certificate that moves the round to the next view, led by the next
+ * backup validator. Locks on prepared blocks carry across views, so a block prepared
+ * in one view is the only block a later view can commit unless a newer quorum prepared another.
+ */
+export interface PreparedCertificate {
+  height: number;
+  view: number;
+  roundId: string; // View round id the votes were signed for
+  blockHash: string;
+  votes: Vote[]; // Approving votes from a quorum of the committee
+}
+export interface TimeoutVote {
+  validatorId: string;
+  height: number;
+  roundId: string; // Base round id, shared by every view of the round
+  view: number; // View being abandoned
+  prepared: PreparedCertificate | null; // Highest prepared certificate the signer knows of
+  timestamp: number;
+  signature: string; // Covers the prepared view and block hash, not the certificate's votes
+}
+export interface TimeoutCertificate {
+  height: number;
+  roundId: string;
+  view: number; // View the certificate ends; the next view is view + 1
+  votes: TimeoutVote[];
+  highPrepared: PreparedCertificate | null; // Block the next leader must re-propose, if any
+}
+export class ViewChange {
+  /**
+   * Votes of each view are signed under their own round id, so voting for a new proposal
+   * after a view change is never mistaken for double signing
+   */
+  static viewRoundId(roundId: string, view: number): string {
+    return view === 0 ? roundId : `${roundId}:v${view}`;
+  }
+  static quorum(committeeSize: number, byzantineThreshold: number): number {
+    return Math.ceil(committeeSize * (byzantineThreshold / 100));
+  }
+  // Prepared certificates
+  static createPreparedCertificate(height: number, view: number, roundId: string, blockHash: string, votes: Vote[]): PreparedCertificate {
+    return {
+      height,
+      view,
+      roundId: ViewChange.viewRoundId(roundId, view),
+      blockHash,
+      votes: votes
+        .filter(vote => vote.approved && vote.blockHash === blockHash)
+        .sort((a, b) => (a.validatorId < b.validatorId ? -1 : 1))
+    };
+  }
+  /**
+   * Check that a quorum of the committee approved the block at this height in the view the
+   * certificate names. The view is bound through the signed round id, so votes from one view
+   * cannot be relabelled as a newer view to move a lock. Returns what is wrong, or null.
+   */
+  static verifyPreparedCertificate(
+    certificate: PreparedCertificate,
+    committee: EmotionalCommittee,
+    byzantineThreshold: number,
+    height: number,
+    baseRoundId: string
+  ): string | null {
+    if (certificate.height !== height) {
+      return `certificate is for height ${certificate.height}, not ${height}`;
+    }
+    if (!Number.isInteger(certificate.view) || certificate.view < 0 ||
+        certificate.roundId !== ViewChange.viewRoundId(baseRoundId, certificate.view)) {
+      return `certificate round ${certificate.roundId} is not view ${certificate.view} of round ${baseRoundId}`;
+    }
+    const signers = new Set<string>();
+    for (const vote of certificate.votes) {
+      if (!vote.approved || vote.blockHash !== certificate.blockHash ||
+          vote.height !== certificate.height || vote.roundId !== certificate.roundId) {
+        return `vote from ${vote.validatorId} does not match the certificate`;
+      }
+      const validator = committee.getValidators().find(v => v.getId() === vote.validatorId);
+      if (!validator) return `${vote.validatorId} is not a committee member`;
+      if (!EvidencePool.verifyVote(vote, validator.getPublicKey())) return `invalid vote signature from ${vote.validatorId}`;
+      signers.add(vote.validatorId);
+    }
+    const required = ViewChange.quorum(committee.size(), byzantineThreshold);
+    return signers.size >= required ? null : `only ${signers.size}/${required} approving votes`;
+  }
+  // Timeout votes
+  static signTimeout(vote: Omit<TimeoutVote, 'signature'>, privateKey: string): TimeoutVote {
+    const signature = ProductionCrypto.signECDSA(ViewChange.hashTimeout(vote), Buffer.from(privateKey, 'hex'));
+    return { ...vote, signature: signature.signature };
+  }
+  static verifyTimeout(vote: TimeoutVote, publicKey: string): boolean {
+    if (!publicKey || !vote.signature) return false;
+    return ProductionCrypto.verifyECDSASignature(ViewChange.hashTimeout(vote), vote.signature, Buffer.from(publicKey, 'hex'));
+  }
+  // Timeout certificates
+  static createTimeoutCertificate(votes: TimeoutVote[]): TimeoutCertificate {
+    const [first] = votes;
+    return {
+      height: first.height,
+      roundId: first.roundId,
+      view: first.view,
+      votes: [...votes].sort((a, b) => (a.validatorId < b.validatorId ? -1 : 1)),
+      highPrepared: ViewChange.highestPrepared(votes.map(vote => vote.prepared))
+    };
+  }
+  /**
+   * Check that a quorum of the committee abandoned the view and that the certificate carries
+   * the highest block any of them saw prepared; returns what is wrong, or null
+   */
+  static verifyTimeoutCertificate(certificate: TimeoutCertificate, committee: EmotionalCommittee, byzantineThreshold: number): string | null {
+    const signers = new Set<string>();
+    for (const vote of certificate.votes) {
+      if (vote.height !== certificate.height || vote.roundId !== certificate.roundId || vote.view !== certificate.view) {
+        return `timeout vote from ${vote.validatorId} does not match the certificate`;
+      }
+      const validator = committee.getValidators().find(v => v.getId() === vote.validatorId);
+      if (!validator) return `${vote.validatorId} is not a committee member`;
+      if (!ViewChange.verifyTimeout(vote, validator.getPublicKey())) return `invalid timeout signature from ${vote.validatorId}`;
+      if (vote.prepared) {
+        const invalid = ViewChange.verifyPrepared(vote, committee, byzantineThreshold);
+        if (invalid) return `prepared certificate from ${vote.validatorId}: ${invalid}`;
+      }
+      signers.add(vote.validatorId);
+    }
+    const required = ViewChange.quorum(committee.size(), byzantineThreshold);
+    if (signers.size < required) {
+      return `only ${signers.size}/${required} timeout votes`;
+    }
+    const highest = ViewChange.highestPrepared(certificate.votes.map(vote => vote.prepared));
+    if (highest?.blockHash !== certificate.highPrepared?.blockHash || highest?.view !== certificate.highPrepared?.view) {
+      return 'certificate does not carry the highest prepared block';
+    }
+    return null;
+  }
+  /**
+   * Check the prepared certificate a timeout vote carries; it can only be from the view
+   * being abandoned or an earlier one
+   */
+  static verifyPrepared(vote: TimeoutVote, committee: EmotionalCommittee, byzantineThreshold: number): string | null {
+    if (!vote.prepared) return null;
+    if (vote.prepared.view > vote.view) {
+      return `prepared in view ${vote.prepared.view}, after the abandoned view ${vote.view}`;
+    }
+    return ViewChange.verifyPreparedCertificate(vote.prepared, committee, byzantineThreshold, vote.height, vote.roundId);
+  }
+  static highestPrepared(certificates: Array<PreparedCertificate | null>): PreparedCertificate | null {
+    return certificates.reduce<PreparedCertificate | null>(
+      (highest, certificate) => (certificate && (!highest || certificate.view > highest.view) ? certificate : highest),
+      null
+    );
+  }
+  private static hashTimeout(vote: Omit<TimeoutVote, 'signature'>): Uint8Array {
+    const { validatorId, height, roundId, view, prepared, timestamp } = vote;
+    return crypto.createHash('sha256')
+      .update(JSON.stringify({
+        type: 'view-timeout',
+        validatorId,
+        height,
+        roundId,
+        view,
+        preparedView: prepared?.view ?? null,
+        preparedBlockHash: prepared?.blockHash ?? null,
+        timestamp
+      }))
+      .digest();
+  }
+}
+/**
+ * Locking rule kept by a round across its views
+ * Once a quorum prepared a block, only that block may be voted for in later views, unless
+ * a certificate shows a quorum prepared a different block in a newer view.
+ */
+export class RoundLock {
+  private locked: PreparedCertificate | null = null;
+  lock(certificate: PreparedCertificate): void {
+    if (!this.locked || certificate.view > this.locked.view) {
+      this.locked = certificate;
+    }
+  }
+  canVoteFor(blockHash: string, justify: PreparedCertificate | null): boolean {
+    if (!this.locked || blockHash === this.locked.blockHash) return true;
+    return !!justify && justify.view > this.locked.view && justify.blockHash === blockHash;
+  }
+  getLocked(): PreparedCertificate | null {
+    return this.locked;
+  }
+}
@@ -1,4 +1,4 @@
-import { ProductionCrypto, ECDSASignature, BiometricProof } from './ProductionCrypto';
+import { ProductionCrypto, ECDSASignature } from './ProductionCrypto';
 
 export interface BiometricReading {
   deviceId: string;
@@ -21,6 +21,14 @@ export interface CryptographicBiometricProof {
   nonce: string;
 }
 
+interface DeviceReadingProof {
+  signature: ECDSASignature;
+  reading: BiometricReading;
+  timestamp: number;
+  authenticity: number;
+  nonce: string;
+}
+
 export interface EmotionalValidation {
   heartRate: number;
   stressLevel: number;
@@ -229,7 +237,7 @@ export class BiometricCrypto {
   private static createDeviceProof(
     reading: BiometricReading,
     privateKey: Uint8Array
-  ): BiometricProof {
+  ): DeviceReadingProof {
     const proofData = new TextEncoder().encode(
       `${reading.deviceId}:${reading.deviceType}:${reading.value}:${reading.timestamp}`
     );
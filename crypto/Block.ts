@@ -1,6 +1,6 @@
 import * as crypto from 'crypto';
 import { Transaction } from './Transaction';
-import { MerkleTree } from './MerkleTree';
+import { MerkleTree, MerkleProof } from './MerkleTree';
 import { EmotionalValidator, EmotionalValidatorUtils } from './EmotionalValidator';
 import { 
   EmotionalCommitment, 
@@ -279,8 +279,8 @@ export class Block {
   /**
    * Verify a transaction exists in this block using merkle proof
    */
-  public verifyTransactionInBlock(transactionHash: string, proof: any): boolean {
-    return MerkleTree.verifyProof(proof, this.merkleRoot);
+  public verifyTransactionInBlock(transactionHash: string, proof: MerkleProof): boolean {
+    return proof.leaf === transactionHash && MerkleTree.verifyProof(proof, this.merkleRoot);
   }
   /**
    * Get block size in bytes (estimated)
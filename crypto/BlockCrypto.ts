@@ -1,5 +1,7 @@
 import { ProductionCrypto, ECDSASignature, MultiSignature } from './ProductionCrypto';
 import { MerkleTree } from './MerkleTree';
+import type { QuorumCertificate } from './QuorumCertificate';
+import type { ValidatorSetUpdate } from '../consensus/ValidatorSetManager';
 
 export interface CryptographicBlock {
   index: number;
@@ -38,6 +40,24 @@ export interface MerkleProof {
   index: number;
 }
 
+/**
+ * Block header as committed to by the block hash; all a light client needs
+ */
+export interface BlockHeader {
+  height: number;
+  hash: string;
+  parentHash: string;
+  stateRoot: string;
+  transactionRoot: string; // Merkle root over transaction hashes
+  timestamp: number;
+  validatorId: string;
+  emotionalScore: number;
+  signature: string | null; // Producer ECDSA signature over the block hash
+  quorumCertificate?: QuorumCertificate | null; // Committee's aggregate commit signature; like the signature, not hashed
+  validatorSetHash?: string | null; // Next validator set, on the last block of an epoch; hashed when present
+  validatorSet?: ValidatorSetUpdate | null; // The set itself, checked against validatorSetHash
+}
+
 /**
  * Production-grade block cryptography using ECDSA signatures and Merkle trees
  * Replaces amateur hashing with cryptographically secure block validation
@@ -164,6 +184,41 @@ export class BlockCrypto {
     return Buffer.from(hashBytes).toString('hex');
   }
   
+  /**
+   * Hash a block header (the block hash of immutable chain blocks)
+   */
+  static hashHeader(header: Omit<BlockHeader, 'hash' | 'signature' | 'quorumCertificate' | 'validatorSet'>): string {
+    const headerString = JSON.stringify({
+      blockNumber: header.height,
+      parentHash: header.parentHash,
+      stateRoot: header.stateRoot,
+      transactionRoot: header.transactionRoot,
+      timestamp: header.timestamp,
+      validatorId: header.validatorId,
+      emotionalScore: header.emotionalScore,
+      // Only epoch-ending blocks commit to a validator set, so other headers hash as before
+      ...(header.validatorSetHash ? { validatorSetHash: header.validatorSetHash } : {})
+    });
+    return Buffer.from(ProductionCrypto.hash(new TextEncoder().encode(headerString))).toString('hex');
+  }
+  
+  /**
+   * Sign a block hash as its producer
+   */
+  static signHeader(blockHash: string, validatorPrivateKey: Uint8Array): string {
+    return ProductionCrypto.signECDSA(new TextEncoder().encode(blockHash), validatorPrivateKey).signature;
+  }
+  
+  /**
+   * Verify a header hashes to its block hash and carries the producer's signature
+   */
+  static verifyHeader(header: BlockHeader, validatorPublicKey: Uint8Array): boolean {
+    if (!header.signature || this.hashHeader(header) !== header.hash) {
+      return false;
+    }
+    return ProductionCrypto.verifyECDSASignature(new TextEncoder().encode(header.hash), header.signature, validatorPublicKey);
+  }
+  
   /**
    * Verify Merkle proof for transaction inclusion
    */
@@ -43,10 +43,7 @@ export class MerkleTree {
       for (let i = 0; i < currentLevel.length; i += 2) {
         const left = currentLevel[i];
         const right = i + 1 < currentLevel.length ? currentLevel[i + 1] : left; // Duplicate if odd
-        const combined = left + right;
-        const combinedBytes = new TextEncoder().encode(combined);
-        const parentHash = Buffer.from(ProductionCrypto.hash(combinedBytes)).toString('hex');
-        nextLevel.push(parentHash);
+        nextLevel.push(MerkleTree.hashPair(left, right));
       }
       currentLevel = nextLevel;
       tree.push(currentLevel);
@@ -103,18 +100,17 @@ export class MerkleTree {
    * Verify a merkle proof against the root
    */
   public static verifyProof(proof: MerkleProof, root: string): boolean {
+    if (proof.path.length !== proof.indices.length) {
+      return false;
+    }
     let currentHash = proof.leaf;
     // Traverse up the tree using the proof path
     for (let i = 0; i < proof.path.length; i++) {
       const siblingHash = proof.path[i];
-      const isRightNode = proof.indices[i] === 0;
-      let combined: string;
-      if (isRightNode) {
-        combined = siblingHash + currentHash; // Sibling on left, current on right
-      } else {
-        combined = currentHash + siblingHash; // Current on left, sibling on right
-      }
-      currentHash = crypto.createHash('sha256').update(combined).digest('hex');
+      const isRightNode = proof.indices[i] === 1;
+      currentHash = isRightNode
+        ? MerkleTree.hashPair(siblingHash, currentHash) // Sibling on left, current on right
+        : MerkleTree.hashPair(currentHash, siblingHash); // Current on left, sibling on right
     }
     return currentHash === root;
   }
@@ -148,8 +144,7 @@ export class MerkleTree {
         for (let i = 0; i < parentLevel.length; i++) {
           const leftChild = currentLevel[i * 2];
           const rightChild = i * 2 + 1 < currentLevel.length ? currentLevel[i * 2 + 1] : leftChild;
-          const combined = leftChild + rightChild;
-          const expectedHash = crypto.createHash('sha256').update(combined).digest('hex');
+          const expectedHash = MerkleTree.hashPair(leftChild, rightChild);
           if (parentLevel[i] !== expectedHash) {
             return false;
           }
@@ -161,6 +156,9 @@ export class MerkleTree {
       return false;
     }
   }
+  private static hashPair(left: string, right: string): string {
+    return Buffer.from(ProductionCrypto.hash(new TextEncoder().encode(left + right))).toString('hex');
+  }
   /**
    * Create merkle tree from transaction hashes directly
    */
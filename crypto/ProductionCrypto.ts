@@ -1,5 +1,6 @@
 import { secp256k1 } from '@noble/curves/secp256k1';
 import { ed25519 } from '@noble/curves/ed25519';
+import { bls12_381 } from '@noble/curves/bls12-381';
 import { sha256 } from '@noble/hashes/sha256';
 import { sha512 } from '@noble/hashes/sha512';
 import { hmac } from '@noble/hashes/hmac';
@@ -144,6 +145,13 @@ export class ProductionCrypto {
     }
   }
 
+  /**
+   * Verify a compact hex ECDSA signature, the form votes, records and transactions carry
+   */
+  static verifyECDSASignature(data: Uint8Array, signature: string, publicKey: Uint8Array): boolean {
+    return this.verifyECDSA(data, { signature, algorithm: 'ECDSA-secp256k1', r: '', s: '', recovery: 0 }, publicKey);
+  }
+
   /**
    * Sign data using Ed25519
    */
@@ -297,6 +305,104 @@ export class ProductionCrypto {
     return true;
   }
 
+  /**
+   * Derive a BLS12-381 key pair from existing key material (a validator's secp256k1
+   * private key), so aggregate signing needs no second secret
+   */
+  static deriveBLSKeyPair(seed: Uint8Array): BLSKeyPair {
+    const order = bls12_381.fields.Fr.ORDER;
+    const digest = sha256(new Uint8Array([...new TextEncoder().encode('EmotionalChain-BLS'), ...Array.from(seed)]));
+    const scalar = BigInt('0x' + Buffer.from(digest).toString('hex')) % (order - BigInt(1)) + BigInt(1);
+    const privateKey = new Uint8Array(Buffer.from(scalar.toString(16).padStart(64, '0'), 'hex'));
+    return {
+      privateKey,
+      publicKey: bls12_381.getPublicKey(privateKey),
+      curve: 'bls12-381'
+    };
+  }
+
+  /**
+   * Sign data with a BLS12-381 key; signatures over the same data aggregate into one
+   */
+  static signBLS(data: Uint8Array, privateKey: Uint8Array): string {
+    return Buffer.from(bls12_381.sign(data, privateKey)).toString('hex');
+  }
+
+  static verifyBLS(data: Uint8Array, signature: string, publicKey: Uint8Array): boolean {
+    try {
+      return bls12_381.verify(Buffer.from(signature, 'hex'), data, publicKey);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Aggregate BLS signatures over the same data into one signature and a signer bitmap
+   * Each signature is keyed by its signer's index in an ordered signer set of setSize keys
+   */
+  static createAggregateSignature(signatures: Map<number, string>, setSize: number): AggregateSignature {
+    if (signatures.size === 0) {
+      throw new Error('No signatures to aggregate');
+    }
+    const indices = Array.from(signatures.keys()).sort((a, b) => a - b);
+    if (indices[0] < 0 || indices[indices.length - 1] >= setSize) {
+      throw new Error('Signer index outside the signer set');
+    }
+    const aggregate = bls12_381.aggregateSignatures(indices.map(index => Buffer.from(signatures.get(index)!, 'hex')));
+    return {
+      signature: Buffer.from(aggregate).toString('hex'),
+      signers: this.encodeSignerBitmap(indices, setSize),
+      algorithm: 'BLS12-381-Aggregate'
+    };
+  }
+
+  /**
+   * Verify an aggregate signature against the ordered signer set its bitmap indexes;
+   * at least `threshold` signers must be set
+   */
+  static verifyAggregateSignature(
+    data: Uint8Array,
+    aggregate: AggregateSignature,
+    publicKeys: Uint8Array[],
+    threshold: number
+  ): boolean {
+    if (aggregate.algorithm !== 'BLS12-381-Aggregate') {
+      return false;
+    }
+    try {
+      const signers = this.decodeSignerBitmap(aggregate.signers);
+      if (signers.length === 0 || signers.length < threshold || signers[signers.length - 1] >= publicKeys.length) {
+        return false;
+      }
+      const publicKey = bls12_381.aggregatePublicKeys(signers.map(index => publicKeys[index]));
+      return bls12_381.verify(Buffer.from(aggregate.signature, 'hex'), data, publicKey);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Hex bitmap with bit i (least significant first within each byte) set for signer i
+   */
+  static encodeSignerBitmap(indices: number[], setSize: number): string {
+    const bitmap = new Uint8Array(Math.ceil(setSize / 8));
+    for (const index of indices) {
+      bitmap[index >> 3] |= 1 << (index & 7);
+    }
+    return Buffer.from(bitmap).toString('hex');
+  }
+
+  static decodeSignerBitmap(bitmap: string): number[] {
+    const bytes = Buffer.from(bitmap, 'hex');
+    const indices: number[] = [];
+    for (let index = 0; index < bytes.length * 8; index++) {
+      if (bytes[index >> 3] & (1 << (index & 7))) {
+        indices.push(index);
+      }
+    }
+    return indices;
+  }
+
   /**
    * Create cryptographic proof of biometric authenticity
    */
@@ -386,6 +492,18 @@ export interface MultiSignature {
   algorithm: 'Multi-ECDSA';
 }
 
+export interface BLSKeyPair {
+  privateKey: Uint8Array;
+  publicKey: Uint8Array; // 48-byte compressed G1 point
+  curve: 'bls12-381';
+}
+
+export interface AggregateSignature {
+  signature: string; // 96-byte BLS12-381 signature, whatever the number of signers
+  signers: string; // Hex bitmap over the ordered signer set
+  algorithm: 'BLS12-381-Aggregate';
+}
+
 export interface EncryptedData {
   encryptedData: Uint8Array;
   iv: Uint8Array;
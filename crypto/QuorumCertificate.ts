@@ -0,0 +1,144 @@
+import { ProductionCrypto, AggregateSignature } from './ProductionCrypto';
+/**
+ * Quorum certificates
+ * A committee's approving votes for a block, compacted into one BLS12-381 aggregate
+ * signature and a signer bitmap. The bitmap indexes the validator set ordered by
+ * validator id, so a light client holding that set verifies a certificate without
+ * seeing a single vote; its size grows by one bit per validator. Signers must belong
+ * to the committee the verifier expects and the quorum comes from it, and every signer
+ * must have proved it holds its BLS key, so a crafted key cannot cancel out honest keys
+ * in the aggregate.
+ */
+export interface SignerKey {
+  validatorId: string;
+  blsPublicKey: string; // hex encoded BLS12-381 G1 public key
+  blsProof?: string; // Proof of possession: the key's signature over itself (see proofOfPossession)
+}
+export interface QuorumCertificate {
+  height: number;
+  roundId: string; // View round id the block was approved in
+  blockHash: string;
+  committeeSize: number; // Signed with the block, so a certificate cannot claim a smaller committee
+  validatorSetHash: string; // Signer set the bitmap indexes (see validatorSetHash)
+  aggregate: AggregateSignature;
+}
+// What every approving committee member signs
+export type CommitMessage = Pick<QuorumCertificate, 'height' | 'roundId' | 'blockHash' | 'committeeSize'>;
+export class QuorumCertificates {
+  static readonly DEFAULT_THRESHOLD = 67; // Percent of the committee, as in RoundConfig.byzantineThreshold
+  private static possessionVerified = new Set<string>(); // blsPublicKey:blsProof pairs already checked
+  static quorum(committeeSize: number, byzantineThreshold: number = QuorumCertificates.DEFAULT_THRESHOLD): number {
+    return Math.ceil(committeeSize * (byzantineThreshold / 100));
+  }
+  // Signature shares
+  /**
+   * BLS share of an approving vote; the key is derived from the validator's secp256k1 key
+   */
+  static signShare(message: CommitMessage, privateKey: string): string {
+    const { privateKey: blsKey } = ProductionCrypto.deriveBLSKeyPair(Buffer.from(privateKey, 'hex'));
+    return ProductionCrypto.signBLS(QuorumCertificates.hashMessage(message), blsKey);
+  }
+  static verifyShare(message: CommitMessage, share: string, blsPublicKey: string): boolean {
+    if (!share || !blsPublicKey) return false;
+    return ProductionCrypto.verifyBLS(QuorumCertificates.hashMessage(message), share, Buffer.from(blsPublicKey, 'hex'));
+  }
+  static blsPublicKey(privateKey: string): string {
+    if (!privateKey) return '';
+    return Buffer.from(ProductionCrypto.deriveBLSKeyPair(Buffer.from(privateKey, 'hex')).publicKey).toString('hex');
+  }
+  /**
+   * Proof that the holder of a validator's secp256k1 key also holds the derived BLS key
+   */
+  static proofOfPossession(privateKey: string): string {
+    const { privateKey: blsKey, publicKey } = ProductionCrypto.deriveBLSKeyPair(Buffer.from(privateKey, 'hex'));
+    return ProductionCrypto.signBLS(QuorumCertificates.hashPossession(Buffer.from(publicKey).toString('hex')), blsKey);
+  }
+  static verifyProofOfPossession(signer: SignerKey): boolean {
+    if (!signer.blsPublicKey || !signer.blsProof) return false;
+    const key = `${signer.blsPublicKey}:${signer.blsProof}`;
+    if (QuorumCertificates.possessionVerified.has(key)) return true;
+    const valid = ProductionCrypto.verifyBLS(
+      QuorumCertificates.hashPossession(signer.blsPublicKey),
+      signer.blsProof,
+      Buffer.from(signer.blsPublicKey, 'hex')
+    );
+    if (valid) QuorumCertificates.possessionVerified.add(key);
+    return valid;
+  }
+  // Signer set
+  static orderSigners(validatorSet: SignerKey[]): SignerKey[] {
+    return [...validatorSet].sort((a, b) => (a.validatorId < b.validatorId ? -1 : a.validatorId > b.validatorId ? 1 : 0));
+  }
+  static validatorSetHash(validatorSet: SignerKey[]): string {
+    const ordered = QuorumCertificates.orderSigners(validatorSet).map(signer => [signer.validatorId, signer.blsPublicKey]);
+    return Buffer.from(ProductionCrypto.hash(new TextEncoder().encode(JSON.stringify(ordered)))).toString('hex');
+  }
+  // Certificates
+  /**
+   * Aggregate approving shares (validator id -> share) into a certificate over the validator set
+   */
+  static create(message: CommitMessage, shares: Map<string, string>, validatorSet: SignerKey[]): QuorumCertificate {
+    const ordered = QuorumCertificates.orderSigners(validatorSet);
+    const indexed = new Map<number, string>();
+    for (const [validatorId, share] of shares) {
+      const index = ordered.findIndex(signer => signer.validatorId === validatorId);
+      if (index === -1) {
+        throw new Error(`${validatorId} is not in the validator set`);
+      }
+      indexed.set(index, share);
+    }
+    return {
+      ...message,
+      validatorSetHash: QuorumCertificates.validatorSetHash(ordered),
+      aggregate: ProductionCrypto.createAggregateSignature(indexed, ordered.length)
+    };
+  }
+  /**
+   * Check a certificate against the validator set whose committee signed it. Every signer
+   * must be in committee, the validator ids the verifier knows were elected at that height,
+   * and the quorum is taken from it; a verifier that cannot tell the committee passes the
+   * whole set, so any quorum it accepts is a quorum of the set. A certificate claiming a
+   * larger committee needs that many signers. Returns why the certificate does not prove
+   * the block was approved, or null.
+   */
+  static verify(
+    certificate: QuorumCertificate,
+    validatorSet: SignerKey[],
+    byzantineThreshold: number = QuorumCertificates.DEFAULT_THRESHOLD,
+    committee: string[] = validatorSet.map(signer => signer.validatorId)
+  ): string | null {
+    const ordered = QuorumCertificates.orderSigners(validatorSet);
+    if (QuorumCertificates.validatorSetHash(ordered) !== certificate.validatorSetHash) {
+      return 'certificate was signed over a different validator set';
+    }
+    const signers = ProductionCrypto.decodeSignerBitmap(certificate.aggregate.signers);
+    if (signers.some(index => index >= ordered.length || !ordered[index].blsPublicKey)) {
+      return 'signer bitmap names a validator without a BLS key';
+    }
+    const members = new Set(committee);
+    const outsider = signers.find(index => !members.has(ordered[index].validatorId));
+    if (outsider !== undefined) {
+      return `${ordered[outsider].validatorId} signed but is not in the committee`;
+    }
+    const unproven = signers.find(index => !QuorumCertificates.verifyProofOfPossession(ordered[index]));
+    if (unproven !== undefined) {
+      return `${ordered[unproven].validatorId} has not proved possession of its BLS key`;
+    }
+    const required = QuorumCertificates.quorum(Math.max(certificate.committeeSize, members.size), byzantineThreshold);
+    if (signers.length < required) {
+      return `only ${signers.length}/${required} signers`;
+    }
+    const publicKeys = ordered.map(signer => new Uint8Array(Buffer.from(signer.blsPublicKey, 'hex')));
+    if (!ProductionCrypto.verifyAggregateSignature(QuorumCertificates.hashMessage(certificate), certificate.aggregate, publicKeys, required)) {
+      return 'aggregate signature is invalid';
+    }
+    return null;
+  }
+  private static hashPossession(blsPublicKey: string): Uint8Array {
+    return ProductionCrypto.hash(new TextEncoder().encode(JSON.stringify({ type: 'bls-possession', blsPublicKey })));
+  }
+  private static hashMessage(message: CommitMessage): Uint8Array {
+    const { height, roundId, blockHash, committeeSize } = message;
+    return ProductionCrypto.hash(new TextEncoder().encode(JSON.stringify({ type: 'quorum-commit', height, roundId, blockHash, committeeSize })));
+  }
+}
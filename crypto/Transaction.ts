@@ -1,6 +1,7 @@
 import { ProductionCrypto } from './ProductionCrypto';
 import { TransactionCrypto, SignedTransaction } from './TransactionCrypto';
 import type { KeyPair } from './KeyPair';
+import type { TransactionType } from '../shared/types/TransactionEnvelope';
 export interface BiometricData {
   heartRate: number;
   stressLevel: number;
@@ -12,7 +13,7 @@ export interface TransactionData {
   from: string;
   to: string;
   amount: number;
-  type: 'transfer' | 'mining_reward' | 'validation_reward';
+  type: TransactionType;
   timestamp: number;
   fee?: number;
   biometricData?: BiometricData;
@@ -29,7 +30,7 @@ export class Transaction {
   public from: string;
   public to: string;
   public amount: number;
-  public type: 'transfer' | 'mining_reward' | 'validation_reward';
+  public type: TransactionType;
   public timestamp: number;
   public fee: number;
   public biometricData?: BiometricData;
@@ -1,4 +1,5 @@
 import { ProductionCrypto, ECDSASignature } from './ProductionCrypto';
+import { serializeTypedTransaction, type TransactionType, type TypedTransactionBody } from '../shared/types/TransactionEnvelope';
 
 export interface SignedTransaction {
   from: string;
@@ -9,7 +10,7 @@ export interface SignedTransaction {
   hash: string;       // Cryptographic hash of signed data
   timestamp: number;
   fee: number;
-  type: 'transfer' | 'mining_reward' | 'validation_reward';
+  type: TransactionType;
   biometricData?: any;
   emotionalScore?: number;
   consensusScore?: number;
@@ -23,7 +24,7 @@ export interface TransactionInput {
   nonce: number;
   timestamp: number;
   fee: number;
-  type: 'transfer' | 'mining_reward' | 'validation_reward';
+  type: TransactionType;
   biometricData?: any;
   emotionalScore?: number;
   consensusScore?: number;
@@ -57,6 +58,13 @@ export class TransactionCrypto {
    * Verify transaction signature using ECDSA
    */
   static async verifyTransaction(tx: SignedTransaction, publicKey: Uint8Array): Promise<boolean> {
+    return this.verifyTransactionSignature(tx, publicKey);
+  }
+  
+  /**
+   * Synchronous form of verifyTransaction, for checks that cannot await
+   */
+  static verifyTransactionSignature(tx: SignedTransaction, publicKey: Uint8Array): boolean {
     try {
       // Reconstruct transaction data without signature
       const txInput: TransactionInput = {
@@ -126,6 +134,34 @@ export class TransactionCrypto {
     return Buffer.from(hashBytes).toString('hex');
   }
   
+  /**
+   * Hash of a typed transaction envelope and the fields its sender signs
+   */
+  static typedTransactionHash(body: TypedTransactionBody): string {
+    const hashBytes = ProductionCrypto.hash(new TextEncoder().encode(serializeTypedTransaction(body)));
+    return Buffer.from(hashBytes).toString('hex');
+  }
+  
+  /**
+   * Sign a typed transaction; the signature covers its envelope hash
+   */
+  static signTypedTransaction(body: TypedTransactionBody, privateKey: Uint8Array): { hash: string; signature: string } {
+    const hash = this.typedTransactionHash(body);
+    const signature = ProductionCrypto.signECDSA(new TextEncoder().encode(hash), privateKey);
+    return { hash, signature: signature.signature };
+  }
+  
+  /**
+   * Verify a typed transaction signature against the sender's public key
+   */
+  static verifyTypedTransaction(body: TypedTransactionBody, signature: string, publicKey: Uint8Array): boolean {
+    try {
+      return ProductionCrypto.verifyECDSASignature(new TextEncoder().encode(this.typedTransactionHash(body)), signature, publicKey);
+    } catch (error) {
+      return false;
+    }
+  }
+  
   /**
    * Derive address from public key using proper cryptographic derivation
    */
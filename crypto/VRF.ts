@@ -0,0 +1,106 @@
+import { secp256k1, hashToCurve } from '@noble/curves/secp256k1';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToNumberBE, concatBytes, numberToBytesBE } from '@noble/curves/abstract/utils';
+
+/**
+ * Elliptic-curve verifiable random function over secp256k1 (ECVRF, RFC 9381 structure)
+ * The output is unique per key and input, so a validator cannot grind alternatives,
+ * and anyone holding the public key can check it from the proof.
+ *
+ *   H     = hash_to_curve(publicKey || input)
+ *   Gamma = x * H
+ *   proof = (Gamma, c, s) with c = challenge(H, Gamma, k*G, k*H), s = k + c*x mod n
+ *   output = sha256(0x03 || Gamma)
+ */
+
+export interface VRFProof {
+  gamma: string; // compressed point, hex
+  c: string; // 16-byte challenge, hex
+  s: string; // 32-byte scalar, hex
+}
+
+export interface VRFResult {
+  output: string; // 32-byte hex
+  proof: VRFProof;
+}
+
+const Point = secp256k1.ProjectivePoint;
+const N = secp256k1.CURVE.n;
+const SUITE = new TextEncoder().encode('EmotionalChain-ECVRF-secp256k1-SHA256');
+const CHALLENGE_BYTES = 16;
+
+export class VRF {
+  /**
+   * Evaluate the VRF on input with a hex or raw private key
+   */
+  static prove(privateKey: string | Uint8Array, input: Uint8Array | string): VRFResult {
+    const secret = typeof privateKey === 'string' ? hexToBytes(privateKey) : privateKey;
+    const message = typeof input === 'string' ? new TextEncoder().encode(input) : input;
+    const x = bytesToNumberBE(secret) % N;
+    const publicKey = secp256k1.getPublicKey(secret, true);
+    const H = this.hashToPoint(publicKey, message);
+    const gamma = H.multiply(x);
+
+    // Deterministic nonce so a key never reuses k across different inputs
+    const k = bytesToNumberBE(sha256(concatBytes(SUITE, secret, H.toRawBytes(true)))) % N || BigInt(1);
+    const c = this.challenge(H, gamma, Point.BASE.multiply(k), H.multiply(k));
+    const s = (k + c * x) % N;
+
+    return {
+      output: this.proofToOutput(gamma),
+      proof: {
+        gamma: gamma.toHex(true),
+        c: bytesToHex(numberToBytesBE(c, CHALLENGE_BYTES)),
+        s: bytesToHex(numberToBytesBE(s, 32))
+      }
+    };
+  }
+
+  /**
+   * Verify a proof for input under publicKey; returns the VRF output, or null when invalid
+   */
+  static verify(publicKey: string | Uint8Array, input: Uint8Array | string, proof: VRFProof): string | null {
+    try {
+      const keyBytes = typeof publicKey === 'string' ? hexToBytes(publicKey) : publicKey;
+      const message = typeof input === 'string' ? new TextEncoder().encode(input) : input;
+      const Y = Point.fromHex(keyBytes);
+      const gamma = Point.fromHex(proof.gamma);
+      const c = bytesToNumberBE(hexToBytes(proof.c));
+      const s = bytesToNumberBE(hexToBytes(proof.s));
+      if (s >= N) return null;
+
+      const H = this.hashToPoint(Y.toRawBytes(true), message);
+      // U = s*G - c*Y, V = s*H - c*Gamma
+      const U = Point.BASE.multiplyUnsafe(s).subtract(Y.multiplyUnsafe(c));
+      const V = H.multiplyUnsafe(s).subtract(gamma.multiplyUnsafe(c));
+      if (this.challenge(H, gamma, U, V) !== c) return null;
+      return this.proofToOutput(gamma);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private static hashToPoint(publicKey: Uint8Array, message: Uint8Array) {
+    const affine = hashToCurve(concatBytes(publicKey, message), { DST: SUITE }).toAffine();
+    return Point.fromAffine(affine);
+  }
+
+  private static challenge(...points: Array<InstanceType<typeof Point>>): bigint {
+    const digest = sha256(concatBytes(SUITE, Uint8Array.of(0x02), ...points.map(p => p.toRawBytes(true))));
+    return bytesToNumberBE(digest.slice(0, CHALLENGE_BYTES));
+  }
+
+  private static proofToOutput(gamma: InstanceType<typeof Point>): string {
+    return bytesToHex(sha256(concatBytes(SUITE, Uint8Array.of(0x03), gamma.toRawBytes(true))));
+  }
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  return Uint8Array.from(Buffer.from(hex, 'hex'));
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('hex');
+}
+
+export default VRF;
@@ -112,6 +112,12 @@ CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_transactions_to_address_history
 ON transactions (to_address, created_at DESC) 
 INCLUDE (from_address, amount, status, block_hash, transaction_fee);
 
+-- Receipt finalization sweep
+-- Used by: receipt lifecycle (included -> finalized once deep enough)
+CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_transaction_receipts_finality 
+ON transaction_receipts (status, block_number) 
+WHERE status = 'included';
+
 -- High-value transaction monitoring
 -- Used by: security monitoring, large transaction alerts
 CREATE INDEX CONCURRENTLY IF NOT EXISTS idx_transactions_high_value 
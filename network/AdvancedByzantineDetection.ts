@@ -1,3 +1,4 @@
+import { EventEmitter } from 'events';
 import { ProductionCrypto } from '../crypto/ProductionCrypto';
 import { CONFIG } from '../shared/config';
 
@@ -5,13 +6,14 @@ import { CONFIG } from '../shared/config';
  * Advanced Byzantine Fault Detection using Machine Learning
  * Implements sophisticated threat detection beyond basic consensus rules
  */
-export class AdvancedByzantineDetection {
+export class AdvancedByzantineDetection extends EventEmitter {
   private behaviorPatterns = new Map<string, ValidatorBehavior>();
   private anomalyDetector: AnomalyDetector;
   private threatClassifier: ThreatClassifier;
   private honeypotValidators = new Set<string>();
   
   constructor() {
+    super();
     this.anomalyDetector = new AnomalyDetector();
     this.threatClassifier = new ThreatClassifier();
     this.initializeHoneypots();
@@ -40,7 +42,12 @@ export class AdvancedByzantineDetection {
     ]);
 
     // Combine assessments
-    return this.combineThreatAssessments(assessments);
+    const assessment = this.combineThreatAssessments(assessments);
+    // Report threats found in live behavior; threat reports re-run the analysis and are not repeated
+    if (action.type !== 'analysis_request' && ['medium', 'high', 'critical'].includes(assessment.threatLevel)) {
+      this.emit('threatDetected', { subjectId: validatorId, assessment });
+    }
+    return assessment;
   }
 
   private updateBehaviorPattern(validatorId: string, action: ValidatorAction): void {
@@ -426,9 +433,9 @@ export class AdvancedByzantineDetection {
 }
 
 // Supporting interfaces
-type ThreatLevel = 'low' | 'medium' | 'high' | 'critical' | 'unknown';
+export type ThreatLevel = 'low' | 'medium' | 'high' | 'critical' | 'unknown';
 
-interface ThreatAssessment {
+export interface ThreatAssessment {
   threatLevel: ThreatLevel;
   confidence: number;
   reasons: string[];
@@ -5,6 +5,7 @@
 import { EventEmitter } from 'events';
 import { WebSocket } from 'ws';
 import crypto from 'crypto';
+import type { BlockSync } from './BlockSync';
 export interface Block {
   index: number;
   previousHash: string;
@@ -72,6 +73,7 @@ export class BlockPropagation extends EventEmitter {
   private maxPropagationTime = 2000; // 2 seconds target
   private maxOrphanAge = 300000; // 5 minutes
   private compressionEnabled = true;
+  private blockSync: BlockSync | null = null; // Fetches missing ancestors of orphans when set
   constructor() {
     super();
     this.metrics = {
@@ -135,7 +137,7 @@ export class BlockPropagation extends EventEmitter {
     } catch (error) {
       const propagationTime = Date.now() - startTime;
       this.metrics.failedPropagations++;
-      this.emit('propagationFailed', { blockHash: block.hash, error: error.message, propagationTime });
+      this.emit('propagationFailed', { blockHash: block.hash, error: (error as Error).message, propagationTime });
       throw error;
     }
   }
@@ -206,7 +208,7 @@ export class BlockPropagation extends EventEmitter {
       return {
         isValid: false,
         validationTime,
-        errors: [`Validation error: ${error.message}`],
+        errors: [`Validation error: ${(error as Error).message}`],
         warnings,
         validatorChecks
       };
@@ -247,6 +249,9 @@ export class BlockPropagation extends EventEmitter {
         } else {
           this.emit('orphanValidationFailed', { block: orphanBlock, validation });
         }
+      } else if (this.blockSync) {
+        // Fetch every missing ancestor, then resolve the orphans waiting on them
+        await this.resolveAncestors(orphanBlock);
       } else {
         // Request parent block from network
         await this.requestParentBlock(orphanBlock.previousHash);
@@ -254,7 +259,7 @@ export class BlockPropagation extends EventEmitter {
         this.emit('parentBlockRequested', { orphanBlock, parentHash: orphanBlock.previousHash });
       }
     } catch (error) {
-      this.emit('orphanHandlingError', { block: orphanBlock, error: error.message });
+      this.emit('orphanHandlingError', { block: orphanBlock, error: (error as Error).message });
     }
   }
   public optimizePropagationPath(targetPeers: string[]): string[] {
@@ -276,6 +281,12 @@ export class BlockPropagation extends EventEmitter {
     console.log(` Optimized propagation path: ${optimizedPeers.length} peers selected`);
     return optimizedPeers;
   }
+  /**
+   * Resolve orphans by fetching their missing ancestors over block sync
+   */
+  public setBlockSync(blockSync: BlockSync): void {
+    this.blockSync = blockSync;
+  }
   public addPeer(peerId: string, connection: WebSocket, isValidator: boolean = false): void {
     const peerInfo: PeerInfo = {
       id: peerId,
@@ -367,7 +378,7 @@ export class BlockPropagation extends EventEmitter {
   }
   private async validateBlockSignature(block: Block): Promise<boolean> {
     // Simplified signature validation
-    return block.signature && block.signature.length > 0;
+    return !!block.signature && block.signature.length > 0;
   }
   private validateEmotionalData(emotionalData: any): boolean {
     return !!(emotionalData &&
@@ -427,6 +438,27 @@ export class BlockPropagation extends EventEmitter {
       }
     }
   }
+  private async resolveAncestors(orphanBlock: Block): Promise<void> {
+    try {
+      // Block sync has recomputed each ancestor's hash and transaction root
+      const ancestors = await this.blockSync!.fetchAncestors(orphanBlock.previousHash, hash => this.blockCache.has(hash)) as Block[];
+      for (const ancestor of ancestors) {
+        if (!(await this.validateBlockSignature(ancestor))) {
+          throw new Error(`Fetched ancestor ${ancestor.hash} is invalid`);
+        }
+        this.blockCache.set(ancestor.hash, ancestor);
+      }
+      this.emit('ancestorsFetched', { orphanBlock, ancestors });
+      for (const ancestor of ancestors) {
+        await this.checkDependentOrphans(ancestor.hash);
+      }
+    } catch (error) {
+      // Fall back to asking every peer for the parent
+      console.warn(`Block sync could not resolve orphan ${orphanBlock.hash}: ${(error as Error).message}`);
+      await this.requestParentBlock(orphanBlock.previousHash);
+      this.emit('parentBlockRequested', { orphanBlock, parentHash: orphanBlock.previousHash });
+    }
+  }
   private async checkDependentOrphans(blockHash: string): Promise<void> {
     // Check if any orphan blocks can now be resolved
     for (const [orphanId, orphan] of this.orphanBlocks.entries()) {
@@ -0,0 +1,413 @@
+/**
+ * Block Sync for EmotionalChain
+ * Request/response sync between peers, so a lagging node can fetch the headers, block
+ * bodies and transactions it missed instead of waiting for new blocks to be pushed
+ */
+import { EventEmitter } from 'events';
+import { P2PNode } from './P2PNode';
+import { PeerManager } from './PeerManager';
+import { MessageType } from './EmotionalProtocol';
+import { BlockCrypto, type BlockHeader } from '../crypto/BlockCrypto';
+import { MerkleTree } from '../crypto/MerkleTree';
+import { ChainProofs, type StoredBlock } from '../server/blockchain/ChainProofs';
+import { BlockchainStateManager } from '../server/blockchain/BlockchainStateManager';
+import { CONFIG } from '../shared/config';
+export interface SyncBlock {
+  hash: string;
+  previousHash: string;
+  [field: string]: any;
+}
+export interface SyncTransaction {
+  hash: string;
+  [field: string]: any;
+}
+/**
+ * Local chain data served to peers
+ */
+export interface SyncSource {
+  getHeaders(fromHeight: number, limit: number): Promise<BlockHeader[]>;
+  getBlockBody(hash: string): Promise<SyncBlock | null>;
+  getTransaction(hash: string): Promise<SyncTransaction | null>;
+}
+export interface GetHeadersRequest {
+  fromHeight: number;
+  count: number;
+}
+export interface GetBlockBodiesRequest {
+  hashes: string[];
+}
+export interface GetTransactionRequest {
+  hash: string;
+}
+export interface SyncResponse {
+  headers?: BlockHeader[];
+  blocks?: SyncBlock[];
+  transaction?: SyncTransaction | null;
+  error?: string;
+}
+export interface SyncConfig {
+  maxHeadersPerRequest: number;
+  maxBodiesPerRequest: number;
+  parallelRequests: number;
+  requestTimeout: number;
+  requestsPerMinute: number;
+  maxAncestorDepth: number;
+}
+export interface SyncStats {
+  requestsServed: number;
+  requestsRateLimited: number;
+  requestsSent: number;
+  requestsFailed: number;
+  headersDownloaded: number;
+  blocksDownloaded: number;
+  transactionsDownloaded: number;
+  ancestorFetches: number;
+}
+const SYNC_PROTOCOLS: Record<MessageType.GET_HEADERS | MessageType.GET_BLOCK_BODIES | MessageType.GET_TRANSACTION, string> = {
+  [MessageType.GET_HEADERS]: 'sync/headers',
+  [MessageType.GET_BLOCK_BODIES]: 'sync/bodies',
+  [MessageType.GET_TRANSACTION]: 'sync/transaction'
+};
+type SyncMessageType = keyof typeof SYNC_PROTOCOLS;
+const RATE_WINDOW = 60000; // 1 minute
+export class BlockSync extends EventEmitter {
+  private p2pNode: P2PNode;
+  private peerManager: PeerManager;
+  private source: SyncSource;
+  private config: SyncConfig;
+  private served = new Map<string, number[]>(); // peer id -> recent request times served
+  private sent = new Map<string, number[]>(); // peer id -> recent request times sent
+  private ancestorFetches = new Map<string, Promise<SyncBlock[]>>(); // parent hash -> fetch in flight
+  private stats: SyncStats = {
+    requestsServed: 0,
+    requestsRateLimited: 0,
+    requestsSent: 0,
+    requestsFailed: 0,
+    headersDownloaded: 0,
+    blocksDownloaded: 0,
+    transactionsDownloaded: 0,
+    ancestorFetches: 0
+  };
+  constructor(p2pNode: P2PNode, peerManager: PeerManager, source: SyncSource, config: Partial<SyncConfig> = {}) {
+    super();
+    this.p2pNode = p2pNode;
+    this.peerManager = peerManager;
+    this.source = source;
+    this.config = { ...CONFIG.network.sync, ...config };
+  }
+  /**
+   * Serve sync requests from peers
+   */
+  public async start(): Promise<void> {
+    await this.p2pNode.handleRequest<GetHeadersRequest, SyncResponse>(SYNC_PROTOCOLS[MessageType.GET_HEADERS], (request, peerId) =>
+      this.serve(peerId, async () => {
+        const count = Math.min(Math.max(Math.floor(request.count) || 1, 1), this.config.maxHeadersPerRequest);
+        return { headers: await this.source.getHeaders(Math.max(Math.floor(request.fromHeight) || 0, 0), count) };
+      })
+    );
+    await this.p2pNode.handleRequest<GetBlockBodiesRequest, SyncResponse>(SYNC_PROTOCOLS[MessageType.GET_BLOCK_BODIES], (request, peerId) =>
+      this.serve(peerId, async () => {
+        const hashes = (Array.isArray(request.hashes) ? request.hashes : []).slice(0, this.config.maxBodiesPerRequest);
+        const blocks = await Promise.all(hashes.map(hash => this.source.getBlockBody(hash)));
+        return { blocks: blocks.filter((block): block is SyncBlock => !!block) };
+      })
+    );
+    await this.p2pNode.handleRequest<GetTransactionRequest, SyncResponse>(SYNC_PROTOCOLS[MessageType.GET_TRANSACTION], (request, peerId) =>
+      this.serve(peerId, async () => ({ transaction: await this.source.getTransaction(request.hash) }))
+    );
+    console.log('🔄 Block sync protocols registered');
+  }
+  /**
+   * Download consecutive headers from fromHeight to toHeight inclusive, in parallel batches.
+   * Hashes and parent links are checked here; producer signatures are left to the caller,
+   * which holds the validator set. Stops early where peers have no more headers.
+   */
+  public async requestHeaders(fromHeight: number, toHeight: number): Promise<BlockHeader[]> {
+    const batches: GetHeadersRequest[] = [];
+    for (let height = fromHeight; height <= toHeight; height += this.config.maxHeadersPerRequest) {
+      batches.push({ fromHeight: height, count: Math.min(this.config.maxHeadersPerRequest, toHeight - height + 1) });
+    }
+    const results = await this.fetchAll(MessageType.GET_HEADERS, batches, async (peerId, batch) => {
+      const response = await this.requestFrom(peerId, MessageType.GET_HEADERS, batch);
+      const headers = response.headers || [];
+      const invalid = BlockSync.checkHeaders(headers, batch.fromHeight, batch.count);
+      if (invalid) {
+        this.peerManager.recordInvalidMessage(peerId, `Invalid headers: ${invalid}`);
+        throw new Error(`Invalid headers from ${peerId}: ${invalid}`);
+      }
+      return headers;
+    });
+    const headers: BlockHeader[] = [];
+    for (let i = 0; i < results.length; i++) {
+      const batch = results[i];
+      if (batch.length > 0 && headers.length > 0 && batch[0].parentHash !== headers[headers.length - 1].hash) {
+        throw new Error(`Header ${batch[0].height} does not extend header ${headers[headers.length - 1].height}`);
+      }
+      headers.push(...batch);
+      if (batch.length < batches[i].count) break; // Peers are not past this height yet
+    }
+    this.stats.headersDownloaded += headers.length;
+    this.emit('headersDownloaded', { fromHeight, toHeight, count: headers.length });
+    return headers;
+  }
+  /**
+   * Download block bodies by hash in parallel batches; bodies no peer has are left out.
+   * Each body's hash is recomputed from its header fields and its transactions must
+   * rebuild its transaction root, so a peer cannot answer with a body of its own making.
+   * Returned in the order requested.
+   */
+  public async requestBlocks(hashes: string[]): Promise<SyncBlock[]> {
+    const batches: string[][] = [];
+    for (let i = 0; i < hashes.length; i += this.config.maxBodiesPerRequest) {
+      batches.push(hashes.slice(i, i + this.config.maxBodiesPerRequest));
+    }
+    const results = await this.fetchAll(MessageType.GET_BLOCK_BODIES, batches, async (peerId, batch) => {
+      const response = await this.requestFrom(peerId, MessageType.GET_BLOCK_BODIES, { hashes: batch });
+      const requested = new Set(batch);
+      const blocks = (response.blocks || []).filter(block => requested.has(block?.hash));
+      if (blocks.length < (response.blocks || []).length) {
+        this.peerManager.recordInvalidMessage(peerId, 'Unrequested block bodies');
+      }
+      for (const block of blocks) {
+        const invalid = BlockSync.checkBody(block);
+        if (invalid) {
+          this.peerManager.recordInvalidMessage(peerId, `Invalid block body: ${invalid}`);
+          throw new Error(`Invalid block body from ${peerId}: ${invalid}`);
+        }
+      }
+      this.peerManager.recordUsefulBlocks(peerId, blocks.length);
+      return blocks;
+    });
+    const byHash = new Map<string, SyncBlock>();
+    for (const block of results.flat()) {
+      byHash.set(block.hash, block);
+    }
+    const blocks = hashes.map(hash => byHash.get(hash)).filter((block): block is SyncBlock => !!block);
+    this.stats.blocksDownloaded += blocks.length;
+    return blocks;
+  }
+  /**
+   * Fetch a transaction by hash, asking peers in turn until one has it. hashOf recomputes
+   * the hash from the transaction's contents; the hash field a peer sends is not trusted.
+   */
+  public async requestTransaction(hash: string, hashOf: (transaction: SyncTransaction) => string): Promise<SyncTransaction | null> {
+    for (const peerId of this.selectPeers(MessageType.GET_TRANSACTION)) {
+      if (!this.take(this.sent, peerId)) continue;
+      try {
+        const response = await this.requestFrom(peerId, MessageType.GET_TRANSACTION, { hash });
+        if (response.transaction && hashOf(response.transaction) === hash) {
+          this.stats.transactionsDownloaded++;
+          return { ...response.transaction, hash };
+        }
+        if (response.transaction) {
+          this.peerManager.recordInvalidMessage(peerId, 'Transaction does not hash to the requested hash');
+        }
+      } catch (error: any) {
+        console.warn(`Transaction ${hash.substring(0, 12)}... not fetched from ${peerId.substring(0, 12)}...: ${error.message}`);
+      }
+    }
+    return null;
+  }
+  /**
+   * Download the blocks between two heights: headers first, then their bodies, each body
+   * checked against its header's parent link. Returned oldest first.
+   */
+  public async syncRange(fromHeight: number, toHeight: number): Promise<SyncBlock[]> {
+    console.log(`🔄 Syncing blocks ${fromHeight}-${toHeight}`);
+    const headers = await this.requestHeaders(fromHeight, toHeight);
+    const blocks = await this.requestBlocks(headers.map(header => header.hash));
+    if (blocks.length < headers.length) {
+      throw new Error(`Only ${blocks.length} of ${headers.length} block bodies available`);
+    }
+    blocks.forEach((block, i) => {
+      if (block.previousHash !== headers[i].parentHash) {
+        throw new Error(`Block ${block.hash} does not match its header`);
+      }
+    });
+    this.emit('rangeSynced', { fromHeight, toHeight: fromHeight + blocks.length - 1, blocks: blocks.length });
+    return blocks;
+  }
+  /**
+   * Fetch the missing ancestors of an orphan block, walking back from its parent until
+   * isKnown accepts a hash. Returned oldest first; orphans sharing a parent share the fetch.
+   */
+  public fetchAncestors(parentHash: string, isKnown: (hash: string) => boolean): Promise<SyncBlock[]> {
+    const inFlight = this.ancestorFetches.get(parentHash);
+    if (inFlight) return inFlight;
+    const fetch = this.walkAncestors(parentHash, isKnown).finally(() => this.ancestorFetches.delete(parentHash));
+    this.ancestorFetches.set(parentHash, fetch);
+    return fetch;
+  }
+  /**
+   * Check a block body against itself: its hash must match the header built from its
+   * fields, and its transactions must rebuild the transaction root in that header.
+   * Producer signatures are left to the caller, as for headers. Returns why the body is
+   * invalid, or null.
+   */
+  static checkBody(block: SyncBlock): string | null {
+    const header = ChainProofs.toHeader(block as StoredBlock);
+    if (BlockCrypto.hashHeader(header) !== block.hash) return `block ${block.height} hash mismatch`;
+    const transactions = Array.isArray(block.transactions) ? block.transactions : [];
+    const leaves = transactions.map(tx => BlockchainStateManager.transactionLeaf(tx));
+    if (new MerkleTree(leaves).getRoot() !== header.transactionRoot) {
+      return `block ${block.height} transactions do not rebuild its transaction root`;
+    }
+    return null;
+  }
+  /**
+   * Structural check of a headers response: heights, recomputed hashes and parent links.
+   * Returns the first problem found, or null.
+   */
+  static checkHeaders(headers: BlockHeader[], fromHeight: number, count: number): string | null {
+    if (!Array.isArray(headers)) return 'not a header list';
+    if (headers.length > count) return `${headers.length} headers for a request of ${count}`;
+    for (let i = 0; i < headers.length; i++) {
+      const header = headers[i];
+      if (header.height !== fromHeight + i) return `expected height ${fromHeight + i}, got ${header.height}`;
+      if (BlockCrypto.hashHeader(header) !== header.hash) return `header ${header.height} hash mismatch`;
+      if (i > 0 && header.parentHash !== headers[i - 1].hash) return `header ${header.height} does not extend its predecessor`;
+    }
+    return null;
+  }
+  public getStats(): SyncStats {
+    return { ...this.stats };
+  }
+  private async walkAncestors(parentHash: string, isKnown: (hash: string) => boolean): Promise<SyncBlock[]> {
+    this.stats.ancestorFetches++;
+    const ancestors: SyncBlock[] = [];
+    let hash = parentHash;
+    while (!isKnown(hash)) {
+      if (ancestors.length >= this.config.maxAncestorDepth) {
+        throw new Error(`No known ancestor within ${this.config.maxAncestorDepth} blocks of ${parentHash}`);
+      }
+      const [block] = await this.requestBlocks([hash]);
+      if (!block) {
+        throw new Error(`No peer has ancestor block ${hash}`);
+      }
+      ancestors.unshift(block);
+      hash = block.previousHash;
+    }
+    if (ancestors.length > 0) {
+      console.log(`🧩 Fetched ${ancestors.length} missing ancestor(s) of ${parentHash.substring(0, 12)}...`);
+    }
+    return ancestors;
+  }
+  /**
+   * Run one download per job, at most parallelRequests at a time, each on a different peer
+   * where possible; a job that fails on one peer is retried on the next
+   */
+  private async fetchAll<J, R>(type: SyncMessageType, jobs: J[], fetch: (peerId: string, job: J) => Promise<R>): Promise<R[]> {
+    const peers = this.selectPeers(type);
+    if (jobs.length > 0 && peers.length === 0) {
+      throw new Error(`No connected peer serves ${type}`);
+    }
+    const results: R[] = new Array(jobs.length);
+    let next = 0;
+    const worker = async () => {
+      while (next < jobs.length) {
+        const index = next++;
+        results[index] = await this.fetchWithRetry(peers, index, peerId => fetch(peerId, jobs[index]));
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(this.config.parallelRequests, jobs.length) }, () => worker()));
+    return results;
+  }
+  /**
+   * Try the peers in turn from offset; when our own allowance with every peer is used up,
+   * wait for the first one to free up rather than fail
+   */
+  private async fetchWithRetry<R>(peers: string[], offset: number, fetch: (peerId: string) => Promise<R>): Promise<R> {
+    for (;;) {
+      let lastError: string | null = null;
+      for (let attempt = 0; attempt < peers.length; attempt++) {
+        const peerId = peers[(offset + attempt) % peers.length];
+        if (!this.take(this.sent, peerId)) continue;
+        try {
+          return await fetch(peerId);
+        } catch (error: any) {
+          lastError = error.message;
+        }
+      }
+      if (lastError !== null) {
+        throw new Error(`Sync request failed on ${peers.length} peer(s): ${lastError}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, this.allowanceDelay(peers)));
+    }
+  }
+  /**
+   * ms until a request to one of the peers fits in its per-minute allowance again
+   */
+  private allowanceDelay(peers: string[]): number {
+    const now = Date.now();
+    return Math.max(0, Math.min(...peers.map(peerId => (this.sent.get(peerId)?.[0] || now) + RATE_WINDOW - now)));
+  }
+  private async requestFrom(peerId: string, type: SyncMessageType, payload: GetHeadersRequest | GetBlockBodiesRequest | GetTransactionRequest): Promise<SyncResponse> {
+    const startTime = Date.now();
+    this.stats.requestsSent++;
+    this.peerManager.recordMessageActivity(peerId, 'sent');
+    let timeout: NodeJS.Timeout | undefined;
+    try {
+      const response = await Promise.race([
+        this.p2pNode.request<typeof payload, SyncResponse>(peerId, SYNC_PROTOCOLS[type], payload, this.config.requestTimeout),
+        new Promise<never>((_, reject) => {
+          timeout = setTimeout(() => reject(new Error(`${type} timed out after ${this.config.requestTimeout}ms`)), this.config.requestTimeout);
+        })
+      ]);
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      this.peerManager.recordMessageActivity(peerId, 'received', Date.now() - startTime);
+      return response;
+    } catch (error: any) {
+      this.stats.requestsFailed++;
+      this.peerManager.recordPeerError(peerId, `${type} failed: ${error.message}`);
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+  /**
+   * Peers that advertised the request type in their hello, reliable peers first, then the
+   * rest by reputation
+   */
+  private selectPeers(type: SyncMessageType): string[] {
+    const supporting = this.p2pNode.getPeersSupporting(type).filter(peerId => !this.peerManager.isBlacklisted(peerId));
+    const reliable = this.peerManager.getReliablePeers(supporting.length)
+      .map(peer => peer.id)
+      .filter(peerId => supporting.includes(peerId));
+    const reputation = (peerId: string) => this.peerManager.getPeerMetrics(peerId)?.reputation || 0;
+    const others = supporting
+      .filter(peerId => !reliable.includes(peerId))
+      .sort((a, b) => reputation(b) - reputation(a));
+    return [...reliable, ...others];
+  }
+  private async serve(peerId: string, handler: () => Promise<SyncResponse>): Promise<SyncResponse> {
+    if (!this.take(this.served, peerId)) {
+      this.stats.requestsRateLimited++;
+      this.peerManager.updatePeerReputation(peerId, -1, 'Sync rate limit exceeded');
+      return { error: 'rate limited' };
+    }
+    this.stats.requestsServed++;
+    this.peerManager.recordMessageActivity(peerId, 'received');
+    try {
+      return await handler();
+    } catch (error: any) {
+      console.error(`Failed to serve sync request for ${peerId.substring(0, 12)}...:`, error);
+      return { error: 'request failed' };
+    }
+  }
+  /**
+   * Count a request against a peer's per-minute allowance; false when it is used up
+   */
+  private take(window: Map<string, number[]>, peerId: string): boolean {
+    const now = Date.now();
+    const recent = (window.get(peerId) || []).filter(time => now - time < RATE_WINDOW);
+    if (recent.length >= this.config.requestsPerMinute) {
+      window.set(peerId, recent);
+      return false;
+    }
+    recent.push(now);
+    window.set(peerId, recent);
+    return true;
+  }
+}
@@ -10,6 +10,7 @@ import { ValidatorEconomics } from './ValidatorEconomics';
 import { NetworkPartitionRecovery } from './NetworkPartitionRecovery';
 import { EmotionalValidator } from '../crypto/EmotionalValidator';
 import { Block } from '../crypto/Block';
+import { Transaction } from '../crypto/Transaction';
 import { ImmutableBlockchainService } from '../server/blockchain/ImmutableBlockchainService';
 import { EventEmitter } from 'events';
 
@@ -239,7 +240,8 @@ export class DistributedNetworkManager extends EventEmitter {
       
       const newBlock = new Block(
         latestBlock.index + 1,
-        pendingTransactions.slice(0, 100), // Limit transactions per block
+        pendingTransactions.slice(0, 100).map(tx => // Limit transactions per block
+          Transaction.fromJSON({ ...tx, type: tx.envelope?.kind ?? 'transfer' })),
         latestBlock.hash,
         proposer,
         proposer.emotionalScore
@@ -1,4 +1,5 @@
 import { EventEmitter } from 'events';
+import * as crypto from 'crypto';
 import * as protobuf from 'protobufjs';
 import { BiometricReading } from '../biometric/BiometricDevice';
 import { AuthenticityProof } from '../biometric/AuthenticityProof';
@@ -14,14 +15,41 @@ interface BlockData {
   emotionalData: any;
 }
 import { KeyPair } from '../crypto/KeyPair';
+import { ProductionCrypto } from '../crypto/ProductionCrypto';
+import { CONFIG } from '../shared/config';
+import type { EquivocationEvidence } from '../consensus/EquivocationEvidence';
+/**
+ * Wire protocol versions share a major version when they can talk to each other.
+ * Message types added within a major version are optional: each node lists the types it
+ * handles in its hello, and a type is only sent to peers that listed it.
+ */
+export const PROTOCOL_VERSION = '2.0.0';
 export enum MessageType {
+  HELLO = 'HELLO',
   BIOMETRIC_PROOF = 'BIOMETRIC_PROOF',
   EMOTIONAL_VOTE = 'EMOTIONAL_VOTE',
   BLOCK_PROPOSAL = 'BLOCK_PROPOSAL',
   CONSENSUS_RESULT = 'CONSENSUS_RESULT',
   PEER_CHALLENGE = 'PEER_CHALLENGE',
-  NETWORK_STATUS = 'NETWORK_STATUS'
+  NETWORK_STATUS = 'NETWORK_STATUS',
+  EQUIVOCATION_EVIDENCE = 'EQUIVOCATION_EVIDENCE',
+  // Chain sync requests, answered on their own request/response streams (see BlockSync)
+  GET_HEADERS = 'GET_HEADERS',
+  GET_BLOCK_BODIES = 'GET_BLOCK_BODIES',
+  GET_TRANSACTION = 'GET_TRANSACTION',
+  // Signed node record exchange, on its own request/response stream (see PeerDiscovery)
+  PEER_EXCHANGE = 'PEER_EXCHANGE'
 }
+// Every compatible peer must handle these; a hello without one of them is rejected
+export const REQUIRED_MESSAGE_TYPES: MessageType[] = [
+  MessageType.HELLO,
+  MessageType.BIOMETRIC_PROOF,
+  MessageType.EMOTIONAL_VOTE,
+  MessageType.BLOCK_PROPOSAL,
+  MessageType.CONSENSUS_RESULT,
+  MessageType.PEER_CHALLENGE,
+  MessageType.NETWORK_STATUS
+];
 export interface BiometricProofMessage {
   validatorId: string;
   biometricHash: Uint8Array;
@@ -70,17 +98,67 @@ export interface NetworkStatusMessage {
   emotionalScore: number;
   timestamp: number;
 }
+export interface EquivocationEvidenceMessage {
+  evidence: Uint8Array; // JSON encoded EquivocationEvidence
+  reporterId: string;
+  timestamp: number;
+}
+export interface HelloMessage {
+  nodeId: string;
+  chainId: string;
+  genesisHash: string; // Empty when the node has no blocks yet
+  protocolVersion: string;
+  messageTypes: string[]; // Message types the node handles
+  bestHeight: number;
+  bestHash: string;
+  timestamp: number;
+  publicKey: string; // hex encoded secp256k1 key the hello is signed with
+  signature: string;
+}
+export interface ChainStatus {
+  genesisHash: string | null;
+  bestHeight: number;
+  bestHash: string | null;
+}
+export interface PeerHandshake {
+  peerId: string;
+  nodeId: string;
+  protocolVersion: string;
+  messageTypes: MessageType[]; // Types both sides handle
+  genesisHash: string | null;
+  bestHeight: number;
+  bestHash: string | null;
+  publicKey: string;
+  completedAt: number;
+}
+export interface ProtocolOptions {
+  chainId: string;
+  capabilities: MessageType[]; // Optional message types this node handles; all known types by default
+}
 export class EmotionalProtocol extends EventEmitter {
-  private protocolVersion = '1.0.0';
+  public static readonly HELLO_MAX_AGE = 300000; // 5 minutes
+  private protocolVersion = PROTOCOL_VERSION;
   private messageSchema: protobuf.Root | null = null;
   private keyPair: KeyPair;
   private nodeId: string;
-  constructor(nodeId: string, keyPair: KeyPair) {
+  private chainId: string;
+  private messageTypes: Set<MessageType>;
+  private handshakes = new Map<string, PeerHandshake>(); // peer id -> completed handshake
+  constructor(nodeId: string, keyPair: KeyPair, options: Partial<ProtocolOptions> = {}) {
     super();
     this.nodeId = nodeId;
     this.keyPair = keyPair;
+    this.chainId = options.chainId || CONFIG.network.p2p.chainId;
+    this.messageTypes = new Set([...REQUIRED_MESSAGE_TYPES, ...(options.capabilities || Object.values(MessageType))]);
     this.initializeProtobufSchema();
   }
+  /**
+   * Peers can talk when their protocol versions share a major version
+   */
+  public static isCompatibleVersion(a: string, b: string): boolean {
+    const major = (version: string) => String(version || '').split('.')[0];
+    return major(a) !== '' && major(a) === major(b);
+  }
   /**
    * Initialize Protocol Buffer schema for message serialization
    */
@@ -150,6 +228,27 @@ export class EmotionalProtocol extends EventEmitter {
                   timestamp: { type: 'int64', id: 7 }
                 }
               },
+              EquivocationEvidence: {
+                fields: {
+                  evidence: { type: 'bytes', id: 1 },
+                  reporterId: { type: 'string', id: 2 },
+                  timestamp: { type: 'int64', id: 3 }
+                }
+              },
+              Hello: {
+                fields: {
+                  nodeId: { type: 'string', id: 1 },
+                  chainId: { type: 'string', id: 2 },
+                  genesisHash: { type: 'string', id: 3 },
+                  protocolVersion: { type: 'string', id: 4 },
+                  messageTypes: { rule: 'repeated', type: 'string', id: 5 },
+                  bestHeight: { type: 'int64', id: 6 },
+                  bestHash: { type: 'string', id: 7 },
+                  timestamp: { type: 'int64', id: 8 },
+                  publicKey: { type: 'string', id: 9 },
+                  signature: { type: 'string', id: 10 }
+                }
+              },
               ProtocolMessage: {
                 fields: {
                   version: { type: 'string', id: 1 },
@@ -169,6 +268,30 @@ export class EmotionalProtocol extends EventEmitter {
       throw error;
     }
   }
+  /**
+   * Create the signed hello a node sends first on every new connection
+   */
+  public createHello(status: ChainStatus): Uint8Array {
+    try {
+      const unsigned = {
+        nodeId: this.nodeId,
+        chainId: this.chainId,
+        genesisHash: status.genesisHash || '',
+        protocolVersion: this.protocolVersion,
+        messageTypes: Array.from(this.messageTypes),
+        bestHeight: status.bestHeight,
+        bestHash: status.bestHash || '',
+        timestamp: Date.now(),
+        publicKey: this.keyPair.publicKey
+      };
+      const signature = ProductionCrypto.signECDSA(EmotionalProtocol.hashHello(unsigned), Buffer.from(this.keyPair.privateKey, 'hex'));
+      const message: HelloMessage = { ...unsigned, signature: signature.signature };
+      return this.serializeMessage(MessageType.HELLO, message);
+    } catch (error) {
+      console.error('Error creating hello message:', error);
+      throw error;
+    }
+  }
   /**
    * Create a biometric proof message
    */
@@ -320,6 +443,22 @@ export class EmotionalProtocol extends EventEmitter {
       throw error;
     }
   }
+  /**
+   * Create an equivocation evidence message for gossip
+   */
+  public createEquivocationEvidence(evidence: EquivocationEvidence): Uint8Array {
+    try {
+      const message: EquivocationEvidenceMessage = {
+        evidence: new TextEncoder().encode(JSON.stringify(evidence)),
+        reporterId: this.nodeId,
+        timestamp: Date.now()
+      };
+      return this.serializeMessage(MessageType.EQUIVOCATION_EVIDENCE, message);
+    } catch (error) {
+      console.error('Error creating equivocation evidence message:', error);
+      throw error;
+    }
+  }
   /**
    * Parse incoming message
    */
@@ -330,11 +469,15 @@ export class EmotionalProtocol extends EventEmitter {
       }
       const ProtocolMessage = this.messageSchema.lookupType('emotionalchain.ProtocolMessage');
       const decoded = ProtocolMessage.decode(data) as any;
-      // Verify protocol version
-      if (decoded.version !== this.protocolVersion) {
+      // Verify protocol version; a hello carries its own and is checked by handleHello
+      if (decoded.type !== MessageType.HELLO && !EmotionalProtocol.isCompatibleVersion(decoded.version, this.protocolVersion)) {
         console.warn(`Protocol version mismatch: ${decoded.version} vs ${this.protocolVersion}`);
         return { type: decoded.type, payload: null, valid: false };
       }
+      if (!this.messageTypes.has(decoded.type)) {
+        console.warn(`Unsupported message type: ${decoded.type}`);
+        return { type: decoded.type, payload: null, valid: false };
+      }
       // Verify signature
       const signatureValid = this.verifyMessageSignature(decoded);
       if (!signatureValid) {
@@ -388,6 +531,14 @@ export class EmotionalProtocol extends EventEmitter {
           const NetworkStatus = this.messageSchema.lookupType('emotionalchain.NetworkStatus');
           serializedPayload = NetworkStatus.encode(payload).finish();
           break;
+        case MessageType.EQUIVOCATION_EVIDENCE:
+          const EquivocationEvidence = this.messageSchema.lookupType('emotionalchain.EquivocationEvidence');
+          serializedPayload = EquivocationEvidence.encode(payload).finish();
+          break;
+        case MessageType.HELLO:
+          const Hello = this.messageSchema.lookupType('emotionalchain.Hello');
+          serializedPayload = Hello.encode(payload).finish();
+          break;
         default:
           throw new Error(`Unknown message type: ${type}`);
       }
@@ -437,6 +588,12 @@ export class EmotionalProtocol extends EventEmitter {
         case MessageType.NETWORK_STATUS:
           const NetworkStatus = this.messageSchema.lookupType('emotionalchain.NetworkStatus');
           return NetworkStatus.decode(payloadBytes);
+        case MessageType.EQUIVOCATION_EVIDENCE:
+          const EquivocationEvidence = this.messageSchema.lookupType('emotionalchain.EquivocationEvidence');
+          return EquivocationEvidence.decode(payloadBytes);
+        case MessageType.HELLO:
+          const Hello = this.messageSchema.lookupType('emotionalchain.Hello');
+          return Hello.decode(payloadBytes);
         default:
           throw new Error(`Unknown message type: ${type}`);
       }
@@ -450,16 +607,17 @@ export class EmotionalProtocol extends EventEmitter {
    */
   private createMessageHash(message: any): string {
     const hashData = `${message.version}:${message.type}:${message.timestamp}:${Buffer.from(message.payload).toString('hex')}`;
-    // Use crypto library for hashing instead of KeyPair method
-    const crypto = require('crypto');
     return crypto.createHash('sha256').update(hashData).digest('hex');
   }
   /**
    * Sign message hash
    */
   private signMessage(messageHash: string): Uint8Array {
-    const signature = this.keyPair.sign(messageHash);
-    return new TextEncoder().encode(signature);
+    const signature = ProductionCrypto.signECDSA(
+      Buffer.from(messageHash, 'hex'),
+      Buffer.from(this.keyPair.privateKey, 'hex')
+    );
+    return new TextEncoder().encode(signature.signature);
   }
   /**
    * Verify message signature
@@ -476,6 +634,97 @@ export class EmotionalProtocol extends EventEmitter {
       return false;
     }
   }
+  /**
+   * Handle a peer's hello: check it is signed, on our chain and genesis, on a compatible
+   * version and handles every required message type, then record the negotiated message
+   * types. Returns the reason the peer is incompatible, or null.
+   */
+  public handleHello(payload: HelloMessage, senderId: string, localGenesisHash: string | null): string | null {
+    const hello: HelloMessage = {
+      ...payload,
+      messageTypes: payload.messageTypes || [],
+      bestHeight: Number(payload.bestHeight),
+      timestamp: Number(payload.timestamp)
+    };
+    const reason = this.checkHello(hello, localGenesisHash);
+    if (reason) {
+      this.handshakes.delete(senderId);
+      this.emit('handshakeRejected', { senderId, nodeId: hello.nodeId, reason });
+      return reason;
+    }
+    const handshake: PeerHandshake = {
+      peerId: senderId,
+      nodeId: hello.nodeId,
+      protocolVersion: hello.protocolVersion,
+      messageTypes: Array.from(this.messageTypes).filter(type => hello.messageTypes.includes(type)),
+      genesisHash: hello.genesisHash || null,
+      bestHeight: hello.bestHeight,
+      bestHash: hello.bestHash || null,
+      publicKey: hello.publicKey,
+      completedAt: Date.now()
+    };
+    this.handshakes.set(senderId, handshake);
+    this.emit('handshake', handshake);
+    return null;
+  }
+  /**
+   * Check a hello's signature, age, chain, genesis, version and required message types against
+   * this node; returns the first mismatch, or null. Binding it to the connection is the transport's job.
+   */
+  public checkHello(hello: HelloMessage, localGenesisHash: string | null, now: number = Date.now()): string | null {
+    if (!EmotionalProtocol.verifyHelloSignature(hello)) {
+      return 'hello signature is invalid';
+    }
+    if (Math.abs(now - hello.timestamp) > EmotionalProtocol.HELLO_MAX_AGE) {
+      return 'hello is stale';
+    }
+    if (hello.chainId !== this.chainId) {
+      return `peer is on chain ${hello.chainId}, not ${this.chainId}`;
+    }
+    if (hello.genesisHash && localGenesisHash && hello.genesisHash !== localGenesisHash) {
+      return `peer has genesis ${hello.genesisHash.substring(0, 12)}..., not ${localGenesisHash.substring(0, 12)}...`;
+    }
+    if (!EmotionalProtocol.isCompatibleVersion(hello.protocolVersion, this.protocolVersion)) {
+      return `protocol version ${hello.protocolVersion} is incompatible with ${this.protocolVersion}`;
+    }
+    const missing = REQUIRED_MESSAGE_TYPES.filter(type => !hello.messageTypes.includes(type));
+    if (missing.length > 0) {
+      return `peer does not handle ${missing.join(', ')}`;
+    }
+    return null;
+  }
+  public static verifyHelloSignature(hello: HelloMessage): boolean {
+    if (!hello.publicKey || !hello.signature) return false;
+    return ProductionCrypto.verifyECDSASignature(EmotionalProtocol.hashHello(hello), hello.signature, Buffer.from(hello.publicKey, 'hex'));
+  }
+  private static hashHello(hello: Omit<HelloMessage, 'signature'>): Uint8Array {
+    const { nodeId, chainId, genesisHash, protocolVersion, messageTypes, bestHeight, bestHash, timestamp, publicKey } = hello;
+    return new TextEncoder().encode(JSON.stringify({
+      type: 'hello', nodeId, chainId, genesisHash, protocolVersion, messageTypes,
+      bestHeight: Number(bestHeight), bestHash, timestamp: Number(timestamp), publicKey
+    }));
+  }
+  /**
+   * Whether a peer advertised a message type in its handshake; peers without one get nothing
+   */
+  public peerSupports(peerId: string, type: MessageType): boolean {
+    return !!this.handshakes.get(peerId)?.messageTypes.includes(type);
+  }
+  /**
+   * Key hellos are signed with; the node key, so peers can check it derives our peer id
+   */
+  public getPublicKey(): string {
+    return this.keyPair.publicKey;
+  }
+  public getPeerHandshake(peerId: string): PeerHandshake | null {
+    return this.handshakes.get(peerId) || null;
+  }
+  public getHandshakes(): PeerHandshake[] {
+    return Array.from(this.handshakes.values());
+  }
+  public removePeer(peerId: string): void {
+    this.handshakes.delete(peerId);
+  }
   /**
    * Handle incoming biometric proof
    */
@@ -588,6 +837,22 @@ export class EmotionalProtocol extends EventEmitter {
       console.error('Error handling network status:', error);
     }
   }
+  /**
+   * Handle incoming equivocation evidence; receivers verify it before queueing it for a block
+   */
+  public handleEquivocationEvidence(payload: EquivocationEvidenceMessage, senderId: string): void {
+    try {
+      const evidence: EquivocationEvidence = JSON.parse(new TextDecoder().decode(payload.evidence));
+      this.emit('equivocationEvidence', {
+        evidence,
+        reporterId: payload.reporterId,
+        timestamp: Number(payload.timestamp),
+        senderId
+      });
+    } catch (error) {
+      console.error('Error handling equivocation evidence:', error);
+    }
+  }
   /**
    * Get protocol statistics
    */
@@ -595,7 +860,9 @@ export class EmotionalProtocol extends EventEmitter {
     return {
       version: this.protocolVersion,
       nodeId: this.nodeId,
-      messageTypes: Object.values(MessageType).length,
+      chainId: this.chainId,
+      messageTypes: Array.from(this.messageTypes),
+      handshakedPeers: this.handshakes.size,
       schemaInitialized: !!this.messageSchema
     };
   }
@@ -628,6 +895,12 @@ export class EmotionalProtocol extends EventEmitter {
         case MessageType.NETWORK_STATUS:
           MessageType = this.messageSchema.lookupType('emotionalchain.NetworkStatus');
           break;
+        case MessageType.EQUIVOCATION_EVIDENCE:
+          MessageType = this.messageSchema.lookupType('emotionalchain.EquivocationEvidence');
+          break;
+        case MessageType.HELLO:
+          MessageType = this.messageSchema.lookupType('emotionalchain.Hello');
+          break;
         default:
           return false;
       }
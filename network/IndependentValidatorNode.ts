@@ -7,12 +7,25 @@ import { P2PValidatorNetwork, NetworkValidator, NetworkState } from './P2PValida
 import { EmotionalValidator, EmotionalValidatorUtils } from '../crypto/EmotionalValidator';
 import { ZKProofService, EmotionalZKProof } from '../crypto/zkproofs/ZKProofService';
 import { Block } from '../crypto/Block';
+import { BlockCrypto } from '../crypto/BlockCrypto';
 import { Transaction } from '../crypto/Transaction';
 import { ImmutableBlockchainService } from '../server/blockchain/ImmutableBlockchainService';
+import { ChainProofs, StoredBlock } from '../server/blockchain/ChainProofs';
+import { FinalityGadget, FinalizedCheckpoint, CheckpointValidator } from '../consensus/FinalityGadget';
+import { SnapshotManager, SnapshotManifest, SnapshotChunk } from '../server/blockchain/SnapshotManager';
+import { BaseBlockchainStorage } from '../storage/BlockchainStorage';
+import { LevelDBBlockchainStorage } from '../storage/LevelDBBlockchainStorage';
+import { createBlockchainStorage, StorageBackendConfig } from '../storage/StorageFactory';
+import { PruningManager, PruningConfig } from '../storage/PruningManager';
 import * as crypto from 'crypto';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
+const SNAPSHOT_MANIFEST_PROTOCOL = '/emotionalchain/snapshot/manifest/1.0.0';
+const SNAPSHOT_CHUNK_PROTOCOL = '/emotionalchain/snapshot/chunk/1.0.0';
+const CHECKPOINT_PROTOCOL = '/emotionalchain/checkpoint/1.0.0';
+const BLOCKS_PROTOCOL = '/emotionalchain/blocks/1.0.0';
+
 export interface ValidatorConfig {
   validatorId: string;
   privateKey: string;
@@ -23,6 +36,14 @@ export interface ValidatorConfig {
     listenPort?: number;
     dataDir: string;
   };
+  // Defaults to CONFIG.storage.backend; LevelDB data goes under networkConfig.dataDir
+  storageConfig?: Partial<StorageBackendConfig>;
+  // archive, full (pruned to a depth) or light (headers only); defaults to CONFIG.storage.pruning
+  pruningConfig?: Partial<PruningConfig>;
+  // 'fast' restores state from a peer snapshot before syncing forward
+  syncMode?: 'full' | 'fast';
+  // Validator set a fresh node trusts to check finality checkpoint votes and block producers
+  trustedValidators?: CheckpointValidator[];
   consensusConfig: {
     minEmotionalScore: number;
     minAuthenticity: number;
@@ -62,6 +83,9 @@ export class IndependentValidatorNode {
   private config: ValidatorConfig;
   private p2pNetwork: P2PValidatorNetwork;
   private blockchain: ImmutableBlockchainService;
+  private storage?: BaseBlockchainStorage;
+  private pruningManager?: PruningManager;
+  private snapshots: SnapshotManager;
   private zkProofService: ZKProofService;
   private validator?: EmotionalValidator;
   
@@ -81,7 +105,8 @@ export class IndependentValidatorNode {
       minValidators: 7
     });
     
-    this.blockchain = new ImmutableBlockchainService();
+    this.snapshots = new SnapshotManager({ directory: path.join(this.dataDir, 'snapshots') });
+    this.blockchain = new ImmutableBlockchainService(this.snapshots);
     this.zkProofService = ZKProofService.getInstance();
     
     // Initialize metrics
@@ -125,6 +150,9 @@ export class IndependentValidatorNode {
       // Ensure data directory exists
       await this.ensureDataDirectory();
       
+      // Open local chain storage
+      await this.initializeStorage();
+      
       // Load or create validator identity
       await this.initializeValidator();
       
@@ -134,6 +162,8 @@ export class IndependentValidatorNode {
       // Start P2P network
       await this.p2pNetwork.initialize();
       await this.p2pNetwork.registerValidator(this.validator!);
+      await this.registerSnapshotProtocols();
+      await this.registerSyncProtocols();
       
       // Set up event handlers
       this.setupEventHandlers();
@@ -271,12 +301,16 @@ export class IndependentValidatorNode {
       // Get current blockchain height from network
       const networkState = this.p2pNetwork.getNetworkState();
       
-      // Sync blockchain state
-      // In a real implementation, this would download missing blocks
-      await this.blockchain.syncWithNetwork();
+      // Restore recent state from a snapshot first, then only the newer blocks remain
+      if (this.config.syncMode === 'fast' && !(await this.fastSyncFromSnapshot())) {
+        console.log('⚠️ Fast sync unavailable, falling back to full sync');
+      }
+      
+      // Download and verify the blocks above the local tip
+      const imported = await this.syncBlocksFromPeers();
       
       this.status.syncStatus = 'synced';
-      console.log('✅ Network synchronization complete');
+      console.log(`✅ Network synchronization complete (${imported} block(s) imported)`);
       
     } catch (error) {
       console.error('❌ Network synchronization failed:', error);
@@ -284,6 +318,239 @@ export class IndependentValidatorNode {
     }
   }
 
+  /**
+   * Serve local snapshots to peers that are fast syncing
+   */
+  private async registerSnapshotProtocols(): Promise<void> {
+    await this.p2pNetwork.handleRequest<{ height?: number }, SnapshotManifest | null>(
+      SNAPSHOT_MANIFEST_PROTOCOL,
+      async ({ height }) => height === undefined
+        ? this.snapshots.getLatestSnapshot()
+        : this.snapshots.getManifest(height)
+    );
+    await this.p2pNetwork.handleRequest<{ height: number; index: number }, SnapshotChunk | null>(
+      SNAPSHOT_CHUNK_PROTOCOL,
+      async ({ height, index }) => this.snapshots.getChunk(height, index)
+    );
+  }
+
+  /**
+   * Serve the latest finalized checkpoint and stored blocks to peers that are syncing
+   */
+  private async registerSyncProtocols(): Promise<void> {
+    const chainProofs = new ChainProofs();
+    await this.p2pNetwork.handleRequest<Record<string, never>, FinalizedCheckpoint | null>(
+      CHECKPOINT_PROTOCOL,
+      async () => FinalityGadget.loadLatestCheckpoint()
+    );
+    await this.p2pNetwork.handleRequest<{ fromHeight: number; limit?: number }, StoredBlock[]>(
+      BLOCKS_PROTOCOL,
+      async ({ fromHeight, limit }) => chainProofs.getBlocks(fromHeight, limit)
+    );
+  }
+
+  /**
+   * Import the blocks peers hold above the local tip, a batch at a time, until no peer has
+   * more. ImmutableBlockchainService.importBlock verifies every block; a peer that serves
+   * an invalid one is not asked again during this sync.
+   */
+  private async syncBlocksFromPeers(): Promise<number> {
+    const skipped = new Set<string>();
+    let imported = 0;
+    let progress = true;
+    while (progress) {
+      progress = false;
+      for (const peerId of this.p2pNetwork.getConnectedPeers()) {
+        if (skipped.has(peerId)) continue;
+        const tip = await this.blockchain.getChainTip();
+        let batch: StoredBlock[];
+        try {
+          batch = await this.p2pNetwork.request<{ fromHeight: number; limit: number }, StoredBlock[]>(
+            peerId, BLOCKS_PROTOCOL, { fromHeight: tip.height + 1, limit: ChainProofs.MAX_BODIES }
+          );
+        } catch (error) {
+          console.log(`⚠️ Failed to fetch blocks from ${peerId}`);
+          continue;
+        }
+        try {
+          for (const block of batch || []) {
+            await this.blockchain.importBlock(block, this.trustedKeyOf(block.validatorId));
+            imported++;
+            progress = true;
+          }
+        } catch (error) {
+          console.log(`⚠️ Invalid block from ${peerId}: ${error instanceof Error ? error.message : error}`);
+          skipped.add(peerId);
+        }
+      }
+    }
+    return imported;
+  }
+
+  private trustedKeyOf(validatorId: string): string | undefined {
+    return this.config.trustedValidators?.find(validator => validator.validatorId === validatorId)?.publicKey;
+  }
+
+  /**
+   * Finalized checkpoint a snapshot is anchored to: this node's own, or else the highest
+   * one a peer offers whose votes carry 2/3 of the stake of config.trustedValidators.
+   * Without either a fresh node has nothing to anchor to and cannot fast sync.
+   */
+  private async trustedCheckpoint(peers: string[]): Promise<FinalizedCheckpoint | null> {
+    const local = await FinalityGadget.loadLatestCheckpoint();
+    if (local || !this.config.trustedValidators?.length) return local;
+
+    let best: FinalizedCheckpoint | null = null;
+    for (const peerId of peers) {
+      try {
+        const checkpoint = await this.p2pNetwork.request<Record<string, never>, FinalizedCheckpoint | null>(
+          peerId, CHECKPOINT_PROTOCOL, {}
+        );
+        if (!checkpoint || (best && checkpoint.height <= best.height)) continue;
+        const invalid = FinalityGadget.verifyCheckpoint(checkpoint, this.config.trustedValidators);
+        if (invalid) {
+          console.log(`⚠️ Untrusted checkpoint from ${peerId}: ${invalid}`);
+          continue;
+        }
+        best = checkpoint;
+      } catch (error) {
+        console.log(`⚠️ No finalized checkpoint from ${peerId}`);
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Whether the snapshot block is on the finalized chain: it is the checkpoint block, or
+   * peers serve headers that hash correctly and link it up to the checkpoint block
+   */
+  private async isFinalizedAncestor(manifest: SnapshotManifest, checkpoint: FinalizedCheckpoint, peers: string[]): Promise<boolean> {
+    if (manifest.height === checkpoint.height) return manifest.blockHash === checkpoint.hash;
+    if (manifest.height > checkpoint.height) return false;
+    for (const peerId of peers) {
+      try {
+        let parentHash = manifest.blockHash;
+        let height = manifest.height + 1;
+        while (height <= checkpoint.height) {
+          const batch = await this.p2pNetwork.request<{ fromHeight: number; limit: number }, StoredBlock[]>(
+            peerId, BLOCKS_PROTOCOL, { fromHeight: height, limit: Math.min(ChainProofs.MAX_BODIES, checkpoint.height - height + 1) }
+          );
+          if (!batch?.length) break;
+          for (const block of batch) {
+            const header = ChainProofs.toHeader(block);
+            if (block.height !== height || block.previousHash !== parentHash || BlockCrypto.hashHeader(header) !== block.hash) {
+              throw new Error(`block ${height} does not link`);
+            }
+            parentHash = block.hash;
+            height++;
+            if (height > checkpoint.height) break;
+          }
+        }
+        if (height > checkpoint.height && parentHash === checkpoint.hash) return true;
+      } catch (error) {
+        console.log(`⚠️ Could not link snapshot ${manifest.height} to checkpoint ${checkpoint.height} via ${peerId}`);
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Download, verify and restore the latest snapshot whose block is finalized: the
+   * checkpoint block itself or an ancestor of it. Agreement among peers is not enough,
+   * since a set of peers can collude; the checkpoint votes are what make it trusted.
+   */
+  private async fastSyncFromSnapshot(): Promise<boolean> {
+    const peers = this.p2pNetwork.getConnectedPeers();
+    if (peers.length === 0) return false;
+
+    const checkpoint = await this.trustedCheckpoint(peers);
+    if (!checkpoint) {
+      console.log('⚠️ No trusted finalized checkpoint to anchor a snapshot to');
+      return false;
+    }
+
+    // Collect structurally valid manifests, grouped by the block they snapshot
+    const offers = new Map<string, Array<{ peerId: string; manifest: SnapshotManifest }>>();
+    await Promise.all(peers.map(async peerId => {
+      try {
+        const manifest = await this.p2pNetwork.request<{ height?: number }, SnapshotManifest | null>(
+          peerId, SNAPSHOT_MANIFEST_PROTOCOL, {}
+        );
+        if (!manifest || !SnapshotManager.verifyManifest(manifest).valid) return;
+        const key = `${manifest.height}:${manifest.blockHash}`;
+        offers.set(key, [...(offers.get(key) || []), { peerId, manifest }]);
+      } catch (error) {
+        console.log(`⚠️ No snapshot manifest from ${peerId}`);
+      }
+    }));
+
+    let best: Array<{ peerId: string; manifest: SnapshotManifest }> | undefined;
+    const candidates = Array.from(offers.values())
+      .sort((a, b) => b[0].manifest.height - a[0].manifest.height);
+    for (const group of candidates) {
+      if (await this.isFinalizedAncestor(group[0].manifest, checkpoint, peers)) {
+        best = group;
+        break;
+      }
+    }
+    if (!best) return false;
+
+    const manifest = best[0].manifest;
+
+    // Never jump to a snapshot that conflicts with a block we already hold
+    const localBlock = await this.storage?.getBlockByHeight(manifest.height);
+    if (localBlock && localBlock.hash !== manifest.blockHash) {
+      console.error(`❌ Snapshot at height ${manifest.height} conflicts with local block ${localBlock.hash}`);
+      return false;
+    }
+
+    // Chunks are content-addressed by the manifest, so any agreeing peer may serve them
+    const sources = best.filter(({ manifest: offered }) =>
+      offered.chunks.every((chunk, i) => chunk.hash === manifest.chunks[i]?.hash) &&
+      offered.chunks.length === manifest.chunks.length
+    );
+    const chunks: SnapshotChunk[] = [];
+    for (const { index } of manifest.chunks) {
+      const chunk = await this.downloadSnapshotChunk(manifest, index, sources.map(source => source.peerId));
+      if (!chunk) {
+        console.error(`❌ Could not download snapshot chunk ${index} of height ${manifest.height}`);
+        return false;
+      }
+      chunks.push(chunk);
+    }
+
+    try {
+      await this.blockchain.restoreFromSnapshot(manifest, chunks);
+    } catch (error) {
+      console.error('❌ Snapshot restore failed:', error);
+      return false;
+    }
+
+    console.log(`⚡ Fast synced to height ${manifest.height} from ${sources.length} peer(s)`);
+    return true;
+  }
+
+  /**
+   * Fetch one chunk, rotating through peers until one passes hash verification
+   */
+  private async downloadSnapshotChunk(manifest: SnapshotManifest, index: number, peers: string[]): Promise<SnapshotChunk | null> {
+    for (let attempt = 0; attempt < peers.length; attempt++) {
+      const peerId = peers[(index + attempt) % peers.length];
+      try {
+        const chunk = await this.p2pNetwork.request<{ height: number; index: number }, SnapshotChunk | null>(
+          peerId, SNAPSHOT_CHUNK_PROTOCOL, { height: manifest.height, index }
+        );
+        if (chunk && chunk.index === index && SnapshotManager.verifyChunk(manifest, chunk)) {
+          return chunk;
+        }
+        console.log(`⚠️ Invalid snapshot chunk ${index} from ${peerId}`);
+      } catch (error) {
+        console.log(`⚠️ Failed to fetch snapshot chunk ${index} from ${peerId}`);
+      }
+    }
+    return null;
+  }
+
   /**
    * Check if validator is properly staked
    */
@@ -458,11 +725,15 @@ export class IndependentValidatorNode {
     // Get pending transactions
     const pendingTxs = await this.blockchain.getPendingTransactions();
     
-    // Create new block
-    const lastBlock = await this.blockchain.getLatestBlock();
+    // Create new block on top of the locally persisted tip when available
+    const storedTip = await this.storage?.getLatestBlock();
+    const lastBlock = storedTip
+      ? { index: storedTip.height, hash: storedTip.hash }
+      : await this.blockchain.getLatestBlock();
     const block = new Block(
       lastBlock.index + 1,
-      pendingTxs.slice(0, 100), // Limit to 100 transactions per block
+      pendingTxs.slice(0, 100).map(tx => // Limit to 100 transactions per block
+        Transaction.fromJSON({ ...tx, type: tx.envelope?.kind ?? 'transfer' })),
       lastBlock.hash,
       this.validator,
       this.validator.emotionalScore
@@ -485,6 +756,60 @@ export class IndependentValidatorNode {
     this.metrics.earnings += earnings;
     
     console.log(`💰 Block reward: ${earnings} EMO`);
+    
+    if (data.block) {
+      this.persistBlock(data.block).catch(error => {
+        console.error(`❌ Failed to persist block ${data.block.index}:`, error);
+      });
+    }
+  }
+
+  /**
+   * Open the configured storage backend
+   */
+  private async initializeStorage(): Promise<void> {
+    // Backend from STORAGE_BACKEND unless the node overrides it; LevelDB lives in the node's data directory
+    this.storage = await createBlockchainStorage({
+      leveldb: { dataPath: path.join(this.dataDir, 'chain') },
+      ...this.config.storageConfig
+    });
+    
+    // Backends open lazily on first access
+    const tip = await this.storage.getLatestBlock();
+    console.log(`💾 Chain storage ready (${tip ? `height ${tip.height}` : 'empty'})`);
+    
+    this.pruningManager = new PruningManager(this.storage, this.config.pruningConfig, this.snapshots);
+    this.pruningManager.start();
+  }
+
+  /**
+   * Persist a finalized block and its transactions atomically
+   */
+  private async persistBlock(block: Block): Promise<void> {
+    if (!this.storage) return;
+    
+    await this.storage.batchStore([
+      {
+        type: 'STORE_BLOCK',
+        data: {
+          hash: block.hash,
+          height: block.index,
+          previousHash: block.previousHash,
+          merkleRoot: block.merkleRoot,
+          timestamp: block.timestamp,
+          nonce: 0,
+          difficulty: 1,
+          validatorId: block.validator,
+          emotionalScore: block.consensusWeight,
+          emotionalProof: { zkProofHash: block.zkProofHash, zkVerified: block.zkVerified },
+          transactions: block.transactions
+        }
+      },
+      ...block.transactions.map(transaction => ({
+        type: 'STORE_TRANSACTION' as const,
+        data: { transaction, blockHash: block.hash }
+      }))
+    ]);
   }
 
   /**
@@ -590,6 +915,13 @@ export class IndependentValidatorNode {
     // Shutdown P2P network
     await this.p2pNetwork.shutdown();
     
+    this.pruningManager?.stop();
+    
+    // Release the LevelDB lock so the data directory can be reopened
+    if (this.storage instanceof LevelDBBlockchainStorage) {
+      await this.storage.close();
+    }
+    
     console.log(`✅ Validator node ${this.config.validatorId} stopped`);
   }
 }
\ No newline at end of file
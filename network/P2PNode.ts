@@ -7,8 +7,15 @@ import { mplex } from '@libp2p/mplex';
 import { bootstrap } from '@libp2p/bootstrap';
 import { kadDHT } from '@libp2p/kad-dht';
 import { floodsub } from '@libp2p/floodsub';
-import { multiaddr } from 'multiaddr';
+import { privateKeyFromRaw, publicKeyFromRaw } from '@libp2p/crypto/keys';
+import { peerIdFromPublicKey } from '@libp2p/peer-id';
+import { TopicValidatorResult, type PeerId, type PubSub } from '@libp2p/interface';
+import { multiaddr } from '@multiformats/multiaddr';
 import { EventEmitter } from 'events';
+import { pipe } from 'it-pipe';
+import * as lp from 'it-length-prefixed';
+import { EmotionalProtocol, MessageType, ChainStatus, PeerHandshake, REQUIRED_MESSAGE_TYPES } from './EmotionalProtocol';
+import { CONFIG } from '../shared/config';
 export interface P2PConfig {
   nodeId: string;
   listenPort: number;
@@ -18,6 +25,8 @@ export interface P2PConfig {
   enableWebRTC: boolean;
   enableTCP: boolean;
   enableWebSockets: boolean;
+  enableDHT?: boolean; // Bootstrap list and Kademlia DHT; off for networks that discover peers from node records only
+  privateKey?: string; // hex secp256k1 node key the peer id is derived from; a random identity per start when unset
 }
 export interface PeerInfo {
   id: string;
@@ -26,14 +35,18 @@ export interface PeerInfo {
   lastSeen: number;
   reputation: number;
   isBootstrap: boolean;
+  handshake?: PeerHandshake; // Set once the peer's hello is accepted
 }
 export class P2PNode extends EventEmitter {
-  private libp2p: Libp2p | null = null;
+  private libp2p: Libp2p<{ pubsub: PubSub; [service: string]: unknown }> | null = null;
   private config: P2PConfig;
   private isStarted = false;
   private connectedPeers = new Map<string, PeerInfo>();
   private messageHandlers = new Map<string, Function>();
   private protocolPrefix = '/emotionalchain/1.0.0';
+  // Wire protocol handshake, once enabled every new peer must send a compatible hello in time
+  private handshake: { protocol: EmotionalProtocol; status: () => Promise<ChainStatus> } | null = null;
+  private handshakeTimers = new Map<string, NodeJS.Timeout>();
   constructor(config: P2PConfig) {
     super();
     this.config = {
@@ -43,6 +56,7 @@ export class P2PNode extends EventEmitter {
       enableWebRTC: config.enableWebRTC !== undefined ? config.enableWebRTC : true,
       enableTCP: config.enableTCP !== undefined ? config.enableTCP : true,
       enableWebSockets: config.enableWebSockets !== undefined ? config.enableWebSockets : true,
+      enableDHT: config.enableDHT !== undefined ? config.enableDHT : true,
     };
   }
   /**
@@ -68,6 +82,7 @@ export class P2PNode extends EventEmitter {
       }
       // Create libp2p node
       this.libp2p = await createLibp2p({
+        privateKey: this.config.privateKey ? privateKeyFromRaw(Buffer.from(this.config.privateKey, 'hex')) : undefined,
         addresses: {
           listen: [
             `/ip4/0.0.0.0/tcp/${this.config.listenPort}`,
@@ -77,14 +92,16 @@ export class P2PNode extends EventEmitter {
         transports,
         connectionEncryption: [noise()],
         streamMuxers: [mplex()],
-        peerDiscovery: [
+        peerDiscovery: this.config.enableDHT && this.config.bootstrapPeers.length > 0 ? [
           bootstrap({
             list: this.config.bootstrapPeers.map(addr => multiaddr(addr))
           })
-        ],
-        services: {
+        ] : [],
+        services: this.config.enableDHT ? {
           dht: kadDHT(),
           pubsub: floodsub()
+        } : {
+          pubsub: floodsub()
         },
         connectionManager: {
           maxConnections: this.config.maxConnections,
@@ -147,6 +164,66 @@ export class P2PNode extends EventEmitter {
     });
     console.log(`📋 Registered protocol: ${protocol}`);
   }
+  /**
+   * Require a signed hello from every peer; peers on another chain, genesis or incompatible
+   * protocol version, whose hello is not signed with the key of the connection's peer id, or
+   * that stay silent, are disconnected. The protocol must sign with this node's key.
+   */
+  public async enableHandshake(protocol: EmotionalProtocol, status: () => Promise<ChainStatus>): Promise<void> {
+    if (this.libp2p && P2PNode.peerIdOf(protocol.getPublicKey()) !== this.libp2p.peerId.toString()) {
+      throw new Error(`Hello key does not derive peer id ${this.libp2p.peerId.toString()}; create the protocol with the node key`);
+    }
+    this.handshake = { protocol, status };
+    this.registerProtocol('hello', async (stream: any, peerId: string) => {
+      const chunks: Uint8Array[] = [];
+      for await (const chunk of stream.source) {
+        chunks.push(chunk.subarray ? chunk.subarray() : chunk);
+      }
+      await this.receiveHello(peerId, Buffer.concat(chunks));
+    });
+    for (const peerId of this.connectedPeers.keys()) {
+      await this.startHandshake(peerId);
+    }
+  }
+  private async startHandshake(peerId: string): Promise<void> {
+    if (!this.handshake) return;
+    const timeout = CONFIG.network.p2p.handshakeTimeout;
+    this.handshakeTimers.set(peerId, setTimeout(() => {
+      this.handshakeTimers.delete(peerId);
+      this.disconnectPeer(peerId, `no hello within ${timeout}ms`);
+    }, timeout));
+    try {
+      await this.sendToPeer(peerId, 'hello', this.handshake.protocol.createHello(await this.handshake.status()));
+    } catch (error: any) {
+      console.warn(`Failed to send hello to ${peerId.substring(0, 12)}...:`, error.message);
+    }
+  }
+  private async receiveHello(peerId: string, data: Uint8Array): Promise<void> {
+    if (!this.handshake) return;
+    const { protocol, status } = this.handshake;
+    const message = protocol.parseMessage(data);
+    // A hello replayed from another node is signed with that node's key, not this connection's
+    const reason = !message.valid || message.type !== MessageType.HELLO
+      ? 'malformed hello'
+      : message.payload.nodeId !== peerId || P2PNode.peerIdOf(message.payload.publicKey) !== peerId
+        ? 'hello node id and key are not those of the connection peer'
+        : protocol.handleHello(message.payload, peerId, (await status()).genesisHash);
+    clearTimeout(this.handshakeTimers.get(peerId));
+    this.handshakeTimers.delete(peerId);
+    if (reason) {
+      console.warn(`⛔ Incompatible peer ${peerId.substring(0, 12)}...: ${reason}`);
+      this.emit('peer:incompatible', { peerId, reason });
+      await this.disconnectPeer(peerId, reason);
+      return;
+    }
+    const handshake = protocol.getPeerHandshake(peerId)!;
+    const peerInfo = this.connectedPeers.get(peerId);
+    if (peerInfo) {
+      peerInfo.handshake = handshake;
+    }
+    console.log(`🤝 Handshake with ${peerId.substring(0, 12)}... (v${handshake.protocolVersion}, height ${handshake.bestHeight})`);
+    this.emit('peer:handshake', handshake);
+  }
   /**
    * Send a message to a specific peer
    */
@@ -165,6 +242,67 @@ export class P2PNode extends EventEmitter {
       throw error;
     }
   }
+  /**
+   * Answer JSON requests on a protocol, one length-prefixed response per request
+   */
+  public async handleRequest<Req, Res>(protocol: string, handler: (request: Req, peerId: string) => Promise<Res>): Promise<void> {
+    if (!this.libp2p) {
+      throw new Error('P2P node not started');
+    }
+    const fullProtocol = `${this.protocolPrefix}/${protocol}`;
+    this.messageHandlers.set(fullProtocol, handler);
+    await this.libp2p.handle(fullProtocol, async ({ stream, connection }: any) => {
+      const peerId = connection.remotePeer.toString();
+      try {
+        await pipe(
+          stream.source,
+          (source: any) => lp.decode(source),
+          async function* (source: any) {
+            for await (const message of source) {
+              const request = JSON.parse(new TextDecoder().decode(message.subarray()));
+              yield new TextEncoder().encode(JSON.stringify(await handler(request, peerId)));
+              break;
+            }
+          },
+          (source: any) => lp.encode(source),
+          stream.sink
+        );
+      } catch (error) {
+        console.error(`Error serving ${protocol} for ${peerId.substring(0, 12)}...:`, error);
+        stream.abort?.(error);
+      }
+    });
+    console.log(`📋 Registered request protocol: ${protocol}`);
+  }
+  /**
+   * Send a JSON request to a connected peer and wait for its response
+   */
+  public async request<Req, Res>(peerId: string, protocol: string, payload: Req, timeoutMs: number = 10000): Promise<Res> {
+    if (!this.libp2p) {
+      throw new Error('P2P node not started');
+    }
+    const peer = this.libp2p.getPeers().find(p => p.toString() === peerId);
+    if (!peer) {
+      throw new Error(`Peer ${peerId} is not connected`);
+    }
+    const stream = await this.libp2p.dialProtocol(peer, `${this.protocolPrefix}/${protocol}`, { signal: AbortSignal.timeout(timeoutMs) });
+    try {
+      return await pipe(
+        [new TextEncoder().encode(JSON.stringify(payload))],
+        (source: any) => lp.encode(source),
+        stream,
+        (source: any) => lp.decode(source),
+        async (source: any) => {
+          for await (const message of source) {
+            return JSON.parse(new TextDecoder().decode(message.subarray())) as Res;
+          }
+          throw new Error(`Empty ${protocol} response from ${peerId}`);
+        }
+      );
+    } finally {
+      await stream.close().catch(() => stream.abort?.(new Error('close failed')));
+    }
+  }
   /**
    * Broadcast a message to all connected peers
    */
@@ -187,12 +325,19 @@ export class P2PNode extends EventEmitter {
     }
   }
   /**
-   * Publish to a pubsub topic
+   * Publish to a topic. Topics of a required message type, or of none, go out over pubsub;
+   * an optional type is only sent, directly, to handshaked peers that advertised it.
    */
-  public async publishToTopic(topic: string, data: Uint8Array): Promise<void> {
+  public async publishToTopic(topic: string, data: Uint8Array, type?: MessageType): Promise<void> {
     if (!this.libp2p || !this.libp2p.services?.pubsub) {
       throw new Error('P2P node not started or pubsub not available');
     }
+    if (type && !REQUIRED_MESSAGE_TYPES.includes(type)) {
+      const peers = this.getPeersSupporting(type);
+      await Promise.allSettled(peers.map(peerId => this.sendToPeer(peerId, `topic/${topic}`, data)));
+      console.log(`📢 Sent ${topic} to ${peers.length} peers handling ${type} (${data.length} bytes)`);
+      return;
+    }
     try {
       await this.libp2p.services.pubsub.publish(topic, data);
       console.log(`📢 Published to topic ${topic} (${data.length} bytes)`);
@@ -202,12 +347,32 @@ export class P2PNode extends EventEmitter {
     }
   }
   /**
-   * Subscribe to a pubsub topic
+   * Subscribe to a topic, published with the same message type. Once the handshake is enabled,
+   * messages from peers that have not completed it are dropped, and pubsub does not relay them.
    */
-  public async subscribeToTopic(topic: string, handler: (data: Uint8Array, peerId: string) => void): Promise<void> {
+  public async subscribeToTopic(topic: string, handler: (data: Uint8Array, peerId: string) => void, type?: MessageType): Promise<void> {
     if (!this.libp2p || !this.libp2p.services?.pubsub) {
       throw new Error('P2P node not started or pubsub not available');
     }
+    if (type && !REQUIRED_MESSAGE_TYPES.includes(type)) {
+      this.registerProtocol(`topic/${topic}`, async (stream: any, peerId: string) => {
+        const chunks: Uint8Array[] = [];
+        for await (const chunk of stream.source) {
+          chunks.push(chunk.subarray ? chunk.subarray() : chunk);
+        }
+        if (!this.connectedPeers.get(peerId)?.handshake?.messageTypes.includes(type)) {
+          console.warn(`Dropped ${topic} from ${peerId.substring(0, 12)}...: no handshake for ${type}`);
+          return;
+        }
+        handler(Buffer.concat(chunks), peerId);
+      });
+      console.log(`🔔 Handling topic ${topic} from peers that negotiated ${type}`);
+      return;
+    }
+    // The validator sees the peer the message arrived from, not its author
+    this.libp2p.services.pubsub.topicValidators.set(topic, (from: PeerId) =>
+      this.hasHandshake(from.toString()) ? TopicValidatorResult.Accept : TopicValidatorResult.Reject
+    );
     this.libp2p.services.pubsub.addEventListener('message', (evt: any) => {
       if (evt.detail.topic === topic) {
         const peerId = evt.detail.from.toString();
@@ -217,18 +382,44 @@ export class P2PNode extends EventEmitter {
     await this.libp2p.services.pubsub.subscribe(topic);
     console.log(`🔔 Subscribed to topic: ${topic}`);
   }
+  /**
+   * Whether a peer may send us messages: always before the handshake is enabled, afterwards only
+   * once its hello was accepted
+   */
+  private hasHandshake(peerId: string): boolean {
+    return !this.handshake || !!this.connectedPeers.get(peerId)?.handshake;
+  }
   /**
    * Get connected peers
    */
   public getConnectedPeers(): PeerInfo[] {
     return Array.from(this.connectedPeers.values());
   }
+  /**
+   * Handshaked peers that advertised a message type; optional types are only sent to these
+   */
+  public getPeersSupporting(type: MessageType): string[] {
+    return Array.from(this.connectedPeers.values())
+      .filter(peer => peer.handshake?.messageTypes.includes(type))
+      .map(peer => peer.id);
+  }
   /**
    * Get peer count
    */
   public getPeerCount(): number {
     return this.connectedPeers.size;
   }
+  /**
+   * The libp2p peer id a node started with this secp256k1 public key has, or null for a
+   * malformed key. Ties node records and hellos to the connection they arrive on.
+   */
+  public static peerIdOf(publicKey: string): string | null {
+    try {
+      return peerIdFromPublicKey(publicKeyFromRaw(Buffer.from(publicKey, 'hex'))).toString();
+    } catch {
+      return null;
+    }
+  }
   /**
    * Get node info
    */
@@ -287,11 +478,15 @@ export class P2PNode extends EventEmitter {
       this.connectedPeers.set(peerId, peerInfo);
       console.log(`🤝 Peer connected: ${peerId.substring(0, 20)}... (${this.connectedPeers.size} total)`);
       this.emit('peer:connect', peerInfo);
+      this.startHandshake(peerId);
     });
     this.libp2p.addEventListener('peer:disconnect', (evt) => {
       const peerId = evt.detail.toString();
       const peerInfo = this.connectedPeers.get(peerId);
       this.connectedPeers.delete(peerId);
+      clearTimeout(this.handshakeTimers.get(peerId));
+      this.handshakeTimers.delete(peerId);
+      this.handshake?.protocol.removePeer(peerId);
       console.log(`👋 Peer disconnected: ${peerId.substring(0, 20)}... (${this.connectedPeers.size} remaining)`);
       this.emit('peer:disconnect', { peerId, peerInfo });
     });
@@ -376,6 +571,21 @@ export class P2PNode extends EventEmitter {
       console.error(`Failed to disconnect from ${peerId}:`, error);
     }
   }
+  /**
+   * Dial a peer by multiaddr; the address must end in /p2p/<peer id>
+   */
+  public async dial(address: string): Promise<void> {
+    if (!this.libp2p) {
+      throw new Error('P2P node is not started');
+    }
+    await this.libp2p.dial(multiaddr(address));
+  }
+  /**
+   * Bootstrap peers this node was configured with
+   */
+  public getBootstrapPeers(): string[] {
+    return [...this.config.bootstrapPeers];
+  }
   /**
    * Check if connected to a specific peer
    */
@@ -15,6 +15,8 @@ import { pubsubPeerDiscovery } from '@libp2p/pubsub-peer-discovery';
 import { floodsub } from '@libp2p/floodsub';
 import { multiaddr } from '@multiformats/multiaddr';
 import { EventEmitter } from 'events';
+import { pipe } from 'it-pipe';
+import * as lp from 'it-length-prefixed';
 import * as crypto from 'crypto';
 
 import { EmotionalValidator } from '../crypto/EmotionalValidator';
@@ -526,6 +528,69 @@ export class P2PValidatorNetwork extends EventEmitter {
     console.log(`Network maintenance: ${this.validators.size} validators, ${this.calculateNetworkHealth()}% health`);
   }
 
+  /**
+   * Serve a JSON request/response protocol (one length-prefixed message each way)
+   */
+  async handleRequest<Req, Res>(protocol: string, handler: (request: Req, peerId: string) => Promise<Res>): Promise<void> {
+    await this.libp2p.handle(protocol, async ({ stream, connection }: any) => {
+      const peerId = connection.remotePeer.toString();
+      try {
+        await pipe(
+          stream.source,
+          (source: any) => lp.decode(source),
+          async function* (source: any) {
+            for await (const message of source) {
+              const request = JSON.parse(new TextDecoder().decode(message.subarray()));
+              yield new TextEncoder().encode(JSON.stringify(await handler(request, peerId)));
+              break;
+            }
+          },
+          (source: any) => lp.encode(source),
+          stream.sink
+        );
+      } catch (error) {
+        console.error(`❌ Failed to serve ${protocol} for ${peerId}:`, error);
+        stream.abort?.(error);
+      }
+    });
+  }
+
+  /**
+   * Send a JSON request to a connected peer and wait for its response
+   */
+  async request<Req, Res>(peerId: string, protocol: string, payload: Req, timeoutMs: number = 10000): Promise<Res> {
+    const peer = this.libp2p.getPeers().find((p: any) => p.toString() === peerId);
+    if (!peer) {
+      throw new Error(`Peer ${peerId} is not connected`);
+    }
+
+    const signal = AbortSignal.timeout(timeoutMs);
+    const stream = await this.libp2p.dialProtocol(peer, protocol, { signal });
+    try {
+      return await pipe(
+        [new TextEncoder().encode(JSON.stringify(payload))],
+        (source: any) => lp.encode(source),
+        stream,
+        (source: any) => lp.decode(source),
+        async (source: any) => {
+          for await (const message of source) {
+            return JSON.parse(new TextDecoder().decode(message.subarray())) as Res;
+          }
+          throw new Error(`Empty ${protocol} response from ${peerId}`);
+        }
+      );
+    } finally {
+      await stream.close().catch(() => stream.abort?.(new Error('close failed')));
+    }
+  }
+
+  /**
+   * Peer IDs of currently connected peers
+   */
+  getConnectedPeers(): string[] {
+    return (this.libp2p?.getPeers() || []).map((peer: any) => peer.toString());
+  }
+
   /**
    * Shutdown the P2P network
    */
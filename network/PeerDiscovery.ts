@@ -0,0 +1,397 @@
+/**
+ * Peer Discovery for EmotionalChain
+ * Signed node records spread by peer exchange (PEX), so a validator network without access
+ * to the public DHT can form from a static peers file or a bootstrap node
+ */
+import { EventEmitter } from 'events';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { P2PNode } from './P2PNode';
+import { PeerManager } from './PeerManager';
+import { MessageType, PeerHandshake } from './EmotionalProtocol';
+import { BiometricKeyPair, type KeyPair } from '../crypto/KeyPair';
+import { ProductionCrypto } from '../crypto/ProductionCrypto';
+import { CONFIG, NetworkConfig } from '../shared/config';
+export type NodeRole = NetworkConfig['discovery']['roles'][number];
+/**
+ * A node's own description of where to reach it, signed with its node key
+ */
+export interface NodeRecord {
+  nodeId: string; // libp2p peer id
+  publicKey: string; // hex encoded secp256k1 key the record is signed with
+  addresses: string[]; // multiaddrs, each ending in /p2p/<nodeId>
+  chainId: string;
+  roles: NodeRole[];
+  timestamp: number; // A newer record replaces an older one from the same key
+  signature: string;
+}
+export interface PeerExchangeRequest {
+  record: NodeRecord | null; // The requester's own record
+  limit: number;
+}
+export interface PeerExchangeResponse {
+  records?: NodeRecord[];
+  error?: string;
+}
+export type DiscoveryConfig = NetworkConfig['discovery'];
+export interface DiscoveryStats {
+  recordsKnown: number;
+  staticPeers: number;
+  exchangesSent: number;
+  exchangesServed: number;
+  recordsAccepted: number;
+  recordsRejected: number;
+}
+interface AddressBookEntry {
+  record: NodeRecord | null; // null for a static multiaddr without a record
+  addresses: string[];
+  isStatic: boolean;
+}
+const PEX_PROTOCOL = 'pex/records';
+const NODE_ROLES: NodeRole[] = ['validator', 'full', 'bootstrap'];
+const MAX_ADDRESSES = 16;
+const MAX_CLOCK_SKEW = 300000; // 5 minutes
+export class PeerDiscovery extends EventEmitter {
+  private p2pNode: P2PNode;
+  private peerManager: PeerManager;
+  private config: DiscoveryConfig;
+  private keyPair: KeyPair | null = null;
+  private localRecord: NodeRecord | null = null;
+  private book = new Map<string, AddressBookEntry>(); // node id -> record and addresses
+  private exchangeTimer: NodeJS.Timeout | null = null;
+  private stats = {
+    exchangesSent: 0,
+    exchangesServed: 0,
+    recordsAccepted: 0,
+    recordsRejected: 0
+  };
+  constructor(p2pNode: P2PNode, peerManager: PeerManager, config: Partial<DiscoveryConfig> = {}) {
+    super();
+    this.p2pNode = p2pNode;
+    this.peerManager = peerManager;
+    this.config = { ...CONFIG.network.discovery, ...config };
+  }
+  /**
+   * Sign this node's record, load static peers and start exchanging records with peers
+   */
+  public async start(): Promise<void> {
+    this.keyPair = await PeerDiscovery.loadNodeKey(this.config.nodeKeyFile);
+    const peerId = this.p2pNode.getNodeInfo()?.peerId;
+    if (peerId && peerId !== P2PNode.peerIdOf(this.keyPair.publicKey)) {
+      throw new Error(`Peer id ${peerId} is not derived from node key ${this.config.nodeKeyFile}; start the P2P node with it`);
+    }
+    this.refreshLocalRecord();
+    await this.loadStaticPeers();
+    await this.p2pNode.handleRequest<PeerExchangeRequest, PeerExchangeResponse>(PEX_PROTOCOL, async (request, peerId) =>
+      this.serve(request, peerId)
+    );
+    // Ask each new peer for records as soon as its hello shows it handles peer exchange
+    this.p2pNode.on('peer:handshake', (handshake: PeerHandshake) => {
+      if (!handshake.messageTypes.includes(MessageType.PEER_EXCHANGE)) return;
+      this.exchangeWith(handshake.peerId).catch(error =>
+        console.warn(`Peer exchange with ${handshake.peerId.substring(0, 12)}... failed: ${error.message}`)
+      );
+    });
+    this.exchangeTimer = setInterval(() => {
+      this.exchange().catch(error => console.error('Peer exchange round failed:', error));
+    }, this.config.exchangeInterval);
+    console.log(`🧭 Peer discovery started as ${this.config.roles.join(', ')} with ${this.book.size} known node(s)`);
+  }
+  public stop(): void {
+    if (this.exchangeTimer) {
+      clearInterval(this.exchangeTimer);
+      this.exchangeTimer = null;
+    }
+  }
+  /**
+   * Ask a few peers that handle peer exchange for records, bootstrap nodes first
+   */
+  public async exchange(): Promise<void> {
+    this.refreshLocalRecord();
+    const supporting = this.p2pNode.getPeersSupporting(MessageType.PEER_EXCHANGE)
+      .filter(peerId => !this.peerManager.isBlacklisted(peerId));
+    const isBootstrap = (peerId: string) => !!this.book.get(peerId)?.record?.roles.includes('bootstrap');
+    const peers = [
+      ...supporting.filter(isBootstrap),
+      ...PeerDiscovery.shuffle(supporting.filter(peerId => !isBootstrap(peerId)))
+    ].slice(0, this.config.peersPerExchange);
+    for (const peerId of peers) {
+      try {
+        await this.exchangeWith(peerId);
+      } catch (error: any) {
+        console.warn(`Peer exchange with ${peerId.substring(0, 12)}... failed: ${error.message}`);
+      }
+    }
+  }
+  /**
+   * Add a record to the address book and its addresses to the connection targets.
+   * Returns false for records that are ignored: this node's own, another chain's, stale
+   * or not newer than the one known. Only the key a node id derives from can sign its
+   * records, so a newer valid record always comes from the same node.
+   */
+  public addRecord(record: NodeRecord, isStatic: boolean = false): boolean {
+    if (record.nodeId === this.localRecord?.nodeId) return false;
+    if (record.chainId !== CONFIG.network.p2p.chainId) return false;
+    if (!isStatic && Date.now() - record.timestamp > this.config.recordMaxAge) return false;
+    const known = this.book.get(record.nodeId);
+    if (known?.record && known.record.timestamp >= record.timestamp) return false;
+    if (!known && this.book.size >= this.config.maxRecords && !this.evictOldest()) return false;
+    const entry: AddressBookEntry = {
+      record,
+      addresses: Array.from(new Set([...(known?.addresses || []), ...record.addresses])),
+      isStatic: isStatic || !!known?.isStatic
+    };
+    this.book.set(record.nodeId, entry);
+    this.addTargets(entry);
+    this.stats.recordsAccepted++;
+    this.emit('recordAdded', record);
+    return true;
+  }
+  public getLocalRecord(): NodeRecord | null {
+    return this.localRecord;
+  }
+  /**
+   * Records fresh enough to share, newest first
+   */
+  public getRecords(): NodeRecord[] {
+    const now = Date.now();
+    return Array.from(this.book.values())
+      .map(entry => entry.record)
+      .filter((record): record is NodeRecord => !!record && now - record.timestamp <= this.config.recordMaxAge)
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+  public getStats(): DiscoveryStats {
+    return {
+      ...this.stats,
+      recordsKnown: Array.from(this.book.values()).filter(entry => entry.record).length,
+      staticPeers: Array.from(this.book.values()).filter(entry => entry.isStatic).length
+    };
+  }
+  /**
+   * Why a record received from a peer or a static peers file cannot be used, or null. The
+   * node id must be the peer id of the signing key, so nobody can publish addresses for a
+   * node id they do not hold the key of.
+   */
+  public static checkRecord(record: NodeRecord, now: number = Date.now()): string | null {
+    if (!record || typeof record !== 'object') {
+      return 'record is not an object';
+    }
+    if (typeof record.nodeId !== 'string' || record.nodeId.length === 0) {
+      return 'record has no node id';
+    }
+    if (typeof record.publicKey !== 'string' || P2PNode.peerIdOf(record.publicKey) !== record.nodeId) {
+      return 'node id is not derived from the record key';
+    }
+    if (!Array.isArray(record.addresses) || record.addresses.length === 0 || record.addresses.length > MAX_ADDRESSES) {
+      return `record must list 1-${MAX_ADDRESSES} addresses`;
+    }
+    const foreign = record.addresses.find(address => typeof address !== 'string' || !address.endsWith(`/p2p/${record.nodeId}`));
+    if (foreign !== undefined) {
+      return `address ${foreign} does not end in /p2p/${record.nodeId}`;
+    }
+    if (!Array.isArray(record.roles) || record.roles.some(role => !NODE_ROLES.includes(role))) {
+      return 'record has an unknown role';
+    }
+    if (typeof record.timestamp !== 'number' || record.timestamp > now + MAX_CLOCK_SKEW) {
+      return 'record timestamp is in the future';
+    }
+    if (!PeerDiscovery.verifyRecordSignature(record)) {
+      return 'record signature is invalid';
+    }
+    return null;
+  }
+  public static signRecord(unsigned: Omit<NodeRecord, 'signature' | 'publicKey'>, keyPair: KeyPair): NodeRecord {
+    const withKey = { ...unsigned, publicKey: keyPair.publicKey };
+    const signature = ProductionCrypto.signECDSA(PeerDiscovery.hashRecord(withKey), Buffer.from(keyPair.privateKey, 'hex'));
+    return { ...withKey, signature: signature.signature };
+  }
+  public static verifyRecordSignature(record: NodeRecord): boolean {
+    if (typeof record.publicKey !== 'string' || typeof record.signature !== 'string') return false;
+    return ProductionCrypto.verifyECDSASignature(PeerDiscovery.hashRecord(record), record.signature, Buffer.from(record.publicKey, 'hex'));
+  }
+  /**
+   * Read the node key, creating it on first start so the node keeps its identity across restarts
+   */
+  public static async loadNodeKey(file: string): Promise<KeyPair> {
+    try {
+      const keyPair = JSON.parse(await fs.readFile(file, 'utf-8'));
+      if (!keyPair.publicKey || !keyPair.privateKey) {
+        throw new Error(`Node key file ${file} has no key pair`);
+      }
+      return keyPair;
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+    const keyPair = new BiometricKeyPair().generateKeyPair();
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(keyPair), { mode: 0o600 });
+    console.log(`🔑 Created node key ${file}`);
+    return keyPair;
+  }
+  private static hashRecord(record: Omit<NodeRecord, 'signature'>): Uint8Array {
+    const { nodeId, publicKey, addresses, chainId, roles, timestamp } = record;
+    return new TextEncoder().encode(JSON.stringify({
+      type: 'node-record', nodeId, publicKey, addresses, chainId, roles, timestamp: Number(timestamp)
+    }));
+  }
+  private static shuffle<T>(items: T[]): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+  private async exchangeWith(peerId: string): Promise<void> {
+    this.refreshLocalRecord();
+    this.stats.exchangesSent++;
+    this.peerManager.recordMessageActivity(peerId, 'sent');
+    const startTime = Date.now();
+    let response: PeerExchangeResponse;
+    try {
+      response = await this.p2pNode.request<PeerExchangeRequest, PeerExchangeResponse>(
+        peerId, PEX_PROTOCOL, { record: this.localRecord, limit: this.config.maxRecordsPerResponse }, CONFIG.network.sync.requestTimeout
+      );
+    } catch (error: any) {
+      this.peerManager.recordPeerError(peerId, `Peer exchange failed: ${error.message}`);
+      throw error;
+    }
+    this.peerManager.recordMessageActivity(peerId, 'received', Date.now() - startTime);
+    if (response.error) {
+      throw new Error(response.error);
+    }
+    const records = Array.isArray(response.records) ? response.records : [];
+    if (records.length > this.config.maxRecordsPerResponse) {
+      this.peerManager.recordInvalidMessage(peerId, `Sent ${records.length} node records`);
+    }
+    let added = 0;
+    for (const record of records.slice(0, this.config.maxRecordsPerResponse)) {
+      const invalid = PeerDiscovery.checkRecord(record);
+      if (invalid) {
+        // Records are verified before they are shared, so relaying a bad one is the peer's fault
+        this.stats.recordsRejected++;
+        this.peerManager.recordInvalidMessage(peerId, `Relayed invalid node record: ${invalid}`);
+        continue;
+      }
+      if (this.addRecord(record)) added++;
+    }
+    if (added > 0) {
+      console.log(`🧭 Learned ${added} node record(s) from ${peerId.substring(0, 12)}...`);
+    }
+  }
+  private serve(request: PeerExchangeRequest, peerId: string): PeerExchangeResponse {
+    this.stats.exchangesServed++;
+    this.peerManager.recordMessageActivity(peerId, 'received');
+    if (request?.record) {
+      // Peers push only their own record; others' records are fetched, never accepted unasked
+      const invalid = request.record.nodeId !== peerId
+        ? 'pushed a record for another node'
+        : PeerDiscovery.checkRecord(request.record);
+      if (invalid) {
+        this.stats.recordsRejected++;
+        this.peerManager.recordInvalidMessage(peerId, `Invalid node record: ${invalid}`);
+      } else {
+        this.addRecord(request.record);
+      }
+    }
+    const limit = Math.min(Math.max(Math.floor(request?.limit) || 1, 1), this.config.maxRecordsPerResponse);
+    const others = PeerDiscovery.shuffle(this.getRecords().filter(record => record.nodeId !== peerId));
+    const records = this.localRecord ? [this.localRecord, ...others] : others;
+    return { records: records.slice(0, limit) };
+  }
+  /**
+   * Re-sign this node's record when its addresses change or half its lifetime has passed
+   */
+  private refreshLocalRecord(): void {
+    const nodeInfo = this.p2pNode.getNodeInfo();
+    if (!this.keyPair || !nodeInfo) return;
+    const nodeId: string = nodeInfo.peerId;
+    const addresses = (nodeInfo.multiaddrs as string[])
+      .map(address => (address.endsWith(`/p2p/${nodeId}`) ? address : `${address}/p2p/${nodeId}`))
+      .slice(0, MAX_ADDRESSES);
+    const current = this.localRecord;
+    if (
+      current &&
+      current.addresses.join(',') === addresses.join(',') &&
+      Date.now() - current.timestamp < this.config.recordMaxAge / 2
+    ) {
+      return;
+    }
+    this.localRecord = PeerDiscovery.signRecord({
+      nodeId,
+      addresses,
+      chainId: CONFIG.network.p2p.chainId,
+      roles: this.config.roles,
+      timestamp: Date.now()
+    }, this.keyPair);
+  }
+  /**
+   * Static peers file: a JSON array of signed node records and /p2p/ multiaddrs. A missing
+   * file means no static peers.
+   */
+  private async loadStaticPeers(): Promise<void> {
+    let entries: unknown;
+    try {
+      entries = JSON.parse(await fs.readFile(this.config.staticPeersFile, 'utf-8'));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.warn(`Static peers file ${this.config.staticPeersFile} not loaded: ${error.message}`);
+      }
+      return;
+    }
+    if (!Array.isArray(entries)) {
+      console.warn(`Static peers file ${this.config.staticPeersFile} is not a JSON array`);
+      return;
+    }
+    let loaded = 0;
+    for (const entry of entries) {
+      if (typeof entry === 'string') {
+        const nodeId = entry.match(/\/p2p\/([^\/]+)$/)?.[1];
+        if (!nodeId) {
+          console.warn(`Static peer ${entry} does not end in /p2p/<peer id>, skipped`);
+          continue;
+        }
+        const known = this.book.get(nodeId);
+        const staticEntry: AddressBookEntry = {
+          record: known?.record || null,
+          addresses: Array.from(new Set([...(known?.addresses || []), entry])),
+          isStatic: true
+        };
+        this.book.set(nodeId, staticEntry);
+        this.addTargets(staticEntry);
+        loaded++;
+        continue;
+      }
+      const invalid = PeerDiscovery.checkRecord(entry);
+      if (invalid) {
+        console.warn(`Static node record skipped: ${invalid}`);
+        continue;
+      }
+      if (this.addRecord(entry, true)) loaded++;
+    }
+    console.log(`📌 Loaded ${loaded} static peer(s) from ${this.config.staticPeersFile}`);
+  }
+  private addTargets(entry: AddressBookEntry): void {
+    const isBootstrap = !!entry.record?.roles.includes('bootstrap');
+    const priority = entry.isStatic ? 10 : isBootstrap ? 5 : 1;
+    for (const address of entry.addresses) {
+      this.peerManager.addConnectionTarget(address, priority, isBootstrap, entry.isStatic);
+    }
+  }
+  /**
+   * Drop the oldest record learned by peer exchange to make room; static peers are kept
+   */
+  private evictOldest(): boolean {
+    let oldest: [string, AddressBookEntry] | null = null;
+    for (const [nodeId, entry] of this.book) {
+      if (entry.isStatic || !entry.record) continue;
+      if (!oldest || entry.record.timestamp < oldest[1].record!.timestamp) oldest = [nodeId, entry];
+    }
+    if (!oldest) return false;
+    this.book.delete(oldest[0]);
+    for (const address of oldest[1].addresses) {
+      this.peerManager.removeConnectionTarget(address);
+    }
+    return true;
+  }
+}
@@ -1,5 +1,7 @@
 import { EventEmitter } from 'events';
 import { P2PNode, PeerInfo } from './P2PNode';
+import { PeerScoring, PeerScore, PeerScoreStorage } from './PeerScoring';
+import type { AdvancedByzantineDetection, ThreatAssessment } from './AdvancedByzantineDetection';
 export interface PeerMetrics {
   peerId: string;
   lastSeen: number;
@@ -17,36 +19,36 @@ export interface ConnectionTarget {
   lastAttempt: number;
   failureCount: number;
   isBootstrap: boolean;
+  isStatic: boolean; // From the static peers file; retried however often it fails
 }
 export class PeerManager extends EventEmitter {
   private p2pNode: P2PNode;
   private nodeId: string;
   private peerMetrics = new Map<string, PeerMetrics>();
-  private blacklistedPeers = new Set<string>();
+  private scoring: PeerScoring; // Reputation and bans, persisted across restarts
   private connectionTargets = new Map<string, ConnectionTarget>();
   // Configuration
   private readonly TARGET_PEER_COUNT = 10;
   private readonly MIN_PEER_COUNT = 6;
   private readonly MAX_PEER_COUNT = 15;
   private readonly PEER_TIMEOUT = 300000; // 5 minutes
-  private readonly BLACKLIST_DURATION = 3600000; // 1 hour
-  private readonly REPUTATION_THRESHOLD = 30;
   private readonly MAX_FAILURES = 5;
-  private readonly REPUTATION_RECOVERY_INTERVAL = 300000; // 5 minutes
-  private readonly REPUTATION_RECOVERY_AMOUNT = 1; // +1 reputation every 5 minutes of good behavior
-  constructor(nodeId: string, p2pNode: P2PNode) {
+  constructor(nodeId: string, p2pNode: P2PNode, storage: PeerScoreStorage | null = null) {
     super();
     this.nodeId = nodeId;
     this.p2pNode = p2pNode;
+    this.scoring = new PeerScoring(storage);
     this.setupEventHandlers();
     this.startPeerMaintenance();
-    this.startReputationRecovery();
   }
   /**
    * Start peer management
    */
   public async start(): Promise<void> {
     console.log(`👥 Starting peer manager for ${this.nodeId}`);
+    // Restore scores and bans from before the restart
+    await this.scoring.initialize();
+    this.scoring.start();
     // Initialize with bootstrap peers
     await this.initializeBootstrapPeers();
     // Start peer discovery
@@ -63,6 +65,7 @@ export class PeerManager extends EventEmitter {
     for (const peer of connectedPeers) {
       await this.p2pNode.disconnectPeer(peer.id, 'Shutdown');
     }
+    await this.scoring.stop();
     this.peerMetrics.clear();
     this.connectionTargets.clear();
     this.emit('stopped');
@@ -70,13 +73,14 @@ export class PeerManager extends EventEmitter {
   /**
    * Add a peer connection target
    */
-  public addConnectionTarget(multiaddr: string, priority: number = 1, isBootstrap: boolean = false): void {
+  public addConnectionTarget(multiaddr: string, priority: number = 1, isBootstrap: boolean = false, isStatic: boolean = false): void {
     const target: ConnectionTarget = {
       multiaddr,
       priority,
       lastAttempt: 0,
       failureCount: 0,
-      isBootstrap
+      isBootstrap,
+      isStatic
     };
     this.connectionTargets.set(multiaddr, target);
     console.log(`📝 Added connection target: ${multiaddr} (priority: ${priority})`);
@@ -88,87 +92,83 @@ export class PeerManager extends EventEmitter {
     this.connectionTargets.delete(multiaddr);
   }
   /**
-   * Blacklist a peer
+   * Ban a peer; the ban is persisted and lasts longer for each repeat offence
    */
   public blacklistPeer(peerId: string, reason: string): void {
-    this.blacklistedPeers.add(peerId);
-    // Disconnect if currently connected
-    if (this.p2pNode.isConnectedToPeer(peerId)) {
-      this.p2pNode.disconnectPeer(peerId, `Blacklisted: ${reason}`);
-    }
-    console.log(`🚫 Blacklisted peer ${peerId.substring(0, 12)}...: ${reason}`);
-    this.emit('peerBlacklisted', { peerId, reason });
-    // Auto-remove from blacklist after duration
-    setTimeout(() => {
-      this.blacklistedPeers.delete(peerId);
-    }, this.BLACKLIST_DURATION);
+    this.scoring.ban(peerId, reason);
   }
   /**
    * Update peer reputation
    */
   public updatePeerReputation(peerId: string, delta: number, reason?: string): void {
-    let metrics = this.peerMetrics.get(peerId);
-    if (!metrics) {
-      metrics = this.createPeerMetrics(peerId);
-      this.peerMetrics.set(peerId, metrics);
-    }
+    const metrics = this.getOrCreateMetrics(peerId);
     const oldReputation = metrics.reputation;
-    metrics.reputation = Math.max(0, Math.min(100, metrics.reputation + delta));
+    this.scoring.adjust(peerId, delta, reason || 'no reason');
+    metrics.reputation = this.scoring.getScore(peerId);
     metrics.lastSeen = Date.now();
     console.log(` Updated reputation for ${peerId.substring(0, 12)}...: ${oldReputation} → ${metrics.reputation} (${reason || 'no reason'})`);
-    // Check if peer should be blacklisted
-    if (metrics.reputation < this.REPUTATION_THRESHOLD) {
-      this.blacklistPeer(peerId, `Low reputation: ${metrics.reputation}`);
-    }
     this.emit('reputationUpdated', { peerId, oldReputation, newReputation: metrics.reputation, reason });
-    
-    // If reputation improved above threshold, remove from blacklist
-    if (oldReputation < this.REPUTATION_THRESHOLD && metrics.reputation >= this.REPUTATION_THRESHOLD) {
-      if (this.blacklistedPeers.has(peerId)) {
-        this.blacklistedPeers.delete(peerId);
-        console.log(`Peer ${peerId.substring(0, 12)}... removed from blacklist due to reputation recovery`);
-        this.emit('peerRehabilitatedFromBlacklist', { peerId, newReputation: metrics.reputation });
-      }
-    }
+  }
+  /**
+   * Record a malformed or invalid message from a peer
+   */
+  public recordInvalidMessage(peerId: string, reason: string): void {
+    const metrics = this.getOrCreateMetrics(peerId);
+    metrics.errorCount++;
+    this.scoring.recordInvalidMessage(peerId, reason);
+    metrics.reputation = this.scoring.getScore(peerId);
+    this.updateConnectionQuality(metrics);
+    this.emit('invalidMessage', { peerId, reason, reputation: metrics.reputation });
+  }
+  /**
+   * Record blocks a peer delivered that this node asked for
+   */
+  public recordUsefulBlocks(peerId: string, count: number): void {
+    const metrics = this.getOrCreateMetrics(peerId);
+    this.scoring.recordUsefulBlocks(peerId, count);
+    metrics.reputation = this.scoring.getScore(peerId);
+  }
+  /**
+   * Score peers on threats found by Byzantine detection. Only peers this node has scored
+   * are affected, since the detector also tracks validators by validator id.
+   */
+  public attachByzantineDetection(detection: AdvancedByzantineDetection): void {
+    detection.on('threatDetected', ({ subjectId, assessment }: { subjectId: string; assessment: ThreatAssessment }) => {
+      if (!this.scoring.hasPeer(subjectId)) return;
+      this.scoring.recordThreat(subjectId, assessment);
+      const metrics = this.peerMetrics.get(subjectId);
+      if (metrics) metrics.reputation = this.scoring.getScore(subjectId);
+    });
   }
   /**
    * Record peer message activity
    */
   public recordMessageActivity(peerId: string, type: 'sent' | 'received', responseTime?: number): void {
-    let metrics = this.peerMetrics.get(peerId);
-    if (!metrics) {
-      metrics = this.createPeerMetrics(peerId);
-      this.peerMetrics.set(peerId, metrics);
-    }
+    const metrics = this.getOrCreateMetrics(peerId);
     if (type === 'sent') {
       metrics.messageSent++;
     } else {
       metrics.messageReceived++;
       if (responseTime !== undefined) {
         metrics.responseTime = (metrics.responseTime + responseTime) / 2; // Running average
+        // Fast responses raise the score, slow ones lower it
+        this.scoring.recordLatency(peerId, responseTime);
+        metrics.reputation = this.scoring.getScore(peerId);
       }
     }
     metrics.lastSeen = Date.now();
     this.updateConnectionQuality(metrics);
-    
-    // Reward good behavior with reputation increase
-    if (type === 'received' && responseTime && responseTime < 5000) {
-      this.updatePeerReputation(peerId, +0.5, 'Fast response time');
-    }
   }
   /**
    * Record peer error
    */
   public recordPeerError(peerId: string, error: string): void {
-    let metrics = this.peerMetrics.get(peerId);
-    if (!metrics) {
-      metrics = this.createPeerMetrics(peerId);
-      this.peerMetrics.set(peerId, metrics);
-    }
+    const metrics = this.getOrCreateMetrics(peerId);
     metrics.errorCount++;
     metrics.lastSeen = Date.now();
     // Decrease reputation for errors
-    this.updatePeerReputation(peerId, -2, `Error: ${error}`);
+    this.scoring.recordError(peerId, `Error: ${error}`);
+    metrics.reputation = this.scoring.getScore(peerId);
     // Update connection quality
     this.updateConnectionQuality(metrics);
     this.emit('peerError', { peerId, error, errorCount: metrics.errorCount });
@@ -185,6 +185,12 @@ export class PeerManager extends EventEmitter {
   public getAllPeerMetrics(): PeerMetrics[] {
     return Array.from(this.peerMetrics.values());
   }
+  /**
+   * Scores of every peer seen, including disconnected and banned ones, highest first
+   */
+  public getPeerScores(): (PeerScore & { connected: boolean })[] {
+    return this.scoring.getScores().map(peer => ({ ...peer, connected: this.p2pNode.isConnectedToPeer(peer.peerId) }));
+  }
   /**
    * Get connection statistics
    */
@@ -196,7 +202,7 @@ export class PeerManager extends EventEmitter {
       target: this.TARGET_PEER_COUNT,
       min: this.MIN_PEER_COUNT,
       max: this.MAX_PEER_COUNT,
-      blacklisted: this.blacklistedPeers.size,
+      blacklisted: this.scoring.getBanned().length,
       targets: this.connectionTargets.size,
       averageReputation: metrics.length > 0 
         ? metrics.reduce((sum, m) => sum + m.reputation, 0) / metrics.length 
@@ -234,7 +240,7 @@ export class PeerManager extends EventEmitter {
    * Check if peer is blacklisted
    */
   public isBlacklisted(peerId: string): boolean {
-    return this.blacklistedPeers.has(peerId);
+    return this.scoring.isBanned(peerId);
   }
   /**
    * Setup event handlers for P2P node events
@@ -252,6 +258,16 @@ export class PeerManager extends EventEmitter {
     this.p2pNode.on('peer:lowReputation', (peerInfo: PeerInfo) => {
       this.blacklistPeer(peerInfo.id, 'Low reputation from P2P node');
     });
+    this.scoring.on('peerBanned', ({ peerId, reason, bannedUntil }) => {
+      // Disconnect if currently connected
+      if (this.p2pNode.isConnectedToPeer(peerId)) {
+        this.p2pNode.disconnectPeer(peerId, `Blacklisted: ${reason}`);
+      }
+      this.emit('peerBlacklisted', { peerId, reason, bannedUntil });
+    });
+    this.scoring.on('peerUnbanned', ({ peerId, score }) => {
+      this.emit('peerRehabilitatedFromBlacklist', { peerId, newReputation: score });
+    });
   }
   /**
    * Handle peer connection
@@ -262,11 +278,9 @@ export class PeerManager extends EventEmitter {
       return;
     }
     // Create or update peer metrics
-    let metrics = this.peerMetrics.get(peerInfo.id);
-    if (!metrics) {
-      metrics = this.createPeerMetrics(peerInfo.id);
-      this.peerMetrics.set(peerInfo.id, metrics);
-    }
+    const metrics = this.getOrCreateMetrics(peerInfo.id);
+    this.scoring.peerConnected(peerInfo.id);
+    metrics.reputation = this.scoring.getScore(peerInfo.id);
     metrics.lastSeen = Date.now();
     console.log(`🤝 Peer connected: ${peerInfo.id.substring(0, 12)}... (reputation: ${metrics.reputation})`);
     this.emit('peerConnected', { peerInfo, metrics });
@@ -276,6 +290,7 @@ export class PeerManager extends EventEmitter {
    */
   private handlePeerDisconnect(peerId: string): void {
     const metrics = this.peerMetrics.get(peerId);
+    this.scoring.peerDisconnected(peerId);
     console.log(`👋 Peer disconnected: ${peerId.substring(0, 12)}...`);
     // Check if we need more connections
     this.checkConnectionNeeds();
@@ -298,35 +313,12 @@ export class PeerManager extends EventEmitter {
     this.emit('peerDiscovered', { peerId, multiaddrs });
   }
   
-  /**
-   * Start reputation recovery system
-   */
-  private startReputationRecovery(): void {
-    setInterval(() => {
-      const now = Date.now();
-      for (const [peerId, metrics] of this.peerMetrics) {
-        // Only apply recovery to active peers that haven't had recent errors
-        const timeSinceLastSeen = now - metrics.lastSeen;
-        const isActivePeer = timeSinceLastSeen < this.PEER_TIMEOUT;
-        const hasLowReputation = metrics.reputation < 80; // Below excellent threshold
-        const noRecentErrors = (now - metrics.lastSeen) > 60000; // No activity means no errors for 1 min
-        
-        if (isActivePeer && hasLowReputation && noRecentErrors) {
-          this.updatePeerReputation(peerId, this.REPUTATION_RECOVERY_AMOUNT, 'Reputation recovery - good behavior');
-        }
-      }
-    }, this.REPUTATION_RECOVERY_INTERVAL);
-  }
-  
   /**
    * Initialize bootstrap peers
    */
   private async initializeBootstrapPeers(): Promise<void> {
-    // Bootstrap peers would be loaded from configuration
-    const bootstrapPeers = [
-      '/ip4/127.0.0.1/tcp/4001/p2p/QmBootstrap1',
-      '/ip4/127.0.0.1/tcp/4002/p2p/QmBootstrap2'
-    ];
+    // Further bootstrap nodes come from static peers and node records (see PeerDiscovery)
+    const bootstrapPeers = this.p2pNode.getBootstrapPeers();
     for (const peerAddr of bootstrapPeers) {
       this.addConnectionTarget(peerAddr, 10, true); // High priority for bootstrap
     }
@@ -350,8 +342,10 @@ export class PeerManager extends EventEmitter {
     const targets = Array.from(this.connectionTargets.values())
       .filter(target => {
         const now = Date.now();
-        return target.failureCount < this.MAX_FAILURES && 
-               (now - target.lastAttempt) > 30000; // 30 second cooldown
+        const peerId = this.extractPeerIdFromMultiaddr(target.multiaddr);
+        return (target.isStatic || target.failureCount < this.MAX_FAILURES) &&
+               (now - target.lastAttempt) > 30000 && // 30 second cooldown
+               !(peerId && this.p2pNode.isConnectedToPeer(peerId));
       })
       .sort((a, b) => b.priority - a.priority) // Sort by priority
       .slice(0, maxConnections);
@@ -364,12 +358,12 @@ export class PeerManager extends EventEmitter {
           continue;
         }
         console.log(` Attempting connection to ${target.multiaddr}`);
-        // Connection attempt would happen here
-        // For now, we'll simulate connection attempts
+        await this.p2pNode.dial(target.multiaddr);
+        target.failureCount = 0;
       } catch (error) {
         target.failureCount++;
         console.warn(`Failed to connect to ${target.multiaddr}: ${error}`);
-        if (target.failureCount >= this.MAX_FAILURES) {
+        if (target.failureCount >= this.MAX_FAILURES && !target.isStatic) {
           this.connectionTargets.delete(target.multiaddr);
         }
       }
@@ -388,11 +382,19 @@ export class PeerManager extends EventEmitter {
    */
   private performMaintenance(): void {
     const now = Date.now();
-    // Clean up stale peer metrics
+    // Clean up stale peer metrics; their scores are kept
     for (const [peerId, metrics] of this.peerMetrics) {
       if (now - metrics.lastSeen > this.PEER_TIMEOUT) {
         this.peerMetrics.delete(peerId);
         console.log(`🧹 Cleaned up stale metrics for ${peerId.substring(0, 12)}...`);
+      } else {
+        metrics.reputation = this.scoring.getScore(peerId); // Apply decay
+      }
+    }
+    // Drop banned peers that are still connected
+    for (const peer of this.p2pNode.getConnectedPeers()) {
+      if (this.isBlacklisted(peer.id)) {
+        this.p2pNode.disconnectPeer(peer.id, 'Blacklisted peer');
       }
     }
     // Check connection needs
@@ -416,19 +418,29 @@ export class PeerManager extends EventEmitter {
    */
   private disconnectLowQualityPeers(count: number): void {
     const connectedPeers = this.p2pNode.getConnectedPeers();
-    const peersWithMetrics = connectedPeers
+    const lowestScored = connectedPeers
       .map(peer => ({
         peer,
-        metrics: this.peerMetrics.get(peer.id)
+        score: this.scoring.getScore(peer.id)
       }))
-      .filter(item => item.metrics)
-      .sort((a, b) => a.metrics!.reputation - b.metrics!.reputation) // Lowest reputation first
+      .sort((a, b) => a.score - b.score) // Lowest score first
       .slice(0, count);
-    for (const { peer } of peersWithMetrics) {
+    for (const { peer } of lowestScored) {
       this.p2pNode.disconnectPeer(peer.id, 'Low quality connection');
       console.log(`🚪 Disconnected low quality peer: ${peer.id.substring(0, 12)}...`);
     }
   }
+  /**
+   * Get peer metrics, creating them on first contact
+   */
+  private getOrCreateMetrics(peerId: string): PeerMetrics {
+    let metrics = this.peerMetrics.get(peerId);
+    if (!metrics) {
+      metrics = this.createPeerMetrics(peerId);
+      this.peerMetrics.set(peerId, metrics);
+    }
+    return metrics;
+  }
   /**
    * Create default peer metrics
    */
@@ -440,7 +452,7 @@ export class PeerManager extends EventEmitter {
       messageSent: 0,
       messageReceived: 0,
       errorCount: 0,
-      reputation: 50, // Start with neutral reputation
+      reputation: this.scoring.getScore(peerId), // Neutral 50 for new peers
       connectionQuality: 'fair',
       isReliable: false
     };
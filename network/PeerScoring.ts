@@ -0,0 +1,315 @@
+import { EventEmitter } from 'events';
+import { CONFIG, NetworkConfig } from '../shared/config';
+import type { DatabaseStorage } from '../storage/DatabaseStorage';
+import type { ThreatAssessment } from './AdvancedByzantineDetection';
+/**
+ * Unified peer score, persisted across restarts
+ * A peer starts at a neutral 50 out of 100. Invalid messages, failed requests and Byzantine
+ * threats lower it; delivered blocks, fast responses and time connected raise it. Every
+ * penalty and reward decays by half each decayHalfLife, so old behavior fades out, and a
+ * peer falling below banThreshold is banned for banDuration, doubled for each repeat ban.
+ * Peers back at a neutral score are forgotten after forgetAfter unseen, and the longest unseen
+ * are forgotten early to stay within maxPeers; connected and banned peers are always kept.
+ */
+export type PeerScoringConfig = NetworkConfig['peerScoring'];
+export interface PeerScore {
+  peerId: string;
+  score: number; // 0-100, decayed to now
+  behavior: number; // Manual adjustments, invalid messages and errors
+  blocks: number; // Reward for delivered blocks
+  byzantine: number; // Penalty for Byzantine threats
+  latency: number; // ms, moving average; 0 before the first response
+  connectedTime: number; // ms connected, decayed like the other components
+  invalidMessages: number;
+  usefulBlocks: number;
+  bannedUntil: number; // 0 when never banned
+  banCount: number;
+  banReason: string | null; // Set while banned
+  lastSeen: number;
+  decayedAt: number; // When the components above were last decayed
+}
+export type PeerScoreStorage = Pick<DatabaseStorage, 'storePeerReputation' | 'getAllPeerReputations' | 'deletePeerReputation'>;
+type PeerScoreEntry = Omit<PeerScore, 'score'> & { connectedSince: number | null };
+const NEUTRAL_SCORE = 50;
+const LATENCY_SMOOTHING = 0.2; // Weight of the newest sample in the latency average
+const NEUTRAL_TOLERANCE = 1; // Distance from NEUTRAL_SCORE still counted as neutral
+export class PeerScoring extends EventEmitter {
+  private config: PeerScoringConfig;
+  private entries = new Map<string, PeerScoreEntry>();
+  private dirty = new Set<string>();
+  private forgotten = new Set<string>(); // Removed from memory, still to be deleted from storage
+  private persistTimer: NodeJS.Timeout | null = null;
+  constructor(private storage: PeerScoreStorage | null = null, config: Partial<PeerScoringConfig> = {}) {
+    super();
+    this.config = { ...CONFIG.network.peerScoring, ...config };
+  }
+  /**
+   * Restore persisted scores and bans
+   */
+  async initialize(): Promise<void> {
+    if (!this.storage) return;
+    const records = await this.storage.getAllPeerReputations();
+    for (const record of records) {
+      const { score, ...entry } = PeerScoring.fromRecord(record, this.config);
+      this.entries.set(record.peerId, { ...entry, connectedSince: null });
+    }
+    this.forget();
+    const banned = Array.from(this.entries.keys()).filter(peerId => this.isBanned(peerId)).length;
+    console.log(`👥 Restored ${this.entries.size} of ${records.length} peer score(s), ${banned} still banned`);
+  }
+  start(): void {
+    if (this.persistTimer) return;
+    this.persistTimer = setInterval(() => {
+      this.expireBans();
+      this.forget();
+      this.flush().catch(error => console.error('Failed to persist peer scores:', error));
+    }, this.config.persistInterval);
+  }
+  async stop(): Promise<void> {
+    if (this.persistTimer) {
+      clearInterval(this.persistTimer);
+      this.persistTimer = null;
+    }
+    for (const [peerId, entry] of this.entries) {
+      if (entry.connectedSince !== null) this.peerDisconnected(peerId);
+    }
+    await this.flush();
+  }
+  // Signals
+  adjust(peerId: string, delta: number, reason: string): void {
+    const entry = this.touch(peerId);
+    entry.behavior += delta;
+    if (delta < 0) this.checkBan(peerId, reason);
+  }
+  recordInvalidMessage(peerId: string, reason: string): void {
+    this.touch(peerId).invalidMessages++;
+    this.adjust(peerId, -this.config.invalidMessagePenalty, `Invalid message: ${reason}`);
+  }
+  recordError(peerId: string, reason: string): void {
+    this.adjust(peerId, -this.config.errorPenalty, reason);
+  }
+  recordLatency(peerId: string, responseTime: number): void {
+    const entry = this.touch(peerId);
+    entry.latency = entry.latency === 0 ? responseTime : entry.latency + (responseTime - entry.latency) * LATENCY_SMOOTHING;
+  }
+  recordUsefulBlocks(peerId: string, count: number): void {
+    if (count <= 0) return;
+    const entry = this.touch(peerId);
+    entry.usefulBlocks += count;
+    entry.blocks = Math.min(entry.blocks + count * this.config.usefulBlockReward, this.config.maxBlockBonus);
+  }
+  /**
+   * Penalize a medium or high threat; a critical threat bans the peer at once
+   */
+  recordThreat(peerId: string, assessment: ThreatAssessment): void {
+    const reason = `Byzantine ${assessment.threatLevel}: ${assessment.reasons.join(', ') || 'no details'}`;
+    if (assessment.threatLevel === 'critical') {
+      this.touch(peerId);
+      this.ban(peerId, reason);
+      return;
+    }
+    if (assessment.threatLevel !== 'medium' && assessment.threatLevel !== 'high') return;
+    this.touch(peerId).byzantine -= this.config.byzantinePenalty[assessment.threatLevel];
+    this.checkBan(peerId, reason);
+  }
+  peerConnected(peerId: string): void {
+    const entry = this.touch(peerId);
+    if (entry.connectedSince === null) entry.connectedSince = Date.now();
+  }
+  peerDisconnected(peerId: string): void {
+    const entry = this.entries.get(peerId);
+    if (!entry || entry.connectedSince === null) return;
+    this.decay(entry, Date.now());
+    entry.connectedSince = null;
+    this.dirty.add(peerId);
+  }
+  // Bans
+  ban(peerId: string, reason: string): void {
+    const entry = this.touch(peerId);
+    const duration = Math.min(this.config.banDuration * Math.pow(2, entry.banCount), this.config.maxBanDuration);
+    entry.bannedUntil = Date.now() + duration;
+    entry.banCount++;
+    entry.banReason = reason;
+    console.log(`🚫 Banned peer ${peerId.substring(0, 12)}... for ${Math.round(duration / 60000)} min (ban #${entry.banCount}): ${reason}`);
+    this.emit('peerBanned', { peerId, reason, bannedUntil: entry.bannedUntil, banCount: entry.banCount });
+  }
+  isBanned(peerId: string): boolean {
+    const entry = this.entries.get(peerId);
+    return !!entry && entry.bannedUntil > Date.now();
+  }
+  // Status
+  hasPeer(peerId: string): boolean {
+    return this.entries.has(peerId);
+  }
+  getScore(peerId: string): number {
+    const entry = this.entries.get(peerId);
+    if (!entry) return NEUTRAL_SCORE;
+    this.decay(entry, Date.now());
+    return PeerScoring.computeScore(entry, this.config);
+  }
+  getPeerScore(peerId: string): PeerScore | null {
+    const entry = this.entries.get(peerId);
+    if (!entry) return null;
+    this.decay(entry, Date.now());
+    const { connectedSince, ...fields } = entry;
+    return { ...fields, score: PeerScoring.computeScore(entry, this.config) };
+  }
+  /**
+   * Every scored peer, highest score first
+   */
+  getScores(): PeerScore[] {
+    return Array.from(this.entries.keys())
+      .map(peerId => this.getPeerScore(peerId)!)
+      .sort((a, b) => b.score - a.score);
+  }
+  getBanned(): PeerScore[] {
+    const now = Date.now();
+    return this.getScores().filter(peer => peer.bannedUntil > now);
+  }
+  /**
+   * Write scores changed since the last flush; connected peers are included for their uptime
+   */
+  async flush(): Promise<void> {
+    if (!this.storage) {
+      this.dirty.clear();
+      this.forgotten.clear();
+      return;
+    }
+    const forgotten = Array.from(this.forgotten);
+    this.forgotten.clear();
+    for (const peerId of forgotten) {
+      await this.storage.deletePeerReputation(peerId);
+    }
+    for (const [peerId, entry] of this.entries) {
+      if (entry.connectedSince !== null) this.dirty.add(peerId);
+    }
+    const peerIds = Array.from(this.dirty);
+    this.dirty.clear();
+    for (const peerId of peerIds) {
+      const peer = this.getPeerScore(peerId);
+      if (!peer) continue;
+      const { peerId: _peerId, score, ...metadata } = peer;
+      await this.storage.storePeerReputation(peerId, score, metadata);
+    }
+  }
+  /**
+   * Read a persisted score, decayed to now. Rows written before scoring was unified carry
+   * only a reputation, which is kept as a behavior adjustment.
+   */
+  static fromRecord(
+    record: { peerId: string; reputation: number; metadata: any; lastUpdated: number },
+    config: PeerScoringConfig = CONFIG.network.peerScoring
+  ): PeerScore {
+    const metadata = record.metadata && typeof record.metadata === 'object' ? record.metadata : {};
+    const entry: PeerScoreEntry = {
+      peerId: record.peerId,
+      behavior: typeof metadata.behavior === 'number' ? metadata.behavior : record.reputation - NEUTRAL_SCORE,
+      blocks: metadata.blocks || 0,
+      byzantine: metadata.byzantine || 0,
+      latency: metadata.latency || 0,
+      connectedTime: metadata.connectedTime || 0,
+      invalidMessages: metadata.invalidMessages || 0,
+      usefulBlocks: metadata.usefulBlocks || 0,
+      bannedUntil: metadata.bannedUntil || 0,
+      banCount: metadata.banCount || 0,
+      banReason: metadata.banReason || null,
+      lastSeen: metadata.lastSeen || record.lastUpdated,
+      decayedAt: metadata.decayedAt || record.lastUpdated,
+      connectedSince: null
+    };
+    PeerScoring.decayEntry(entry, Date.now(), config.decayHalfLife);
+    const { connectedSince, ...fields } = entry;
+    return { ...fields, score: PeerScoring.computeScore(entry, config) };
+  }
+  private static computeScore(entry: PeerScoreEntry, config: PeerScoringConfig): number {
+    let latencyTerm = 0;
+    if (entry.latency > 0) {
+      const slowness = Math.min(entry.latency / config.slowResponseTime, 1);
+      latencyTerm = config.maxLatencyAdjustment * (1 - 2 * slowness);
+    }
+    const uptimeTerm = config.maxUptimeBonus * Math.min(entry.connectedTime / config.uptimeTarget, 1);
+    const score = NEUTRAL_SCORE + entry.behavior + entry.blocks + entry.byzantine + latencyTerm + uptimeTerm;
+    return Math.round(Math.max(0, Math.min(100, score)) * 100) / 100;
+  }
+  private static decayEntry(entry: PeerScoreEntry, now: number, halfLife: number): void {
+    if (entry.connectedSince !== null) {
+      entry.connectedTime += now - entry.connectedSince;
+      entry.connectedSince = now;
+    }
+    const elapsed = now - entry.decayedAt;
+    if (elapsed <= 0) return;
+    const factor = Math.pow(0.5, elapsed / halfLife);
+    entry.behavior *= factor;
+    entry.blocks *= factor;
+    entry.byzantine *= factor;
+    entry.connectedTime *= factor;
+    entry.decayedAt = now;
+  }
+  private decay(entry: PeerScoreEntry, now: number): void {
+    PeerScoring.decayEntry(entry, now, this.config.decayHalfLife);
+  }
+  private touch(peerId: string): PeerScoreEntry {
+    const now = Date.now();
+    let entry = this.entries.get(peerId);
+    if (!entry) {
+      if (this.entries.size >= this.config.maxPeers) this.forget(1);
+      entry = {
+        peerId,
+        behavior: 0,
+        blocks: 0,
+        byzantine: 0,
+        latency: 0,
+        connectedTime: 0,
+        invalidMessages: 0,
+        usefulBlocks: 0,
+        bannedUntil: 0,
+        banCount: 0,
+        banReason: null,
+        lastSeen: now,
+        decayedAt: now,
+        connectedSince: null
+      };
+      this.entries.set(peerId, entry);
+      this.forgotten.delete(peerId);
+    }
+    this.decay(entry, now);
+    entry.lastSeen = now;
+    this.dirty.add(peerId);
+    return entry;
+  }
+  /**
+   * Drop neutral peers unseen for forgetAfter, then the longest unseen disconnected peers, neutral
+   * ones first, until at most maxPeers - room remain
+   */
+  private forget(room = 0): void {
+    const now = Date.now();
+    const candidates = Array.from(this.entries.values())
+      .filter(entry => entry.connectedSince === null && entry.bannedUntil <= now)
+      .map(entry => ({ entry, neutral: Math.abs(this.getScore(entry.peerId) - NEUTRAL_SCORE) < NEUTRAL_TOLERANCE }))
+      .sort((a, b) => Number(b.neutral) - Number(a.neutral) || a.entry.lastSeen - b.entry.lastSeen);
+    for (const { entry, neutral } of candidates) {
+      const stale = neutral && now - entry.lastSeen >= this.config.forgetAfter;
+      if (!stale && this.entries.size <= this.config.maxPeers - room) continue;
+      this.entries.delete(entry.peerId);
+      this.dirty.delete(entry.peerId);
+      this.forgotten.add(entry.peerId);
+    }
+  }
+  private checkBan(peerId: string, reason: string): void {
+    const score = this.getScore(peerId);
+    if (score < this.config.banThreshold && !this.isBanned(peerId)) {
+      this.ban(peerId, `Score ${score} after ${reason}`);
+    }
+  }
+  private expireBans(): void {
+    const now = Date.now();
+    for (const [peerId, entry] of this.entries) {
+      if (entry.banReason && entry.bannedUntil <= now) {
+        entry.banReason = null;
+        this.dirty.add(peerId);
+        console.log(`Peer ${peerId.substring(0, 12)}... ban expired (score ${this.getScore(peerId)})`);
+        this.emit('peerUnbanned', { peerId, score: this.getScore(peerId) });
+      }
+    }
+  }
+}
@@ -7,7 +7,11 @@ import { EmotionalValidator } from '../crypto/EmotionalValidator';
 import { Block } from '../crypto/Block';
 import { Transaction } from '../crypto/Transaction';
 import * as crypto from 'crypto';
+import { CONFIG } from '../shared/config';
+import { governanceParameters } from '../shared/governance/parameters';
+import { stakingLedger, StakingError } from '../server/services/staking';
 
+// View over the staking ledger position of a validator
 export interface ValidatorStake {
   validatorId: string;
   stakedAmount: number;
@@ -38,7 +42,7 @@ export interface SlashingEvent {
 }
 
 export interface EconomicParameters {
-  minimumStake: number;           // 1000 EMO minimum
+  minimumStake: number;           // Own stake for an active validator
   maximumStake: number;           // 100000 EMO maximum  
   blockReward: number;            // 10 EMO base reward
   consensusReward: number;        // 5 EMO for consensus participation
@@ -59,31 +63,28 @@ export interface EconomicParameters {
 
 /**
  * Production-grade validator economics with proper incentive alignment
+ * Stakes and slashing live in the persisted staking ledger; reward breakdowns here are telemetry
  */
 export class ValidatorEconomics {
-  private stakes: Map<string, ValidatorStake>;
   private rewards: Map<string, ValidatorRewards>;
   private slashingHistory: SlashingEvent[];
   private economicParams: EconomicParameters;
   
   // Economics tracking
-  private totalStaked: number;
   private totalRewardsDistributed: number;
   private totalSlashed: number;
   private currentBlock: number;
 
   constructor() {
-    this.stakes = new Map();
     this.rewards = new Map();
     this.slashingHistory = [];
-    this.totalStaked = 0;
     this.totalRewardsDistributed = 0;
     this.totalSlashed = 0;
     this.currentBlock = 0;
     
     // Production-ready economic parameters
     this.economicParams = {
-      minimumStake: 1000,      // 1000 EMO minimum stake
+      minimumStake: CONFIG.consensus.staking.minimumSelfStake,
       maximumStake: 100000,    // 100k EMO maximum stake
       blockReward: 10,         // 10 EMO per block
       consensusReward: 5,      // 5 EMO for consensus participation
@@ -93,7 +94,7 @@ export class ValidatorEconomics {
         byzantine: 0.20,       // 20% for Byzantine behavior
         offline: 0.05,         // 5% for being offline
         emotionalFraud: 0.15,  // 15% for emotional score fraud
-        doubleVote: 0.10       // 10% for double voting
+        doubleVote: CONFIG.consensus.doubleSignSlashRate
       },
       lockupPeriods: {
         minimum: 7 * 24 * 30,   // 7 days (30 blocks per hour)
@@ -106,13 +107,9 @@ export class ValidatorEconomics {
   }
 
   /**
-   * Stake tokens to become a validator
+   * Confirm a validator's own bond, committed on chain by a signed stake transaction
    */
-  async stakeTokens(
-    validatorId: string, 
-    amount: number, 
-    lockupPeriod?: number
-  ): Promise<boolean> {
+  async stakeTokens(validatorId: string, amount: number): Promise<boolean> {
     if (amount < this.economicParams.minimumStake) {
       console.error(`❌ Stake amount ${amount} below minimum ${this.economicParams.minimumStake}`);
       return false;
@@ -123,44 +120,15 @@ export class ValidatorEconomics {
       return false;
     }
 
-    const existingStake = this.stakes.get(validatorId);
-    const finalLockup = lockupPeriod || this.economicParams.lockupPeriods.minimum;
-
-    if (existingStake) {
-      // Add to existing stake
-      existingStake.stakedAmount += amount;
-      existingStake.selfStake += amount;
-      existingStake.lockupPeriod = Math.max(existingStake.lockupPeriod, finalLockup);
-      console.log(`💰 Added ${amount} EMO to ${validatorId} stake (Total: ${existingStake.stakedAmount})`);
-    } else {
-      // Create new stake
-      const stake: ValidatorStake = {
-        validatorId,
-        stakedAmount: amount,
-        stakingTimestamp: Date.now(),
-        lockupPeriod: finalLockup,
-        isActive: true,
-        delegatedStake: 0,
-        selfStake: amount
-      };
-
-      this.stakes.set(validatorId, stake);
-      
-      // Initialize rewards tracking
-      this.rewards.set(validatorId, {
-        validatorId,
-        blockRewards: 0,
-        consensusRewards: 0,
-        emotionalBonus: 0,
-        delegationFees: 0,
-        totalEarned: 0,
-        lastRewardBlock: this.currentBlock
-      });
-
-      console.log(`✅ Validator ${validatorId} staked ${amount} EMO with ${finalLockup} block lockup`);
+    await stakingLedger.ready();
+    const bonded = stakingLedger.getPosition(validatorId, validatorId)?.amount ?? 0;
+    if (bonded < amount) {
+      console.error(`❌ Validator ${validatorId} has ${bonded} EMO bonded on chain, expected ${amount}. ${StakingError.onChain('stake').message}`);
+      return false;
     }
 
-    this.totalStaked += amount;
+    this.ensureRewardTracking(validatorId);
+    console.log(`✅ Validator ${validatorId} has ${bonded} EMO bonded on chain`);
     return true;
   }
 
@@ -172,33 +140,8 @@ export class ValidatorEconomics {
     validatorId: string, 
     amount: number
   ): Promise<boolean> {
-    const validatorStake = this.stakes.get(validatorId);
-    
-    if (!validatorStake) {
-      console.error(`❌ Validator ${validatorId} not found for delegation`);
-      return false;
-    }
-
-    if (!validatorStake.isActive) {
-      console.error(`❌ Validator ${validatorId} is not active`);
-      return false;
-    }
-
-    // Check if delegation would exceed maximum stake
-    if (validatorStake.stakedAmount + amount > this.economicParams.maximumStake) {
-      console.error(`❌ Delegation would exceed maximum stake limit`);
-      return false;
-    }
-
-    // Add delegated stake
-    validatorStake.delegatedStake += amount;
-    validatorStake.stakedAmount += amount;
-
-    this.totalStaked += amount;
-    
-    console.log(`🤝 ${delegatorId} delegated ${amount} EMO to ${validatorId} (Total: ${validatorStake.stakedAmount})`);
-    
-    return true;
+    console.error(`❌ Delegation to ${validatorId} rejected: ${StakingError.onChain('delegate').message}`);
+    return false;
   }
 
   /**
@@ -228,8 +171,8 @@ export class ValidatorEconomics {
    * Distribute block proposer reward
    */
   private async distributeBlockProposerReward(validatorId: string, block: Block): Promise<void> {
-    const stake = this.stakes.get(validatorId);
-    const rewards = this.rewards.get(validatorId);
+    const stake = this.getStake(validatorId);
+    const rewards = stake && this.ensureRewardTracking(validatorId);
     
     if (!stake || !rewards) {
       console.error(`❌ No stake/rewards found for validator ${validatorId}`);
@@ -248,6 +191,7 @@ export class ValidatorEconomics {
     rewards.lastRewardBlock = block.index;
     
     this.totalRewardsDistributed += blockReward;
+    await this.accrue(validatorId, blockReward);
     
     console.log(`🏆 Block proposer reward: ${blockReward.toFixed(2)} EMO to ${validatorId}`);
   }
@@ -256,8 +200,8 @@ export class ValidatorEconomics {
    * Distribute consensus participation rewards
    */
   private async distributeConsensusReward(validatorId: string, block: Block): Promise<void> {
-    const stake = this.stakes.get(validatorId);
-    const rewards = this.rewards.get(validatorId);
+    const stake = this.getStake(validatorId);
+    const rewards = stake && this.ensureRewardTracking(validatorId);
     
     if (!stake || !rewards) return;
 
@@ -268,6 +212,7 @@ export class ValidatorEconomics {
     rewards.lastRewardBlock = block.index;
     
     this.totalRewardsDistributed += consensusReward;
+    await this.accrue(validatorId, consensusReward);
     
     console.log(`🗳️ Consensus reward: ${consensusReward} EMO to ${validatorId}`);
   }
@@ -277,7 +222,7 @@ export class ValidatorEconomics {
    */
   private async distributeEmotionalBonuses(participants: string[], block: Block): Promise<void> {
     // This would need access to validator emotional scores
-    // For now, simulate based on block data
+    // For now, simulate based on block data; simulated bonuses are not credited to the ledger
     
     for (const validatorId of participants) {
       const rewards = this.rewards.get(validatorId);
@@ -308,24 +253,23 @@ export class ValidatorEconomics {
     slashingType: SlashingEvent['slashingType'], 
     evidence: string
   ): Promise<number> {
-    const stake = this.stakes.get(validatorId);
-    
-    if (!stake) {
+    if (!stakingLedger.getValidator(validatorId)) {
       console.error(`❌ Cannot slash validator ${validatorId} - no stake found`);
       return 0;
     }
 
-    const slashingRate = this.economicParams.slashingRates[slashingType.toLowerCase() as keyof typeof this.economicParams.slashingRates];
-    const slashedAmount = Math.min(stake.stakedAmount * slashingRate, stake.stakedAmount);
-    
-    // Execute slashing
-    stake.stakedAmount -= slashedAmount;
-    this.totalStaked -= slashedAmount;
+    const rateKey = ValidatorEconomics.SLASHING_RATE_KEYS[slashingType];
+    // The double-sign rate follows the on-chain governed value so both slashing paths agree
+    const slashingRate = rateKey === 'doubleVote'
+      ? governanceParameters.get('consensus.doubleSignSlashRate')
+      : this.economicParams.slashingRates[rateKey];
+    // Stake itself is only slashed on chain by double-sign evidence; this forfeits rewards
+    const record = await stakingLedger.penalize(validatorId, slashingType, slashingRate, evidence, this.currentBlock);
+    const slashedAmount = record.amount;
     this.totalSlashed += slashedAmount;
     
-    // Deactivate validator if stake falls below minimum
-    if (stake.stakedAmount < this.economicParams.minimumStake) {
-      stake.isActive = false;
+    // Validators below the minimum self stake are inactive in the ledger
+    if (!stakingLedger.getValidator(validatorId)?.isActive) {
       console.log(`❌ Validator ${validatorId} deactivated due to insufficient stake`);
     }
     
@@ -335,7 +279,7 @@ export class ValidatorEconomics {
       slashingType,
       slashedAmount,
       blockNumber: this.currentBlock,
-      timestamp: Date.now(),
+      timestamp: record.timestamp,
       evidence
     };
     
@@ -350,7 +294,7 @@ export class ValidatorEconomics {
    * Calculate APR for staking
    */
   calculateStakingAPR(validatorId: string): number {
-    const stake = this.stakes.get(validatorId);
+    const stake = this.getStake(validatorId);
     const rewards = this.rewards.get(validatorId);
     
     if (!stake || !rewards) return 0;
@@ -358,7 +302,7 @@ export class ValidatorEconomics {
     // Calculate time-weighted APR
     const stakingDays = (Date.now() - stake.stakingTimestamp) / (1000 * 60 * 60 * 24);
     
-    if (stakingDays < 1) return 0; // Need at least 1 day of data
+    if (stakingDays < 1 || stake.selfStake <= 0) return 0; // Need at least 1 day of data
     
     const dailyReturn = rewards.totalEarned / stakingDays / stake.selfStake;
     const apr = dailyReturn * 365;
@@ -370,7 +314,7 @@ export class ValidatorEconomics {
    * Get validator economic status
    */
   getValidatorEconomics(validatorId: string): any {
-    const stake = this.stakes.get(validatorId);
+    const stake = this.getStake(validatorId);
     const rewards = this.rewards.get(validatorId);
     
     if (!stake || !rewards) {
@@ -394,18 +338,19 @@ export class ValidatorEconomics {
    * Get network economic statistics
    */
   getNetworkEconomics(): any {
-    const activeValidators = Array.from(this.stakes.values()).filter(s => s.isActive).length;
-    const totalActiveStake = Array.from(this.stakes.values())
+    const totals = stakingLedger.getTotals();
+    const activeValidators = totals.activeValidators;
+    const totalActiveStake = stakingLedger.getValidators()
       .filter(s => s.isActive)
-      .reduce((sum, s) => sum + s.stakedAmount, 0);
+      .reduce((sum, s) => sum + s.totalStake, 0);
     
     const averageStake = activeValidators > 0 ? totalActiveStake / activeValidators : 0;
-    const stakingRatio = this.totalStaked / 768667.74; // Total EMO supply
+    const stakingRatio = totals.totalStaked / 768667.74; // Total EMO supply
     
     return {
-      totalValidators: this.stakes.size,
+      totalValidators: totals.validators,
       activeValidators,
-      totalStaked: this.totalStaked.toFixed(2),
+      totalStaked: totals.totalStaked.toFixed(2),
       totalRewardsDistributed: this.totalRewardsDistributed.toFixed(2),
       totalSlashed: this.totalSlashed.toFixed(2),
       averageStake: averageStake.toFixed(2),
@@ -420,7 +365,7 @@ export class ValidatorEconomics {
    * Calculate economic security of the network
    */
   private calculateEconomicSecurity(): string {
-    const totalStakeValue = this.totalStaked;
+    const totalStakeValue = stakingLedger.getTotals().totalStaked;
     
     // Cost to attack (need 1/3 + 1 of total stake for Byzantine attack)
     const attackCost = (totalStakeValue / 3) + 1;
@@ -435,59 +380,82 @@ export class ValidatorEconomics {
   }
 
   /**
-   * Unstake tokens (with lockup period validation)
+   * Unstake tokens
    */
   async unstakeTokens(validatorId: string, amount?: number): Promise<boolean> {
-    const stake = this.stakes.get(validatorId);
-    
-    if (!stake) {
-      console.error(`❌ No stake found for validator ${validatorId}`);
-      return false;
-    }
-
-    // Check lockup period
-    const blocksSinceStaking = this.currentBlock - (stake.stakingTimestamp / 1000 / 60 * 30); // Convert to blocks
-    if (blocksSinceStaking < stake.lockupPeriod) {
-      console.error(`❌ Lockup period not met (${blocksSinceStaking}/${stake.lockupPeriod} blocks)`);
-      return false;
-    }
-
-    const unstakeAmount = amount || stake.selfStake;
-    
-    if (unstakeAmount > stake.selfStake) {
-      console.error(`❌ Cannot unstake more than self-stake (${unstakeAmount} > ${stake.selfStake})`);
-      return false;
-    }
-
-    // Execute unstaking
-    stake.stakedAmount -= unstakeAmount;
-    stake.selfStake -= unstakeAmount;
-    this.totalStaked -= unstakeAmount;
-    
-    // Deactivate if below minimum
-    if (stake.stakedAmount < this.economicParams.minimumStake) {
-      stake.isActive = false;
-    }
-    
-    console.log(`💸 Unstaked ${unstakeAmount} EMO from ${validatorId}`);
-    
-    return true;
+    console.error(`❌ Unstaking for ${validatorId} rejected: ${StakingError.onChain('unstake').message}`);
+    return false;
   }
 
   /**
    * Get top validators by stake
    */
   getTopValidators(limit: number = 10): any[] {
-    return Array.from(this.stakes.entries())
-      .filter(([_, stake]) => stake.isActive)
-      .sort(([_, a], [__, b]) => b.stakedAmount - a.stakedAmount)
+    return stakingLedger.getValidators()
+      .filter(stake => stake.isActive)
+      .sort((a, b) => b.totalStake - a.totalStake)
       .slice(0, limit)
-      .map(([validatorId, stake]) => ({
-        validatorId,
-        stakedAmount: stake.stakedAmount,
+      .map(stake => ({
+        validatorId: stake.validatorAddress,
+        stakedAmount: stake.totalStake,
         delegatedStake: stake.delegatedStake,
         selfStake: stake.selfStake,
-        apr: this.calculateStakingAPR(validatorId)
+        apr: this.calculateStakingAPR(stake.validatorAddress)
       }));
   }
-}
\ No newline at end of file
+
+  /**
+   * Ledger-backed stake view for a validator
+   */
+  getStake(validatorId: string): ValidatorStake | null {
+    const summary = stakingLedger.getValidator(validatorId);
+    const own = stakingLedger.getPosition(validatorId, validatorId);
+    if (!summary || !own) return null;
+    return {
+      validatorId,
+      stakedAmount: summary.totalStake,
+      stakingTimestamp: own.stakeTimestamp,
+      lockupPeriod: Math.max(0, Math.ceil((own.lockedUntil - own.stakeTimestamp) / (1000 * 60 * 2))), // 30 blocks per hour
+      isActive: summary.isActive,
+      delegatedStake: summary.delegatedStake,
+      selfStake: summary.selfStake
+    };
+  }
+
+  private ensureRewardTracking(validatorId: string): ValidatorRewards {
+    let rewards = this.rewards.get(validatorId);
+    if (!rewards) {
+      rewards = {
+        validatorId,
+        blockRewards: 0,
+        consensusRewards: 0,
+        emotionalBonus: 0,
+        delegationFees: 0,
+        totalEarned: 0,
+        lastRewardBlock: this.currentBlock
+      };
+      this.rewards.set(validatorId, rewards);
+    }
+    return rewards;
+  }
+
+  /**
+   * Credit a reward to the ledger, which splits it between the validator and its delegators
+   */
+  private async accrue(validatorId: string, amount: number): Promise<void> {
+    try {
+      const accrual = await stakingLedger.accrueRewards(validatorId, amount);
+      this.ensureRewardTracking(validatorId).delegationFees += accrual.commission;
+    } catch (error) {
+      if (!(error instanceof StakingError)) throw error;
+      console.error(`❌ Reward accrual failed for ${validatorId}: ${error.message}`);
+    }
+  }
+
+  private static readonly SLASHING_RATE_KEYS: Record<SlashingEvent['slashingType'], keyof EconomicParameters['slashingRates']> = {
+    BYZANTINE: 'byzantine',
+    OFFLINE: 'offline',
+    EMOTIONAL_FRAUD: 'emotionalFraud',
+    DOUBLE_VOTE: 'doubleVote'
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Run the storage conformance suite against the in-process backends, each test case on a
+ * fresh store. Exits non-zero when any backend fails a case.
+ *
+ *   npm run check:storage           # every backend
+ *   npm run check:storage leveldb   # backends whose name contains "leveldb"
+ *
+ * LevelDB stores are created under the OS temp directory and removed afterwards.
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EmotionalChainTester } from '../sdk/TestingFramework';
+import { createStorageConformanceSuite, type StorageFactory } from '../storage/StorageConformance';
+import { MemoryBlockchainStorage } from '../storage/MemoryStorage';
+import { LevelDBBlockchainStorage } from '../storage/LevelDBBlockchainStorage';
+
+const levelDirectories: string[] = [];
+const levelStores: LevelDBBlockchainStorage[] = [];
+
+const backends: Array<[string, StorageFactory]> = [
+  ['memory', async () => new MemoryBlockchainStorage()],
+  ['leveldb', async () => {
+    const dataPath = fs.mkdtempSync(path.join(os.tmpdir(), 'emotionalchain-conformance-'));
+    const storage = new LevelDBBlockchainStorage({ dataPath });
+    levelDirectories.push(dataPath);
+    levelStores.push(storage);
+    return storage;
+  }]
+];
+
+async function main(): Promise<void> {
+  const filter = process.argv[2];
+  const selected = backends.filter(([name]) => !filter || name.includes(filter));
+  if (selected.length === 0) {
+    console.error(`No backend matches "${filter}"`);
+    process.exit(1);
+  }
+
+  const tester = new EmotionalChainTester({ logLevel: 'error' });
+  let failed = 0;
+  try {
+    for (const [name, createStorage] of selected) {
+      const results = await tester.runTestSuite(createStorageConformanceSuite(name, createStorage));
+      const failures = [...results].filter(([, result]) => !result.passed);
+      console.log(`${failures.length === 0 ? '✅' : '❌'} ${name}: ${results.size - failures.length}/${results.size} cases passed`);
+      for (const [testName, result] of failures) {
+        console.log(`   ${testName}: ${result.error?.message ?? 'failed'}`);
+      }
+      if (failures.length > 0) failed++;
+    }
+  } finally {
+    await Promise.all(levelStores.map(storage => storage.close().catch(() => undefined)));
+    for (const directory of levelDirectories) {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  }
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
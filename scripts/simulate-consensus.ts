@@ -0,0 +1,67 @@
+/**
+ * Run the consensus simulator over a few standard scenarios and print their outcome
+ * Exits non-zero when a scenario breaks safety, or liveness where it is expected.
+ *
+ *   npm run simulate            # every scenario
+ *   npm run simulate partition  # scenarios whose name contains "partition"
+ */
+import { ConsensusSimulator, type SimulationScenario } from '../sdk/ConsensusSimulator';
+
+const scenarios: SimulationScenario[] = [
+  { name: 'baseline', seed: 42, validators: 4, heights: 3 },
+  {
+    name: 'lossy network',
+    seed: 7,
+    validators: 5,
+    heights: 4,
+    network: { dropRate: 0.05, reorderRate: 0.2, duplicateRate: 0.05 }
+  },
+  {
+    name: 'partition and heal',
+    seed: 42,
+    validators: 5,
+    heights: 4,
+    events: [
+      { at: 3000, partition: [['validator-1', 'validator-2', 'validator-3'], ['validator-4', 'validator-5']] },
+      { at: 7000, heal: true }
+    ]
+  },
+  {
+    name: 'one equivocating validator',
+    seed: 11,
+    validators: [{ id: 'A' }, { id: 'B' }, { id: 'C' }, { id: 'D', behaviour: { type: 'equivocate' } }],
+    heights: 3
+  }
+];
+
+async function main(): Promise<void> {
+  const filter = process.argv[2];
+  const selected = scenarios.filter(scenario => !filter || scenario.name!.includes(filter));
+  if (selected.length === 0) {
+    console.error(`No scenario matches "${filter}"`);
+    process.exit(1);
+  }
+
+  let failed = 0;
+  for (const scenario of selected) {
+    const report = await new ConsensusSimulator(scenario).run();
+    const committed = report.rounds.filter(round => round.committed).length;
+    const violations = [...report.safety.violations, ...(scenario.expectLiveness === false ? [] : report.liveness.violations)];
+    console.log(`${violations.length === 0 ? '✅' : '❌'} ${report.name} (seed ${report.seed}): ` +
+      `${committed}/${report.rounds.length} rounds committed in ${report.virtualDuration}ms virtual time, ` +
+      `${report.equivocations.length} equivocation(s) caught`);
+    for (const round of report.rounds.filter(round => !round.committed)) {
+      console.log(`   height ${round.height} via ${round.coordinator}: ${round.reason}`);
+    }
+    for (const violation of violations) {
+      console.log(`   violation: ${violation}`);
+    }
+    if (violations.length > 0) failed++;
+  }
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error('Simulation failed:', error);
+  process.exit(1);
+});
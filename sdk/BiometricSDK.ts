@@ -1,4 +1,5 @@
 import { EventEmitter } from 'eventemitter3';
+import { createHash } from 'crypto';
 import { AxiosInstance } from 'axios';
 import { ProductionCrypto } from '../crypto/ProductionCrypto';
 import { BiometricCrypto } from '../crypto/BiometricCrypto';
@@ -1,5 +1,6 @@
 import { EventEmitter } from 'eventemitter3';
 import { AxiosInstance } from 'axios';
+import { RandomnessBeacon, CommitteeSelectionProof } from '../consensus/RandomnessBeacon';
 /**
  * ConsensusSDK - Real-time consensus monitoring and participation
  * 
@@ -62,6 +63,9 @@ export interface EmotionalCommittee {
   emotionalRequirement: number;
   formation: 'random' | 'reputation' | 'emotional' | 'hybrid';
   diversity: number;
+  seed?: string; // Randomness beacon seed the committee was drawn from
+  beaconRound?: number;
+  selectionProof?: CommitteeSelectionProof;
 }
 export interface ForkInfo {
   detected: boolean;
@@ -149,12 +153,28 @@ export class ConsensusSDK extends EventEmitter {
     return response.data;
   }
   // Emotional consensus
-  async getEmotionalCommittee(roundId?: string): Promise<EmotionalCommittee> {
+  async getEmotionalCommittee(roundId?: string, options: { verify?: boolean } = {}): Promise<EmotionalCommittee> {
     const url = roundId 
       ? `/api/v1/consensus/committee/${roundId}`
       : '/api/v1/consensus/committee/current';
     const response = await this.httpClient.get(url);
-    return response.data;
+    const committee: EmotionalCommittee = response.data;
+    if (options.verify && !this.verifyEmotionalCommittee(committee)) {
+      throw new Error(`Committee for round ${committee.roundId} does not match its beacon selection proof`);
+    }
+    return committee;
+  }
+  /**
+   * Replay a committee's selection from its beacon seed and check it picked the reported members
+   */
+  verifyEmotionalCommittee(committee: EmotionalCommittee): boolean {
+    const proof = committee.selectionProof;
+    if (!proof || proof.seed !== committee.seed || proof.round !== committee.beaconRound) {
+      return false;
+    }
+    return RandomnessBeacon.verifySelection(proof) &&
+      proof.selected.length === committee.members.length &&
+      proof.selected.every((id, i) => id === committee.members[i]);
   }
   async getEmotionalTrends(timeFrame = '24h'): Promise<{
     average: number;
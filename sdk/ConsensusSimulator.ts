@@ -0,0 +1,931 @@
+import { performance } from 'perf_hooks';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { ConsensusRound, RoundConfig, VotingResult } from '../consensus/ConsensusRound';
+import { ViewChange, PreparedCertificate } from '../consensus/ViewChange';
+import { EvidencePool, EquivocationEvidence } from '../consensus/EquivocationEvidence';
+import { ForkResolution } from '../consensus/ForkResolution';
+import type { EmotionalValidator } from '../consensus/EmotionalValidator';
+import type { EmotionalCommittee } from '../consensus/EmotionalCommittee';
+import type { P2PNode } from '../network/P2PNode';
+import { ProductionCrypto } from '../crypto/ProductionCrypto';
+import { BlockCrypto } from '../crypto/BlockCrypto';
+import { QuorumCertificates, QuorumCertificate, SignerKey } from '../crypto/QuorumCertificate';
+/**
+ * Deterministic consensus simulation
+ * Runs the real ConsensusRound, quorum certificates and ForkResolution for a set of
+ * in-process validators on a virtual clock, over a simulated network with seeded
+ * latency, drops, reordering and partitions. Validators can be scripted to behave
+ * Byzantine, and every run ends with safety and liveness checks. The same seed
+ * always replays the same run.
+ *
+ * @example
+ * ```typescript
+ * const report = await new ConsensusSimulator({
+ *   seed: 7,
+ *   validators: [{ id: 'A' }, { id: 'B' }, { id: 'C' }, { id: 'D', behaviour: { type: 'equivocate' } }],
+ *   heights: 5,
+ *   network: { dropRate: 0.05 },
+ *   events: [{ at: 3000, partition: [['A', 'B'], ['C', 'D']] }, { at: 9000, heal: true }]
+ * }).run();
+ * console.log(report.safety.holds, report.liveness.holds);
+ * ```
+ */
+export interface NetworkConditions {
+  minLatency: number; // ms
+  maxLatency: number;
+  dropRate: number; // 0-1, share of messages lost
+  reorderRate: number; // 0-1, share of messages held back long enough to overtake later ones
+  duplicateRate: number; // 0-1, share of messages delivered twice
+}
+export interface NetworkStats {
+  sent: number;
+  delivered: number;
+  dropped: number;
+  partitioned: number; // Lost to a partition, at send or delivery time
+  reordered: number;
+  duplicated: number;
+}
+export type ByzantineBehaviour =
+  | { type: 'equivocate' } // Signs an approval for a conflicting block next to every real vote
+  | { type: 'withhold'; votes?: boolean; proposals?: boolean } // Stays silent; both by default
+  | { type: 'fake-biometrics'; score: number }; // Claims a fabricated emotional score in its votes
+export interface SimulatedValidatorSpec {
+  id: string;
+  emotionalScore?: number; // Measured score an honest vote reports; 90 by default
+  behaviour?: ByzantineBehaviour;
+}
+// Network change applied at a virtual time (ms since the start of the run)
+export interface SimulationEvent {
+  at: number;
+  partition?: string[][]; // Validators in different groups cannot reach each other; unlisted ones form one more group
+  heal?: boolean;
+  conditions?: Partial<NetworkConditions>;
+}
+export interface SimulationScenario {
+  name?: string;
+  seed?: number;
+  validators: number | SimulatedValidatorSpec[];
+  heights: number; // Blocks to commit on top of genesis
+  network?: Partial<NetworkConditions>;
+  round?: Partial<RoundConfig>;
+  events?: SimulationEvent[];
+  expectLiveness?: boolean; // false when the scenario exceeds the fault tolerance on purpose
+  maxDuration?: number; // Virtual ms budget for the whole run
+  syncGrace?: number; // Virtual ms lagging nodes get to catch up after the last round
+}
+export interface SimulatedBlock {
+  height: number;
+  hash: string;
+  previousHash: string;
+  timestamp: number;
+  validatorId: string;
+  emotionalScore: number;
+  transactions: any[];
+  consensusMetadata?: { quorumCertificate: QuorumCertificate; consensusStrength: number };
+}
+export interface RoundOutcome {
+  height: number;
+  coordinator: string;
+  committed: boolean;
+  blockHash?: string;
+  view: number;
+  signers: string[]; // Validators in the quorum certificate
+  startedAt: number; // Virtual ms since the start of the run
+  finishedAt: number;
+  reason?: string;
+}
+export interface InvariantResult {
+  holds: boolean;
+  violations: string[];
+}
+export interface SimulationReport {
+  name: string;
+  seed: number;
+  virtualDuration: number;
+  rounds: RoundOutcome[];
+  chains: { [validatorId: string]: { height: number; hash: string } };
+  equivocations: EquivocationEvidence[];
+  rejectedCommits: number; // Commits or blocks refused for an invalid quorum certificate
+  fabricatedScoresCounted: number; // Votes with a faked emotional score that made it into a result
+  network: NetworkStats;
+  safety: InvariantResult;
+  liveness: InvariantResult;
+  logs: string[];
+}
+// Real scheduler, captured before any clock is installed
+const hostSetImmediate = setImmediate;
+const yieldToHost = (): Promise<void> => new Promise(resolve => hostSetImmediate(resolve));
+// Round id shared by every view of a round (inverse of ViewChange.viewRoundId)
+const baseRoundId = (roundId: string): string => roundId.replace(/:v\d+$/, '');
+// Seeded PRNG (mulberry32), so a scenario's seed replays the same network
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+class VirtualTimer {
+  constructor(readonly id: number) {}
+  ref(): this { return this; }
+  unref(): this { return this; }
+  hasRef(): boolean { return true; }
+  refresh(): this { return this; }
+  [Symbol.toPrimitive](): number { return this.id; }
+}
+interface ScheduledTimer {
+  at: number;
+  seq: number;
+  callback: () => void;
+  interval?: number;
+}
+/**
+ * Virtual time for code written against real timers
+ * While installed, setTimeout, setInterval, Date.now and performance.now run on this
+ * clock; timers fire in (time, scheduling order) and only when the clock is advanced.
+ * A callback that throws does not stop the clock; its error is kept for drainErrors.
+ */
+export class VirtualClock {
+  private current: number;
+  private readonly start: number;
+  private timers = new Map<number, ScheduledTimer>();
+  private errors: unknown[] = [];
+  private nextId = 1;
+  private seq = 0;
+  private restore: (() => void) | null = null;
+  constructor(start: number = 1700000000000) {
+    this.current = start;
+    this.start = start;
+  }
+  now(): number {
+    return this.current;
+  }
+  elapsed(): number {
+    return this.current - this.start;
+  }
+  setTimeout<TArgs extends unknown[]>(callback: (...args: TArgs) => void, ms: number = 0, ...args: TArgs): VirtualTimer {
+    const id = this.nextId++;
+    this.timers.set(id, { at: this.current + Math.max(0, ms || 0), seq: this.seq++, callback: () => callback(...args) });
+    return new VirtualTimer(id);
+  }
+  setInterval<TArgs extends unknown[]>(callback: (...args: TArgs) => void, ms: number = 0, ...args: TArgs): VirtualTimer {
+    const timer = this.setTimeout(callback, ms, ...args);
+    this.timers.get(timer.id)!.interval = Math.max(1, ms || 0);
+    return timer;
+  }
+  clearTimer(timer: unknown): void {
+    if (timer === undefined || timer === null) return;
+    this.timers.delete(Number(timer));
+  }
+  pendingTimers(): number {
+    return this.timers.size;
+  }
+  install(): void {
+    if (this.restore) return;
+    const saved = {
+      setTimeout: globalThis.setTimeout,
+      clearTimeout: globalThis.clearTimeout,
+      setInterval: globalThis.setInterval,
+      clearInterval: globalThis.clearInterval,
+      dateNow: Date.now
+    };
+    const virtual = {
+      setTimeout: this.setTimeout.bind(this),
+      setInterval: this.setInterval.bind(this),
+      clearTimeout: this.clearTimer.bind(this),
+      clearInterval: this.clearTimer.bind(this)
+    };
+    // Defined rather than assigned: virtual timers stand in for, but are not, Node's Timeout objects
+    for (const [name, value] of Object.entries(virtual)) {
+      Object.defineProperty(globalThis, name, { value, configurable: true, writable: true });
+    }
+    Date.now = () => this.current;
+    Object.defineProperty(performance, 'now', { value: () => this.current - this.start, configurable: true, writable: true });
+    this.restore = () => {
+      globalThis.setTimeout = saved.setTimeout;
+      globalThis.clearTimeout = saved.clearTimeout;
+      globalThis.setInterval = saved.setInterval;
+      globalThis.clearInterval = saved.clearInterval;
+      Date.now = saved.dateNow;
+      Reflect.deleteProperty(performance, 'now');
+    };
+  }
+  uninstall(): void {
+    this.restore?.();
+    this.restore = null;
+  }
+  /**
+   * Fire timers in order until done() holds or the next timer is past the deadline;
+   * returns whether done() held. Pending promise callbacks run between timers.
+   */
+  async runUntil(done: () => boolean, deadline: number): Promise<boolean> {
+    for (;;) {
+      await yieldToHost();
+      if (done()) return true;
+      const next = this.nextTimer();
+      if (!next || next[1].at > deadline) {
+        this.current = Math.max(this.current, deadline);
+        return done();
+      }
+      const [id, timer] = next;
+      this.current = Math.max(this.current, timer.at);
+      if (timer.interval) {
+        timer.at = this.current + timer.interval;
+        timer.seq = this.seq++;
+      } else {
+        this.timers.delete(id);
+      }
+      try {
+        timer.callback();
+      } catch (error) {
+        this.errors.push(error);
+      }
+    }
+  }
+  /**
+   * Errors thrown by timer callbacks since the last call
+   */
+  drainErrors(): unknown[] {
+    const errors = this.errors;
+    this.errors = [];
+    return errors;
+  }
+  async runFor(ms: number): Promise<void> {
+    await this.runUntil(() => false, this.current + ms);
+  }
+  /**
+   * Advance until a promise settles or the deadline passes; undefined when it did not settle
+   */
+  async settle<T>(promise: Promise<T>, deadline: number): Promise<{ value: T } | undefined> {
+    let outcome: { value: T } | { error: unknown } | undefined;
+    promise.then(value => { outcome = { value }; }, error => { outcome = { error }; });
+    await this.runUntil(() => outcome !== undefined, deadline);
+    if (outcome && 'error' in outcome) throw outcome.error;
+    return outcome;
+  }
+  private nextTimer(): [number, ScheduledTimer] | undefined {
+    let next: [number, ScheduledTimer] | undefined;
+    for (const entry of this.timers) {
+      if (!next || entry[1].at < next[1].at || (entry[1].at === next[1].at && entry[1].seq < next[1].seq)) {
+        next = entry;
+      }
+    }
+    return next;
+  }
+}
+type MessageHandler = (from: string, message: any) => void;
+/**
+ * In-process network with seeded latency, loss, reordering, duplication and partitions
+ */
+export class SimulatedNetwork {
+  private handlers = new Map<string, MessageHandler>();
+  private conditions: NetworkConditions;
+  private groups: string[][] | null = null;
+  private stats: NetworkStats = { sent: 0, delivered: 0, dropped: 0, partitioned: 0, reordered: 0, duplicated: 0 };
+  constructor(private clock: VirtualClock, private random: () => number, conditions: Partial<NetworkConditions> = {}) {
+    this.conditions = { minLatency: 20, maxLatency: 80, dropRate: 0, reorderRate: 0, duplicateRate: 0, ...conditions };
+  }
+  register(nodeId: string, handler: MessageHandler): void {
+    this.handlers.set(nodeId, handler);
+  }
+  send(from: string, to: string, message: any): void {
+    this.stats.sent++;
+    if (!this.isReachable(from, to)) {
+      this.stats.partitioned++;
+      return;
+    }
+    if (this.random() < this.conditions.dropRate) {
+      this.stats.dropped++;
+      return;
+    }
+    const copies = this.random() < this.conditions.duplicateRate ? 2 : 1;
+    if (copies === 2) this.stats.duplicated++;
+    for (let copy = 0; copy < copies; copy++) {
+      let latency = this.conditions.minLatency + this.random() * (this.conditions.maxLatency - this.conditions.minLatency);
+      if (this.random() < this.conditions.reorderRate) {
+        latency += this.conditions.maxLatency;
+        this.stats.reordered++;
+      }
+      const payload = JSON.parse(JSON.stringify(message)); // Receivers never share objects with the sender
+      this.clock.setTimeout(() => this.deliver(from, to, payload), Math.round(latency));
+    }
+  }
+  partition(groups: string[][]): void {
+    this.groups = groups;
+  }
+  heal(): void {
+    this.groups = null;
+  }
+  setConditions(conditions: Partial<NetworkConditions>): void {
+    this.conditions = { ...this.conditions, ...conditions };
+  }
+  isReachable(a: string, b: string): boolean {
+    if (!this.groups || a === b) return true;
+    const groupOf = (id: string) => this.groups!.findIndex(group => group.includes(id));
+    return groupOf(a) === groupOf(b);
+  }
+  // P2PNode facade for code that sends through p2pNode.sendMessage
+  endpoint(resolveSender: (message: any) => string | null): P2PNode {
+    return {
+      sendMessage: async (to: string, message: any) => {
+        const from = resolveSender(message);
+        if (from) this.send(from, to, message);
+      }
+    } as unknown as P2PNode;
+  }
+  getMaxLatency(): number {
+    return this.conditions.maxLatency;
+  }
+  getStats(): NetworkStats {
+    return { ...this.stats };
+  }
+  private deliver(from: string, to: string, message: any): void {
+    if (!this.isReachable(from, to)) {
+      this.stats.partitioned++;
+      return;
+    }
+    const handler = this.handlers.get(to);
+    if (!handler) return;
+    this.stats.delivered++;
+    handler(from, message);
+  }
+}
+/**
+ * In-memory chain with the storage calls ForkResolution makes
+ */
+class SimulatedChainStore {
+  private byHash = new Map<string, SimulatedBlock>();
+  private byHeight = new Map<number, SimulatedBlock>();
+  private tip: SimulatedBlock;
+  constructor(genesis: SimulatedBlock) {
+    this.tip = genesis;
+    this.byHash.set(genesis.hash, genesis);
+    this.byHeight.set(genesis.height, genesis);
+  }
+  async getLatestBlock(): Promise<SimulatedBlock> {
+    return this.tip;
+  }
+  async getBlockByHash(hash: string): Promise<SimulatedBlock | null> {
+    return this.byHash.get(hash) || null;
+  }
+  async getBlockByHeight(height: number): Promise<SimulatedBlock | null> {
+    return this.byHeight.get(height) || null;
+  }
+  async storeBlock(block: SimulatedBlock): Promise<void> {
+    this.byHash.set(block.hash, block);
+    this.byHeight.set(block.height, block);
+    if (block.height >= this.tip.height) this.tip = block;
+  }
+  async removeBlock(hash: string): Promise<void> {
+    const block = this.byHash.get(hash);
+    if (!block) return;
+    this.byHash.delete(hash);
+    if (this.byHeight.get(block.height)?.hash === hash) this.byHeight.delete(block.height);
+    if (this.tip.hash === hash) this.tip = this.byHeight.get(block.height - 1) || this.tip;
+  }
+  async addTransactionToMempool(): Promise<void> {}
+  async removeTransactionFromMempool(): Promise<void> {}
+  async getValidatorBalance(): Promise<number | null> {
+    return null;
+  }
+  async updateValidatorBalance(): Promise<void> {}
+  getTip(): SimulatedBlock {
+    return this.tip;
+  }
+  has(hash: string): boolean {
+    return this.byHash.has(hash);
+  }
+  get(hash: string): SimulatedBlock | undefined {
+    return this.byHash.get(hash);
+  }
+  chain(): SimulatedBlock[] {
+    return Array.from(this.byHeight.values()).sort((a, b) => a.height - b.height);
+  }
+}
+/**
+ * One validator's node: votes on proposals, signs timeouts, and keeps its own chain
+ * through ForkResolution from commits that carry a valid quorum certificate
+ */
+class SimulatedNode {
+  readonly id: string;
+  readonly privateKey: string;
+  readonly publicKey: string;
+  readonly blsPublicKey: string;
+  readonly blsProof: string;
+  readonly emotionalScore: number;
+  readonly behaviour?: ByzantineBehaviour;
+  readonly store: SimulatedChainStore;
+  private forkResolution: ForkResolution;
+  private proposals = new Map<string, SimulatedBlock>();
+  private pendingVotes = new Map<string, { from: string; request: any }>(); // blockHash -> request waiting on the block or its parent
+  private signedTimeouts = new Set<string>();
+  private roundHeights = new Map<string, number>(); // Base round id -> height proposed in it
+  private prepared = new Map<string, PreparedCertificate>(); // Base round id -> highest prepared certificate seen
+  constructor(spec: SimulatedValidatorSpec, seed: number, genesis: SimulatedBlock, private sim: ConsensusSimulator) {
+    this.id = spec.id;
+    this.emotionalScore = spec.emotionalScore ?? 90;
+    this.behaviour = spec.behaviour;
+    const privateKey = ProductionCrypto.hash(new TextEncoder().encode(`simulation:${seed}:${spec.id}`));
+    this.privateKey = Buffer.from(privateKey).toString('hex');
+    this.publicKey = Buffer.from(secp256k1.getPublicKey(privateKey)).toString('hex');
+    this.blsPublicKey = QuorumCertificates.blsPublicKey(this.privateKey);
+    this.blsProof = QuorumCertificates.proofOfPossession(this.privateKey);
+    this.store = new SimulatedChainStore(genesis);
+    this.forkResolution = new ForkResolution(this.store as unknown as ConstructorParameters<typeof ForkResolution>[0]);
+  }
+  withholds(what: 'votes' | 'proposals'): boolean {
+    return this.behaviour?.type === 'withhold' && this.behaviour[what] !== false;
+  }
+  handle(from: string, message: any): void {
+    switch (message.type) {
+      case 'block-proposal':
+        this.proposals.set(message.block.hash, message.block);
+        this.roundHeights.set(baseRoundId(message.roundId), message.block.height);
+        this.retryPendingVote(message.block.hash);
+        break;
+      case 'voting-request':
+        this.pendingVotes.set(message.blockHash, { from, request: message });
+        this.retryPendingVote(message.blockHash);
+        break;
+      case 'vote-response':
+      case 'view-timeout':
+        if (this.withholds('votes')) break;
+        this.sim.forwardToRound(message);
+        if (message.type === 'view-timeout') this.signTimeout(message);
+        break;
+      case 'block-commit':
+        if (message.prepared) {
+          const roundId = baseRoundId(message.roundId);
+          this.prepared.set(roundId, ViewChange.highestPrepared([this.prepared.get(roundId) || null, message.prepared])!);
+        }
+        this.onCommit(from, message.blockHash, message.quorumCertificate);
+        break;
+      case 'block-request': {
+        const block = this.store.get(message.hash);
+        if (block && block.height > 0) this.sim.send(this.id, from, { type: 'block-response', block });
+        break;
+      }
+      case 'block-response':
+        this.accept(from, message.block, message.block?.consensusMetadata?.quorumCertificate);
+        break;
+      case 'tip-announce':
+        if (message.height > this.store.getTip().height && !this.store.has(message.hash)) {
+          this.sim.send(this.id, from, { type: 'block-request', hash: message.hash });
+        }
+        break;
+    }
+  }
+  announceTip(): void {
+    const tip = this.store.getTip();
+    this.sim.broadcast(this.id, { type: 'tip-announce', height: tip.height, hash: tip.hash });
+  }
+  // Voting
+  private retryPendingVote(blockHash: string): void {
+    const pending = this.pendingVotes.get(blockHash);
+    const block = this.proposals.get(blockHash);
+    if (!pending || !block || this.withholds('votes')) return;
+    const tip = this.store.getTip();
+    if (block.height > tip.height + 1 || (block.height === tip.height + 1 && !this.store.has(block.previousHash))) {
+      // Behind: fetch the missing parent; the vote is retried once it connects
+      this.sim.send(this.id, pending.from, { type: 'block-request', hash: block.previousHash });
+      return;
+    }
+    this.pendingVotes.delete(blockHash);
+    const valid = block.height === tip.height + 1 && block.previousHash === tip.hash && ConsensusSimulator.hashBlock(block) === block.hash;
+    this.castVote(pending.from, pending.request, block.hash, valid);
+  }
+  private castVote(to: string, request: any, blockHash: string, approved: boolean): void {
+    const base = {
+      validatorId: this.id,
+      height: this.proposals.get(blockHash)!.height,
+      roundId: request.roundId,
+      blockHash,
+      emotionalScore: this.behaviour?.type === 'fake-biometrics' ? this.behaviour.score : this.emotionalScore,
+      timestamp: Date.now(),
+      approved,
+      ...(approved ? {} : { reason: 'proposal does not extend the local chain' })
+    };
+    const committeeSize = this.sim.committeeSize();
+    this.sim.send(this.id, to, { type: 'vote-response', roundId: request.roundId, validatorId: this.id, vote: ConsensusRound.signVote(base, committeeSize, this.privateKey) });
+    if (this.behaviour?.type === 'equivocate') {
+      const conflicting = { ...base, blockHash: ConsensusSimulator.conflictingHash(blockHash, this.id), approved: true };
+      this.sim.send(this.id, to, { type: 'vote-response', roundId: request.roundId, validatorId: this.id, vote: ConsensusRound.signVote(conflicting, committeeSize, this.privateKey) });
+    }
+  }
+  private signTimeout(message: any): void {
+    const key = `${message.roundId}:${message.view}`;
+    if (this.signedTimeouts.has(key)) return;
+    this.signedTimeouts.add(key);
+    const height = this.roundHeights.get(message.roundId) ?? this.store.getTip().height + 1;
+    const vote = ViewChange.signTimeout({
+      validatorId: this.id,
+      height,
+      roundId: message.roundId,
+      view: message.view,
+      prepared: this.prepared.get(message.roundId) || null,
+      timestamp: Date.now()
+    }, this.privateKey);
+    this.sim.send(this.id, this.sim.leaderFor(message.view + 1), { type: 'view-timeout', roundId: message.roundId, view: message.view, votes: [vote] });
+  }
+  // Chain
+  private onCommit(from: string, blockHash: string, certificate: QuorumCertificate | undefined): void {
+    if (this.store.has(blockHash)) return;
+    const block = this.proposals.get(blockHash);
+    if (!block) {
+      this.sim.send(this.id, from, { type: 'block-request', hash: blockHash });
+      return;
+    }
+    this.accept(from, block, certificate);
+  }
+  private async accept(from: string, block: SimulatedBlock | undefined, certificate: QuorumCertificate | undefined): Promise<void> {
+    if (!block || this.store.has(block.hash)) return;
+    const invalid = this.sim.checkCertificate(block, certificate);
+    if (invalid) {
+      this.sim.recordRejectedCommit(this.id, block, invalid);
+      return;
+    }
+    const certified: SimulatedBlock = { ...block, consensusMetadata: { quorumCertificate: certificate!, consensusStrength: 100 } };
+    this.sim.recordCertified(certified);
+    const tip = this.store.getTip();
+    // Forks at an occupied height are resolved there; blocks with a missing parent wait as orphans
+    await this.forkResolution.checkAndResolve(certified);
+    if (certified.height === tip.height + 1 && certified.previousHash === tip.hash) {
+      await this.store.storeBlock(certified);
+      for (const orphan of this.forkResolution.getOrphanBlocks() as SimulatedBlock[]) {
+        if (orphan.previousHash === certified.hash) {
+          await this.accept(from, orphan, orphan.consensusMetadata?.quorumCertificate);
+        }
+      }
+      for (const blockHash of Array.from(this.pendingVotes.keys())) {
+        this.retryPendingVote(blockHash);
+      }
+    } else if (!this.store.has(certified.previousHash) && certified.height > tip.height) {
+      this.sim.send(this.id, from, { type: 'block-request', hash: certified.previousHash });
+    }
+  }
+}
+/**
+ * Drives rounds height by height and checks safety and liveness at the end
+ */
+export class ConsensusSimulator {
+  private scenario: Required<Omit<SimulationScenario, 'round' | 'network' | 'name' | 'seed' | 'validators'>> & { name: string; seed: number };
+  private roundConfig: RoundConfig;
+  private clock = new VirtualClock();
+  private network: SimulatedNetwork;
+  private nodes: SimulatedNode[];
+  private signerSet: SignerKey[];
+  private genesis: SimulatedBlock;
+  private activeRound: ConsensusRound | null = null;
+  private committee: SimulatedNode[] = [];
+  private rounds: RoundOutcome[] = [];
+  private equivocations: EquivocationEvidence[] = [];
+  private certified = new Map<number, Set<string>>(); // height -> hashes accepted with a valid certificate
+  private verifiedCertificates = new Map<string, string | null>();
+  private rejectedCommits = 0;
+  private fabricatedScoresCounted = 0;
+  private outOfRangeScores: string[] = [];
+  private logs: string[] = [];
+  constructor(scenario: SimulationScenario) {
+    const seed = scenario.seed ?? 1;
+    const specs = typeof scenario.validators === 'number'
+      ? Array.from({ length: scenario.validators }, (_, i) => ({ id: `validator-${i + 1}` }))
+      : scenario.validators;
+    if (specs.length < 4) {
+      throw new Error('A simulation needs at least 4 validators');
+    }
+    this.scenario = {
+      name: scenario.name || `${specs.length} validators, ${scenario.heights} heights`,
+      seed,
+      heights: scenario.heights,
+      events: [...(scenario.events || [])].sort((a, b) => a.at - b.at),
+      expectLiveness: scenario.expectLiveness ?? true,
+      maxDuration: scenario.maxDuration ?? scenario.heights * 20000,
+      syncGrace: scenario.syncGrace ?? 5000
+    };
+    this.roundConfig = {
+      votingTimeout: 1000,
+      proposalTimeout: 100,
+      finalityTimeout: 300,
+      byzantineThreshold: 67,
+      viewChangeTimeout: 1000,
+      maxViews: 4,
+      ...scenario.round
+    };
+    this.network = new SimulatedNetwork(this.clock, createSeededRandom(seed), scenario.network);
+    this.genesis = {
+      height: 0,
+      hash: '',
+      previousHash: '0'.repeat(64),
+      timestamp: this.clock.now(),
+      validatorId: 'genesis',
+      emotionalScore: 0,
+      transactions: []
+    };
+    this.genesis.hash = ConsensusSimulator.hashBlock(this.genesis);
+    this.nodes = specs.map(spec => new SimulatedNode(spec, seed, this.genesis, this));
+    for (const node of this.nodes) {
+      this.network.register(node.id, (from, message) => node.handle(from, message));
+    }
+    this.signerSet = this.nodes.map(node => ({ validatorId: node.id, blsPublicKey: node.blsPublicKey, blsProof: node.blsProof }));
+  }
+  static hashBlock(block: Omit<SimulatedBlock, 'hash'>): string {
+    return BlockCrypto.hashHeader({
+      height: block.height,
+      parentHash: block.previousHash,
+      stateRoot: '',
+      transactionRoot: '',
+      timestamp: block.timestamp,
+      validatorId: block.validatorId,
+      emotionalScore: block.emotionalScore
+    });
+  }
+  static conflictingHash(blockHash: string, validatorId: string): string {
+    return Buffer.from(ProductionCrypto.hash(new TextEncoder().encode(`conflict:${validatorId}:${blockHash}`))).toString('hex');
+  }
+  async run(): Promise<SimulationReport> {
+    await yieldToHost(); // Callers' own timers (test timeouts) stay on the real clock
+    this.clock.install();
+    const restoreConsole = this.captureConsole();
+    try {
+      const start = this.clock.now();
+      for (const event of this.scenario.events) {
+        this.clock.setTimeout(() => this.applyEvent(event), event.at);
+      }
+      const deadline = start + this.scenario.maxDuration;
+      let attempt = 0;
+      while (this.agreedHeight() < this.scenario.heights && this.clock.now() < deadline) {
+        await this.runRound(attempt++, deadline);
+      }
+      // Let commits land and lagging nodes catch up
+      for (const node of this.nodes) node.announceTip();
+      await this.clock.runFor(this.scenario.syncGrace);
+      this.recordCallbackErrors(this.rounds[this.rounds.length - 1]);
+      return this.buildReport();
+    } finally {
+      restoreConsole();
+      this.clock.uninstall();
+    }
+  }
+  // Rounds
+  private async runRound(attempt: number, deadline: number): Promise<void> {
+    // Each attempt is coordinated by the next validator in turn, on top of its own chain
+    const offset = attempt % this.nodes.length;
+    this.committee = [...this.nodes.slice(offset), ...this.nodes.slice(0, offset)];
+    const coordinator = this.committee[0];
+    const parent = coordinator.store.getTip();
+    const height = parent.height + 1;
+    const outcome: RoundOutcome = { height, coordinator: coordinator.id, committed: false, view: 0, signers: [], startedAt: this.clock.elapsed(), finishedAt: 0 };
+    const views = this.committee.map(node => this.validatorView(node, node === coordinator));
+    const committee = {
+      getValidators: () => views,
+      size: () => views.length,
+      hasValidator: (id: string) => views.some(view => view.getId() === id),
+      getPrimaryValidator: () => views[0],
+      getLeaderForView: (view: number) => views[view === 0 ? 0 : 1 + ((view - 1) % (views.length - 1))]
+    } as unknown as EmotionalCommittee;
+    const round = new ConsensusRound(
+      `sim-${attempt}`,
+      committee,
+      this.buildBlock(coordinator, parent),
+      this.roundConfig,
+      this.network.endpoint(message => this.roundSender(message)),
+      async leader => {
+        const node = this.node(leader.getId());
+        // A leader that missed the parent still proposes at this height, on the coordinator's parent
+        return this.buildBlock(node, (await node.store.getBlockByHeight(height - 1)) || parent);
+      },
+      views
+    );
+    round.on('equivocation', (evidence: EquivocationEvidence) => this.equivocations.push(evidence));
+    this.activeRound = round;
+    try {
+      const voting = await this.clock.settle(round.executeVoting(), deadline);
+      const result: VotingResult | undefined = voting?.value;
+      outcome.view = round.getView();
+      if (!result) {
+        await round.abort();
+        outcome.reason = 'round did not finish before the deadline';
+      } else if (!result.success) {
+        outcome.reason = result.reason;
+      } else {
+        this.inspectVotes(result);
+        const commit = await this.clock.settle(round.waitForCommit().then(() => true, () => false), deadline);
+        outcome.committed = !!commit?.value;
+        outcome.blockHash = round.getProposedBlock().hash;
+        outcome.signers = this.signersOf(result.quorumCertificate);
+        if (!outcome.committed) outcome.reason = 'commit phase failed';
+      }
+    } catch (error) {
+      outcome.reason = (error as Error).message;
+    } finally {
+      this.activeRound = null;
+      outcome.finishedAt = this.clock.elapsed();
+      this.rounds.push(outcome);
+    }
+    // Give the commit time to reach the next coordinator
+    await this.clock.runFor(this.network.getMaxLatency() * 2);
+    this.recordCallbackErrors(outcome);
+  }
+  // A message handler or timeout that threw during a round fails that round
+  private recordCallbackErrors(outcome: RoundOutcome | undefined): void {
+    const errors = this.clock.drainErrors();
+    if (errors.length === 0) return;
+    const message = errors.map(error => (error instanceof Error ? error.message : String(error))).join('; ');
+    console.error(`Timer callback threw: ${message}`);
+    if (!outcome) return;
+    outcome.committed = false;
+    outcome.reason = `timer callback threw: ${message}`;
+  }
+  private buildBlock(proposer: SimulatedNode, parent: SimulatedBlock): SimulatedBlock {
+    const block: Omit<SimulatedBlock, 'hash'> = {
+      height: parent.height + 1,
+      previousHash: parent.hash,
+      timestamp: this.clock.now(),
+      validatorId: proposer.id,
+      emotionalScore: proposer.emotionalScore,
+      transactions: []
+    };
+    return { ...block, hash: ConsensusSimulator.hashBlock(block) };
+  }
+  // The round runs for the whole committee; its messages leave from the current view's leader
+  private roundSender(message: any): string | null {
+    const view = typeof message.view === 'number' ? message.view : this.activeRound?.getView() || 0;
+    const leader = this.node(this.leaderFor(view));
+    if ((message.type === 'block-proposal' || message.type === 'voting-request') && leader.withholds('proposals')) {
+      return null;
+    }
+    return leader.id;
+  }
+  // Only the coordinator's own key is local to the round
+  private validatorView(node: SimulatedNode, local: boolean): EmotionalValidator {
+    return {
+      getId: () => node.id,
+      getPublicKey: () => node.publicKey,
+      getPrivateKey: () => (local && !node.withholds('votes') ? node.privateKey : ''),
+      getBlsPublicKey: () => node.blsPublicKey,
+      getBlsProof: () => node.blsProof,
+      getEmotionalScore: () => node.emotionalScore
+    } as unknown as EmotionalValidator;
+  }
+  // Called by nodes
+  send(from: string, to: string, message: any): void {
+    this.network.send(from, to, message);
+  }
+  broadcast(from: string, message: any): void {
+    for (const node of this.nodes) {
+      if (node.id !== from) this.network.send(from, node.id, message);
+    }
+  }
+  forwardToRound(message: any): void {
+    this.activeRound?.handleMessage(message);
+  }
+  committeeSize(): number {
+    return this.committee.length;
+  }
+  leaderFor(view: number): string {
+    return this.committee[view === 0 ? 0 : 1 + ((view - 1) % (this.committee.length - 1))].id;
+  }
+  checkCertificate(block: SimulatedBlock, certificate: QuorumCertificate | undefined): string | null {
+    if (!certificate) return 'no quorum certificate';
+    if (certificate.blockHash !== block.hash || certificate.height !== block.height) return 'certificate is for another block';
+    if (ConsensusSimulator.hashBlock(block) !== block.hash) return 'block does not hash to its hash';
+    // Verification is deterministic, so nodes share results instead of repeating pairings
+    const key = JSON.stringify(certificate);
+    if (!this.verifiedCertificates.has(key)) {
+      this.verifiedCertificates.set(key, QuorumCertificates.verify(certificate, this.signerSet, this.roundConfig.byzantineThreshold, this.committee.map(node => node.id)));
+    }
+    return this.verifiedCertificates.get(key)!;
+  }
+  recordCertified(block: SimulatedBlock): void {
+    const hashes = this.certified.get(block.height) || new Set<string>();
+    hashes.add(block.hash);
+    this.certified.set(block.height, hashes);
+  }
+  recordRejectedCommit(nodeId: string, block: SimulatedBlock, reason: string): void {
+    this.rejectedCommits++;
+    console.warn(`🚫 ${nodeId} rejected block ${block.height} (${block.hash.substring(0, 12)}...): ${reason}`);
+  }
+  // Events
+  private applyEvent(event: SimulationEvent): void {
+    if (event.partition) {
+      this.network.partition(event.partition);
+      console.log(`✂️ Partition: ${event.partition.map(group => group.join(',')).join(' | ')}`);
+    }
+    if (event.heal) {
+      this.network.heal();
+      console.log('🩹 Partition healed');
+      for (const node of this.nodes) node.announceTip();
+    }
+    if (event.conditions) {
+      this.network.setConditions(event.conditions);
+    }
+  }
+  // Checks
+  private inspectVotes(result: VotingResult): void {
+    for (const vote of result.votes) {
+      if (vote.emotionalScore < 0 || vote.emotionalScore > 100) {
+        this.outOfRangeScores.push(`${vote.validatorId} at height ${vote.height}: ${vote.emotionalScore}`);
+      }
+      const node = this.node(vote.validatorId);
+      if (vote.approved && node.behaviour?.type === 'fake-biometrics' && vote.emotionalScore !== node.emotionalScore) {
+        this.fabricatedScoresCounted++;
+      }
+    }
+  }
+  private agreedHeight(): number {
+    return Math.min(...this.honestNodes().map(node => node.store.getTip().height));
+  }
+  private honestNodes(): SimulatedNode[] {
+    return this.nodes.filter(node => !node.behaviour);
+  }
+  private signersOf(certificate: QuorumCertificate | undefined): string[] {
+    if (!certificate) return [];
+    const ordered = QuorumCertificates.orderSigners(this.signerSet);
+    return ProductionCrypto.decodeSignerBitmap(certificate.aggregate.signers).map(index => ordered[index]?.validatorId);
+  }
+  private checkSafety(): InvariantResult {
+    const violations: string[] = [];
+    // Agreement: one certified block per height, and every node's chain agrees on it
+    for (const [height, hashes] of this.certified) {
+      if (hashes.size > 1) violations.push(`${hashes.size} conflicting blocks certified at height ${height}`);
+    }
+    const canonical = new Map<number, string>();
+    for (const node of this.nodes) {
+      const chain = node.store.chain();
+      chain.forEach((block, index) => {
+        if (index > 0 && (block.previousHash !== chain[index - 1].hash || block.height !== chain[index - 1].height + 1)) {
+          violations.push(`${node.id}: block ${block.height} does not extend block ${chain[index - 1].height}`);
+        }
+        if (block.height > 0) {
+          const invalid = this.checkCertificate(block, block.consensusMetadata?.quorumCertificate);
+          if (invalid) violations.push(`${node.id}: block ${block.height} kept without a valid certificate (${invalid})`);
+        }
+        const known = canonical.get(block.height);
+        if (known && known !== block.hash) violations.push(`${node.id} disagrees on block ${block.height}`);
+        canonical.set(block.height, known || block.hash);
+      });
+    }
+    // Accountability: evidence verifies and never names an honest validator
+    for (const evidence of this.equivocations) {
+      const node = this.node(evidence.validatorId);
+      const invalid = EvidencePool.verifyEvidence(evidence, node.publicKey);
+      if (invalid) violations.push(`invalid equivocation evidence against ${evidence.validatorId}: ${invalid}`);
+      if (node.behaviour?.type !== 'equivocate') violations.push(`honest validator ${evidence.validatorId} accused of equivocation`);
+    }
+    for (const score of this.outOfRangeScores) {
+      violations.push(`vote with an out-of-range emotional score counted: ${score}`);
+    }
+    return { holds: violations.length === 0, violations };
+  }
+  private checkLiveness(): InvariantResult {
+    if (!this.scenario.expectLiveness) return { holds: true, violations: [] };
+    const violations: string[] = [];
+    for (const node of this.honestNodes()) {
+      const height = node.store.getTip().height;
+      if (height < this.scenario.heights) violations.push(`${node.id} reached height ${height} of ${this.scenario.heights}`);
+    }
+    return { holds: violations.length === 0, violations };
+  }
+  private buildReport(): SimulationReport {
+    const chains: SimulationReport['chains'] = {};
+    for (const node of this.nodes) {
+      const tip = node.store.getTip();
+      chains[node.id] = { height: tip.height, hash: tip.hash };
+    }
+    return {
+      name: this.scenario.name,
+      seed: this.scenario.seed,
+      virtualDuration: this.clock.elapsed(),
+      rounds: this.rounds,
+      chains,
+      equivocations: this.equivocations,
+      rejectedCommits: this.rejectedCommits,
+      fabricatedScoresCounted: this.fabricatedScoresCounted,
+      network: this.network.getStats(),
+      safety: this.checkSafety(),
+      liveness: this.checkLiveness(),
+      logs: this.logs
+    };
+  }
+  // Utilities
+  private node(id: string): SimulatedNode {
+    const node = this.nodes.find(candidate => candidate.id === id);
+    if (!node) throw new Error(`Unknown simulated validator ${id}`);
+    return node;
+  }
+  // Console output of the consensus code goes to the report, stamped with virtual time
+  private captureConsole(): () => void {
+    const saved = { log: console.log, warn: console.warn, error: console.error, info: console.info };
+    const capture = (level: string) => (...args: any[]) => {
+      this.logs.push(`[+${this.clock.elapsed()}ms] [${level}] ${args.map(arg => (typeof arg === 'string' ? arg : JSON.stringify(arg))).join(' ')}`);
+    };
+    console.log = capture('INFO');
+    console.info = capture('INFO');
+    console.warn = capture('WARN');
+    console.error = capture('ERROR');
+    return () => Object.assign(console, saved);
+  }
+}
@@ -4,6 +4,15 @@ import { WalletSDK } from './WalletSDK';
 import { BiometricSDK } from './BiometricSDK';
 import { ConsensusSDK } from './ConsensusSDK';
 import { WebSocketSDK } from './WebSocketSDK';
+import { LightClientSDK, LightClientOptions } from './LightClientSDK';
+import { EmotionalChainError, responseStatus } from './errors';
+import { TransactionCrypto } from '../crypto/TransactionCrypto';
+import type { TransactionEnvelope } from '../shared/types/TransactionEnvelope';
+declare module 'axios' {
+  interface InternalAxiosRequestConfig {
+    metadata?: { startTime: number };
+  }
+}
 /**
  * EmotionalChain SDK - Main entry point for developers
  * 
@@ -35,6 +44,7 @@ export interface EmotionalChainConfig {
   pollInterval?: number;
   transactionTimeout?: number;
   emotionalThresholdDefault?: number;
+  lightClient?: LightClientOptions; // Needs trustedValidators or trustedHeader before sdk.lightClient can sync
 }
 export interface Transaction {
   hash: string;
@@ -49,6 +59,40 @@ export interface Transaction {
   blockNumber?: number;
   gasUsed?: number;
 }
+export interface TypedTransactionOptions {
+  from: string;
+  privateKey: Uint8Array;
+  publicKey: Uint8Array;
+  to?: string; // Transfers only
+  amount?: number; // Transfers only
+  fee?: number;
+  nonce?: number; // Next account nonce is fetched when omitted
+}
+export interface TransactionReceipt {
+  transactionHash: string;
+  status: 'pending' | 'included' | 'finalized' | 'failed';
+  from: string;
+  to: string;
+  nonce: number | null;
+  blockHash: string | null;
+  blockNumber: number | null;
+  transactionIndex: number | null;
+  feePaid: number;
+  failureReason: string | null;
+  events: Array<{ type: string; data: Record<string, any> }>;
+  confirmations: number;
+  createdAt: number;
+  updatedAt: number;
+}
+export interface ChainHead {
+  height: number;
+  hash: string | null;
+}
+export interface ChainHeads {
+  latest: ChainHead; // Current tip, may still be re-orged
+  safe: ChainHead; // finalityDepth blocks below the tip
+  finalized: ChainHead | null; // Latest checkpoint signed by 2/3 of stake, never re-orged
+}
 export interface TransactionRequest {
   from: string;
   to: string;
@@ -76,6 +120,7 @@ export class EmotionalChain extends EventEmitter {
   public biometric: BiometricSDK;
   public consensus: ConsensusSDK;
   public websocket: WebSocketSDK;
+  public lightClient: LightClientSDK;
   constructor(config: EmotionalChainConfig) {
     super();
     this.config = {
@@ -101,6 +146,7 @@ export class EmotionalChain extends EventEmitter {
     this.wallet = new WalletSDK(this.httpClient);
     this.biometric = new BiometricSDK(this.httpClient);
     this.consensus = new ConsensusSDK(this.httpClient);
+    this.lightClient = new LightClientSDK(this.httpClient, this.config.lightClient);
     this.websocket = new WebSocketSDK({
       endpoint: this.config.websocketEndpoint || this.config.endpoint.replace('http', 'ws') + '/ws',
       apiKey: this.config.apiKey
@@ -113,6 +159,7 @@ export class EmotionalChain extends EventEmitter {
     this.websocket.on('consensusRound', (data) => this.emit('consensusRound', data));
     this.websocket.on('newBlock', (data) => this.emit('newBlock', data));
     this.websocket.on('transaction', (data) => this.emit('transaction', data));
+    this.websocket.on('transactionReceipt', (data) => this.emit('transactionReceipt', data));
     this.websocket.on('validatorUpdate', (data) => this.emit('validatorUpdate', data));
     this.websocket.on('networkAlert', (data) => this.emit('networkAlert', data));
     this.biometric.on('emotionalScoreUpdate', (data) => this.emit('emotionalScoreUpdate', data));
@@ -128,7 +175,7 @@ export class EmotionalChain extends EventEmitter {
     // Response interceptor with retry logic
     this.httpClient.interceptors.response.use(
       (response) => {
-        const duration = Date.now() - response.config.metadata?.startTime;
+        const duration = Date.now() - (response.config.metadata?.startTime ?? Date.now());
         this.emit('apiCall', {
           url: response.config.url,
           method: response.config.method,
@@ -142,7 +189,7 @@ export class EmotionalChain extends EventEmitter {
         if (!config || !config.retry) {
           config.retry = 0;
         }
-        if (config.retry < this.config.retries && this.shouldRetry(error)) {
+        if (config.retry < this.config.retries! && this.shouldRetry(error)) {
           config.retry++;
           await this.delay(Math.pow(2, config.retry) * 1000); // Exponential backoff
           return this.httpClient(config);
@@ -161,19 +208,18 @@ export class EmotionalChain extends EventEmitter {
   private delay(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
-  private enhanceError(error: any): Error {
-    const enhanced = new Error();
-    enhanced.name = 'EmotionalChainError';
+  private enhanceError(error: any): EmotionalChainError {
+    const enhanced = new EmotionalChainError();
     if (error.response) {
       enhanced.message = `API Error ${error.response.status}: ${error.response.data?.message || error.response.statusText}`;
-      (enhanced as any).status = error.response.status;
-      (enhanced as any).data = error.response.data;
+      enhanced.status = error.response.status;
+      enhanced.data = error.response.data;
     } else if (error.request) {
       enhanced.message = 'Network Error: No response received from EmotionalChain API';
     } else {
       enhanced.message = error.message || 'Unknown error occurred';
     }
-    (enhanced as any).originalError = error;
+    enhanced.originalError = error;
     return enhanced;
   }
   // Core SDK methods
@@ -203,7 +249,7 @@ export class EmotionalChain extends EventEmitter {
       // Validate emotional authentication if required
       if (request.requireEmotionalAuth) {
         const emotionalScore = await this.biometric.getCurrentEmotionalScore();
-        const threshold = request.emotionalThreshold || this.config.emotionalThresholdDefault;
+        const threshold = request.emotionalThreshold || this.config.emotionalThresholdDefault!;
         if (emotionalScore < threshold) {
           throw new Error(`Emotional score ${emotionalScore}% below threshold ${threshold}%`);
         }
@@ -220,6 +266,32 @@ export class EmotionalChain extends EventEmitter {
       throw error;
     }
   }
+  async sendTypedTransaction(envelope: TransactionEnvelope, options: TypedTransactionOptions): Promise<Transaction> {
+    const nonce = options.nonce ?? (await this.httpClient.get(`/api/blockchain/nonce/${options.from}`)).data.data.nextNonce;
+    const body = {
+      envelope,
+      from: options.from,
+      to: options.to ?? options.from,
+      amount: options.amount ?? 0,
+      fee: options.fee ?? 0,
+      nonce,
+      timestamp: Date.now()
+    };
+    const { signature } = TransactionCrypto.signTypedTransaction(body, options.privateKey);
+    try {
+      const response = await this.httpClient.post('/api/blockchain/typed-transaction', {
+        ...body,
+        publicKey: Buffer.from(options.publicKey).toString('hex'),
+        signature
+      });
+      const transaction = response.data.data.transaction;
+      this.emit('transactionCreated', transaction);
+      return transaction;
+    } catch (error) {
+      this.emit('transactionError', error);
+      throw error;
+    }
+  }
   async getTransaction(hash: string): Promise<Transaction> {
     const response = await this.httpClient.get(`/api/v1/transactions/${hash}`);
     return response.data;
@@ -230,28 +302,74 @@ export class EmotionalChain extends EventEmitter {
     });
     return response.data.transactions;
   }
-  async waitForTransaction(hash: string, timeout?: number): Promise<Transaction> {
-    const actualTimeout = timeout || this.config.transactionTimeout;
-    const startTime = Date.now();
-    while (Date.now() - startTime < actualTimeout) {
-      try {
-        const tx = await this.getTransaction(hash);
-        if (tx.status === 'confirmed' || tx.status === 'failed') {
-          return tx;
-        }
-        await this.delay(this.config.pollInterval);
-      } catch (error) {
-        // Transaction might not exist yet, continue polling
-        await this.delay(this.config.pollInterval);
+  async getTransactionReceipt(hash: string): Promise<TransactionReceipt | null> {
+    try {
+      const response = await this.httpClient.get(`/api/transactions/${hash}/receipt`);
+      return response.data;
+    } catch (error) {
+      if (responseStatus(error) === 404) {
+        return null;
       }
+      throw error;
     }
-    throw new Error(`Transaction ${hash} timeout after ${actualTimeout}ms`);
+  }
+  /**
+   * Resolve with the receipt once it reaches `status` (finalized by default) or fails.
+   * Receipt pushes over the WebSocket resolve immediately; polling covers a disconnected socket.
+   */
+  async waitForTransaction(
+    hash: string,
+    timeout?: number,
+    status: 'included' | 'finalized' = 'finalized'
+  ): Promise<TransactionReceipt> {
+    const actualTimeout = timeout || this.config.transactionTimeout!;
+    const isSettled = (receipt: TransactionReceipt | null): receipt is TransactionReceipt =>
+      !!receipt && (receipt.status === status || receipt.status === 'finalized' || receipt.status === 'failed');
+    return new Promise((resolve, reject) => {
+      let done = false;
+      const finish = (error: Error | null, receipt?: TransactionReceipt) => {
+        if (done) return;
+        done = true;
+        clearTimeout(timer);
+        this.websocket.off('transactionReceipt', onPush);
+        error ? reject(error) : resolve(receipt!);
+      };
+      const onPush = (receipt: TransactionReceipt) => {
+        if (receipt?.transactionHash === hash && isSettled(receipt)) {
+          finish(null, receipt);
+        }
+      };
+      const timer = setTimeout(
+        () => finish(new Error(`Transaction ${hash} timeout after ${actualTimeout}ms`)),
+        actualTimeout
+      );
+      this.websocket.on('transactionReceipt', onPush);
+      const poll = async () => {
+        while (!done) {
+          try {
+            const receipt = await this.getTransactionReceipt(hash);
+            if (isSettled(receipt)) {
+              return finish(null, receipt);
+            }
+          } catch (error) {
+            // Node might be briefly unreachable, continue polling
+          }
+          await this.delay(this.config.pollInterval!);
+        }
+      };
+      poll();
+    });
   }
   // Block and blockchain methods
   async getLatestBlock(): Promise<any> {
     const response = await this.httpClient.get('/api/v1/blocks/latest');
     return response.data;
   }
+  async getChainHeads(): Promise<ChainHeads> {
+    const response = await this.httpClient.get('/api/blockchain/heads');
+    const { latest, safe, finalized } = response.data.data;
+    return { latest, safe, finalized };
+  }
   async getBlock(hashOrNumber: string | number): Promise<any> {
     const response = await this.httpClient.get(`/api/v1/blocks/${hashOrNumber}`);
     return response.data;
@@ -297,6 +415,10 @@ export class EmotionalChain extends EventEmitter {
     this.on('transaction', callback);
     return () => this.off('transaction', callback);
   }
+  onTransactionReceipt(callback: (receipt: TransactionReceipt) => void): () => void {
+    this.on('transactionReceipt', callback);
+    return () => this.off('transactionReceipt', callback);
+  }
   onEmotionalScoreUpdate(callback: (data: any) => void): () => void {
     this.on('emotionalScoreUpdate', callback);
     return () => this.off('emotionalScoreUpdate', callback);
@@ -398,4 +520,5 @@ export function createEmotionalChainClient(config: EmotionalChainConfig): Emotio
 export * from './WalletSDK';
 export * from './BiometricSDK';
 export * from './ConsensusSDK';
-export * from './WebSocketSDK';
\ No newline at end of file
+export * from './WebSocketSDK';
+export * from './LightClientSDK';
@@ -0,0 +1,234 @@
+import { EventEmitter } from 'eventemitter3';
+import { AxiosInstance } from 'axios';
+import { responseStatus } from './errors';
+import { BlockCrypto, BlockHeader } from '../crypto/BlockCrypto';
+import { MerkleTree, MerkleProof } from '../crypto/MerkleTree';
+import { QuorumCertificates, QuorumCertificate, SignerKey } from '../crypto/QuorumCertificate';
+import { ValidatorSetManager, ValidatorSetUpdate } from '../consensus/ValidatorSetManager';
+/**
+ * LightClientSDK - Header-only sync with signature and Merkle proof verification
+ *
+ * Downloads block headers only, checks each links to its parent, hashes to its
+ * block hash and is signed by a validator in the known set, checks the committee's
+ * quorum certificate when the block has one (blocks mined through
+ * ImmutableBlockchainService have only the producer signature; set
+ * requireQuorumCertificates to insist on one), then verifies transaction inclusion against the synced
+ * headers without fetching block bodies. The last header of each validator-set
+ * epoch carries the next set; once that header verifies, the client checks the
+ * following headers against the new set. The first set comes from the caller,
+ * never from the node being checked.
+ *
+ * @example
+ * ```typescript
+ * const light = new LightClientSDK(httpClient, { trustedValidators });
+ * await light.sync();
+ * const included = await light.verifyTransaction(txHash);
+ * ```
+ */
+export interface KnownValidator {
+  validatorId: string;
+  publicKey: string; // hex encoded secp256k1 public key
+  blsPublicKey?: string | null; // hex encoded BLS12-381 public key; needed to check quorum certificates
+  blsProof?: string | null; // Proof of possession of the BLS key; signers without one do not count
+}
+export interface LightClientOptions {
+  trustedValidators?: KnownValidator[]; // Set the first synced header is checked against
+  trustedHeader?: BlockHeader; // Sync starts after this header instead of genesis; its validator set is trusted when it carries one
+  batchSize?: number;
+  requireQuorumCertificates?: boolean; // Reject headers without one instead of trusting the producer signature alone; mined blocks carry none (default false)
+  minimumCommitteeSize?: number; // Smallest committee a certificate may claim; the governance floor by default
+  byzantineThreshold?: number; // Percent of the known validator set that must sign
+}
+export interface TransactionInclusionProof {
+  transactionHash: string;
+  blockHeight: number;
+  blockHash: string;
+  transactionIndex: number;
+  proof: MerkleProof;
+  header: BlockHeader;
+}
+export interface TransactionVerification {
+  included: boolean;
+  blockHeight?: number;
+  blockHash?: string;
+  reason?: string;
+}
+export class LightClientSDK extends EventEmitter {
+  private httpClient: AxiosInstance;
+  private options: LightClientOptions;
+  private validators = new Map<string, KnownValidator>();
+  private headers = new Map<number, BlockHeader>(); // Verified headers by height
+  private tip: BlockHeader | null = null;
+  constructor(httpClient: AxiosInstance, options: LightClientOptions = {}) {
+    super();
+    this.httpClient = httpClient;
+    this.options = {
+      batchSize: 100,
+      requireQuorumCertificates: false,
+      minimumCommitteeSize: 4,
+      byzantineThreshold: QuorumCertificates.DEFAULT_THRESHOLD,
+      ...options
+    };
+    for (const validator of options.trustedValidators || []) {
+      this.validators.set(validator.validatorId, validator);
+    }
+    if (options.trustedHeader) {
+      this.headers.set(options.trustedHeader.height, options.trustedHeader);
+      this.tip = options.trustedHeader;
+      if (!options.trustedValidators && options.trustedHeader.validatorSet) {
+        for (const member of options.trustedHeader.validatorSet.validators) {
+          this.validators.set(member.validatorId, member);
+        }
+      }
+    }
+  }
+  // Validator set
+  /**
+   * The set the node reports, for pinning as trustedValidators after checking it out of band;
+   * the client never adopts it itself
+   */
+  async fetchValidatorSet(): Promise<KnownValidator[]> {
+    const response = await this.httpClient.get('/api/proofs/validators');
+    return response.data.data.validators;
+  }
+  /**
+   * Download and verify headers up to the node's tip; returns the new tip
+   * Throws on the first header that fails verification, keeping everything before it,
+   * and before downloading anything when no validator set is trusted
+   */
+  async sync(): Promise<BlockHeader | null> {
+    if (this.validators.size === 0) {
+      throw new Error('Light client needs trustedValidators, or a trustedHeader that carries a validator set');
+    }
+    while (true) {
+      const from = this.tip ? this.tip.height + 1 : 0;
+      const response = await this.httpClient.get('/api/proofs/headers', {
+        params: { from, limit: this.options.batchSize }
+      });
+      const batch: BlockHeader[] = response.data.data.headers;
+      if (batch.length === 0) break;
+      for (const header of batch) {
+        const error = this.verifyHeader(header, this.tip);
+        if (error) {
+          this.emit('invalidHeader', { header, reason: error });
+          throw new Error(`Header ${header.height} rejected: ${error}`);
+        }
+        this.headers.set(header.height, header);
+        this.tip = header;
+        this.emit('header', header);
+        if (header.validatorSet) {
+          this.adoptValidatorSet(header.validatorSet);
+        }
+      }
+      if (batch.length < this.options.batchSize!) break;
+    }
+    return this.tip;
+  }
+  /**
+   * Check a header against its parent and the known validator set; null when valid
+   */
+  verifyHeader(header: BlockHeader, parent: BlockHeader | null): string | null {
+    if (parent && (header.height !== parent.height + 1 || header.parentHash !== parent.hash)) {
+      return `does not extend header ${parent.height}`;
+    }
+    const producer = this.validators.get(header.validatorId);
+    if (!producer) {
+      return `producer ${header.validatorId} is not in the known validator set`;
+    }
+    if (!header.signature) {
+      return 'header is not signed';
+    }
+    if (!BlockCrypto.verifyHeader(header, Buffer.from(producer.publicKey, 'hex'))) {
+      return 'hash or producer signature is invalid';
+    }
+    if (header.validatorSetHash || header.validatorSet) {
+      const invalid = this.verifyValidatorSet(header);
+      if (invalid) return invalid;
+    }
+    if (header.quorumCertificate) {
+      return this.verifyQuorumCertificate(header.quorumCertificate, header);
+    }
+    return this.options.requireQuorumCertificates ? 'header has no quorum certificate' : null;
+  }
+  /**
+   * Check a committee's aggregate signature over a header against a quorum of the known validator set; null when valid
+   */
+  verifyQuorumCertificate(certificate: QuorumCertificate, header: BlockHeader): string | null {
+    if (certificate.blockHash !== header.hash || certificate.height !== header.height) {
+      return 'quorum certificate is for a different block';
+    }
+    if (certificate.committeeSize < this.options.minimumCommitteeSize!) {
+      return `quorum certificate claims a committee of ${certificate.committeeSize}, below ${this.options.minimumCommitteeSize}`;
+    }
+    // Headers do not name the committee a height elected, so any validator in the set may sign
+    // and the quorum is taken from the whole set
+    const invalid = QuorumCertificates.verify(certificate, this.signerSet(), this.options.byzantineThreshold);
+    return invalid ? `quorum certificate: ${invalid}` : null;
+  }
+  /**
+   * Verify a transaction is included in a synced block using a Merkle proof from the node
+   */
+  async verifyTransaction(hash: string): Promise<TransactionVerification> {
+    let proof: TransactionInclusionProof;
+    try {
+      const response = await this.httpClient.get(`/api/proofs/tx/${hash}`);
+      proof = response.data.data;
+    } catch (error) {
+      if (responseStatus(error) === 404) {
+        return { included: false, reason: 'Transaction is not included in any block' };
+      }
+      throw error;
+    }
+    if (!this.tip || proof.blockHeight > this.tip.height) {
+      await this.sync();
+    }
+    const header = this.headers.get(proof.blockHeight);
+    if (!header) {
+      return { included: false, reason: `Header ${proof.blockHeight} is not in the synced chain` };
+    }
+    if (header.hash !== proof.blockHash) {
+      return { included: false, reason: `Proof is for block ${proof.blockHash}, synced chain has ${header.hash}` };
+    }
+    if (proof.proof.leaf !== hash || !MerkleTree.verifyProof(proof.proof, header.transactionRoot)) {
+      return { included: false, reason: 'Merkle proof does not match the transaction root' };
+    }
+    return { included: true, blockHeight: header.height, blockHash: header.hash };
+  }
+  /**
+   * Check the validator set an epoch-ending header commits to; null when valid
+   */
+  verifyValidatorSet(header: BlockHeader): string | null {
+    if (!header.validatorSet) {
+      return 'header commits to a validator set it does not carry';
+    }
+    if (header.validatorSet.validatorSetHash !== header.validatorSetHash) {
+      return 'validator set is not the one the header commits to';
+    }
+    const invalid = ValidatorSetManager.verifyUpdate(header.validatorSet, header.height, Array.from(this.validators.keys()));
+    return invalid ? `validator set: ${invalid}` : null;
+  }
+  private adoptValidatorSet(update: ValidatorSetUpdate): void {
+    this.validators.clear();
+    for (const member of update.validators) {
+      this.validators.set(member.validatorId, member);
+    }
+    this.emit('validatorSet', update);
+  }
+  private signerSet(): SignerKey[] {
+    return Array.from(this.validators.values()).map(validator => ({
+      validatorId: validator.validatorId,
+      blsPublicKey: validator.blsPublicKey || '',
+      blsProof: validator.blsProof || ''
+    }));
+  }
+  // Synced chain
+  getTip(): BlockHeader | null {
+    return this.tip;
+  }
+  getHeader(height: number): BlockHeader | null {
+    return this.headers.get(height) || null;
+  }
+  getKnownValidators(): KnownValidator[] {
+    return Array.from(this.validators.values());
+  }
+}
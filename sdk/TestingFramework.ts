@@ -3,6 +3,8 @@ import { BiometricDevice, BiometricReading, EmotionalState } from './BiometricSD
 import { ValidatorInfo, ConsensusRound } from './ConsensusSDK';
 import { Wallet } from './WalletSDK';
 import { CONFIG } from '../shared/config';
+import { ConsensusSimulator, SimulationScenario, SimulationReport } from './ConsensusSimulator';
+export * from './ConsensusSimulator';
 /**
  * Comprehensive testing utilities for EmotionalChain dApp developers
  * 
@@ -15,6 +17,9 @@ import { CONFIG } from '../shared/config';
  * 
  * const mockBiometric = MockDataGenerator.generateBiometricReading('heartrate');
  * const result = await tester.testEmotionalAuthentication(mockBiometric);
+ *
+ * // Consensus under faults, on a virtual clock
+ * const simulation = await tester.testConsensusSimulation({ seed: 42, validators: 7, heights: 5, network: { dropRate: 0.1 } });
  * ```
  */
 export interface TestConfig {
@@ -307,14 +312,30 @@ export class EmotionalChainTester {
         amount: 10,
         requireEmotionalAuth: true
       });
-      // Wait for confirmation
-      const confirmedTx = await this.client.waitForTransaction(tx.hash);
-      if (confirmedTx.status !== 'confirmed') {
-        throw new Error('Transaction was not confirmed');
+      // Wait for finality
+      const receipt = await this.client.waitForTransaction(tx.hash);
+      if (receipt.status !== 'finalized') {
+        throw new Error(`Transaction was not finalized: ${receipt.failureReason || receipt.status}`);
       }
-      return { transaction: confirmedTx };
+      return { transaction: tx, receipt };
     });
   }
+  // Consensus simulation
+  /**
+   * Run a deterministic consensus simulation; fails when a safety or liveness invariant is
+   * violated. The timeout is in real time; the simulation itself runs on a virtual clock.
+   */
+  async testConsensusSimulation(scenario: SimulationScenario, timeout: number = 300000): Promise<TestResult> {
+    return this.runTest(`Consensus Simulation (${scenario.name || `seed ${scenario.seed ?? 1}`})`, async (): Promise<SimulationReport> => {
+      const report = await new ConsensusSimulator(scenario).run();
+      const violations = [...report.safety.violations, ...report.liveness.violations];
+      if (violations.length > 0) {
+        throw new Error(`Consensus invariants violated: ${violations.join('; ')}`);
+      }
+      this.log('info', `Simulated ${report.rounds.length} rounds in ${report.virtualDuration}ms of virtual time`);
+      return report;
+    }, timeout);
+  }
   // Test suite execution
   async runTestSuite(suite: TestSuite): Promise<Map<string, TestResult>> {
     this.log('info', `Running test suite: ${suite.name}`);
@@ -1,4 +1,5 @@
 import { EventEmitter } from 'eventemitter3';
+import { createHash, randomBytes } from 'crypto';
 import { AxiosInstance } from 'axios';
 import { ProductionCrypto } from '../crypto/ProductionCrypto';
 import { TransactionCrypto } from '../crypto/TransactionCrypto';
@@ -66,6 +67,20 @@ export interface MultiSigTransaction {
   executed: boolean;
   createdAt: number;
 }
+export interface UnbondingEntry {
+  id: string; // Id of the unstake or undelegate transaction
+  validatorAddress: string;
+  delegatorAddress: string;
+  amount: number; // Remaining after any slashing while unbonding
+  startHeight: number;
+  completionHeight: number; // Credited back to the balance when this block is applied
+}
+export interface UnbondingQueue {
+  address: string;
+  unbondingDays: number;
+  totalUnbonding: number;
+  entries: UnbondingEntry[];
+}
 export class WalletSDK extends EventEmitter {
   private httpClient: AxiosInstance;
   private wallets = new Map<string, Wallet>();
@@ -231,6 +246,12 @@ export class WalletSDK extends EventEmitter {
     const response = await this.httpClient.get('/api/v1/gas-price');
     return response.data.gasPrice;
   }
+  // Unbonding: stake leaving through unstake and undelegate typed transactions stays slashable
+  // in chain state until its completion height
+  async getUnbondingQueue(address: string): Promise<UnbondingQueue> {
+    const response = await this.httpClient.get(`/api/staking/unbonding/${address}`);
+    return response.data;
+  }
   // Multi-signature wallet support
   async createMultiSigWallet(owners: string[], requiredSignatures: number): Promise<MultiSigWallet> {
     const response = await this.httpClient.post('/api/v1/multisig/create', {
@@ -145,6 +145,9 @@ export class WebSocketSDK extends EventEmitter {
     this.socket.on('transaction', (data) => {
       this.emit('transaction', data);
     });
+    this.socket.on('transactionReceipt', (data) => {
+      this.emit('transactionReceipt', data);
+    });
     this.socket.on('validatorUpdate', (data) => {
       this.emit('validatorUpdate', data);
     });
@@ -330,6 +333,10 @@ export class WebSocketSDK extends EventEmitter {
     this.on('transaction', callback);
     return () => this.off('transaction', callback);
   }
+  onTransactionReceipt(callback: (receipt: any) => void): () => void {
+    this.on('transactionReceipt', callback);
+    return () => this.off('transactionReceipt', callback);
+  }
   onValidatorUpdate(callback: (validator: any) => void): () => void {
     this.on('validatorUpdate', callback);
     return () => this.off('validatorUpdate', callback);
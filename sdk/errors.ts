@@ -0,0 +1,20 @@
+import axios from 'axios';
+/**
+ * Error the SDK's HTTP client rejects with; API errors carry the response status and body
+ */
+export class EmotionalChainError extends Error {
+  status?: number;
+  data?: unknown;
+  originalError?: unknown;
+  constructor(message: string = '') {
+    super(message);
+    this.name = 'EmotionalChainError';
+  }
+}
+/**
+ * HTTP status of a failed request, whether it came through the SDK's client or a plain axios instance
+ */
+export function responseStatus(error: unknown): number | undefined {
+  if (error instanceof EmotionalChainError) return error.status;
+  return axios.isAxiosError(error) ? error.response?.status : undefined;
+}
@@ -6,6 +6,23 @@
 
 import { createHash } from 'crypto';
 import type { Block, Transaction } from '@shared/schema';
+import { SparseMerkleStateTrie, type StateProof } from './StateTrie';
+import { TransactionCrypto } from '../../crypto/TransactionCrypto';
+import { ProductionCrypto } from '../../crypto/ProductionCrypto';
+import { validateEnvelope, type AccountData, type TransactionEnvelope, type UnbondingStake } from '@shared/types/TransactionEnvelope';
+import { EvidencePool, type EquivocationEvidence } from '../../consensus/EquivocationEvidence';
+import { CONFIG } from '../../shared/config';
+import { calculateBlockReward } from '../../shared/tokenomics/emissionSchedule';
+import {
+  GOVERNANCE_ACCOUNT,
+  defaultParameters,
+  emptyGovernanceState,
+  governanceParameters,
+  type GovernanceProposal,
+  type GovernanceState,
+  type GovernanceTally,
+  type ParameterSet
+} from '../../shared/governance/parameters';
 
 export interface EmotionalTransaction {
   id: string;
@@ -17,6 +34,10 @@ export interface EmotionalTransaction {
   signature: string; // Cryptographic signature
   blockNumber: number; // Block inclusion
   fee?: number;
+  nonce?: number; // Sender nonce for replay protection
+  envelope?: TransactionEnvelope; // Typed, signed state change; absent on plain transfers
+  publicKey?: string; // Sender's hex public key
+  hash?: string; // Claimed hash; must match transactionHash when present
 }
 
 export interface EnhancedBlock {
@@ -32,20 +53,38 @@ export interface EnhancedBlock {
   };
   transactions: EmotionalTransaction[]; // Full transaction list
   zkProofs: any[]; // Privacy-preserving proofs
+  evidence?: EquivocationEvidence[]; // Double-sign evidence slashed by this block
+}
+
+export interface StakePosition {
+  validatorAddress: string;
+  delegatorAddress: string;
+  amount: number;
 }
 
 export interface BlockchainState {
   [address: string]: {
     balance: number;
     nonce: number;
+    stake?: number; // Bonded stake, committed in the state root alongside balance and nonce
+    data?: AccountData; // Typed transaction state (key binding, delegations, devices, consents, votes)
     lastActivity: number;
   };
 }
 
+// Blocks between an unstake or undelegate and the release of its funds
+const UNBONDING_BLOCKS = Math.ceil(CONFIG.consensus.staking.unbondingDays * 86400 / CONFIG.consensus.blockTime);
+
 export class BlockchainStateManager {
   private currentState: BlockchainState = {};
   private blockCache: Map<number, EnhancedBlock> = new Map();
   private genesisState: BlockchainState = {};
+  private stateTrie: SparseMerkleStateTrie | null = null; // Built lazily for currentState
+  private currentHeight = 0; // Height of the last block applied to currentState
+  // Blocks produced before the state trie carry JSON-hash roots; accepted until the first trie root
+  private legacyStateRootsAllowed = true;
+  // Registered keys of named (validator) accounts, which have no key-derived address to check against
+  private validatorKeys: Map<string, string> = new Map();
 
   constructor() {
     this.initializeGenesisState();
@@ -97,22 +136,28 @@ export class BlockchainStateManager {
   }
 
   /**
-   * Calculate state root hash for block header
+   * Calculate state root hash for block header (sparse Merkle trie root)
    */
   public calculateStateRoot(state: BlockchainState): string {
+    return SparseMerkleStateTrie.fromState(state).getRoot();
+  }
+
+  /**
+   * Pre-trie state root, kept only to validate historical blocks
+   */
+  private calculateLegacyStateRoot(state: BlockchainState): string {
     const stateString = JSON.stringify(state, Object.keys(state).sort());
     return createHash('sha256').update(stateString).digest('hex');
   }
 
   /**
    * Calculate transaction merkle root
+   * Leaves are transaction hashes so the root can be rebuilt (and proven) from stored blocks
    */
   public calculateTransactionRoot(transactions: EmotionalTransaction[]): string {
     if (transactions.length === 0) return '0'.repeat(64);
     
-    const txHashes = transactions.map(tx => 
-      createHash('sha256').update(JSON.stringify(tx)).digest('hex')
-    );
+    const txHashes = transactions.map(tx => BlockchainStateManager.transactionLeaf(tx));
 
     // Simple merkle root calculation
     let hashes = txHashes;
@@ -130,6 +175,41 @@ export class BlockchainStateManager {
     return hashes[0];
   }
 
+  /**
+   * Merkle leaf for a transaction: its hash recomputed from its contents, so the root commits
+   * to what the sender signed rather than to the hash it claims
+   */
+  public static transactionLeaf(tx: EmotionalTransaction): string {
+    return BlockchainStateManager.transactionHash(tx);
+  }
+
+  /**
+   * Hash of the fields a sender signs: the envelope hash for typed transactions, and
+   * TransactionCrypto's transfer hash for plain transfers
+   */
+  public static transactionHash(tx: EmotionalTransaction): string {
+    if (tx.envelope) {
+      return TransactionCrypto.typedTransactionHash({
+        envelope: tx.envelope,
+        from: tx.from,
+        to: tx.to,
+        amount: tx.amount,
+        fee: tx.fee || 0,
+        nonce: tx.nonce ?? 0,
+        timestamp: tx.timestamp
+      });
+    }
+    return TransactionCrypto.generateTransactionHash({
+      from: tx.from,
+      to: tx.to,
+      amount: tx.amount,
+      nonce: tx.nonce ?? 0,
+      timestamp: tx.timestamp,
+      fee: tx.fee || 0,
+      type: 'transfer'
+    });
+  }
+
   /**
    * Validate state transition for new block
    */
@@ -138,40 +218,42 @@ export class BlockchainStateManager {
     block: EnhancedBlock
   ): { valid: boolean; newState: BlockchainState; errors: string[] } {
     const errors: string[] = [];
-    const newState = { ...previousState };
+    // Copy accounts too so a rejected block never mutates the previous state
+    const newState: BlockchainState = {};
+    for (const [address, account] of Object.entries(previousState)) {
+      newState[address] = { ...account };
+    }
 
     try {
       // Apply all transactions in the block
       for (const tx of block.transactions) {
-        // Validate sender has sufficient balance
-        const senderBalance = newState[tx.from]?.balance || 0;
-        const totalDeduction = tx.amount + (tx.fee || 0);
+        const txError = this.applyTransaction(newState, tx, block.header.blockNumber);
+        if (txError) errors.push(txError);
+      }
 
-        if (senderBalance < totalDeduction) {
-          errors.push(`Insufficient balance for ${tx.from}: ${senderBalance} < ${totalDeduction}`);
-          continue;
-        }
+      // Slash equivocating validators after the block's transactions
+      for (const evidence of block.evidence || []) {
+        const evidenceError = this.applyEvidence(newState, evidence, block.header.timestamp);
+        if (evidenceError) errors.push(evidenceError);
+      }
 
-        // Apply transaction
-        if (!newState[tx.from]) {
-          newState[tx.from] = { balance: 0, nonce: 0, lastActivity: tx.timestamp };
-        }
-        if (!newState[tx.to]) {
-          newState[tx.to] = { balance: 0, nonce: 0, lastActivity: tx.timestamp };
-        }
+      // Accrue the block reward to the producer and its delegators, claimable by claim transactions
+      this.accrueBlockReward(newState, block);
 
-        newState[tx.from].balance -= totalDeduction;
-        newState[tx.from].nonce += 1;
-        newState[tx.from].lastActivity = tx.timestamp;
+      // Credit unbonding stake that completes at this height
+      this.releaseUnbonding(newState, block.header.blockNumber);
 
-        newState[tx.to].balance += tx.amount;
-        newState[tx.to].lastActivity = tx.timestamp;
-      }
+      // Close voting and activate parameter changes that fall due at this height
+      this.applyGovernance(newState, block.header.blockNumber, block.header.timestamp);
 
-      // Validate state root
-      const calculatedStateRoot = this.calculateStateRoot(newState);
-      if (calculatedStateRoot !== block.header.stateRoot) {
-        errors.push(`State root mismatch: calculated ${calculatedStateRoot}, expected ${block.header.stateRoot}`);
+      // Validate state root (blocks under construction have none yet)
+      if (block.header.stateRoot) {
+        const calculatedStateRoot = this.calculateStateRoot(newState);
+        const legacyMatch = this.legacyStateRootsAllowed &&
+          this.calculateLegacyStateRoot(newState) === block.header.stateRoot;
+        if (calculatedStateRoot !== block.header.stateRoot && !legacyMatch) {
+          errors.push(`State root mismatch: calculated ${calculatedStateRoot}, expected ${block.header.stateRoot}`);
+        }
       }
 
       return {
@@ -188,6 +270,531 @@ export class BlockchainStateManager {
     }
   }
 
+  /**
+   * Split transactions into those that apply in order on top of a state and those
+   * that fail there, with the reason. The given state is not modified.
+   */
+  public partitionApplicable<T extends EmotionalTransaction>(
+    state: BlockchainState,
+    transactions: T[],
+    height: number
+  ): { applicable: T[]; failed: Array<{ transaction: T; error: string }> } {
+    const working: BlockchainState = {};
+    for (const [address, account] of Object.entries(state)) {
+      working[address] = { ...account };
+    }
+    const applicable: T[] = [];
+    const failed: Array<{ transaction: T; error: string }> = [];
+    for (const tx of transactions) {
+      const error = this.applyTransaction(working, tx, height);
+      if (error) {
+        failed.push({ transaction: tx, error });
+      } else {
+        applicable.push(tx);
+      }
+    }
+    return { applicable, failed };
+  }
+
+  /**
+   * Apply one transaction to the state in place; returns an error (leaving the
+   * state untouched) when it does not apply
+   */
+  private applyTransaction(state: BlockchainState, tx: EmotionalTransaction, height: number): string | null {
+    if (tx.envelope) {
+      return this.applyTypedTransaction(state, tx, height);
+    }
+
+    // Plain transfers answer to the same signature and nonce rules as typed transactions
+    const label = `Transaction ${tx.id} (plain transfer)`;
+    const fee = tx.fee || 0;
+    if (!Number.isFinite(tx.amount) || tx.amount <= 0) {
+      return `${label}: amount ${tx.amount} is not positive`;
+    }
+    if (!Number.isFinite(fee) || fee < 0) {
+      return `${label}: invalid fee ${fee}`;
+    }
+
+    const sender = this.cloneAccount(state, tx.from, tx.timestamp);
+    const nonce = tx.nonce ?? -1;
+    const authError = this.authenticateTransaction(tx, sender.data!);
+    if (authError) return `${label}: ${authError}`;
+    if (nonce !== sender.nonce) {
+      return `${label}: nonce ${nonce} does not match account nonce ${sender.nonce}`;
+    }
+    if (sender.balance < tx.amount + fee) {
+      return `${label}: insufficient balance for ${tx.from}: ${sender.balance} < ${tx.amount + fee}`;
+    }
+
+    const recipient = tx.to === tx.from ? sender : this.cloneAccount(state, tx.to, tx.timestamp);
+    sender.balance -= tx.amount + fee;
+    recipient.balance += tx.amount;
+    recipient.lastActivity = tx.timestamp;
+    sender.data!.publicKey = tx.publicKey;
+    sender.nonce += 1;
+    sender.lastActivity = tx.timestamp;
+
+    state[tx.to] = BlockchainStateManager.compactAccount(recipient);
+    state[tx.from] = BlockchainStateManager.compactAccount(sender);
+    return null;
+  }
+
+  /**
+   * Apply a signed typed transaction to the state in place; returns an error
+   * (leaving the state untouched) when the transaction is invalid.
+   */
+  private applyTypedTransaction(state: BlockchainState, tx: EmotionalTransaction, height: number): string | null {
+    const envelope = tx.envelope!;
+    const label = `Transaction ${tx.id} (${envelope.kind})`;
+    const envelopeErrors = validateEnvelope(envelope, tx);
+    if (envelopeErrors.length > 0) {
+      return `${label}: ${envelopeErrors.join('; ')}`;
+    }
+
+    // Work on copies so a failed transaction leaves no partial effects
+    const sender = this.cloneAccount(state, tx.from, tx.timestamp);
+    const data = sender.data!;
+    const fee = tx.fee || 0;
+    const nonce = tx.nonce ?? -1;
+
+    const authError = this.authenticateTransaction(tx, data);
+    if (authError) return `${label}: ${authError}`;
+    if (nonce !== sender.nonce) {
+      return `${label}: nonce ${nonce} does not match account nonce ${sender.nonce}`;
+    }
+    if (sender.balance < fee) {
+      return `${label}: insufficient balance for fee ${fee}`;
+    }
+    sender.balance -= fee;
+
+    const touched: BlockchainState = {};
+    const payload: any = envelope.payload;
+    switch (envelope.kind) {
+      case 'transfer': {
+        if (sender.balance < tx.amount) {
+          return `${label}: insufficient balance ${sender.balance + fee} < ${tx.amount + fee}`;
+        }
+        const recipient = this.cloneAccount(state, tx.to, tx.timestamp);
+        sender.balance -= tx.amount;
+        recipient.balance += tx.amount;
+        recipient.lastActivity = tx.timestamp;
+        touched[tx.to] = recipient;
+        break;
+      }
+      case 'stake':
+        if (sender.balance < payload.amount) {
+          return `${label}: insufficient balance to stake ${payload.amount}`;
+        }
+        sender.balance -= payload.amount;
+        sender.stake = (sender.stake || 0) + payload.amount;
+        break;
+      case 'unstake':
+        if ((sender.stake || 0) < payload.amount) {
+          return `${label}: stake ${sender.stake || 0} < ${payload.amount}`;
+        }
+        sender.stake = (sender.stake || 0) - payload.amount;
+        BlockchainStateManager.startUnbonding(data, tx.id, tx.from, payload.amount, height);
+        break;
+      case 'delegate': {
+        if (!state[payload.validatorId]) {
+          return `${label}: unknown validator ${payload.validatorId}`;
+        }
+        if (sender.balance < payload.amount) {
+          return `${label}: insufficient balance to delegate ${payload.amount}`;
+        }
+        const validator = this.cloneAccount(state, payload.validatorId, tx.timestamp);
+        sender.balance -= payload.amount;
+        data.delegations = data.delegations || {};
+        data.delegations[payload.validatorId] = (data.delegations[payload.validatorId] || 0) + payload.amount;
+        validator.data!.delegatedStake = (validator.data!.delegatedStake || 0) + payload.amount;
+        touched[payload.validatorId] = validator;
+        break;
+      }
+      case 'undelegate': {
+        const delegated = data.delegations?.[payload.validatorId] || 0;
+        if (delegated < payload.amount) {
+          return `${label}: delegation to ${payload.validatorId} is ${delegated} < ${payload.amount}`;
+        }
+        const validator = this.cloneAccount(state, payload.validatorId, tx.timestamp);
+        data.delegations![payload.validatorId] = delegated - payload.amount;
+        validator.data!.delegatedStake = (validator.data!.delegatedStake || 0) - payload.amount;
+        BlockchainStateManager.startUnbonding(data, tx.id, payload.validatorId, payload.amount, height);
+        touched[payload.validatorId] = validator;
+        break;
+      }
+      case 'redelegate': {
+        // Moves at once rather than through unbonding, but stays slashable for the source validator
+        const delegated = data.delegations?.[payload.fromValidatorId] || 0;
+        if (delegated < payload.amount) {
+          return `${label}: delegation to ${payload.fromValidatorId} is ${delegated} < ${payload.amount}`;
+        }
+        if (!state[payload.toValidatorId]) {
+          return `${label}: unknown validator ${payload.toValidatorId}`;
+        }
+        const source = this.cloneAccount(state, payload.fromValidatorId, tx.timestamp);
+        const target = this.cloneAccount(state, payload.toValidatorId, tx.timestamp);
+        data.delegations![payload.fromValidatorId] = delegated - payload.amount;
+        data.delegations![payload.toValidatorId] = (data.delegations![payload.toValidatorId] || 0) + payload.amount;
+        source.data!.delegatedStake = (source.data!.delegatedStake || 0) - payload.amount;
+        target.data!.delegatedStake = (target.data!.delegatedStake || 0) + payload.amount;
+        data.redelegations = {
+          ...data.redelegations,
+          [tx.id]: {
+            fromValidatorId: payload.fromValidatorId,
+            toValidatorId: payload.toValidatorId,
+            amount: payload.amount,
+            startHeight: height,
+            completionHeight: height + UNBONDING_BLOCKS
+          }
+        };
+        touched[payload.fromValidatorId] = source;
+        touched[payload.toValidatorId] = target;
+        break;
+      }
+      case 'claim':
+        if (!data.rewards) {
+          return `${label}: no rewards to claim`;
+        }
+        sender.balance += data.rewards;
+        data.rewards = 0;
+        break;
+      case 'register_device':
+        if (data.devices?.[payload.deviceId]) {
+          return `${label}: device ${payload.deviceId} is already registered`;
+        }
+        data.devices = data.devices || {};
+        data.devices[payload.deviceId] = {
+          deviceType: payload.deviceType,
+          attestationHash: payload.attestationHash,
+          registeredAt: tx.timestamp
+        };
+        break;
+      case 'consent_grant':
+        if (data.consents?.[payload.purpose]) {
+          return `${label}: consent for ${payload.purpose} is already granted`;
+        }
+        data.consents = data.consents || {};
+        data.consents[payload.purpose] = tx.timestamp;
+        break;
+      case 'consent_revoke':
+        if (!data.consents?.[payload.purpose]) {
+          return `${label}: no consent for ${payload.purpose} to revoke`;
+        }
+        delete data.consents[payload.purpose];
+        break;
+      case 'governance_propose': {
+        if (BlockchainStateManager.votingPower(sender) <= 0) {
+          return `${label}: proposer has no bonded or delegated stake`;
+        }
+        const parameters = BlockchainStateManager.parametersOf(state);
+        const votingEndHeight = height + parameters['governance.votingPeriod'];
+        const earliestActivation = votingEndHeight + CONFIG.governance.activationDelay;
+        if (payload.activationHeight < earliestActivation) {
+          return `${label}: activation height ${payload.activationHeight} is before ${earliestActivation}`;
+        }
+        const governance = this.cloneAccount(state, GOVERNANCE_ACCOUNT, tx.timestamp);
+        const proposals = (governance.data!.governance = governance.data!.governance || emptyGovernanceState()).proposals;
+        if (proposals[tx.id]) {
+          return `${label}: proposal ${tx.id} already exists`;
+        }
+        proposals[tx.id] = {
+          id: tx.id,
+          proposer: tx.from,
+          title: payload.title,
+          changes: { ...payload.changes },
+          submittedHeight: height,
+          votingEndHeight,
+          activationHeight: payload.activationHeight,
+          status: 'voting'
+        };
+        touched[GOVERNANCE_ACCOUNT] = governance;
+        break;
+      }
+      case 'governance_vote': {
+        const proposal = state[GOVERNANCE_ACCOUNT]?.data?.governance?.proposals[payload.proposalId];
+        if (!proposal) {
+          return `${label}: unknown proposal ${payload.proposalId}`;
+        }
+        if (proposal.status !== 'voting' || height > proposal.votingEndHeight) {
+          return `${label}: voting on ${payload.proposalId} closed at height ${proposal.votingEndHeight}`;
+        }
+        if (data.votes?.[payload.proposalId]) {
+          return `${label}: already voted on ${payload.proposalId}`;
+        }
+        data.votes = data.votes || {};
+        data.votes[payload.proposalId] = payload.choice;
+        break;
+      }
+    }
+
+    data.publicKey = tx.publicKey;
+    sender.nonce += 1;
+    sender.lastActivity = tx.timestamp;
+    touched[tx.from] = sender;
+
+    for (const [address, account] of Object.entries(touched)) {
+      state[address] = BlockchainStateManager.compactAccount(account);
+    }
+    return null;
+  }
+
+  /**
+   * Verify double-sign evidence against the validator's bound key and burn the
+   * configured share of its own and delegated stake, and of stake that started
+   * unbonding from it at or after the offence height; returns an error when invalid.
+   */
+  private applyEvidence(state: BlockchainState, evidence: EquivocationEvidence, timestamp: number): string | null {
+    const label = `Evidence ${evidence.hash?.substring(0, 16)} against ${evidence.validatorId}`;
+    const validator = this.cloneAccount(state, evidence.validatorId, timestamp);
+    // Only keys bound on-chain are trusted, so every node verifies against the same key
+    const invalid = EvidencePool.verifyEvidence(evidence, validator.data!.publicKey);
+    if (invalid) {
+      return `${label}: ${invalid}`;
+    }
+    const offence = EvidencePool.offenceKey(evidence);
+    if (validator.data!.slashed?.[offence] !== undefined) {
+      return `${label}: offence ${offence} is already slashed`;
+    }
+
+    const rate = BlockchainStateManager.parametersOf(state)['consensus.doubleSignSlashRate'];
+    const touched: BlockchainState = {};
+    let slashed = (validator.stake || 0) * rate;
+    validator.stake = (validator.stake || 0) - slashed;
+    for (const [address, account] of Object.entries(state)) {
+      const delegated = address === evidence.validatorId ? 0 : account.data?.delegations?.[evidence.validatorId] || 0;
+      const unbonding = Object.entries(account.data?.unbonding || {})
+        .filter(([, entry]) => entry.validatorId === evidence.validatorId && entry.startHeight >= evidence.height);
+      if (!delegated && unbonding.length === 0) continue;
+      const delegator = address === evidence.validatorId ? validator : this.cloneAccount(state, address, account.lastActivity);
+      if (delegated) {
+        const penalty = delegated * rate;
+        delegator.data!.delegations![evidence.validatorId] = delegated - penalty;
+        validator.data!.delegatedStake = (validator.data!.delegatedStake || 0) - penalty;
+        slashed += penalty;
+      }
+      for (const [id, entry] of unbonding) {
+        const penalty = entry.amount * rate;
+        delegator.data!.unbonding![id] = { ...entry, amount: entry.amount - penalty };
+        slashed += penalty;
+      }
+      touched[address] = delegator;
+    }
+    // Stake redelegated away after the offence is slashed at the validator it moved to
+    for (const [address, account] of Object.entries(state)) {
+      const redelegations = Object.entries(account.data?.redelegations || {})
+        .filter(([, entry]) => entry.fromValidatorId === evidence.validatorId && entry.startHeight >= evidence.height);
+      if (redelegations.length === 0) continue;
+      const delegator = touched[address] || this.cloneAccount(state, address, account.lastActivity);
+      for (const [id, entry] of redelegations) {
+        const target = touched[entry.toValidatorId] || this.cloneAccount(state, entry.toValidatorId, timestamp);
+        const current = delegator.data!.delegations?.[entry.toValidatorId] || 0;
+        const penalty = Math.min(entry.amount * rate, current);
+        delegator.data!.delegations![entry.toValidatorId] = current - penalty;
+        delegator.data!.redelegations![id] = { ...entry, amount: entry.amount - penalty };
+        target.data!.delegatedStake = (target.data!.delegatedStake || 0) - penalty;
+        touched[entry.toValidatorId] = target;
+        slashed += penalty;
+      }
+      touched[address] = delegator;
+    }
+    validator.data!.slashed = { ...validator.data!.slashed, [offence]: slashed };
+    touched[evidence.validatorId] = validator;
+
+    // Slashed stake is burned rather than redistributed
+    for (const [address, account] of Object.entries(touched)) {
+      state[address] = BlockchainStateManager.compactAccount(account);
+    }
+    return null;
+  }
+
+  /**
+   * Add the block reward to the unclaimed rewards of the producer and its delegators. The
+   * producer keeps the default commission; the rest is split by own and delegated stake.
+   * Delegator shares are rounded down to 8 decimals and the remainder goes to the producer.
+   */
+  private accrueBlockReward(state: BlockchainState, block: EnhancedBlock): void {
+    const producerId = block.header.validatorId;
+    if (!producerId) return; // Dry runs build blocks without a producer
+    const reward = calculateBlockReward(block.header.blockNumber, BlockchainStateManager.parametersOf(state));
+    const producer = this.cloneAccount(state, producerId, block.header.timestamp);
+    const delegatedStake = producer.data!.delegatedStake || 0;
+    const totalStake = (producer.stake || 0) + delegatedStake;
+    const distributable = reward * (1 - CONFIG.consensus.staking.defaultCommission / 100);
+
+    let paid = 0;
+    if (delegatedStake > 0) {
+      for (const address of Object.keys(state).sort()) {
+        const delegated = address === producerId ? 0 : state[address].data?.delegations?.[producerId] || 0;
+        const share = Math.floor(distributable * delegated / totalStake * 1e8) / 1e8;
+        if (!(share > 0)) continue;
+        const delegator = this.cloneAccount(state, address, state[address].lastActivity);
+        delegator.data!.rewards = (delegator.data!.rewards || 0) + share;
+        state[address] = BlockchainStateManager.compactAccount(delegator);
+        paid += share;
+      }
+    }
+    producer.data!.rewards = (producer.data!.rewards || 0) + reward - paid;
+    state[producerId] = BlockchainStateManager.compactAccount(producer);
+  }
+
+  /**
+   * Move unbonding stake that reached its completion height to the owner's balance, and
+   * drop redelegations that are no longer slashable for their source validator
+   */
+  private releaseUnbonding(state: BlockchainState, height: number): void {
+    for (const [address, account] of Object.entries(state)) {
+      const due = Object.entries(account.data?.unbonding || {}).filter(([, entry]) => entry.completionHeight <= height);
+      const settled = Object.entries(account.data?.redelegations || {}).filter(([, entry]) => entry.completionHeight <= height);
+      if (due.length === 0 && settled.length === 0) continue;
+      const owner = this.cloneAccount(state, address, account.lastActivity);
+      for (const [id, entry] of due) {
+        owner.balance += entry.amount;
+        delete owner.data!.unbonding![id];
+      }
+      for (const [id] of settled) {
+        delete owner.data!.redelegations![id];
+      }
+      state[address] = BlockchainStateManager.compactAccount(owner);
+    }
+  }
+
+  private static startUnbonding(data: AccountData, id: string, validatorId: string, amount: number, height: number): void {
+    const entry: UnbondingStake = { validatorId, amount, startHeight: height, completionHeight: height + UNBONDING_BLOCKS };
+    data.unbonding = { ...data.unbonding, [id]: entry };
+  }
+
+  /**
+   * Tally proposals whose voting period ended and activate passed proposals that
+   * reached their activation height. Runs after every block's transactions and evidence.
+   */
+  private applyGovernance(state: BlockchainState, height: number, timestamp: number): void {
+    const current = state[GOVERNANCE_ACCOUNT]?.data?.governance;
+    if (!current) return;
+    const due = Object.values(current.proposals)
+      .filter(proposal =>
+        (proposal.status === 'voting' && height >= proposal.votingEndHeight) ||
+        (proposal.status === 'passed' && height >= proposal.activationHeight))
+      .sort((a, b) => a.id.localeCompare(b.id));
+    if (due.length === 0) return;
+
+    const account = this.cloneAccount(state, GOVERNANCE_ACCOUNT, timestamp);
+    const governance = account.data!.governance!;
+    for (const { id } of due) {
+      const proposal = governance.proposals[id];
+      if (proposal.status === 'voting') {
+        // Quorum and threshold in force when voting closes decide the outcome
+        const parameters = { ...defaultParameters(), ...governance.parameters };
+        proposal.tally = BlockchainStateManager.tallyVotes(state, id);
+        const { yes, no, abstain, bondedStake } = proposal.tally;
+        const quorumReached = bondedStake > 0 && (yes + no + abstain) / bondedStake >= parameters['governance.quorum'];
+        const thresholdReached = yes + no > 0 && yes / (yes + no) > parameters['governance.threshold'];
+        proposal.status = quorumReached && thresholdReached ? 'passed' : 'rejected';
+        console.log(`🗳️ Proposal ${id} ${proposal.status} at height ${height} (yes ${yes}, no ${no}, abstain ${abstain} of ${bondedStake})`);
+      } else {
+        governance.parameters = { ...governance.parameters, ...proposal.changes };
+        governance.history = [...governance.history, { height, proposalId: id, changes: proposal.changes }];
+        proposal.status = 'activated';
+        console.log(`🗳️ Proposal ${id} activated at height ${height}:`, proposal.changes);
+      }
+    }
+    state[GOVERNANCE_ACCOUNT] = account;
+  }
+
+  /**
+   * Stake-weighted vote totals for a proposal over the given state
+   */
+  private static tallyVotes(state: BlockchainState, proposalId: string): GovernanceTally {
+    const tally: GovernanceTally = { yes: 0, no: 0, abstain: 0, bondedStake: 0 };
+    for (const address of Object.keys(state).sort()) {
+      const account = state[address];
+      const power = BlockchainStateManager.votingPower(account);
+      tally.bondedStake += power;
+      const choice = account.data?.votes?.[proposalId];
+      if (choice && power > 0) tally[choice] += power;
+    }
+    return tally;
+  }
+
+  /**
+   * An account votes with its own bonded stake plus the stake it has delegated
+   */
+  private static votingPower(account: BlockchainState[string] | undefined): number {
+    if (!account) return 0;
+    const delegated = Object.values(account.data?.delegations || {}).reduce((sum, amount) => sum + amount, 0);
+    return (account.stake || 0) + delegated;
+  }
+
+  private static parametersOf(state: BlockchainState): ParameterSet {
+    return { ...defaultParameters(), ...state[GOVERNANCE_ACCOUNT]?.data?.governance?.parameters };
+  }
+
+  /**
+   * Check the signature over the transaction hash and that the signing key owns the sender account
+   */
+  private authenticateTransaction(tx: EmotionalTransaction, data: AccountData): string | null {
+    if (!tx.publicKey || !tx.signature) {
+      return 'user transactions must carry a public key and signature';
+    }
+    if (!/^([0-9a-fA-F]{2})+$/.test(tx.publicKey)) {
+      return 'malformed public key';
+    }
+    const publicKey = Buffer.from(tx.publicKey, 'hex');
+
+    if (data.publicKey) {
+      if (data.publicKey !== tx.publicKey) return 'public key does not match the key bound to the account';
+    } else if (/^0x[0-9a-fA-F]{40}$/.test(tx.from)) {
+      if (TransactionCrypto.deriveAddress(publicKey).toLowerCase() !== tx.from.toLowerCase()) {
+        return 'public key does not derive the sender address';
+      }
+    } else if (this.validatorKeys.get(tx.from) !== tx.publicKey) {
+      return `public key is not registered for ${tx.from}`;
+    }
+
+    const hash = BlockchainStateManager.transactionHash(tx);
+    if (tx.hash && tx.hash !== hash) {
+      return 'transaction hash does not match its contents';
+    }
+    if (!ProductionCrypto.verifyECDSASignature(new TextEncoder().encode(hash), tx.signature, publicKey)) {
+      return 'invalid signature';
+    }
+    return null;
+  }
+
+  /**
+   * Register the key a named (validator) account binds on its first typed transaction
+   */
+  public registerValidatorKey(validatorId: string, publicKey: string): void {
+    this.validatorKeys.set(validatorId, publicKey);
+  }
+
+  public getValidatorKey(validatorId: string): string | undefined {
+    return this.validatorKeys.get(validatorId);
+  }
+
+  private cloneAccount(state: BlockchainState, address: string, timestamp: number): BlockchainState[string] {
+    const account = state[address] || { balance: 0, nonce: 0, lastActivity: timestamp };
+    return { ...account, data: structuredClone(account.data || {}) };
+  }
+
+  /**
+   * Drop empty typed state so untouched fields never change an account's state leaf
+   */
+  private static compactAccount(account: BlockchainState[string]): BlockchainState[string] {
+    const data: Record<string, any> = { ...account.data };
+    for (const [key, value] of Object.entries(data)) {
+      if (value && typeof value === 'object') {
+        for (const [entry, amount] of Object.entries(value)) {
+          if (amount === 0) delete (value as Record<string, unknown>)[entry];
+        }
+      }
+      if (value === undefined || value === 0 || (typeof value === 'object' && Object.keys(value).length === 0)) {
+        delete data[key];
+      }
+    }
+    const { data: _omit, ...rest } = account;
+    return Object.keys(data).length > 0 ? { ...rest, data } : rest;
+  }
+
   /**
    * Get current blockchain state
    */
@@ -198,8 +805,42 @@ export class BlockchainStateManager {
   /**
    * Update state after successful block validation
    */
-  public updateState(newState: BlockchainState): void {
+  public updateState(newState: BlockchainState, height?: number): void {
     this.currentState = { ...newState };
+    this.stateTrie = null;
+    this.legacyStateRootsAllowed = false;
+    if (height !== undefined) this.currentHeight = height;
+    governanceParameters.sync(this.getGovernanceState());
+  }
+
+  /**
+   * Height of the last block applied to the current state
+   */
+  public getCurrentHeight(): number {
+    return this.currentHeight;
+  }
+
+  /**
+   * Get proposals, parameter overrides and activation history committed on the governance account
+   */
+  public getGovernanceState(): GovernanceState {
+    return this.currentState[GOVERNANCE_ACCOUNT]?.data?.governance || emptyGovernanceState();
+  }
+
+  /**
+   * Get the governable parameter set in force at the current state
+   */
+  public getActiveParameters(): ParameterSet {
+    return BlockchainStateManager.parametersOf(this.currentState);
+  }
+
+  /**
+   * Get the current stake-weighted tally of a proposal still open for votes
+   */
+  public getProposalTally(proposalId: string): GovernanceTally | null {
+    const proposal: GovernanceProposal | undefined = this.getGovernanceState().proposals[proposalId];
+    if (!proposal) return null;
+    return proposal.tally || BlockchainStateManager.tallyVotes(this.currentState, proposalId);
   }
 
   /**
@@ -209,6 +850,84 @@ export class BlockchainStateManager {
     return this.currentState[address]?.balance || 0;
   }
 
+  /**
+   * Stake backing a validator: its own bonded stake plus stake delegated to it
+   */
+  public getStake(address: string): number {
+    const account = this.currentState[address];
+    return (account?.stake || 0) + (account?.data?.delegatedStake || 0);
+  }
+
+  /**
+   * Every bond and delegation in the current state, in address order; a validator's own
+   * bond is the position where it is also the delegator
+   */
+  public getStakePositions(): StakePosition[] {
+    const positions: StakePosition[] = [];
+    for (const address of Object.keys(this.currentState).sort()) {
+      const account = this.currentState[address];
+      if (account.stake) {
+        positions.push({ validatorAddress: address, delegatorAddress: address, amount: account.stake });
+      }
+      for (const [validatorAddress, amount] of Object.entries(account.data?.delegations || {})) {
+        if (amount > 0) positions.push({ validatorAddress, delegatorAddress: address, amount });
+      }
+    }
+    return positions;
+  }
+
+  /**
+   * Stake still unbonding in the current state, keyed by the transaction that started it
+   */
+  public getUnbonding(): Array<UnbondingStake & { id: string; delegatorAddress: string }> {
+    return Object.keys(this.currentState).sort().flatMap(address =>
+      Object.entries(this.currentState[address].data?.unbonding || {})
+        .map(([id, entry]) => ({ ...entry, id, delegatorAddress: address }))
+    );
+  }
+
+  /**
+   * Get typed transaction state (bound key, delegations, devices, consents, votes) for an address
+   */
+  public getAccountData(address: string): AccountData | null {
+    return this.currentState[address]?.data || null;
+  }
+
+  /**
+   * Get confirmed nonce (number of included transactions) for specific address
+   */
+  public getNonce(address: string): number {
+    return this.currentState[address]?.nonce || 0;
+  }
+
+  /**
+   * Get Merkle proof of an account's balance, stake and nonce against the current state root
+   */
+  public getStateProof(address: string): StateProof {
+    return this.getStateTrie().getProof(address);
+  }
+
+  /**
+   * Get current state root
+   */
+  public getCurrentStateRoot(): string {
+    return this.getStateTrie().getRoot();
+  }
+
+  /**
+   * Verify a state proof against a trusted root
+   */
+  public static verifyStateProof(proof: StateProof, trustedRoot?: string): boolean {
+    return SparseMerkleStateTrie.verifyProof(proof, trustedRoot);
+  }
+
+  private getStateTrie(): SparseMerkleStateTrie {
+    if (!this.stateTrie) {
+      this.stateTrie = SparseMerkleStateTrie.fromState(this.currentState);
+    }
+    return this.stateTrie;
+  }
+
   /**
    * Get all account balances
    */
@@ -221,11 +940,15 @@ export class BlockchainStateManager {
   }
 
   /**
-   * Sync state from blockchain blocks (recovery mechanism)
+   * Sync state from blockchain blocks (recovery mechanism).
+   * With a snapshot base state, only blocks after the snapshot are replayed.
    */
-  public syncFromBlockchain(blocks: EnhancedBlock[]): void {
-    // Reset to genesis
-    this.currentState = { ...this.genesisState };
+  public syncFromBlockchain(blocks: EnhancedBlock[], baseState?: BlockchainState, baseHeight = 0): void {
+    // Reset to genesis, or to a verified snapshot (always committed by a trie root)
+    this.currentState = { ...(baseState || this.genesisState) };
+    this.currentHeight = baseHeight;
+    this.stateTrie = null;
+    this.legacyStateRootsAllowed = !baseState;
 
     // Apply all blocks in order
     const sortedBlocks = blocks.sort((a, b) => a.header.blockNumber - b.header.blockNumber);
@@ -234,9 +957,14 @@ export class BlockchainStateManager {
       const validation = this.validateStateTransition(this.currentState, block);
       if (validation.valid) {
         this.currentState = validation.newState;
+        this.currentHeight = block.header.blockNumber;
+        if (block.header.stateRoot === this.calculateStateRoot(validation.newState)) {
+          this.legacyStateRootsAllowed = false;
+        }
       } else {
         console.error(`Block ${block.header.blockNumber} validation failed:`, validation.errors);
       }
     }
+    governanceParameters.sync(this.getGovernanceState());
   }
 }
\ No newline at end of file
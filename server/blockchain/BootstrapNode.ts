@@ -2,13 +2,21 @@
 import { EmotionalChain } from './EmotionalChain';
 import { EmotionalNetwork } from './EmotionalNetwork';
 import { biometricDeviceManager } from '../biometric/BiometricDeviceManager';
+import { P2PNode } from '../../network/P2PNode';
+import { PeerManager } from '../../network/PeerManager';
+import { PeerDiscovery } from '../../network/PeerDiscovery';
+import { EmotionalProtocol, MessageType } from '../../network/EmotionalProtocol';
+import { CONFIG } from '../../shared/config';
 export class BootstrapNode {
   private blockchain: EmotionalChain;
   private network: EmotionalNetwork;
   private port: number;
   private statsInterval: NodeJS.Timeout | null = null;
   private isShuttingDown: boolean = false;
-  constructor(port: number = 8000) {
+  private p2pNode: P2PNode | null = null;
+  private peerManager: PeerManager | null = null;
+  private peerDiscovery: PeerDiscovery | null = null;
+  constructor(port: number = CONFIG.network.p2p.port) {
     this.port = port;
     this.blockchain = new EmotionalChain();
     this.network = new EmotionalNetwork(this.blockchain, `bootstrap_${port}`, port);
@@ -18,6 +26,12 @@ export class BootstrapNode {
       // EmotionalChain Bootstrap Node started
       // Add a small delay to ensure network is fully initialized
       await new Promise(resolve => setTimeout(resolve, 1000));
+      if (CONFIG.network.discovery.roles.includes('bootstrap')) {
+        // The local chain keeps running when the P2P port is taken, e.g. by another node in this process
+        await this.startDiscovery().catch(error =>
+          console.error(`❌ Not serving node records on port ${this.port}: ${error.message}`)
+        );
+      }
       // Start mining with test validators
       this.startMining();
       this.startStatsMonitoring();
@@ -26,6 +40,38 @@ export class BootstrapNode {
       throw error;
     }
   }
+  /**
+   * Serve signed node records over peer exchange on the P2P port. Nodes that list this node
+   * in their static peers file or bootstrap list learn each other's records from it, so a
+   * validator network can form without the public DHT.
+   */
+  private async startDiscovery(): Promise<void> {
+    const nodeKey = await PeerDiscovery.loadNodeKey(CONFIG.network.discovery.nodeKeyFile);
+    this.p2pNode = new P2PNode({
+      nodeId: `bootstrap_${this.port}`,
+      listenPort: this.port,
+      bootstrapPeers: CONFIG.network.p2p.bootstrapNodes,
+      maxConnections: CONFIG.network.p2p.maxPeers,
+      minConnections: 0,
+      enableWebRTC: false,
+      enableTCP: true,
+      enableWebSockets: true,
+      enableDHT: CONFIG.network.discovery.useDHT,
+      privateKey: nodeKey.privateKey
+    });
+    await this.p2pNode.start();
+    const peerId: string = this.p2pNode.getNodeInfo().peerId;
+    // Hello with no genesis or height: a bootstrap node relays records and keeps no chain
+    const protocol = new EmotionalProtocol(peerId, nodeKey, { capabilities: [MessageType.PEER_EXCHANGE] });
+    await this.p2pNode.enableHandshake(protocol, async () => ({ genesisHash: null, bestHeight: 0, bestHash: null }));
+    this.peerManager = new PeerManager(peerId, this.p2pNode);
+    this.peerDiscovery = new PeerDiscovery(this.p2pNode, this.peerManager);
+    await this.peerDiscovery.start();
+    await this.peerManager.start();
+  }
+  public getPeerDiscovery(): PeerDiscovery | null {
+    return this.peerDiscovery;
+  }
   private startStatsMonitoring(): void {
     this.statsInterval = setInterval(() => {
       if (this.isShuttingDown) {
@@ -52,6 +98,13 @@ export class BootstrapNode {
     if (this.network) {
       this.network.shutdown();
     }
+    this.peerDiscovery?.stop();
+    if (this.peerManager) {
+      await this.peerManager.stop();
+    }
+    if (this.p2pNode) {
+      await this.p2pNode.stop();
+    }
   }
   public getBlockchain(): EmotionalChain {
     return this.blockchain;
@@ -0,0 +1,167 @@
+/**
+ * Chain Proofs
+ * Serves signed block headers with their quorum certificates and validator set changes, the validator set and transaction inclusion proofs
+ * so light clients can verify the chain without downloading block bodies. Also the source peers sync headers, bodies and transactions from.
+ */
+
+import { asc, eq, gte, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { blocks, transactions, validatorStates } from '@shared/schema';
+import { MerkleTree, type MerkleProof } from '../../crypto/MerkleTree';
+import type { BlockHeader } from '../../crypto/BlockCrypto';
+import type { QuorumCertificate } from '../../crypto/QuorumCertificate';
+import type { ValidatorSetUpdate } from '../../consensus/ValidatorSetManager';
+import { BlockchainStateManager, type EmotionalTransaction } from './BlockchainStateManager';
+
+export interface ValidatorKey {
+  validatorId: string;
+  publicKey: string; // hex encoded secp256k1 public key
+  blsPublicKey: string | null; // hex encoded BLS12-381 public key (quorum certificates)
+  blsProof: string | null; // Proof of possession of the BLS key
+  stake: number;
+}
+
+export type StoredBlock = typeof blocks.$inferSelect;
+
+export interface TransactionInclusionProof {
+  transactionHash: string;
+  blockHeight: number;
+  blockHash: string;
+  transactionIndex: number;
+  proof: MerkleProof;
+  header: BlockHeader;
+}
+
+export class ChainProofs {
+  public static readonly MAX_HEADERS = 500;
+  public static readonly MAX_BODIES = 100;
+
+  /**
+   * Consecutive headers starting at fromHeight, oldest first
+   */
+  public async getHeaders(fromHeight: number, limit: number = 100): Promise<BlockHeader[]> {
+    const rows = await db.select().from(blocks)
+      .where(gte(blocks.height, fromHeight))
+      .orderBy(asc(blocks.height))
+      .limit(Math.min(Math.max(limit, 1), ChainProofs.MAX_HEADERS));
+    return rows.map(row => ChainProofs.toHeader(row));
+  }
+
+  /**
+   * Consecutive full blocks starting at fromHeight, oldest first, for peers syncing forward
+   */
+  public async getBlocks(fromHeight: number, limit: number = 100): Promise<StoredBlock[]> {
+    return db.select().from(blocks)
+      .where(gte(blocks.height, fromHeight))
+      .orderBy(asc(blocks.height))
+      .limit(Math.min(Math.max(limit, 1), ChainProofs.MAX_BODIES));
+  }
+
+  /**
+   * Validator public keys a light client checks header signatures against
+   */
+  public async getValidatorSet(): Promise<ValidatorKey[]> {
+    const rows = await db.select().from(validatorStates).orderBy(asc(validatorStates.validatorId));
+    return rows.map(row => ({
+      validatorId: row.validatorId,
+      publicKey: row.publicKey,
+      blsPublicKey: row.blsPublicKey,
+      blsProof: row.blsProof,
+      stake: parseFloat(row.balance)
+    }));
+  }
+
+  /**
+   * Merkle proof that a transaction is included under its block's transaction root;
+   * null when the transaction is not in any block
+   */
+  public async getTransactionProof(hash: string): Promise<TransactionInclusionProof | null> {
+    const block = await this.findBlockContaining(hash);
+    if (!block) return null;
+
+    const blockTransactions = this.parseTransactions(block.transactions);
+    const leaves = blockTransactions.map(tx => BlockchainStateManager.transactionLeaf(tx));
+    const transactionIndex = leaves.indexOf(hash);
+    if (transactionIndex === -1) return null;
+
+    const tree = new MerkleTree(leaves);
+    if (tree.getRoot() !== block.transactionRoot) {
+      throw new Error(`Block ${block.height} transactions do not reproduce its transaction root`);
+    }
+
+    return {
+      transactionHash: hash,
+      blockHeight: block.height,
+      blockHash: block.hash,
+      transactionIndex,
+      proof: tree.getProof(hash)!,
+      header: ChainProofs.toHeader(block)
+    };
+  }
+
+  public static toHeader(block: typeof blocks.$inferSelect): BlockHeader {
+    const validatorSet = (block.validatorSet as ValidatorSetUpdate | null) ?? null;
+    return {
+      height: block.height,
+      hash: block.hash,
+      parentHash: block.previousHash,
+      stateRoot: block.stateRoot,
+      transactionRoot: block.transactionRoot,
+      timestamp: block.timestamp,
+      validatorId: block.validatorId,
+      emotionalScore: parseFloat(block.emotionalScore),
+      signature: block.signature,
+      quorumCertificate: (block.quorumCertificate as QuorumCertificate | null) ?? null,
+      validatorSetHash: validatorSet?.validatorSetHash ?? null,
+      validatorSet
+    };
+  }
+
+  /**
+   * Stored block body by hash, for peers fetching blocks they missed; null when unknown
+   */
+  public async getBlockBody(hash: string): Promise<typeof blocks.$inferSelect | null> {
+    const [block] = await db.select().from(blocks).where(eq(blocks.hash, hash)).limit(1);
+    return block || null;
+  }
+
+  /**
+   * A transaction included in a block, by hash; null when it is not in any block
+   */
+  public async getTransaction(hash: string): Promise<(EmotionalTransaction & { hash: string }) | null> {
+    const block = await this.findBlockContaining(hash);
+    if (!block) return null;
+
+    const transaction = this.parseTransactions(block.transactions)
+      .find(tx => BlockchainStateManager.transactionLeaf(tx) === hash);
+    return transaction ? { ...transaction, hash } : null;
+  }
+
+  private async findBlockContaining(hash: string): Promise<typeof blocks.$inferSelect | null> {
+    // Transaction cache first, then the immutable block bodies themselves
+    const [cached] = await db.select({ blockHash: transactions.blockHash }).from(transactions)
+      .where(eq(transactions.hash, hash))
+      .limit(1);
+    if (cached?.blockHash) {
+      const [block] = await db.select().from(blocks).where(eq(blocks.hash, cached.blockHash)).limit(1);
+      if (block) return block;
+    }
+
+    const [block] = await db.select().from(blocks)
+      .where(sql`${blocks.transactions} @> ${JSON.stringify([{ hash }])}::jsonb`)
+      .limit(1);
+    return block || null;
+  }
+
+  private parseTransactions(stored: unknown): Array<EmotionalTransaction & { hash?: string }> {
+    if (Array.isArray(stored)) return stored;
+    if (typeof stored === 'string') {
+      try {
+        return JSON.parse(stored);
+      } catch (error) {
+        return [];
+      }
+    }
+    return [];
+  }
+}
@@ -3,14 +3,30 @@
  * Bridges the gap between existing consensus engine and main blockchain
  */
 import { EmotionalChain } from './EmotionalChain';
+import { ImmutableBlockchainService } from './ImmutableBlockchainService';
+import { BlockchainStateManager, type EmotionalTransaction } from './BlockchainStateManager';
 import { P2PNode } from '../../network/P2PNode';
+import { PeerManager } from '../../network/PeerManager';
+import { BlockSync, type SyncBlock, type SyncTransaction } from '../../network/BlockSync';
+import { BlockPropagation } from '../../network/BlockPropagation';
+import { PeerDiscovery } from '../../network/PeerDiscovery';
 import { ProofOfEmotionEngine } from '../../consensus/ProofOfEmotionEngine';
 import { storage } from '../storage';
+import { ChainProofs, type StoredBlock } from './ChainProofs';
+import { optimizedP2P } from '../p2p/optimizedGossip';
+import { networkHardeningService } from '../services/network-hardening-service';
+import { CONFIG } from '../../shared/config';
 
 export class DistributedConsensus {
   private blockchain: EmotionalChain;
   private p2pNode: P2PNode;
   private consensusEngine: ProofOfEmotionEngine;
+  private peerManager: PeerManager | null = null;
+  private blockSync: BlockSync | null = null;
+  private blockPropagation: BlockPropagation | null = null;
+  private chainProofs = new ChainProofs();
+  private catchingUp = false;
+  private peerDiscovery: PeerDiscovery | null = null;
   private isEnabled: boolean = false;
 
   constructor(blockchain: EmotionalChain) {
@@ -18,12 +34,15 @@ export class DistributedConsensus {
   }
 
   async initialize(): Promise<void> {
-    // Initialize P2P node
+    // Initialize P2P node; its peer id derives from the node key that signs its node record
+    const nodeKey = await PeerDiscovery.loadNodeKey(CONFIG.network.discovery.nodeKeyFile);
     this.p2pNode = new P2PNode({
       listenPort: 9001,
-      bootstrapPeers: process.env.BOOTSTRAP_PEERS?.split(',') || [],
+      bootstrapPeers: CONFIG.network.p2p.bootstrapNodes,
+      privateKey: nodeKey.privateKey,
       maxConnections: 50,
-      enableWebRTC: true
+      enableWebRTC: true,
+      enableDHT: CONFIG.network.discovery.useDHT
     });
 
     await this.p2pNode.start();
@@ -34,6 +53,29 @@ export class DistributedConsensus {
     await this.consensusEngine.start();
     console.log(' Consensus engine initialized');
 
+    // Serve and request missed headers, blocks and transactions
+    this.peerManager = new PeerManager(this.p2pNode.getNodeInfo()?.peerId || 'local', this.p2pNode, storage);
+    this.peerManager.attachByzantineDetection(networkHardeningService.getByzantineDetection());
+    // Static peers and node records become connection targets before the first dial
+    this.peerDiscovery = new PeerDiscovery(this.p2pNode, this.peerManager);
+    await this.peerDiscovery.start();
+    await this.peerManager.start();
+    this.blockSync = new BlockSync(this.p2pNode, this.peerManager, this.chainProofs);
+    await this.blockSync.start();
+    // Orphan blocks fetch their missing ancestors over block sync
+    this.blockPropagation = new BlockPropagation();
+    this.blockPropagation.setBlockSync(this.blockSync);
+    console.log(' Block sync initialized');
+
+    // Relay transactions between mempools
+    await optimizedP2P.enableTransactionGossip({
+      p2pNode: this.p2pNode,
+      peerManager: this.peerManager,
+      mempool: this.blockchain.getMempool(),
+      validate: transaction => this.blockchain.checkTransaction(transaction),
+      accept: transaction => this.blockchain.addTransaction(transaction)
+    });
+
     // Bridge consensus events to blockchain
     this.setupEventBridging();
     
@@ -64,6 +106,23 @@ export class DistributedConsensus {
       await this.blockchain.addConsensusBlock(blockchainBlock);
     });
 
+    // Double-sign evidence is slashed by the chain state transition, in the next block produced
+    this.consensusEngine.on('equivocation-evidence', (evidence) => {
+      try {
+        ImmutableBlockchainService.getInstance().submitEvidence(evidence);
+      } catch (error) {
+        console.warn(`Equivocation evidence against ${evidence.validatorId} not queued: ${(error as Error).message}`);
+      }
+    });
+
+    // A peer whose hello reports a longer chain is a source to catch up from
+    this.p2pNode.on('peer:handshake', ({ bestHeight }) => {
+      this.catchUp(bestHeight).catch(error => console.warn(`Catch-up sync failed: ${error.message}`));
+    });
+    this.blockPropagation?.on('ancestorsFetched', ({ ancestors }) => {
+      this.importSyncedBlocks(ancestors).catch(error => console.warn(`Orphan ancestors not imported: ${error.message}`));
+    });
+
     // Forward blockchain events to network
     this.blockchain.on('transaction-pending', (transaction) => {
       if (this.isEnabled) {
@@ -72,10 +131,52 @@ export class DistributedConsensus {
     });
   }
 
+  /**
+   * Download the blocks from the local tip up to bestHeight and import them. One catch-up
+   * runs at a time; hellos arriving meanwhile start another once it finishes, if still behind.
+   */
+  private async catchUp(bestHeight: number): Promise<void> {
+    if (this.catchingUp || !this.blockSync) return;
+    this.catchingUp = true;
+    try {
+      const tip = await ImmutableBlockchainService.getInstance().getChainTip();
+      if (bestHeight <= tip.height) return;
+      await this.importSyncedBlocks(await this.blockSync.syncRange(tip.height + 1, bestHeight));
+    } finally {
+      this.catchingUp = false;
+    }
+  }
+
+  /**
+   * Import synced blocks oldest first; ImmutableBlockchainService.importBlock checks the
+   * producer signature and state transition that block sync leaves to the caller
+   */
+  private async importSyncedBlocks(syncedBlocks: SyncBlock[]): Promise<void> {
+    const chain = ImmutableBlockchainService.getInstance();
+    for (const block of syncedBlocks) {
+      if (block.height <= (await chain.getChainTip()).height) continue;
+      await chain.importBlock(block as StoredBlock);
+    }
+  }
+
+  /**
+   * A transaction by hash from the local chain, or else from peers
+   */
+  async getTransaction(hash: string): Promise<SyncTransaction | null> {
+    const local = await this.chainProofs.getTransaction(hash);
+    if (local || !this.blockSync) return local;
+    return this.blockSync.requestTransaction(hash, tx => BlockchainStateManager.transactionHash(tx as EmotionalTransaction));
+  }
+
   async shutdown(): Promise<void> {
+    optimizedP2P.disableTransactionGossip();
     if (this.consensusEngine) {
       await this.consensusEngine.stop();
     }
+    this.peerDiscovery?.stop();
+    if (this.peerManager) {
+      await this.peerManager.stop();
+    }
     if (this.p2pNode) {
       await this.p2pNode.stop();
     }
@@ -92,6 +193,10 @@ export class DistributedConsensus {
       connectedPeers: this.p2pNode.getPeerCount(),
       consensusState: this.consensusEngine.getState(),
       networkHealth: this.p2pNode.getNetworkHealth(),
+      sync: this.blockSync?.getStats() || null,
+      peers: this.peerManager?.getPeerScores() || [],
+      discovery: this.peerDiscovery?.getStats() || null,
+      nodeRecord: this.peerDiscovery?.getLocalRecord() || null,
       isDistributed: true
     };
   }
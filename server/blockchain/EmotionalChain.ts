@@ -5,6 +5,10 @@ import { ProductionCrypto } from '../../crypto/ProductionCrypto';
 import { BlockCrypto, CryptographicBlock } from '../../crypto/BlockCrypto';
 import { storage } from '../storage';
 import { CryptoPerformanceMonitor } from '../monitoring/CryptoPerformanceMonitor';
+import { Mempool, MempoolError } from './Mempool';
+import { ImmutableBlockchainService, type PendingTransaction } from './ImmutableBlockchainService';
+import { BlockchainStateManager } from './BlockchainStateManager';
+import { transactionReceiptService } from '../services/transaction-receipts';
 import * as crypto from 'crypto';
 
 // PRODUCTION-GRADE: Async mutex for thread-safe voting
@@ -26,7 +30,10 @@ class AsyncMutex {
 
 export class EmotionalChain extends EventEmitter {
   private chain: CryptographicBlock[] = [];
-  private pendingTransactions: any[] = [];
+  private pendingTransactions: any[] = []; // System-generated transactions (rewards, heartbeats) outside the fee market
+  private mempool: Mempool<PendingTransaction> = ImmutableBlockchainService.getInstance().getMempool(); // The node's one mempool
+  private readonly SYSTEM_SENDERS = ['stakingPool', 'emotionalNetwork', 'emotionalValidation'];
+  private readonly MAX_BLOCK_TRANSACTIONS = 100;
   private difficulty: number = 2;
   private isMining: boolean = false;
   private miningInterval: NodeJS.Timeout | null = null;
@@ -494,8 +501,73 @@ export class EmotionalChain extends EventEmitter {
     };
   }
   public addTransaction(transaction: any): boolean {
-    this.pendingTransactions.push(transaction);
-    return true;
+    if (this.SYSTEM_SENDERS.includes(transaction.from)) {
+      this.pendingTransactions.push(transaction);
+      return true;
+    }
+    // User transactions go through the mempool for nonce ordering and fee priority
+    const pooled: PendingTransaction = {
+      ...transaction,
+      id: transaction.id || crypto.randomUUID(),
+      emotionalProofHash: transaction.emotionalProofHash || '',
+      signature: transaction.signature || '',
+      blockNumber: 0,
+      nonce: transaction.nonce ?? this.mempool.getNextNonce(transaction.from),
+      fee: transaction.fee ?? 0
+    };
+    pooled.hash = transaction.hash || BlockchainStateManager.transactionHash(pooled);
+    // Unsigned or unfunded transactions would only fail when the block is built
+    const rejection = this.checkTransaction(pooled);
+    if (rejection) {
+      console.warn(`MEMPOOL: Rejected transaction from ${pooled.from}: ${rejection}`);
+      return false;
+    }
+    try {
+      this.mempool.add(pooled);
+      transactionReceiptService.recordPending(pooled).catch(error => {
+        console.error(`Failed to record pending receipt for ${pooled.hash}:`, error);
+      });
+      return true;
+    } catch (error) {
+      if (error instanceof MempoolError) {
+        console.warn(`MEMPOOL: Rejected transaction from ${pooled.from} (${error.reason}): ${error.message}`);
+        return false;
+      }
+      throw error;
+    }
+  }
+  /**
+   * Check a transaction, local or received from a peer, before it enters the mempool and is
+   * relayed; returns the reason it is invalid, or null
+   */
+  public checkTransaction(transaction: any): string | null {
+    if (!transaction || typeof transaction.from !== 'string' || typeof transaction.to !== 'string') {
+      return 'missing sender or recipient';
+    }
+    if (this.SYSTEM_SENDERS.includes(transaction.from)) {
+      return 'system transactions are only created locally';
+    }
+    if (typeof transaction.amount !== 'number' || !isFinite(transaction.amount) || transaction.amount < 0) {
+      return 'invalid amount';
+    }
+    if (!Number.isInteger(transaction.nonce) || transaction.nonce < 0) {
+      return 'invalid nonce';
+    }
+    if (typeof transaction.fee !== 'number' || transaction.fee < 0) {
+      return 'invalid fee';
+    }
+    if (typeof transaction.timestamp !== 'number' || Math.abs(Date.now() - transaction.timestamp) > 60 * 60 * 1000) {
+      return 'timestamp more than an hour off';
+    }
+    // Plain transfers and typed transactions alike: the hash must match the signed contents, and a
+    // dry run on top of the sender's pending transactions checks the key, signature, nonce and balance
+    if (transaction.hash !== BlockchainStateManager.transactionHash(transaction)) {
+      return 'hash does not match transaction';
+    }
+    return ImmutableBlockchainService.getInstance().checkAdmission(transaction);
+  }
+  public getMempool(): Mempool<PendingTransaction> {
+    return this.mempool;
   }
   public addValidator(validatorId: string, biometricData: any): boolean {
     this.validators.set(validatorId, {
@@ -588,18 +660,6 @@ export class EmotionalChain extends EventEmitter {
       await this.initializeBlockchain();
       return false;
     }
-    const newBlock = {
-      index: previousBlock.index + 1,
-      timestamp: Date.now(),
-      transactions: [...this.pendingTransactions],
-      previousHash: previousBlock.hash,
-      hash: '',
-      nonce: 0,
-      validator: selectedValidator.id,
-      emotionalScore: selectedValidator.emotionalScore.toString(),
-      consensusScore: this.calculateConsensusScore().toString(),
-      authenticity: selectedValidator.biometricData?.authenticity ? (selectedValidator.biometricData.authenticity * 100).toFixed(2) : "90.00"
-    };
     // Pure Proof of Emotion consensus - NO computational mining required
     const consensusStartTime = Date.now();
     
@@ -614,22 +674,49 @@ export class EmotionalChain extends EventEmitter {
       return false;
     }
     
-    // Generate cryptographic hash for block integrity (NOT for mining difficulty)
-    newBlock.nonce = Math.floor(Math.random() * 1000000); // Random nonce (no mining required)
-    newBlock.hash = this.calculateHash(
-      newBlock.index,
-      newBlock.timestamp,
-      newBlock.transactions,
-      newBlock.previousHash,
-      newBlock.nonce
-    );
+    const consensusScore = this.calculateConsensusScore().toString();
+    const authenticity = selectedValidator.biometricData?.authenticity ? (selectedValidator.biometricData.authenticity * 100).toFixed(2) : "90.00";
+    const systemTransactions = this.pendingTransactions;
+    this.pendingTransactions = [];
+    // User transactions, typed transactions, evidence and governance votes go through the
+    // chain state transition; system transactions are stored alongside in blockData
+    let producedBlock: Awaited<ReturnType<ImmutableBlockchainService['createBlockWithTransactions']>>;
+    try {
+      producedBlock = await ImmutableBlockchainService.getInstance().createBlockWithTransactions(
+        selectedValidator.id,
+        selectedValidator.emotionalScore,
+        {
+          consensusScore,
+          authenticity,
+          biometricData: selectedValidator.biometricData
+        },
+        this.validatorKeys.get(selectedValidator.id)?.privateKey,
+        {
+          transactions: systemTransactions,
+          validator: selectedValidator.id
+        }
+      );
+    } catch (error) {
+      console.error('MINING ERROR: Block production failed:', error);
+      this.pendingTransactions = [...systemTransactions, ...this.pendingTransactions];
+      return false;
+    }
+    const newBlock = {
+      index: producedBlock.header.blockNumber,
+      timestamp: producedBlock.header.timestamp,
+      transactions: [...systemTransactions, ...producedBlock.transactions],
+      previousHash: producedBlock.header.parentHash,
+      hash: producedBlock.hash,
+      nonce: 0,
+      validator: selectedValidator.id,
+      emotionalScore: selectedValidator.emotionalScore.toString(),
+      consensusScore,
+      authenticity
+    };
     
     const consensusTime = Date.now() - consensusStartTime;
     console.log(`POE CONSENSUS: Block validated through emotional fitness in ${consensusTime}ms (no computational mining)`);
     
-    // Emotional consensus achieved - finalize block
-    // Note: Fork resolution available when distributed consensus is enabled
-      
       // Add block to chain with proper cryptographic structure
       const cryptographicBlock = {
         ...newBlock,
@@ -639,35 +726,6 @@ export class EmotionalChain extends EventEmitter {
         difficulty: this.difficulty
       };
       this.chain.push(cryptographicBlock);
-      // CRITICAL: Save block to database
-      try {
-        await storage.createBlock({
-          height: newBlock.index,
-          hash: newBlock.hash,
-          previousHash: newBlock.previousHash,
-          merkleRoot: BlockCrypto.calculateMerkleRoot(newBlock.transactions),
-          transactionRoot: BlockCrypto.calculateMerkleRoot(newBlock.transactions),
-          stateRoot: 'state_' + newBlock.hash.substring(0, 8),
-          timestamp: newBlock.timestamp,
-          nonce: newBlock.nonce,
-          difficulty: this.difficulty,
-          validatorId: selectedValidator.id,
-          emotionalScore: newBlock.emotionalScore,
-          emotionalProof: {
-            consensusScore: newBlock.consensusScore,
-            authenticity: newBlock.authenticity,
-            biometricData: selectedValidator.biometricData
-          },
-          blockData: {
-            transactions: newBlock.transactions,
-            validator: newBlock.validator
-          },
-          transactionCount: newBlock.transactions.length
-        });
-      } catch (error) {
-      }
-      // Clear pending transactions
-      this.pendingTransactions = [];
       // Calculate transaction fees from block
       const transactionFees = newBlock.transactions.reduce((total: number, tx: any) => 
         total + (tx.fee || 0), 0);
@@ -789,7 +847,7 @@ export class EmotionalChain extends EventEmitter {
       console.log(`MINING INTERVAL: Running - isMining: ${this.isMining}, isInitialized: ${this.isInitialized}, validators: ${this.validators.size}`);
       if (this.isMining) {
         // Generate emotional validation transaction if no pending transactions
-        if (this.pendingTransactions.length === 0) {
+        if (this.pendingTransactions.length === 0 && this.mempool.size() === 0) {
           const validators = Array.from(this.validators.values());
           if (validators.length > 0) {
             // Create emotional validation transaction to ensure each block has transactions
@@ -807,7 +865,7 @@ export class EmotionalChain extends EventEmitter {
             });
           }
         }
-        console.log(`MINING INTERVAL: Calling mineBlock() with ${this.pendingTransactions.length} pending transactions`);
+        console.log(`MINING INTERVAL: Calling mineBlock() with ${this.pendingTransactions.length + this.mempool.size()} pending transactions`);
         await this.mineBlock();
       } else {
         console.log(`MINING INTERVAL: Skipping - isMining is false`);
@@ -876,28 +934,6 @@ export class EmotionalChain extends EventEmitter {
       contractStatus: "AUTHENTIC_DISTRIBUTION_ACTIVE"
     };
   }
-  public transferEMO(from: string, to: string, amount: number): boolean {
-    const fromBalance = this.wallets.get(from) || 0;
-    if (fromBalance < amount) {
-      return false; // Insufficient balance
-    }
-    // Deduct from sender
-    this.wallets.set(from, fromBalance - amount);
-    // Add to recipient (create wallet if doesn't exist)
-    const toBalance = this.wallets.get(to) || 0;
-    this.wallets.set(to, toBalance + amount);
-    // Record transaction
-    this.addTransaction({
-      id: crypto.randomUUID(),
-      from,
-      to,
-      amount,
-      type: 'transfer',
-      timestamp: Date.now(),
-      fee: 0.1 // Small transaction fee
-    });
-    return true;
-  }
   public getWalletBalance(validatorId: string): number {
     return this.wallets.get(validatorId) || 0;
   }
@@ -949,7 +985,8 @@ export class EmotionalChain extends EventEmitter {
       validators: this.validators.size,
       activeValidators: Array.from(this.validators.values())
         .filter(v => Date.now() - v.lastActive < 60000).length,
-      pendingTransactions: this.pendingTransactions.length,
+      pendingTransactions: this.pendingTransactions.length + this.mempool.size(),
+      mempool: this.mempool.getStats(),
       difficulty: this.difficulty,
       lastBlock: this.getLatestBlock(),
       consensusScore: this.calculateConsensusScore(),
@@ -4,56 +4,149 @@
  * Implements Bitcoin/Ethereum-level immutability with privacy-preserving architecture
  */
 
-import { BlockchainStateManager, type EmotionalTransaction, type EnhancedBlock } from './BlockchainStateManager';
-import { createHash } from 'crypto';
+import { BlockchainStateManager, type BlockchainState, type EmotionalTransaction, type EnhancedBlock, type StakePosition } from './BlockchainStateManager';
+import { Mempool, type MempoolStats } from './Mempool';
+import { SnapshotManager, type SnapshotChunk, type SnapshotManifest } from './SnapshotManager';
+import type { StateProof } from './StateTrie';
+import { transactionReceiptService } from '../services/transaction-receipts';
+import { BlockCrypto } from '../../crypto/BlockCrypto';
+import { ChainProofs, type StoredBlock } from './ChainProofs';
 import { db } from '../db';
-import { blocks, transactions } from '@shared/schema';
-import { eq, desc } from 'drizzle-orm';
+import { blocks, transactions, validatorStates } from '@shared/schema';
+import { eq, desc, gt } from 'drizzle-orm';
+import { CONFIG } from '../../shared/config';
+import type { AccountData, TransactionEnvelope, UnbondingStake } from '@shared/types/TransactionEnvelope';
+import type { GovernanceState, GovernanceTally, ParameterSet } from '../../shared/governance/parameters';
+import { EvidencePool, type EquivocationEvidence } from '../../consensus/EquivocationEvidence';
+import { FinalityGadget } from '../../consensus/FinalityGadget';
+
+export type PendingTransaction = EmotionalTransaction & { hash: string; nonce: number; fee: number };
+
+export interface TypedTransactionRequest {
+  envelope: TransactionEnvelope;
+  from: string;
+  to?: string; // Recipient for transfers; defaults to the sender for other kinds
+  amount?: number;
+  fee: number;
+  nonce: number;
+  timestamp: number;
+  publicKey: string;
+  signature: string;
+}
 
 export class ImmutableBlockchainService {
+  private static instance: ImmutableBlockchainService;
   private stateManager: BlockchainStateManager;
-  private pendingTransactions: EmotionalTransaction[] = [];
+  private mempool: Mempool<PendingTransaction>;
+  private snapshots: SnapshotManager;
+  private evidencePool = new EvidencePool();
+  private readonly MAX_BLOCK_TRANSACTIONS = 10;
+  private readonly MAX_BLOCK_EVIDENCE = 10;
 
-  constructor() {
+  constructor(snapshots: SnapshotManager = new SnapshotManager()) {
     this.stateManager = new BlockchainStateManager();
+    this.snapshots = snapshots;
+    this.mempool = new Mempool<PendingTransaction>({}, address => this.stateManager.getNonce(address));
+    transactionReceiptService.trackMempool(this.mempool);
     this.initializeFromDatabase();
   }
 
+  /**
+   * The node's chain state and mempool, shared by the API, block production and transaction gossip
+   */
+  public static getInstance(): ImmutableBlockchainService {
+    if (!ImmutableBlockchainService.instance) {
+      ImmutableBlockchainService.instance = new ImmutableBlockchainService();
+    }
+    return ImmutableBlockchainService.instance;
+  }
+
   /**
    * Initialize blockchain state from existing database
    */
   private async initializeFromDatabase(): Promise<void> {
     try {
+      // Named accounts bind their registered key in the state transition, so replay needs the keys first
+      await this.loadValidatorKeys();
 
-      
-      // Load all blocks from database
-      const dbBlocks = await db.select().from(blocks).orderBy(blocks.height);
-      
-      // Convert to enhanced block format
-      const enhancedBlocks: EnhancedBlock[] = dbBlocks.map(block => ({
-        header: {
-          blockNumber: block.height,
-          parentHash: block.previousHash,
-          stateRoot: block.stateRoot || this.calculateDefaultStateRoot(),
-          transactionRoot: block.transactionRoot || this.calculateDefaultTransactionRoot(),
-          timestamp: block.timestamp,
-          consensusData: block.emotionalProof || {},
-          validatorId: block.validatorId,
-          emotionalScore: parseFloat(block.emotionalScore || '0')
-        },
-        transactions: this.parseBlockTransactions(block.transactions),
-        zkProofs: this.parseZKProofs(block.zkProofs)
-      }));
+      // Resume from the latest local snapshot, replaying only the blocks after it
+      const snapshot = await this.loadLocalSnapshot();
+      const dbBlocks = await db.select().from(blocks)
+        .where(gt(blocks.height, snapshot ? snapshot.manifest.height : -1))
+        .orderBy(blocks.height);
 
       // Sync state manager with blockchain data
-      this.stateManager.syncFromBlockchain(enhancedBlocks);
-      
-
+      this.stateManager.syncFromBlockchain(
+        dbBlocks.map(block => this.toEnhancedBlock(block)), snapshot?.state, snapshot?.manifest.height);
     } catch (error) {
       console.error('BLOCKCHAIN IMMUTABILITY: Failed to initialize from database:', error);
     }
   }
 
+  private async loadValidatorKeys(): Promise<void> {
+    const validators = await db.select({ validatorId: validatorStates.validatorId, publicKey: validatorStates.publicKey })
+      .from(validatorStates);
+    for (const { validatorId, publicKey } of validators) {
+      if (publicKey) this.stateManager.registerValidatorKey(validatorId, publicKey);
+    }
+  }
+
+  /**
+   * Load the latest local snapshot if it belongs to this chain
+   */
+  private async loadLocalSnapshot(): Promise<{ manifest: SnapshotManifest; state: BlockchainState } | null> {
+    const manifest = await this.snapshots.getLatestSnapshot();
+    if (!manifest) return null;
+
+    try {
+      // Fast-synced nodes may not hold the snapshot block itself; a different block at that height is a fork
+      const [block] = await db.select({ hash: blocks.hash }).from(blocks).where(eq(blocks.height, manifest.height)).limit(1);
+      if (block && block.hash !== manifest.blockHash) {
+        console.error(`BLOCKCHAIN IMMUTABILITY: Snapshot at height ${manifest.height} does not match local chain, replaying from genesis`);
+        return null;
+      }
+
+      const chunks = await this.readSnapshotChunks(manifest);
+      return { manifest, state: SnapshotManager.restoreState(manifest, chunks) };
+    } catch (error) {
+      console.error(`BLOCKCHAIN IMMUTABILITY: Failed to load snapshot at height ${manifest.height}:`, error);
+      return null;
+    }
+  }
+
+  private async readSnapshotChunks(manifest: SnapshotManifest): Promise<SnapshotChunk[]> {
+    const chunks: SnapshotChunk[] = [];
+    for (const { index } of manifest.chunks) {
+      const chunk = await this.snapshots.getChunk(manifest.height, index);
+      if (!chunk) {
+        throw new Error(`Snapshot chunk ${index} missing`);
+      }
+      chunks.push(chunk);
+    }
+    return chunks;
+  }
+
+  /**
+   * Convert a stored block row to the enhanced block format
+   */
+  private toEnhancedBlock(block: typeof blocks.$inferSelect): EnhancedBlock {
+    return {
+      header: {
+        blockNumber: block.height,
+        parentHash: block.previousHash,
+        stateRoot: block.stateRoot || this.calculateDefaultStateRoot(),
+        transactionRoot: block.transactionRoot || this.calculateDefaultTransactionRoot(),
+        timestamp: block.timestamp,
+        consensusData: block.emotionalProof || {},
+        validatorId: block.validatorId,
+        emotionalScore: parseFloat(block.emotionalScore || '0')
+      },
+      transactions: this.parseBlockTransactions(block.transactions),
+      zkProofs: this.parseZKProofs(block.zkProofs),
+      evidence: Array.isArray(block.evidence) ? block.evidence as EquivocationEvidence[] : []
+    };
+  }
+
   /**
    * Parse transactions from block data
    */
@@ -69,7 +162,11 @@ export class ImmutableBlockchainService {
       emotionalProofHash: tx.emotionalProofHash || '',
       signature: tx.signature || '',
       blockNumber: tx.blockNumber || 0,
-      fee: parseFloat(tx.fee || '0')
+      fee: parseFloat(tx.fee || '0'),
+      nonce: tx.nonce,
+      publicKey: tx.publicKey,
+      ...(tx.hash ? { hash: tx.hash } : {}),
+      ...(tx.envelope ? { envelope: tx.envelope } : {})
     }));
   }
 
@@ -102,6 +199,174 @@ export class ImmutableBlockchainService {
     return this.stateManager.getBalance(address);
   }
 
+  /**
+   * Dry run a user transaction after the sender's pending ones against confirmed state,
+   * as the next block would apply it; returns why it would fail, or null
+   */
+  public checkAdmission(transaction: PendingTransaction): string | null {
+    const pending = this.mempool.getPendingForSender(transaction.from).filter(tx => tx.nonce < transaction.nonce);
+    const dryRun = this.stateManager.validateStateTransition(this.stateManager.getCurrentState(), {
+      header: {
+        blockNumber: this.stateManager.getCurrentHeight() + 1, // Height-dependent checks see the next block
+        parentHash: '',
+        stateRoot: '',
+        transactionRoot: '',
+        timestamp: transaction.timestamp,
+        consensusData: {},
+        validatorId: '',
+        emotionalScore: 0
+      },
+      transactions: [...pending, transaction],
+      zkProofs: []
+    });
+    return dryRun.valid ? null : dryRun.errors.join(', ');
+  }
+
+  /**
+   * Get Merkle proof of an account's state, anchored to the latest block header.
+   * Clients should check proof.root against a stateRoot from a header they trust.
+   */
+  public async getStateProof(address: string): Promise<{
+    proof: StateProof;
+    block: { height: number; hash: string; stateRoot: string | null } | null;
+  }> {
+    const proof = this.stateManager.getStateProof(address);
+    const [latestBlock] = await db.select({
+      height: blocks.height,
+      hash: blocks.hash,
+      stateRoot: blocks.stateRoot
+    }).from(blocks).orderBy(desc(blocks.height)).limit(1);
+
+    return { proof, block: latestBlock || null };
+  }
+
+  /**
+   * Verify a state proof against a trusted state root
+   */
+  public verifyStateProof(proof: StateProof, trustedRoot?: string): boolean {
+    return BlockchainStateManager.verifyStateProof(proof, trustedRoot);
+  }
+
+  /**
+   * Snapshot current state with recent headers and the validator set
+   */
+  public async createSnapshot(): Promise<SnapshotManifest> {
+    // Capture state before any await so it matches the tip header
+    const state = this.stateManager.getCurrentState();
+
+    const headerRows = await db.select().from(blocks)
+      .orderBy(desc(blocks.height))
+      .limit(CONFIG.storage.snapshots.headerCount);
+    const validatorRows = await db.select().from(validatorStates).orderBy(validatorStates.validatorId);
+
+    return this.snapshots.createSnapshot({
+      state,
+      headers: headerRows.reverse().map(block => ({
+        height: block.height,
+        hash: block.hash,
+        parentHash: block.previousHash,
+        stateRoot: block.stateRoot || '',
+        transactionRoot: block.transactionRoot || '',
+        timestamp: block.timestamp,
+        validatorId: block.validatorId
+      })),
+      validators: validatorRows.map(validator => ({
+        validatorId: validator.validatorId,
+        balance: parseFloat(validator.balance),
+        emotionalScore: parseFloat(validator.emotionalScore),
+        reputation: parseFloat(validator.reputation || '100')
+      }))
+    });
+  }
+
+  /**
+   * Fast sync: adopt a snapshot as base state, then replay any later local blocks.
+   * Callers must have matched manifest.blockHash against a finalized header.
+   */
+  public async restoreFromSnapshot(manifest: SnapshotManifest, chunks: SnapshotChunk[]): Promise<void> {
+    const verification = SnapshotManager.verifyManifest(manifest);
+    if (!verification.valid) {
+      throw new Error(`Invalid snapshot manifest: ${verification.errors.join(', ')}`);
+    }
+    const state = SnapshotManager.restoreState(manifest, chunks);
+
+    // Keep it locally to restart from and to serve other syncing peers
+    await this.snapshots.saveSnapshot(manifest, chunks);
+
+    const laterBlocks = await db.select().from(blocks)
+      .where(gt(blocks.height, manifest.height))
+      .orderBy(blocks.height);
+    this.stateManager.syncFromBlockchain(laterBlocks.map(block => this.toEnhancedBlock(block)), state, manifest.height);
+  }
+
+  /**
+   * Height and hash the next block must build on: the latest stored block, or the
+   * snapshot block when a fast-synced node holds nothing newer
+   */
+  public async getChainTip(): Promise<{ height: number; hash: string }> {
+    const [latestBlock] = await db.select({ height: blocks.height, hash: blocks.hash }).from(blocks)
+      .orderBy(desc(blocks.height))
+      .limit(1);
+    const snapshot = await this.snapshots.getLatestSnapshot();
+    if (snapshot && snapshot.height > (latestBlock?.height || 0)) {
+      return { height: snapshot.height, hash: snapshot.blockHash };
+    }
+    return { height: latestBlock?.height || 0, hash: latestBlock?.hash || '0'.repeat(64) };
+  }
+
+  /**
+   * Append a block another node produced, as forward sync receives it. Nothing from the
+   * sender is trusted: the block must extend the local tip, hash to its hash under the
+   * producer's signature, rebuild its transaction root from its transactions, and reach
+   * its state root when applied to the local state.
+   */
+  public async importBlock(block: StoredBlock, producerKey?: string): Promise<void> {
+    const tip = await this.getChainTip();
+    if (block.height !== tip.height + 1 || block.previousHash !== tip.hash) {
+      throw new Error(`Block ${block.height} does not extend the local tip at height ${tip.height}`);
+    }
+    const publicKey = producerKey || this.stateManager.getValidatorKey(block.validatorId);
+    if (!publicKey) {
+      throw new Error(`Block ${block.height} producer ${block.validatorId} has no registered key`);
+    }
+    if (!BlockCrypto.verifyHeader(ChainProofs.toHeader(block), Buffer.from(publicKey, 'hex'))) {
+      throw new Error(`Block ${block.height} hash or producer signature is invalid`);
+    }
+    const blockTransactions = Array.isArray(block.transactions) ? block.transactions as PendingTransaction[] : [];
+    if (this.stateManager.calculateTransactionRoot(blockTransactions) !== block.transactionRoot) {
+      throw new Error(`Block ${block.height} transactions do not reproduce its transaction root`);
+    }
+
+    const enhanced = this.toEnhancedBlock(block);
+    const stateValidation = this.stateManager.validateStateTransition(this.stateManager.getCurrentState(), enhanced);
+    if (!stateValidation.valid) {
+      throw new Error(`Block ${block.height} state transition failed: ${stateValidation.errors.join(', ')}`);
+    }
+
+    const { id, createdAt, ...row } = block;
+    await db.insert(blocks).values({ ...row, transactionCount: blockTransactions.length });
+    await this.updateTransactionCache(enhanced.transactions.map((tx, i) => ({ ...tx, hash: blockTransactions[i].hash })),
+      block.hash, block.height);
+    this.stateManager.updateState(stateValidation.newState, block.height);
+    this.mempool.removeIncluded(blockTransactions);
+    this.evidencePool.markIncluded(enhanced.evidence || []);
+    await transactionReceiptService.recordIncluded(blockTransactions, block.hash, block.height);
+    await this.finalizeReceipts(block.height);
+  }
+
+  /**
+   * Finalize receipts covered by the latest finalized checkpoint; runs after every stored block
+   * and whenever the finality gadget finalizes a checkpoint. Only consensus engine rounds vote
+   * on checkpoints, so blocks mined here or by peers are never checkpointed; given the tip they
+   * extend, receipts buried finalityDepth blocks below it are finalized as well.
+   */
+  public async finalizeReceipts(tipHeight?: number): Promise<void> {
+    const checkpoint = await FinalityGadget.loadLatestCheckpoint();
+    const buriedHeight = tipHeight === undefined ? 0 : tipHeight - CONFIG.consensus.finalityDepth;
+    const finalizedHeight = Math.max(checkpoint?.height || 0, buriedHeight);
+    if (finalizedHeight > 0) await transactionReceiptService.finalizeUpTo(finalizedHeight);
+  }
+
   /**
    * Get all balances from blockchain state
    */
@@ -110,82 +375,188 @@ export class ImmutableBlockchainService {
   }
 
   /**
-   * Create new transaction (stored in pending pool until block creation)
+   * Admit a signed plain transfer to the mempool (stored there until block creation)
+   * The signature covers TransactionCrypto's transfer hash of from, to, amount, nonce,
+   * timestamp and fee; reusing a pending nonce with a higher fee replaces the pending transaction.
    */
   public async createTransaction(
     from: string,
     to: string,
     amount: number,
-    emotionalProofHash: string = '',
-    signature: string = ''
-  ): Promise<EmotionalTransaction> {
-    const transaction: EmotionalTransaction = {
+    emotionalProofHash: string,
+    signature: string,
+    options: { publicKey: string; nonce: number; fee: number; timestamp: number }
+  ): Promise<PendingTransaction> {
+    const transaction: PendingTransaction = {
       id: crypto.randomUUID(),
+      hash: '',
       from,
       to,
       amount,
-      timestamp: Date.now(),
+      timestamp: options.timestamp,
       emotionalProofHash,
       signature,
       blockNumber: 0, // Will be set when included in block
-      fee: amount * 0.001 // 0.1% transaction fee
+      nonce: options.nonce,
+      fee: options.fee,
+      publicKey: options.publicKey
     };
+    transaction.hash = this.calculateTransactionHash(transaction);
+
+    await this.loadNamedAccountKey(from);
+    const error = this.checkAdmission(transaction);
+    if (error) {
+      throw new Error(error);
+    }
+
+    // Add to mempool (throws MempoolError on replay, nonce gap or underpriced replacement)
+    this.mempool.add(transaction);
+    await transactionReceiptService.recordPending(transaction);
+
+    return transaction;
+  }
 
-    // Validate transaction
-    const senderBalance = this.getBalanceFromBlockchain(from);
-    const totalRequired = amount + transaction.fee;
+  /**
+   * Admit a signed typed transaction to the mempool after checking it applies
+   * on top of the sender's confirmed state and pending transactions
+   */
+  public async submitTypedTransaction(request: TypedTransactionRequest): Promise<PendingTransaction> {
+    const transaction: PendingTransaction = {
+      id: crypto.randomUUID(),
+      hash: '',
+      from: request.from,
+      to: request.to ?? request.from,
+      amount: request.amount ?? 0,
+      timestamp: request.timestamp,
+      emotionalProofHash: '',
+      signature: request.signature,
+      blockNumber: 0, // Will be set when included in block
+      nonce: request.nonce,
+      fee: request.fee,
+      envelope: request.envelope,
+      publicKey: request.publicKey
+    };
+    transaction.hash = this.calculateTransactionHash(transaction);
 
-    if (senderBalance < totalRequired) {
-      throw new Error(`Insufficient balance: ${senderBalance} < ${totalRequired}`);
+    await this.loadNamedAccountKey(transaction.from);
+    const error = this.checkAdmission(transaction);
+    if (error) {
+      throw new Error(error);
     }
 
-    // Add to pending pool
-    this.pendingTransactions.push(transaction);
-    
+    // Add to mempool (throws MempoolError on replay, nonce gap or underpriced replacement)
+    this.mempool.add(transaction);
+    await transactionReceiptService.recordPending(transaction);
 
-    
     return transaction;
   }
 
+  /**
+   * Named accounts have no key-derived address; pick up validators registered since startup
+   */
+  private async loadNamedAccountKey(address: string): Promise<void> {
+    if (/^0x/.test(address) || this.stateManager.getValidatorKey(address)) return;
+    const [validator] = await db.select({ publicKey: validatorStates.publicKey }).from(validatorStates)
+      .where(eq(validatorStates.validatorId, address))
+      .limit(1);
+    if (validator?.publicKey) this.stateManager.registerValidatorKey(address, validator.publicKey);
+  }
+
+  /**
+   * Admit double-sign evidence for inclusion after checking it slashes against confirmed state
+   */
+  public submitEvidence(evidence: EquivocationEvidence): EquivocationEvidence {
+    const error = this.checkEvidence(evidence);
+    if (error) {
+      throw new Error(error);
+    }
+    if (!this.evidencePool.add(evidence)) {
+      throw new Error(`Evidence for ${EvidencePool.offenceKey(evidence)} is already pending`);
+    }
+    console.log(`⚔️ Equivocation evidence queued against ${evidence.validatorId} at height ${evidence.height}`);
+    return evidence;
+  }
+
+  /**
+   * Dry run evidence alone against confirmed state; returns the rejection reason, or null
+   */
+  private checkEvidence(evidence: EquivocationEvidence): string | null {
+    const dryRun = this.stateManager.validateStateTransition(this.stateManager.getCurrentState(), {
+      header: {
+        blockNumber: this.stateManager.getCurrentHeight() + 1, // Height-dependent checks see the next block
+        parentHash: '',
+        stateRoot: '',
+        transactionRoot: '',
+        timestamp: Date.now(),
+        consensusData: {},
+        validatorId: '',
+        emotionalScore: 0
+      },
+      transactions: [],
+      zkProofs: [],
+      evidence: [evidence]
+    });
+    return dryRun.valid ? null : dryRun.errors.join(', ');
+  }
+
   /**
    * Create new block with pending transactions (IMMUTABLE STORAGE)
+   * blockData carries what the block stores outside the state transition, such as
+   * the producer's reward transactions.
    */
   public async createBlockWithTransactions(
     validatorId: string,
     emotionalScore: number,
-    emotionalProof: any = {}
-  ): Promise<EnhancedBlock> {
+    emotionalProof: any = {},
+    signingKey?: Uint8Array, // Producer key; unsigned blocks cannot be verified by light clients
+    blockData: Record<string, any> = {}
+  ): Promise<EnhancedBlock & { hash: string }> {
     try {
-      // Get current blockchain height
-      const [latestBlock] = await db.select().from(blocks).orderBy(desc(blocks.height)).limit(1);
-      const newHeight = (latestBlock?.height || 0) + 1;
+      // Extend the chain tip, which is the snapshot block on a node that fast-synced past its stored blocks
+      const tip = await this.getChainTip();
+      const newHeight = tip.height + 1;
 
-      // Get transactions for this block
-      const blockTransactions = this.pendingTransactions.splice(0, 10); // Take up to 10 transactions
+      // Highest-fee executable transactions, nonce-ordered per sender
+      const currentState = this.stateManager.getCurrentState();
+      const blockTransactions = await this.dropFailingTransactions(
+        currentState,
+        this.mempool.selectForBlock(this.MAX_BLOCK_TRANSACTIONS),
+        newHeight
+      );
       
       // Update block numbers for transactions
       blockTransactions.forEach(tx => {
         tx.blockNumber = newHeight;
       });
 
+      // Pending evidence that still slashes; stale entries (offence already slashed) are dropped
+      const blockEvidence: EquivocationEvidence[] = [];
+      for (const evidence of this.evidencePool.selectForBlock(this.MAX_BLOCK_EVIDENCE)) {
+        if (this.checkEvidence(evidence)) {
+          this.evidencePool.markIncluded([evidence]);
+        } else {
+          blockEvidence.push(evidence);
+        }
+      }
+
       // Calculate roots
       const transactionRoot = this.stateManager.calculateTransactionRoot(blockTransactions);
       
       // Calculate new state after applying transactions
-      const currentState = this.stateManager.getCurrentState();
       const tempBlock: EnhancedBlock = {
         header: {
           blockNumber: newHeight,
-          parentHash: latestBlock?.hash || '0'.repeat(64),
+          parentHash: tip.hash,
           stateRoot: '', // Will be calculated
           transactionRoot,
           timestamp: Date.now(),
           consensusData: emotionalProof,
           validatorId,
-          emotionalScore
+          emotionalScore: Math.round(emotionalScore * 100) / 100 // Stored as decimal(5,2); the hash must survive the round trip
         },
         transactions: blockTransactions,
-        zkProofs: []
+        zkProofs: [],
+        evidence: blockEvidence
       };
 
       // Validate state transition and get new state
@@ -199,6 +570,7 @@ export class ImmutableBlockchainService {
 
       // Create block hash
       const blockHash = this.calculateBlockHash(tempBlock);
+      const signature = signingKey ? BlockCrypto.signHeader(blockHash, signingKey) : null;
 
       // Store block in database (IMMUTABLE)
       await db.insert(blocks).values({
@@ -206,17 +578,19 @@ export class ImmutableBlockchainService {
         hash: blockHash,
         previousHash: tempBlock.header.parentHash,
         merkleRoot: blockHash, // Legacy field
+        signature,
         transactionRoot: tempBlock.header.transactionRoot,
         stateRoot: tempBlock.header.stateRoot,
         timestamp: tempBlock.header.timestamp,
         nonce: 0,
         difficulty: 1,
         validatorId,
-        emotionalScore: emotionalScore.toString(),
+        emotionalScore: tempBlock.header.emotionalScore.toString(),
         emotionalProof: emotionalProof,
-        blockData: {},
+        blockData,
         transactions: blockTransactions, // IMMUTABLE TRANSACTION STORAGE
         zkProofs: tempBlock.zkProofs,
+        evidence: blockEvidence,
         transactionCount: blockTransactions.length
       });
 
@@ -224,17 +598,63 @@ export class ImmutableBlockchainService {
       await this.updateTransactionCache(blockTransactions, blockHash, newHeight);
 
       // Update blockchain state
-      this.stateManager.updateState(stateValidation.newState);
+      this.stateManager.updateState(stateValidation.newState, newHeight);
 
+      // Drop included transactions and anything their nonces made stale
+      this.mempool.removeIncluded(blockTransactions);
+      this.evidencePool.markIncluded(blockEvidence);
 
+      // Advance receipts: included for this block, finalized once a checkpoint covers it or finalityDepth blocks bury it
+      await transactionReceiptService.recordIncluded(blockTransactions, blockHash, newHeight);
+      await this.finalizeReceipts(newHeight);
 
-      return tempBlock;
+      if (this.snapshots.shouldSnapshot(newHeight)) {
+        await this.createSnapshot().catch(error => {
+          console.error(`BLOCKCHAIN IMMUTABILITY: Failed to create snapshot at height ${newHeight}:`, error);
+        });
+      }
+
+      return { ...tempBlock, hash: blockHash };
     } catch (error) {
       console.error('BLOCKCHAIN IMMUTABILITY: Failed to create block:', error);
       throw error;
     }
   }
 
+  /**
+   * Leave out transactions that fail against the current state. Each failing transaction
+   * is dropped from the mempool with the sender's later nonces, which could no longer
+   * execute, and their receipts are marked failed. Repeats until the rest all apply,
+   * since a dropped transfer may have funded another sender.
+   */
+  private async dropFailingTransactions(
+    state: BlockchainState,
+    candidates: PendingTransaction[],
+    height: number
+  ): Promise<PendingTransaction[]> {
+    let remaining = candidates;
+    for (;;) {
+      const { applicable, failed } = this.stateManager.partitionApplicable(state, remaining, height);
+      if (failed.length === 0) return applicable;
+
+      const droppedHashes = new Set<string>();
+      for (const { transaction, error } of failed) {
+        if (droppedHashes.has(transaction.hash)) continue;
+        const dropped = this.mempool.remove(transaction.hash);
+        if (dropped.length === 0) dropped.push(transaction);
+        for (const tx of dropped) {
+          droppedHashes.add(tx.hash);
+          const reason = tx.hash === transaction.hash
+            ? `Failed execution at height ${height}: ${error}`
+            : `Dropped after earlier nonce ${transaction.nonce} failed execution: ${error}`;
+          console.warn(`BLOCKCHAIN IMMUTABILITY: Dropping transaction ${tx.hash}: ${reason}`);
+          await transactionReceiptService.recordFailed(tx.hash, reason);
+        }
+      }
+      remaining = remaining.filter(tx => !droppedHashes.has(tx.hash));
+    }
+  }
+
   /**
    * Update transaction cache for query optimization (READ-ONLY)
    */
@@ -247,13 +667,14 @@ export class ImmutableBlockchainService {
       try {
         await db.insert(transactions).values({
           id: tx.id,
-          hash: this.calculateTransactionHash(tx),
+          hash: (tx as PendingTransaction).hash || this.calculateTransactionHash(tx),
           blockHash,
           blockNumber,
           fromAddress: tx.from,
           toAddress: tx.to,
           amount: tx.amount.toString(),
           fee: tx.fee?.toString() || '0',
+          nonce: tx.nonce,
           timestamp: tx.timestamp,
           signature: { signature: tx.signature },
           emotionalProofHash: tx.emotionalProofHash,
@@ -270,8 +691,8 @@ export class ImmutableBlockchainService {
    * Calculate block hash
    */
   private calculateBlockHash(block: EnhancedBlock): string {
-    const blockString = JSON.stringify({
-      blockNumber: block.header.blockNumber,
+    return BlockCrypto.hashHeader({
+      height: block.header.blockNumber,
       parentHash: block.header.parentHash,
       stateRoot: block.header.stateRoot,
       transactionRoot: block.header.transactionRoot,
@@ -279,23 +700,13 @@ export class ImmutableBlockchainService {
       validatorId: block.header.validatorId,
       emotionalScore: block.header.emotionalScore
     });
-    
-    return createHash('sha256').update(blockString).digest('hex');
   }
 
   /**
    * Calculate transaction hash
    */
   private calculateTransactionHash(tx: EmotionalTransaction): string {
-    const txString = JSON.stringify({
-      from: tx.from,
-      to: tx.to,
-      amount: tx.amount,
-      timestamp: tx.timestamp,
-      emotionalProofHash: tx.emotionalProofHash
-    });
-    
-    return createHash('sha256').update(txString).digest('hex');
+    return BlockchainStateManager.transactionHash(tx);
   }
 
   /**
@@ -367,6 +778,82 @@ export class ImmutableBlockchainService {
    * Get pending transactions count
    */
   public getPendingTransactionCount(): number {
-    return this.pendingTransactions.length;
+    return this.mempool.size();
+  }
+
+  /**
+   * Get pending transactions ordered by fee (highest first)
+   */
+  public getPendingTransactions(limit: number = 100): PendingTransaction[] {
+    return this.mempool.getAll().slice(0, limit);
+  }
+
+  public getMempool(): Mempool<PendingTransaction> {
+    return this.mempool;
+  }
+
+  /**
+   * Get mempool statistics
+   */
+  public getMempoolStats(): MempoolStats {
+    return this.mempool.getStats();
+  }
+
+  /**
+   * Get double-sign evidence waiting for block inclusion
+   */
+  public getPendingEvidence(): EquivocationEvidence[] {
+    return this.evidencePool.getPending();
+  }
+
+  /**
+   * Bonded plus delegated stake committed for a validator
+   */
+  public getStake(validatorId: string): number {
+    return this.stateManager.getStake(validatorId);
+  }
+
+  /**
+   * Bonds and delegations committed in chain state, the only record of stake amounts
+   */
+  public getStakePositions(): StakePosition[] {
+    return this.stateManager.getStakePositions();
+  }
+
+  public getUnbonding(): Array<UnbondingStake & { id: string; delegatorAddress: string }> {
+    return this.stateManager.getUnbonding();
+  }
+
+  /**
+   * Get typed transaction state committed for an address
+   */
+  public getAccountData(address: string): AccountData | null {
+    return this.stateManager.getAccountData(address);
+  }
+
+  /**
+   * Get governance proposals, active parameter overrides and activation history from chain state
+   */
+  public getGovernanceState(): GovernanceState {
+    return this.stateManager.getGovernanceState();
+  }
+
+  public getActiveParameters(): ParameterSet {
+    return this.stateManager.getActiveParameters();
+  }
+
+  public getProposalTally(proposalId: string): GovernanceTally | null {
+    return this.stateManager.getProposalTally(proposalId);
+  }
+
+  /**
+   * Get confirmed and next usable nonce for an address
+   */
+  public getNonceInfo(address: string): { accountNonce: number; nextNonce: number; pending: PendingTransaction[] } {
+    return {
+      accountNonce: this.mempool.getAccountNonce(address),
+      nextNonce: this.mempool.getNextNonce(address),
+      pending: this.mempool.getPendingForSender(address)
+    };
   }
 }
\ No newline at end of file
@@ -0,0 +1,365 @@
+/**
+ * Transaction Mempool
+ * Prioritized pool of pending transactions with per-sender nonce ordering,
+ * replay protection, fee-based eviction and replace-by-fee
+ */
+
+import { EventEmitter } from 'events';
+
+/**
+ * Minimal shape a transaction needs to enter the mempool.
+ * Satisfied by TransactionCrypto.SignedTransaction.
+ */
+export interface MempoolTransaction {
+  hash: string;
+  from: string;
+  nonce: number;
+  fee: number;
+  amount: number;
+  timestamp: number;
+}
+
+export interface MempoolEntry<T extends MempoolTransaction> {
+  tx: T;
+  addedAt: number;
+}
+
+export interface MempoolConfig {
+  maxSize: number;                 // Total transactions held across all senders
+  maxPerSender: number;            // Pending transactions a single sender may queue
+  minFee: number;                  // Floor below which transactions are rejected
+  replacementFeeBump: number;      // Relative fee increase required for replace-by-fee (0.1 = +10%)
+  transactionTTL: number;          // Milliseconds before an unmined transaction expires
+}
+
+export type MempoolRejectionReason =
+  | 'duplicate'
+  | 'nonce_too_low'
+  | 'nonce_gap'
+  | 'fee_too_low'
+  | 'replacement_underpriced'
+  | 'sender_limit'
+  | 'pool_full';
+
+export class MempoolError extends Error {
+  constructor(public readonly reason: MempoolRejectionReason, message: string) {
+    super(message);
+    this.name = 'MempoolError';
+  }
+}
+
+export interface MempoolAddResult<T extends MempoolTransaction> {
+  replaced?: T;
+  evicted?: T;
+}
+
+export interface MempoolStats {
+  size: number;
+  senders: number;
+  totalFees: number;
+  minFee: number;
+  maxFee: number;
+  capacity: number;
+}
+
+export const DEFAULT_MEMPOOL_CONFIG: MempoolConfig = {
+  maxSize: 5000,
+  maxPerSender: 64,
+  minFee: 0,
+  replacementFeeBump: 0.1,
+  transactionTTL: 3 * 60 * 60 * 1000 // 3 hours
+};
+
+/**
+ * Resolves the confirmed nonce (number of included transactions) for an address
+ */
+export type AccountNonceResolver = (address: string) => number;
+
+export class Mempool<T extends MempoolTransaction = MempoolTransaction> extends EventEmitter {
+  private config: MempoolConfig;
+  private resolveAccountNonce: AccountNonceResolver;
+  // sender -> (nonce -> entry)
+  private bySender: Map<string, Map<number, MempoolEntry<T>>> = new Map();
+  private byHash: Map<string, MempoolEntry<T>> = new Map();
+  // Highest confirmed nonce observed through block inclusion, per sender
+  private confirmedNonces: Map<string, number> = new Map();
+
+  constructor(config: Partial<MempoolConfig> = {}, resolveAccountNonce: AccountNonceResolver = () => 0) {
+    super();
+    this.config = { ...DEFAULT_MEMPOOL_CONFIG, ...config };
+    this.resolveAccountNonce = resolveAccountNonce;
+  }
+
+  /**
+   * Confirmed nonce for an address: the nonce its next included transaction must carry
+   */
+  public getAccountNonce(address: string): number {
+    return Math.max(this.resolveAccountNonce(address), this.confirmedNonces.get(address) || 0);
+  }
+
+  /**
+   * Next nonce a new transaction from this address should use, accounting for queued transactions
+   */
+  public getNextNonce(address: string): number {
+    const queue = this.bySender.get(address);
+    const accountNonce = this.getAccountNonce(address);
+    if (!queue || queue.size === 0) return accountNonce;
+    return Math.max(accountNonce, Math.max(...Array.from(queue.keys())) + 1);
+  }
+
+  /**
+   * Add a transaction to the pool.
+   * Throws MempoolError when the transaction is rejected.
+   */
+  public add(tx: T): MempoolAddResult<T> {
+    this.pruneExpired();
+
+    if (this.byHash.has(tx.hash)) {
+      throw new MempoolError('duplicate', `Transaction ${tx.hash} already in mempool`);
+    }
+
+    if (tx.fee < this.config.minFee) {
+      throw new MempoolError('fee_too_low', `Fee ${tx.fee} below minimum ${this.config.minFee}`);
+    }
+
+    const accountNonce = this.getAccountNonce(tx.from);
+    if (tx.nonce < accountNonce) {
+      throw new MempoolError('nonce_too_low', `Nonce ${tx.nonce} already used by ${tx.from} (account nonce ${accountNonce})`);
+    }
+
+    const queue = this.bySender.get(tx.from) || new Map<number, MempoolEntry<T>>();
+    const existing = queue.get(tx.nonce);
+
+    // Replace-by-fee: same sender and nonce, sufficiently higher fee
+    if (existing) {
+      const requiredFee = existing.tx.fee * (1 + this.config.replacementFeeBump);
+      if (tx.fee <= existing.tx.fee || tx.fee < requiredFee) {
+        throw new MempoolError(
+          'replacement_underpriced',
+          `Replacement for ${tx.from}:${tx.nonce} requires fee >= ${requiredFee}, got ${tx.fee}`
+        );
+      }
+      this.byHash.delete(existing.tx.hash);
+      const entry: MempoolEntry<T> = { tx, addedAt: Date.now() };
+      queue.set(tx.nonce, entry);
+      this.byHash.set(tx.hash, entry);
+      this.emit('replaced', { previous: existing.tx, replacement: tx });
+      return { replaced: existing.tx };
+    }
+
+    const expectedNonce = this.getNextNonce(tx.from);
+    if (tx.nonce > expectedNonce) {
+      throw new MempoolError('nonce_gap', `Nonce ${tx.nonce} for ${tx.from} leaves a gap (expected ${expectedNonce})`);
+    }
+
+    if (queue.size >= this.config.maxPerSender) {
+      throw new MempoolError('sender_limit', `Sender ${tx.from} already has ${queue.size} pending transactions`);
+    }
+
+    let evicted: T | undefined;
+    if (this.byHash.size >= this.config.maxSize) {
+      const candidate = this.findEvictionCandidate(tx.from);
+      if (!candidate || candidate.tx.fee >= tx.fee) {
+        throw new MempoolError('pool_full', `Mempool full and fee ${tx.fee} does not outbid lowest evictable transaction`);
+      }
+      this.removeEntry(candidate.tx);
+      evicted = candidate.tx;
+      this.emit('evicted', candidate.tx);
+    }
+
+    const entry: MempoolEntry<T> = { tx, addedAt: Date.now() };
+    queue.set(tx.nonce, entry);
+    this.bySender.set(tx.from, queue);
+    this.byHash.set(tx.hash, entry);
+    this.emit('added', tx);
+
+    return { evicted };
+  }
+
+  /**
+   * Select executable transactions for a block, highest fee first,
+   * while keeping each sender's transactions in nonce order
+   */
+  public selectForBlock(maxTransactions: number): T[] {
+    this.pruneExpired();
+
+    // Contiguous executable runs per sender, starting at the account nonce
+    const runs = new Map<string, T[]>();
+    this.bySender.forEach((queue, sender) => {
+      const run: T[] = [];
+      let nonce = this.getAccountNonce(sender);
+      while (queue.has(nonce)) {
+        run.push(queue.get(nonce)!.tx);
+        nonce++;
+      }
+      if (run.length > 0) runs.set(sender, run);
+    });
+
+    const selected: T[] = [];
+    const heads = Array.from(runs.keys());
+    const cursors = new Map<string, number>(heads.map(sender => [sender, 0]));
+
+    while (selected.length < maxTransactions && heads.length > 0) {
+      // Pick the sender whose next transaction pays the highest fee
+      let bestIndex = 0;
+      for (let i = 1; i < heads.length; i++) {
+        const current = runs.get(heads[i])![cursors.get(heads[i])!];
+        const best = runs.get(heads[bestIndex])![cursors.get(heads[bestIndex])!];
+        if (current.fee > best.fee || (current.fee === best.fee && current.timestamp < best.timestamp)) {
+          bestIndex = i;
+        }
+      }
+
+      const sender = heads[bestIndex];
+      const cursor = cursors.get(sender)!;
+      const run = runs.get(sender)!;
+      selected.push(run[cursor]);
+
+      if (cursor + 1 >= run.length) {
+        heads.splice(bestIndex, 1);
+      } else {
+        cursors.set(sender, cursor + 1);
+      }
+    }
+
+    return selected;
+  }
+
+  /**
+   * Drop transactions that were included in a block and advance sender nonces.
+   * Any pending transaction made stale by the new nonce is discarded.
+   */
+  public removeIncluded(included: Array<Pick<MempoolTransaction, 'hash' | 'from' | 'nonce'>>): void {
+    for (const tx of included) {
+      const confirmed = this.confirmedNonces.get(tx.from) || 0;
+      if (tx.nonce + 1 > confirmed) {
+        this.confirmedNonces.set(tx.from, tx.nonce + 1);
+      }
+      const entry = this.byHash.get(tx.hash);
+      if (entry) this.removeEntry(entry.tx);
+    }
+
+    const senders = new Set(included.map(tx => tx.from));
+    senders.forEach(sender => {
+      const queue = this.bySender.get(sender);
+      if (!queue) return;
+      const accountNonce = this.getAccountNonce(sender);
+      Array.from(queue.values())
+        .filter(entry => entry.tx.nonce < accountNonce)
+        .forEach(entry => {
+          this.removeEntry(entry.tx);
+          this.emit('stale', entry.tx);
+        });
+    });
+  }
+
+  /**
+   * Remove a transaction by hash, dropping any later nonces from the same sender
+   * that would otherwise be stuck behind the gap
+   */
+  public remove(hash: string): T[] {
+    const entry = this.byHash.get(hash);
+    if (!entry) return [];
+
+    const queue = this.bySender.get(entry.tx.from)!;
+    const dropped = Array.from(queue.values())
+      .filter(e => e.tx.nonce >= entry.tx.nonce)
+      .map(e => e.tx);
+    dropped.forEach(tx => this.removeEntry(tx));
+    return dropped;
+  }
+
+  public has(hash: string): boolean {
+    return this.byHash.has(hash);
+  }
+
+  public get(hash: string): T | undefined {
+    return this.byHash.get(hash)?.tx;
+  }
+
+  public size(): number {
+    return this.byHash.size;
+  }
+
+  /**
+   * Pending transactions for one sender in nonce order
+   */
+  public getPendingForSender(address: string): T[] {
+    const queue = this.bySender.get(address);
+    if (!queue) return [];
+    return Array.from(queue.values())
+      .map(entry => entry.tx)
+      .sort((a, b) => a.nonce - b.nonce);
+  }
+
+  /**
+   * Amount plus fees a sender has committed in pending transactions
+   */
+  public getPendingSpend(address: string): number {
+    return this.getPendingForSender(address).reduce((total, tx) => total + tx.amount + tx.fee, 0);
+  }
+
+  /**
+   * All pending transactions ordered by fee (highest first)
+   */
+  public getAll(): T[] {
+    return Array.from(this.byHash.values())
+      .map(entry => entry.tx)
+      .sort((a, b) => b.fee - a.fee || a.nonce - b.nonce);
+  }
+
+  public getStats(): MempoolStats {
+    const fees = Array.from(this.byHash.values()).map(entry => entry.tx.fee);
+    return {
+      size: fees.length,
+      senders: this.bySender.size,
+      totalFees: fees.reduce((sum, fee) => sum + fee, 0),
+      minFee: fees.length > 0 ? Math.min(...fees) : 0,
+      maxFee: fees.length > 0 ? Math.max(...fees) : 0,
+      capacity: this.config.maxSize
+    };
+  }
+
+  public clear(): void {
+    this.bySender.clear();
+    this.byHash.clear();
+  }
+
+  /**
+   * Lowest-fee transaction whose removal does not open a nonce gap,
+   * i.e. the last queued transaction of some other sender
+   */
+  private findEvictionCandidate(excludeSender: string): MempoolEntry<T> | undefined {
+    let candidate: MempoolEntry<T> | undefined;
+    this.bySender.forEach((queue, sender) => {
+      if (sender === excludeSender) return;
+      const tail = Array.from(queue.values()).reduce((a, b) => (b.tx.nonce > a.tx.nonce ? b : a));
+      if (!candidate || tail.tx.fee < candidate.tx.fee) {
+        candidate = tail;
+      }
+    });
+    return candidate;
+  }
+
+  private pruneExpired(): void {
+    const cutoff = Date.now() - this.config.transactionTTL;
+    const expired = Array.from(this.byHash.values()).filter(entry => entry.addedAt < cutoff);
+    for (const entry of expired) {
+      if (!this.byHash.has(entry.tx.hash)) continue;
+      const dropped = this.remove(entry.tx.hash);
+      dropped.forEach(tx => this.emit('expired', tx));
+    }
+  }
+
+  private removeEntry(tx: T): void {
+    this.byHash.delete(tx.hash);
+    const queue = this.bySender.get(tx.from);
+    if (!queue) return;
+    if (queue.get(tx.nonce)?.tx.hash === tx.hash) {
+      queue.delete(tx.nonce);
+    }
+    if (queue.size === 0) {
+      this.bySender.delete(tx.from);
+    }
+  }
+}
@@ -0,0 +1,287 @@
+/**
+ * Chain Snapshot Manager
+ * Produces and verifies state snapshots so new validators can fast sync
+ * instead of replaying every block.
+ *
+ * A snapshot at height H contains:
+ * - the account state at H, split into hashed chunks (authenticated by the state trie root)
+ * - the most recent block headers up to H, linked by parent hash
+ * - the validator set at H
+ * The manifest commits to all of it; fast sync trusts a snapshot only once its
+ * last header matches a finalized header obtained independently.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { CONFIG } from '../../shared/config';
+import { SparseMerkleStateTrie, type AccountLeaf } from './StateTrie';
+import type { BlockchainState } from './BlockchainStateManager';
+
+export const SNAPSHOT_FORMAT_VERSION = 1;
+
+export interface SnapshotHeader {
+  height: number;
+  hash: string;
+  parentHash: string;
+  stateRoot: string;
+  transactionRoot: string;
+  timestamp: number;
+  validatorId: string;
+}
+
+export interface SnapshotValidator {
+  validatorId: string;
+  balance: number;
+  emotionalScore: number;
+  reputation: number;
+}
+
+export interface SnapshotChunk {
+  index: number;
+  accounts: AccountLeaf[];
+}
+
+export interface SnapshotManifest {
+  version: number;
+  height: number;
+  blockHash: string;
+  stateRoot: string;
+  createdAt: number;
+  chunkSize: number;
+  chunks: Array<{ index: number; hash: string; accounts: number }>;
+  headers: SnapshotHeader[]; // Oldest first, last entry is the snapshot block
+  validators: SnapshotValidator[];
+  manifestHash: string;
+}
+
+export interface SnapshotConfig {
+  directory: string;
+  interval: number;
+  retain: number;
+  chunkSize: number;
+  headerCount: number;
+}
+
+export class SnapshotManager {
+  private config: SnapshotConfig;
+
+  constructor(config: Partial<SnapshotConfig> = {}) {
+    this.config = { ...CONFIG.storage.snapshots, ...config };
+  }
+
+  /**
+   * Whether a snapshot should be produced at this height
+   */
+  public shouldSnapshot(height: number): boolean {
+    return height > 0 && height % this.config.interval === 0;
+  }
+
+  /**
+   * Write a snapshot of the given state to disk and prune old snapshots
+   */
+  public async createSnapshot(input: {
+    state: BlockchainState;
+    headers: SnapshotHeader[];
+    validators: SnapshotValidator[];
+  }): Promise<SnapshotManifest> {
+    const headers = input.headers.slice(-this.config.headerCount);
+    const tip = headers[headers.length - 1];
+    if (!tip) {
+      throw new Error('Snapshot requires at least one block header');
+    }
+
+    const accounts: AccountLeaf[] = Object.keys(input.state).sort().map(address => ({
+      address,
+      balance: input.state[address].balance,
+      nonce: input.state[address].nonce,
+      stake: input.state[address].stake || 0,
+      ...(input.state[address].data ? { data: input.state[address].data } : {})
+    }));
+
+    const stateRoot = new SparseMerkleStateTrie(accounts).getRoot();
+    if (stateRoot !== tip.stateRoot) {
+      throw new Error(`Snapshot state root ${stateRoot} does not match block ${tip.height} state root ${tip.stateRoot}`);
+    }
+
+    const chunks: SnapshotChunk[] = [];
+    for (let i = 0; i < accounts.length; i += this.config.chunkSize) {
+      chunks.push({ index: chunks.length, accounts: accounts.slice(i, i + this.config.chunkSize) });
+    }
+
+    const manifest = SnapshotManager.sealManifest({
+      version: SNAPSHOT_FORMAT_VERSION,
+      height: tip.height,
+      blockHash: tip.hash,
+      stateRoot,
+      createdAt: Date.now(),
+      chunkSize: this.config.chunkSize,
+      chunks: chunks.map(chunk => ({
+        index: chunk.index,
+        hash: SnapshotManager.hashChunk(chunk),
+        accounts: chunk.accounts.length
+      })),
+      headers,
+      validators: input.validators
+    });
+
+    await this.saveSnapshot(manifest, chunks);
+    return manifest;
+  }
+
+  /**
+   * Store a snapshot (own or downloaded from peers) and prune old snapshots
+   */
+  public async saveSnapshot(manifest: SnapshotManifest, chunks: SnapshotChunk[]): Promise<void> {
+    // Chunks first, manifest last: a snapshot is listed only once complete
+    const snapshotDir = this.snapshotDir(manifest.height);
+    await fs.mkdir(snapshotDir, { recursive: true });
+    for (const chunk of chunks) {
+      await fs.writeFile(path.join(snapshotDir, `chunk-${chunk.index}.json`), JSON.stringify(chunk));
+    }
+    await fs.writeFile(path.join(snapshotDir, 'manifest.json'), JSON.stringify(manifest));
+
+    await this.pruneSnapshots();
+  }
+
+  /**
+   * List complete snapshots, newest first
+   */
+  public async listSnapshots(): Promise<SnapshotManifest[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.config.directory);
+    } catch (error) {
+      return [];
+    }
+
+    const manifests: SnapshotManifest[] = [];
+    for (const height of entries.map(entry => parseInt(entry, 10)).filter(h => !isNaN(h))) {
+      const manifest = await this.getManifest(height);
+      if (manifest) manifests.push(manifest);
+    }
+    return manifests.sort((a, b) => b.height - a.height);
+  }
+
+  public async getLatestSnapshot(): Promise<SnapshotManifest | null> {
+    const [latest] = await this.listSnapshots();
+    return latest || null;
+  }
+
+  public async getManifest(height: number): Promise<SnapshotManifest | null> {
+    return this.readJson<SnapshotManifest>(path.join(this.snapshotDir(height), 'manifest.json'));
+  }
+
+  public async getChunk(height: number, index: number): Promise<SnapshotChunk | null> {
+    return this.readJson<SnapshotChunk>(path.join(this.snapshotDir(height), `chunk-${index}.json`));
+  }
+
+  /**
+   * Check manifest integrity: hash, header linkage and tip consistency
+   */
+  public static verifyManifest(manifest: SnapshotManifest): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (manifest.version !== SNAPSHOT_FORMAT_VERSION) {
+      errors.push(`Unsupported snapshot version ${manifest.version}`);
+    }
+    if (SnapshotManager.hashManifest(manifest) !== manifest.manifestHash) {
+      errors.push('Manifest hash mismatch');
+    }
+
+    const tip = manifest.headers[manifest.headers.length - 1];
+    if (!tip || tip.height !== manifest.height || tip.hash !== manifest.blockHash || tip.stateRoot !== manifest.stateRoot) {
+      errors.push('Last header does not match snapshot height, block hash and state root');
+    }
+    for (let i = 1; i < manifest.headers.length; i++) {
+      const previous = manifest.headers[i - 1];
+      const current = manifest.headers[i];
+      if (current.height !== previous.height + 1 || current.parentHash !== previous.hash) {
+        errors.push(`Header ${current.height} does not link to header ${previous.height}`);
+      }
+    }
+
+    manifest.chunks.forEach((chunk, index) => {
+      if (chunk.index !== index) {
+        errors.push(`Chunk list out of order at position ${index}`);
+      }
+    });
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  public static verifyChunk(manifest: SnapshotManifest, chunk: SnapshotChunk): boolean {
+    const expected = manifest.chunks[chunk.index];
+    return !!expected && expected.accounts === chunk.accounts.length && expected.hash === SnapshotManager.hashChunk(chunk);
+  }
+
+  /**
+   * Rebuild account state from verified chunks; throws unless it reproduces the manifest state root
+   */
+  public static restoreState(manifest: SnapshotManifest, chunks: SnapshotChunk[]): BlockchainState {
+    if (chunks.length !== manifest.chunks.length) {
+      throw new Error(`Expected ${manifest.chunks.length} chunks, got ${chunks.length}`);
+    }
+
+    const accounts: AccountLeaf[] = [];
+    for (const chunk of [...chunks].sort((a, b) => a.index - b.index)) {
+      if (!SnapshotManager.verifyChunk(manifest, chunk)) {
+        throw new Error(`Snapshot chunk ${chunk.index} failed hash verification`);
+      }
+      accounts.push(...chunk.accounts);
+    }
+
+    const stateRoot = new SparseMerkleStateTrie(accounts).getRoot();
+    if (stateRoot !== manifest.stateRoot) {
+      throw new Error(`Restored state root ${stateRoot} does not match snapshot state root ${manifest.stateRoot}`);
+    }
+
+    // lastActivity is not committed to the state root; restore it as the snapshot block time
+    const lastActivity = manifest.headers[manifest.headers.length - 1].timestamp;
+    const state: BlockchainState = {};
+    for (const account of accounts) {
+      state[account.address] = {
+        balance: account.balance,
+        nonce: account.nonce,
+        stake: account.stake,
+        ...(account.data ? { data: account.data } : {}),
+        lastActivity
+      };
+    }
+    return state;
+  }
+
+  public static hashChunk(chunk: SnapshotChunk): string {
+    return createHash('sha256').update(JSON.stringify({ index: chunk.index, accounts: chunk.accounts })).digest('hex');
+  }
+
+  private static hashManifest(manifest: Omit<SnapshotManifest, 'manifestHash'>): string {
+    const { version, height, blockHash, stateRoot, createdAt, chunkSize, chunks, headers, validators } = manifest;
+    return createHash('sha256')
+      .update(JSON.stringify({ version, height, blockHash, stateRoot, createdAt, chunkSize, chunks, headers, validators }))
+      .digest('hex');
+  }
+
+  private static sealManifest(manifest: Omit<SnapshotManifest, 'manifestHash'>): SnapshotManifest {
+    return { ...manifest, manifestHash: SnapshotManager.hashManifest(manifest) };
+  }
+
+  private async pruneSnapshots(): Promise<void> {
+    const snapshots = await this.listSnapshots();
+    for (const stale of snapshots.slice(this.config.retain)) {
+      await fs.rm(this.snapshotDir(stale.height), { recursive: true, force: true });
+    }
+  }
+
+  private snapshotDir(height: number): string {
+    return path.join(this.config.directory, String(height));
+  }
+
+  private async readJson<T>(file: string): Promise<T | null> {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf-8'));
+    } catch (error) {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Authenticated State Trie
+ * Sparse Merkle tree over sha256(address) keys committing to balances, stakes and nonces.
+ * Subtrees holding a single account collapse to that account's leaf, so the tree stays
+ * as small as the account set while roots and proofs remain independent of insertion order.
+ *
+ *   empty subtree  = 32 zero bytes
+ *   leaf           = sha256(0x00 || key || sha256(JSON [address, balance, nonce, stake, data?]))
+ *   internal node  = sha256(0x01 || left || right)
+ */
+
+import { createHash } from 'crypto';
+import type { AccountData } from '@shared/types/TransactionEnvelope';
+
+export interface AccountLeaf {
+  address: string;
+  balance: number;
+  nonce: number;
+  stake: number;
+  data?: AccountData; // Typed transaction state; omitted for plain accounts so their leaves are unchanged
+}
+
+export interface StateProof {
+  address: string;
+  key: string; // sha256(address), hex
+  root: string;
+  account: AccountLeaf | null; // null proves the address has no state
+  siblings: string[]; // top-down sibling hashes along the key path
+  // Set when a non-inclusion path ends at another account's leaf
+  conflictingLeaf?: { key: string; valueHash: string };
+}
+
+interface TrieNode {
+  hash: Buffer;
+  left?: TrieNode;
+  right?: TrieNode;
+  leaf?: { key: Buffer; valueHash: Buffer; account: AccountLeaf };
+}
+
+const KEY_BITS = 256;
+const EMPTY_HASH = Buffer.alloc(32);
+const LEAF_PREFIX = Buffer.from([0x00]);
+const NODE_PREFIX = Buffer.from([0x01]);
+
+export class SparseMerkleStateTrie {
+  private root: TrieNode;
+
+  constructor(accounts: AccountLeaf[]) {
+    const leaves = accounts
+      .map(account => ({ key: accountKey(account.address), valueHash: accountValueHash(account), account }))
+      .sort((a, b) => Buffer.compare(a.key, b.key));
+    this.root = buildNode(leaves, 0);
+  }
+
+  public static fromState(state: { [address: string]: { balance: number; nonce: number; stake?: number; data?: AccountData } }): SparseMerkleStateTrie {
+    return new SparseMerkleStateTrie(
+      Object.entries(state).map(([address, account]) => ({
+        address,
+        balance: account.balance,
+        nonce: account.nonce,
+        stake: account.stake || 0,
+        ...(account.data ? { data: account.data } : {})
+      }))
+    );
+  }
+
+  public getRoot(): string {
+    return this.root.hash.toString('hex');
+  }
+
+  /**
+   * Build an inclusion proof for the address, or a non-inclusion proof if it has no state
+   */
+  public getProof(address: string): StateProof {
+    const key = accountKey(address);
+    const siblings: string[] = [];
+    let node = this.root;
+    let depth = 0;
+
+    while (!node.leaf && node.left && node.right) {
+      const goRight = bitAt(key, depth);
+      siblings.push((goRight ? node.left : node.right).hash.toString('hex'));
+      node = goRight ? node.right : node.left;
+      depth++;
+    }
+
+    const proof: StateProof = {
+      address,
+      key: key.toString('hex'),
+      root: this.getRoot(),
+      account: null,
+      siblings
+    };
+
+    if (node.leaf) {
+      if (node.leaf.key.equals(key)) {
+        proof.account = { ...node.leaf.account };
+      } else {
+        proof.conflictingLeaf = {
+          key: node.leaf.key.toString('hex'),
+          valueHash: node.leaf.valueHash.toString('hex')
+        };
+      }
+    }
+
+    return proof;
+  }
+
+  /**
+   * Verify a proof against a trusted state root (e.g. from a block header).
+   * Defaults to the root embedded in the proof.
+   */
+  public static verifyProof(proof: StateProof, trustedRoot: string = proof.root): boolean {
+    try {
+      const key = accountKey(proof.address);
+      if (key.toString('hex') !== proof.key || proof.siblings.length > KEY_BITS) {
+        return false;
+      }
+
+      let node: Buffer;
+      if (proof.account) {
+        if (proof.account.address !== proof.address) return false;
+        node = leafHash(key, accountValueHash(proof.account));
+      } else if (proof.conflictingLeaf) {
+        const otherKey = Buffer.from(proof.conflictingLeaf.key, 'hex');
+        if (otherKey.length !== 32 || otherKey.equals(key)) return false;
+        // The other leaf must sit on the same path as the queried key
+        for (let depth = 0; depth < proof.siblings.length; depth++) {
+          if (bitAt(otherKey, depth) !== bitAt(key, depth)) return false;
+        }
+        node = leafHash(otherKey, Buffer.from(proof.conflictingLeaf.valueHash, 'hex'));
+      } else {
+        node = EMPTY_HASH;
+      }
+
+      for (let depth = proof.siblings.length - 1; depth >= 0; depth--) {
+        const sibling = Buffer.from(proof.siblings[depth], 'hex');
+        node = bitAt(key, depth) ? internalHash(sibling, node) : internalHash(node, sibling);
+      }
+
+      return node.toString('hex') === trustedRoot;
+    } catch (error) {
+      return false;
+    }
+  }
+}
+
+function buildNode(leaves: Array<{ key: Buffer; valueHash: Buffer; account: AccountLeaf }>, depth: number): TrieNode {
+  if (leaves.length === 0) {
+    return { hash: EMPTY_HASH };
+  }
+  if (leaves.length === 1) {
+    const [leaf] = leaves;
+    return { hash: leafHash(leaf.key, leaf.valueHash), leaf };
+  }
+  if (depth >= KEY_BITS) {
+    throw new Error('Duplicate account key in state trie');
+  }
+
+  // Leaves are sorted, so everything with bit 0 at this depth precedes bit 1
+  const split = leaves.findIndex(leaf => bitAt(leaf.key, depth));
+  const leftLeaves = split === -1 ? leaves : leaves.slice(0, split);
+  const rightLeaves = split === -1 ? [] : leaves.slice(split);
+  const left = buildNode(leftLeaves, depth + 1);
+  const right = buildNode(rightLeaves, depth + 1);
+  return { hash: internalHash(left.hash, right.hash), left, right };
+}
+
+function accountKey(address: string): Buffer {
+  return createHash('sha256').update(address).digest();
+}
+
+function accountValueHash(account: AccountLeaf): Buffer {
+  const fields: unknown[] = [account.address, account.balance, account.nonce, account.stake];
+  if (account.data) {
+    fields.push(canonicalize(account.data));
+  }
+  return createHash('sha256').update(JSON.stringify(fields)).digest();
+}
+
+// Sort object keys recursively so the data commitment is independent of insertion order
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === 'object') {
+    return Object.keys(value).sort().reduce((sorted, key) => {
+      sorted[key] = canonicalize((value as Record<string, unknown>)[key]);
+      return sorted;
+    }, {} as Record<string, unknown>);
+  }
+  return value;
+}
+
+function leafHash(key: Buffer, valueHash: Buffer): Buffer {
+  return createHash('sha256').update(Buffer.concat([LEAF_PREFIX, key, valueHash])).digest();
+}
+
+function internalHash(left: Buffer, right: Buffer): Buffer {
+  return createHash('sha256').update(Buffer.concat([NODE_PREFIX, left, right])).digest();
+}
+
+function bitAt(key: Buffer, depth: number): boolean {
+  return (key[depth >> 3] & (0x80 >> (depth & 7))) !== 0;
+}
@@ -7,6 +7,9 @@
 
 import type { Block } from '@shared/types/BlockchainTypes';
 import { ValidatorTier } from '@shared/consensus/hierarchicalValidators';
+import type { P2PNode } from '../../network/P2PNode';
+import type { PeerManager } from '../../network/PeerManager';
+import type { Mempool, MempoolTransaction } from '../blockchain/Mempool';
 
 export interface GossipSubConfig {
   // Target number of peers to gossip with
@@ -29,6 +32,12 @@ export interface GossipSubConfig {
   mcacheLength: number;
   mcacheGossip: number;
   
+  // Seen-cache TTL (ms) for deduplicating gossiped messages
+  seenTTL: number;
+  
+  // Maximum message ids in one announcement
+  maxIHaveLength: number;
+  
   // Score thresholds for peer management
   scoreThresholds: {
     gossipThreshold: number;
@@ -52,6 +61,35 @@ export interface BlockMessage {
   senderId: string;
 }
 
+/**
+ * Announcement of transaction hashes; peers fetch the bodies they do not have yet
+ */
+export interface TransactionAnnouncement {
+  type: 'announce';
+  hashes: string[];
+  timestamp: number;
+  senderId: string;
+}
+
+export interface TransactionGossipOptions<T extends MempoolTransaction> {
+  p2pNode: P2PNode;
+  peerManager: PeerManager;
+  mempool: Mempool<T>;
+  validate: (transaction: T) => string | null; // Reason a fetched transaction is invalid, or null
+  accept: (transaction: T) => boolean; // Add a valid transaction to the local mempool
+}
+
+export interface TransactionGossipStats {
+  announced: number;
+  announcementsReceived: number;
+  fetched: number;
+  accepted: number;
+  invalid: number;
+  duplicates: number;
+  fetchFailures: number;
+  seenCacheSize: number;
+}
+
 export interface PeerInfo {
   address: string;
   tier: ValidatorTier;
@@ -67,6 +105,23 @@ export class OptimizedP2PNetwork {
   private peers: Map<string, PeerInfo> = new Map();
   private bandwidthStats: Map<string, { sent: number; received: number }> = new Map();
   
+  // Transaction gossip
+  private transactionGossip: TransactionGossipOptions<any> | null = null;
+  private pendingAnnouncements: string[] = [];
+  private seenTransactions: Map<string, number> = new Map(); // hash -> first seen
+  private requestedTransactions: Set<string> = new Set(); // hashes being fetched
+  private announceTimer: NodeJS.Timeout | null = null;
+  private announceOnAdd = (transaction: MempoolTransaction) => this.queueAnnouncement(transaction.hash);
+  private transactionGossipStats = {
+    announced: 0,
+    announcementsReceived: 0,
+    fetched: 0,
+    accepted: 0,
+    invalid: 0,
+    duplicates: 0,
+    fetchFailures: 0
+  };
+  
   constructor() {
     this.config = this.createOptimalConfig();
     this.topics = this.setupTopics();
@@ -98,6 +153,10 @@ export class OptimizedP2PNetwork {
       mcacheLength: 5,     // Keep last 5 heartbeats worth of messages
       mcacheGossip: 3,     // Gossip about last 3 heartbeats
       
+      // Deduplication
+      seenTTL: 120000,     // Remember announced transactions for 2 minutes
+      maxIHaveLength: 500, // Transaction hashes per announcement
+      
       // Score thresholds for peer management
       scoreThresholds: {
         gossipThreshold: -100,   // Below this, don't gossip with peer
@@ -326,6 +385,181 @@ export class OptimizedP2PNetwork {
     }
   }
   
+  /**
+   * Gossip transactions over the transactions topic: every heartbeat, hashes added to the
+   * mempool are announced, and peers fetch the bodies they have not seen. A fetched
+   * transaction is validated before it enters the mempool, which announces it onwards;
+   * peers relaying invalid transactions lose reputation.
+   */
+  async enableTransactionGossip<T extends MempoolTransaction>(options: TransactionGossipOptions<T>): Promise<void> {
+    if (this.transactionGossip) {
+      throw new Error('Transaction gossip is already enabled');
+    }
+    this.transactionGossip = options;
+    
+    await options.p2pNode.handleRequest<{ hashes: string[] }, { transactions: T[] }>('txs/fetch', async ({ hashes }) => ({
+      transactions: (Array.isArray(hashes) ? hashes : [])
+        .slice(0, this.config.maxIHaveLength)
+        .map(hash => options.mempool.get(hash))
+        .filter((transaction): transaction is T => !!transaction)
+    }));
+    await options.p2pNode.subscribeToTopic(this.topics.transactions, (data, peerId) => {
+      this.handleAnnouncement(data, peerId).catch(error => {
+        console.error(`[P2P] Failed to handle transaction announcement from ${peerId}:`, error);
+      });
+    });
+    
+    options.mempool.on('added', this.announceOnAdd);
+    this.announceTimer = setInterval(() => {
+      this.flushAnnouncements().catch(error => console.error('[P2P] Failed to announce transactions:', error));
+    }, this.config.heartbeatInterval);
+    
+    console.log(`[P2P] Transaction gossip enabled on ${this.topics.transactions}`);
+  }
+  
+  /**
+   * Stop announcing and fetching transactions
+   */
+  disableTransactionGossip(): void {
+    if (!this.transactionGossip) return;
+    this.transactionGossip.mempool.off('added', this.announceOnAdd);
+    if (this.announceTimer) {
+      clearInterval(this.announceTimer);
+      this.announceTimer = null;
+    }
+    this.transactionGossip = null;
+    this.pendingAnnouncements = [];
+  }
+  
+  /**
+   * Get transaction gossip statistics
+   */
+  getTransactionGossipStats(): TransactionGossipStats {
+    this.pruneSeenTransactions();
+    return {
+      ...this.transactionGossipStats,
+      seenCacheSize: this.seenTransactions.size,
+    };
+  }
+  
+  /**
+   * Queue a mempool transaction for the next announcement, once per seen-cache TTL
+   */
+  private queueAnnouncement(hash: string): void {
+    if (this.markSeen(hash)) {
+      this.pendingAnnouncements.push(hash);
+    }
+  }
+  
+  /**
+   * Publish queued hashes, at most maxIHaveLength per announcement
+   */
+  private async flushAnnouncements(): Promise<void> {
+    if (!this.transactionGossip || this.pendingAnnouncements.length === 0) return;
+    const { p2pNode } = this.transactionGossip;
+    const senderId = p2pNode.getNodeInfo()?.peerId || 'self';
+    
+    while (this.pendingAnnouncements.length > 0) {
+      const hashes = this.pendingAnnouncements.splice(0, this.config.maxIHaveLength);
+      const announcement: TransactionAnnouncement = { type: 'announce', hashes, timestamp: Date.now(), senderId };
+      const data = new TextEncoder().encode(JSON.stringify(announcement));
+      await p2pNode.publishToTopic(this.topics.transactions, data);
+      this.transactionGossipStats.announced += hashes.length;
+      this.updateBandwidthStats(this.topics.transactions, data.length / 1024);
+    }
+  }
+  
+  /**
+   * Fetch the announced transactions this node has not seen from the announcing peer
+   */
+  private async handleAnnouncement(data: Uint8Array, peerId: string): Promise<void> {
+    if (!this.transactionGossip) return;
+    const { p2pNode, peerManager, mempool } = this.transactionGossip;
+    this.transactionGossipStats.announcementsReceived++;
+    
+    let announcement: TransactionAnnouncement;
+    try {
+      announcement = JSON.parse(new TextDecoder().decode(data));
+    } catch (error) {
+      peerManager.recordInvalidMessage(peerId, 'Malformed transaction announcement');
+      return;
+    }
+    if (announcement?.type !== 'announce' || !Array.isArray(announcement.hashes) ||
+        announcement.hashes.length > this.config.maxIHaveLength) {
+      peerManager.recordInvalidMessage(peerId, 'Malformed transaction announcement');
+      return;
+    }
+    
+    this.pruneSeenTransactions();
+    const unknown = announcement.hashes.filter(hash => typeof hash === 'string' &&
+      !this.seenTransactions.has(hash) && !this.requestedTransactions.has(hash) && !mempool.has(hash));
+    this.transactionGossipStats.duplicates += announcement.hashes.length - unknown.length;
+    if (unknown.length === 0) return;
+    
+    unknown.forEach(hash => this.requestedTransactions.add(hash));
+    try {
+      const startTime = Date.now();
+      const response = await p2pNode.request<{ hashes: string[] }, { transactions: any[] }>(peerId, 'txs/fetch', { hashes: unknown });
+      peerManager.recordMessageActivity(peerId, 'received', Date.now() - startTime);
+      
+      const requested = new Set(unknown);
+      for (const transaction of Array.isArray(response?.transactions) ? response.transactions : []) {
+        if (!requested.has(transaction?.hash)) {
+          peerManager.recordInvalidMessage(peerId, 'Sent an unrequested transaction');
+          continue;
+        }
+        requested.delete(transaction.hash);
+        this.transactionGossipStats.fetched++;
+        this.receiveTransaction(transaction, peerId);
+      }
+    } catch (error) {
+      this.transactionGossipStats.fetchFailures++;
+      peerManager.recordPeerError(peerId, `Transaction fetch failed: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      // Hashes the peer did not deliver stay unseen, so another announcer can serve them
+      unknown.forEach(hash => this.requestedTransactions.delete(hash));
+    }
+  }
+  
+  /**
+   * Validate a fetched transaction and add it to the mempool, which relays it
+   */
+  private receiveTransaction(transaction: any, peerId: string): void {
+    const { peerManager, validate, accept } = this.transactionGossip!;
+    const invalid = validate(transaction);
+    if (invalid) {
+      // Remembered as seen so the same invalid transaction is not fetched again
+      this.markSeen(transaction.hash);
+      this.transactionGossipStats.invalid++;
+      peerManager.recordInvalidMessage(peerId, `Relayed invalid transaction: ${invalid}`);
+      console.warn(`[P2P] Invalid transaction ${transaction.hash} from ${peerId}: ${invalid}`);
+      return;
+    }
+    if (accept(transaction)) {
+      this.transactionGossipStats.accepted++;
+    } else {
+      // Valid but not admitted (nonce or fee rules); not the relaying peer's fault
+      this.markSeen(transaction.hash);
+    }
+  }
+  
+  /**
+   * Record a transaction hash as seen; false when it already was
+   */
+  private markSeen(hash: string): boolean {
+    if (this.seenTransactions.has(hash)) return false;
+    this.seenTransactions.set(hash, Date.now());
+    return true;
+  }
+  
+  private pruneSeenTransactions(): void {
+    const cutoff = Date.now() - this.config.seenTTL;
+    for (const [hash, seenAt] of this.seenTransactions) {
+      if (seenAt >= cutoff) break; // Insertion order is oldest first
+      this.seenTransactions.delete(hash);
+    }
+  }
+  
   /**
    * Reset bandwidth statistics
    */
@@ -3,10 +3,14 @@ import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
 import { storage } from "./storage";
 import { emotionalChainService } from "./services/emotionalchain";
+import { stakingLedger, StakingError } from "./services/staking";
 import { advancedFeaturesService } from "./services/advanced-features";
 import { dataIntegrityAudit } from "./services/data-integrity-audit";
+import { transactionReceiptService, type TransactionReceipt } from "./services/transaction-receipts";
+import { MempoolError } from "./blockchain/Mempool";
 import configRouter from "./routes/config";
 import { CONFIG } from "../shared/config";
+import { governanceParameters } from "../shared/governance/parameters";
 
 // **FIX: Add wallet caching to prevent spam**
 let walletCache: { data: any; timestamp: number } | null = null;
@@ -54,6 +58,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   const blockchainRouter = await import("./routes/blockchain-immutable");
   app.use("/api/blockchain", blockchainRouter.default);
   
+  // Chain Snapshot API (fast sync)
+  const snapshotsRouter = await import("./routes/snapshots");
+  app.use("/api/snapshots", snapshotsRouter.default);
+  
+  // Light Client Proof API (headers, validator keys, transaction inclusion)
+  const proofsRouter = await import("./routes/proofs");
+  app.use("/api/proofs", proofsRouter.default);
+  
   // GDPR Compliance API
   const gdprRouter = await import("./routes/gdpr");
   app.use("/api/gdpr", gdprRouter.default);
@@ -109,6 +121,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
     }
   });
+  // Governed parameters in force at a block height compared with the active set on chain
+  app.get("/api/config/diff/:blockHeight", (req, res) => {
+    const blockHeight = parseInt(req.params.blockHeight, 10);
+    if (isNaN(blockHeight) || blockHeight < 0) {
+      return res.status(400).json({ success: false, error: 'Invalid block height' });
+    }
+    const differences = governanceParameters.diff(blockHeight);
+    res.json({
+      success: true,
+      data: {
+        blockHeight,
+        parameters: governanceParameters.getAt(blockHeight),
+        active: governanceParameters.getAll(),
+        differences,
+        totalChanges: differences.length
+      }
+    });
+  });
   // EmotionalChain API routes
   app.get("/api/network/status", async (req, res) => {
     try {
@@ -159,6 +189,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.status(500).json({ error: (error as Error).message });
     }
   });
+  app.get("/api/transactions/:hash/receipt", async (req, res) => {
+    try {
+      const receipt = await transactionReceiptService.getReceipt(req.params.hash);
+      if (!receipt) {
+        return res.status(404).json({ error: 'Transaction receipt not found' });
+      }
+      res.json(receipt);
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
   app.get("/api/validators", async (req, res) => {
     try {
       const validators = await emotionalChainService.getValidators();
@@ -291,45 +332,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.status(500).json({ error: 'Failed to fetch wallet balance' });
     }
   });
-  // NEW: Voluntary staking endpoints
-  app.post('/api/staking/stake', async (req, res) => {
-    try {
-      const { validatorId, amount } = req.body;
-      const success = await emotionalChainService.stakeEMO(validatorId, amount);
-      if (success) {
-        res.json({ 
-          success: true, 
-          message: `Successfully staked ${amount} EMO for ${validatorId}`,
-          bonusAPY: "15%" // Bonus rewards for voluntary staking
-        });
-      } else {
-        res.status(400).json({ 
-          success: false, 
-          message: 'Staking failed - insufficient liquid balance' 
-        });
-      }
-    } catch (error) {
-      res.status(500).json({ error: 'Failed to stake EMO' });
-    }
+  // Stake moves on chain as signed typed transactions; these endpoints only point callers there
+  app.post('/api/staking/stake', (_req, res) => {
+    const error = StakingError.onChain('stake');
+    res.status(400).json({ success: false, reason: error.reason, message: error.message });
   });
 
-  app.post('/api/staking/unstake', async (req, res) => {
+  app.post('/api/staking/unstake', (_req, res) => {
+    const error = StakingError.onChain('unstake');
+    res.status(400).json({ success: false, reason: error.reason, message: error.message });
+  });
+
+  // Unbonding queue: unstaked and undelegated stake waits in chain state, still slashable, until its completion height
+  app.get('/api/staking/unbonding/:address', async (req, res) => {
     try {
-      const { validatorId, amount } = req.body;
-      const success = await emotionalChainService.unstakeEMO(validatorId, amount);
-      if (success) {
-        res.json({ 
-          success: true, 
-          message: `Successfully unstaked ${amount} EMO for ${validatorId}` 
-        });
-      } else {
-        res.status(400).json({ 
-          success: false, 
-          message: 'Unstaking failed - insufficient staked balance' 
-        });
-      }
+      const queue = await emotionalChainService.getUnbondingQueue(req.params.address);
+      res.json(queue);
     } catch (error) {
-      res.status(500).json({ error: 'Failed to unstake EMO' });
+      res.status(500).json({ error: 'Failed to get unbonding queue' });
     }
   });
 
@@ -344,22 +364,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   app.post('/api/transfer', async (req, res) => {
+    const { from, to, amount, fee, nonce, timestamp, publicKey, signature } = req.body;
+    if (!from || !to || amount === undefined || fee === undefined || nonce === undefined || !timestamp || !publicKey || !signature) {
+      return res.status(400).json({
+        success: false,
+        message: 'Missing required fields: from, to, amount, fee, nonce, timestamp, publicKey, signature'
+      });
+    }
     try {
-      const { from, to, amount } = req.body;
-      const success = await emotionalChainService.transferEMO(from, to, amount);
-      if (success) {
-        res.json({ 
-          success: true, 
-          message: `Successfully transferred ${amount} EMO from ${from} to ${to}` 
-        });
-      } else {
-        res.status(400).json({ 
-          success: false, 
-          message: 'Transfer failed - insufficient balance' 
-        });
-      }
+      const transaction = await emotionalChainService.transferEMO({
+        from,
+        to,
+        amount: Number(amount),
+        fee: Number(fee),
+        nonce: Number(nonce),
+        timestamp: Number(timestamp),
+        publicKey,
+        signature
+      });
+      res.json({
+        success: true,
+        hash: transaction.hash,
+        message: `Transfer of ${amount} EMO from ${from} to ${to} added to mempool`
+      });
     } catch (error) {
-      res.status(500).json({ error: 'Failed to process transfer' });
+      res.status(error instanceof MempoolError ? 409 : 400).json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Transfer rejected',
+        reason: error instanceof MempoolError ? error.reason : undefined
+      });
     }
   });
   app.get('/api/wallets', async (req, res) => {
@@ -711,43 +744,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/delegation/delegate', async (req, res) => {
-    try {
-      const { delegatorId, validatorId, amount } = req.body;
-      if (!delegatorId || !validatorId || !amount) {
-        return res.status(400).json({ error: 'Missing required fields' });
-      }
-      const result = await emotionalChainService.delegateToValidator(delegatorId, validatorId, amount);
-      res.json(result);
-    } catch (error) {
-      res.status(500).json({ error: 'Failed to delegate tokens' });
-    }
+  // Delegation and reward claims move on chain as signed typed transactions; these endpoints only point callers there
+  app.post('/api/delegation/delegate', (_req, res) => {
+    const error = StakingError.onChain('delegate');
+    res.status(400).json({ success: false, reason: error.reason, message: error.message });
   });
 
-  app.post('/api/delegation/undelegate', async (req, res) => {
-    try {
-      const { delegatorId, validatorId, amount } = req.body;
-      if (!delegatorId || !validatorId || !amount) {
-        return res.status(400).json({ error: 'Missing required fields' });
-      }
-      const result = await emotionalChainService.undelegateFromValidator(delegatorId, validatorId, amount);
-      res.json(result);
-    } catch (error) {
-      res.status(500).json({ error: 'Failed to undelegate tokens' });
-    }
+  app.post('/api/delegation/undelegate', (_req, res) => {
+    const error = StakingError.onChain('undelegate');
+    res.status(400).json({ success: false, reason: error.reason, message: error.message });
   });
 
-  app.post('/api/delegation/claim-rewards', async (req, res) => {
-    try {
-      const { delegatorId, validatorId } = req.body;
-      if (!delegatorId) {
-        return res.status(400).json({ error: 'Missing delegatorId' });
-      }
-      const result = await emotionalChainService.claimDelegationRewards(delegatorId, validatorId);
-      res.json(result);
-    } catch (error) {
-      res.status(500).json({ error: 'Failed to claim rewards' });
-    }
+  app.post('/api/delegation/redelegate', (_req, res) => {
+    const error = StakingError.onChain('redelegate');
+    res.status(400).json({ success: false, reason: error.reason, message: error.message });
+  });
+
+  app.post('/api/delegation/claim-rewards', (_req, res) => {
+    const error = StakingError.onChain('claim');
+    res.status(400).json({ success: false, reason: error.reason, message: error.message });
   });
 
   app.get('/api/delegation/delegator/:id/dashboard', async (req, res) => {
@@ -760,47 +775,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Hybrid Consensus - Validator Staking Routes
-  app.post('/api/validators/stake', async (req, res) => {
-    try {
-      const { validatorAddress, amount, lockPeriod } = req.body;
-      
-      if (!validatorAddress || !amount) {
-        return res.status(400).json({ error: 'Missing required fields: validatorAddress, amount' });
-      }
-
-      // GDPR COMPLIANCE: Check consent before allowing staking
-      const { gdprService } = await import('./gdpr/complianceService');
-      const hasConsent = await gdprService.hasValidConsent(validatorAddress);
-      
-      if (!hasConsent) {
-        return res.status(403).json({ 
-          error: 'GDPR consent required',
-          message: 'You must provide consent for biometric data processing before staking. Please register consent at /api/gdpr/consent',
-          validatorAddress
-        });
-      }
-
-      const { hybridConsensus } = await import('../shared/consensus/hybridConsensus');
-      const stake = await hybridConsensus.stakeTokens({
-        validatorAddress,
-        amount: BigInt(amount),
-        lockPeriod: lockPeriod || 14
-      });
-
-      const created = await storage.createValidatorStake(stake);
-      res.json(created);
-    } catch (error) {
-      res.status(500).json({ error: (error as Error).message });
-    }
+  app.post('/api/validators/stake', (_req, res) => {
+    const error = StakingError.onChain('stake');
+    res.status(400).json({ error: error.message, reason: error.reason });
   });
 
   app.get('/api/validators/stake/:address', async (req, res) => {
     try {
-      const stake = await storage.getValidatorStake(req.params.address);
+      await stakingLedger.ready();
+      const stake = stakingLedger.getValidator(req.params.address);
       if (!stake) {
         return res.status(404).json({ error: 'No stake found for validator' });
       }
-      res.json(stake);
+      res.json({
+        ...stake,
+        positions: stakingLedger.getPositions(req.params.address),
+        unbondings: stakingLedger.getUnbondings(undefined, req.params.address)
+      });
     } catch (error) {
       res.status(500).json({ error: (error as Error).message });
     }
@@ -808,37 +799,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/validators/stakes', async (req, res) => {
     try {
-      const stakes = await storage.getAllValidatorStakes();
-      res.json(stakes);
+      await stakingLedger.ready();
+      res.json(stakingLedger.getValidators());
     } catch (error) {
       res.status(500).json({ error: (error as Error).message });
     }
   });
 
-  app.post('/api/validators/unstake', async (req, res) => {
-    try {
-      const { validatorAddress } = req.body;
-      
-      if (!validatorAddress) {
-        return res.status(400).json({ error: 'Missing required field: validatorAddress' });
-      }
-
-      const stake = await storage.getValidatorStake(validatorAddress);
-      if (!stake) {
-        return res.status(404).json({ error: 'No stake found for validator' });
-      }
-
-      const { hybridConsensus } = await import('../shared/consensus/hybridConsensus');
-      const result = await hybridConsensus.unstakeTokens(stake);
-      
-      if (!result.allowed) {
-        return res.status(400).json({ error: result.reason });
-      }
-
-      res.json({ success: true, message: 'Unstake request approved' });
-    } catch (error) {
-      res.status(500).json({ error: (error as Error).message });
-    }
+  app.post('/api/validators/unstake', (_req, res) => {
+    const error = StakingError.onChain('unstake');
+    res.status(400).json({ error: error.message, reason: error.reason });
   });
 
   // Three-Tier Device Attestation Routes
@@ -1165,7 +1135,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Start BootstrapNode and mining process
   const { BootstrapNode } = await import("./blockchain/BootstrapNode");
-  const bootstrapNode = new BootstrapNode(8000);
+  const bootstrapNode = new BootstrapNode();
   
   // Wait for blockchain to be fully initialized before starting mining
   const blockchain = bootstrapNode.getBlockchain();
@@ -1187,6 +1157,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     path: '/ws'
   });
   
+  // Push receipts to every client once they finalize (or fail)
+  const broadcastReceipt = (receipt: TransactionReceipt) => {
+    const message = JSON.stringify({
+      type: 'transactionReceipt',
+      data: receipt,
+      timestamp: new Date().toISOString()
+    });
+    wss.clients.forEach(client => {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(message);
+      }
+    });
+  };
+  transactionReceiptService.on('finalized', broadcastReceipt);
+  transactionReceiptService.on('failed', broadcastReceipt);
+  wss.on('close', () => {
+    transactionReceiptService.off('finalized', broadcastReceipt);
+    transactionReceiptService.off('failed', broadcastReceipt);
+  });
+  
   wss.on('connection', (ws: WebSocket, req) => {
     // Send initial data
     ws.send(JSON.stringify({ 
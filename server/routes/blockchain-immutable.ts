@@ -6,9 +6,12 @@
 import { Router } from 'express';
 import { emotionalChainService } from '../services/emotionalchain';
 import { ImmutableBlockchainService } from '../blockchain/ImmutableBlockchainService';
+import { MempoolError } from '../blockchain/Mempool';
+import { FinalityGadget } from '../../consensus/FinalityGadget';
+import { storage } from '../storage';
 
 const router = Router();
-const immutableBlockchain = new ImmutableBlockchainService();
+const immutableBlockchain = ImmutableBlockchainService.getInstance();
 
 // Get blockchain state (balances from immutable source)
 router.get('/state', async (req, res) => {
@@ -57,6 +60,59 @@ router.get('/balance/:address', async (req, res) => {
   }
 });
 
+// Get Merkle proof of an account's balance, stake and nonce
+router.get('/state/proof/:address', async (req, res) => {
+  try {
+    const { address } = req.params;
+    const { proof, block } = await immutableBlockchain.getStateProof(address);
+    
+    res.json({
+      success: true,
+      data: {
+        proof,
+        block,
+        anchored: block?.stateRoot === proof.root,
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    console.error('BLOCKCHAIN IMMUTABILITY: Failed to build state proof:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to build state proof'
+    });
+  }
+});
+
+// Verify a state proof against a trusted state root
+router.post('/state/verify-proof', async (req, res) => {
+  try {
+    const { proof, stateRoot } = req.body;
+    
+    if (!proof || !proof.address || !Array.isArray(proof.siblings)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required fields: proof.address, proof.siblings'
+      });
+    }
+    
+    res.json({
+      success: true,
+      data: {
+        valid: immutableBlockchain.verifyStateProof(proof, stateRoot),
+        stateRoot: stateRoot || proof.root,
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    console.error('BLOCKCHAIN IMMUTABILITY: Failed to verify state proof:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to verify state proof'
+    });
+  }
+});
+
 // Get transactions from blockchain (immutable source)
 router.get('/transactions', async (req, res) => {
   try {
@@ -68,6 +124,7 @@ router.get('/transactions', async (req, res) => {
       data: {
         transactions: transactions.map(tx => ({
           id: tx.id,
+          hash: tx.hash,
           from: tx.from,
           to: tx.to,
           amount: tx.amount,
@@ -93,12 +150,12 @@ router.get('/transactions', async (req, res) => {
 // Create new transaction on blockchain
 router.post('/transaction', async (req, res) => {
   try {
-    const { from, to, amount, emotionalProofHash = '', signature = '' } = req.body;
+    const { from, to, amount, emotionalProofHash = '', signature, publicKey, nonce, fee, timestamp } = req.body;
     
-    if (!from || !to || !amount) {
+    if (!from || !to || !amount || !signature || !publicKey || nonce === undefined || fee === undefined || !timestamp) {
       return res.status(400).json({
         success: false,
-        error: 'Missing required fields: from, to, amount'
+        error: 'Missing required fields: from, to, amount, signature, publicKey, nonce, fee, timestamp'
       });
     }
     
@@ -107,7 +164,13 @@ router.post('/transaction', async (req, res) => {
       to,
       parseFloat(amount),
       emotionalProofHash,
-      signature
+      signature,
+      {
+        publicKey,
+        nonce: parseInt(nonce),
+        fee: parseFloat(fee),
+        timestamp: parseInt(timestamp)
+      }
     );
     
     console.log(`BLOCKCHAIN IMMUTABILITY: Transaction created ${transaction.id}`);
@@ -117,6 +180,8 @@ router.post('/transaction', async (req, res) => {
       data: {
         transaction: {
           id: transaction.id,
+          hash: transaction.hash,
+          nonce: transaction.nonce,
           from: transaction.from,
           to: transaction.to,
           amount: transaction.amount,
@@ -124,14 +189,220 @@ router.post('/transaction', async (req, res) => {
           timestamp: transaction.timestamp,
           emotionalProofHash: transaction.emotionalProofHash
         },
-        message: 'Transaction created and added to pending pool'
+        message: 'Transaction created and added to mempool'
       }
     });
   } catch (error) {
     console.error('BLOCKCHAIN IMMUTABILITY: Transaction creation failed:', error);
+    res.status(error instanceof MempoolError ? 409 : 400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Transaction creation failed',
+      reason: error instanceof MempoolError ? error.reason : undefined
+    });
+  }
+});
+
+// Submit a signed typed transaction envelope (stake, delegate, consent, governance, ...)
+router.post('/typed-transaction', async (req, res) => {
+  try {
+    const { envelope, from, to, amount, fee, nonce, timestamp, publicKey, signature } = req.body;
+
+    if (!envelope || !from || nonce === undefined || !timestamp || !publicKey || !signature) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required fields: envelope, from, nonce, timestamp, publicKey, signature'
+      });
+    }
+
+    const transaction = await immutableBlockchain.submitTypedTransaction({
+      envelope,
+      from,
+      to,
+      amount: amount !== undefined ? Number(amount) : undefined,
+      fee: fee !== undefined ? Number(fee) : 0,
+      nonce: Number(nonce),
+      timestamp: Number(timestamp),
+      publicKey,
+      signature
+    });
+
+    console.log(`BLOCKCHAIN IMMUTABILITY: Typed transaction ${transaction.envelope!.kind} created ${transaction.id}`);
+
+    res.json({
+      success: true,
+      data: {
+        transaction: {
+          id: transaction.id,
+          hash: transaction.hash,
+          kind: transaction.envelope!.kind,
+          nonce: transaction.nonce,
+          from: transaction.from,
+          to: transaction.to,
+          amount: transaction.amount,
+          fee: transaction.fee,
+          timestamp: transaction.timestamp
+        },
+        message: 'Typed transaction added to mempool'
+      }
+    });
+  } catch (error) {
+    console.error('BLOCKCHAIN IMMUTABILITY: Typed transaction rejected:', error);
+    res.status(error instanceof MempoolError ? 409 : 400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Typed transaction rejected',
+      reason: error instanceof MempoolError ? error.reason : undefined
+    });
+  }
+});
+
+// Get on-chain account state written by typed transactions
+router.get('/account/:address', async (req, res) => {
+  try {
+    const { address } = req.params;
+
+    res.json({
+      success: true,
+      data: {
+        address,
+        balance: immutableBlockchain.getBalanceFromBlockchain(address),
+        nonce: immutableBlockchain.getNonceInfo(address).accountNonce,
+        accountData: immutableBlockchain.getAccountData(address),
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    console.error('BLOCKCHAIN IMMUTABILITY: Failed to get account:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get account'
+    });
+  }
+});
+
+// Get governance proposals committed on chain, optionally filtered by status
+router.get('/governance/proposals', async (req, res) => {
+  try {
+    const { status } = req.query;
+    const proposals = Object.values(immutableBlockchain.getGovernanceState().proposals)
+      .filter(proposal => !status || proposal.status === status)
+      .sort((a, b) => b.submittedHeight - a.submittedHeight);
+
+    res.json({
+      success: true,
+      data: {
+        proposals,
+        count: proposals.length
+      }
+    });
+  } catch (error) {
+    console.error('BLOCKCHAIN IMMUTABILITY: Failed to get governance proposals:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get governance proposals'
+    });
+  }
+});
+
+// Get a governance proposal with its stake-weighted tally (live while voting is open)
+router.get('/governance/proposals/:id', async (req, res) => {
+  try {
+    const proposal = immutableBlockchain.getGovernanceState().proposals[req.params.id];
+    if (!proposal) {
+      return res.status(404).json({
+        success: false,
+        error: `Proposal ${req.params.id} not found`
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        proposal,
+        tally: immutableBlockchain.getProposalTally(proposal.id)
+      }
+    });
+  } catch (error) {
+    console.error('BLOCKCHAIN IMMUTABILITY: Failed to get governance proposal:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get governance proposal'
+    });
+  }
+});
+
+// Get the governable parameter set active in chain state and its activation history
+router.get('/governance/parameters', async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: {
+        parameters: immutableBlockchain.getActiveParameters(),
+        overrides: immutableBlockchain.getGovernanceState().parameters,
+        history: immutableBlockchain.getGovernanceState().history
+      }
+    });
+  } catch (error) {
+    console.error('BLOCKCHAIN IMMUTABILITY: Failed to get governance parameters:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get governance parameters'
+    });
+  }
+});
+
+// Submit double-sign evidence for inclusion and slashing
+router.post('/evidence', async (req, res) => {
+  try {
+    const { evidence } = req.body;
+
+    if (!evidence || !evidence.voteA || !evidence.voteB || !evidence.hash) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required fields: evidence.voteA, evidence.voteB, evidence.hash'
+      });
+    }
+
+    const accepted = immutableBlockchain.submitEvidence(evidence);
+
+    res.json({
+      success: true,
+      data: {
+        evidence: {
+          hash: accepted.hash,
+          validatorId: accepted.validatorId,
+          height: accepted.height,
+          roundId: accepted.roundId
+        },
+        message: 'Evidence queued for block inclusion'
+      }
+    });
+  } catch (error) {
+    console.error('BLOCKCHAIN IMMUTABILITY: Evidence rejected:', error);
     res.status(400).json({
       success: false,
-      error: error instanceof Error ? error.message : 'Transaction creation failed'
+      error: error instanceof Error ? error.message : 'Evidence rejected'
+    });
+  }
+});
+
+// Get double-sign evidence waiting for block inclusion
+router.get('/evidence', async (req, res) => {
+  try {
+    const pending = immutableBlockchain.getPendingEvidence();
+
+    res.json({
+      success: true,
+      data: {
+        pendingEvidence: pending.length,
+        evidence: pending,
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    console.error('BLOCKCHAIN IMMUTABILITY: Failed to get pending evidence:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get pending evidence'
     });
   }
 });
@@ -159,15 +430,60 @@ router.get('/verify', async (req, res) => {
   }
 });
 
-// Get pending transactions count
+// Get latest, safe and finalized chain heads
+router.get('/heads', async (req, res) => {
+  try {
+    const latestBlock = await storage.getLatestBlock();
+    const finalized = await FinalityGadget.loadLatestCheckpoint();
+    let heads = FinalityGadget.buildHeads({ height: latestBlock?.height || 0, hash: latestBlock?.hash || null }, finalized);
+    if (heads.safe.hash === null) {
+      const safeBlock = await storage.getBlockByHeight(heads.safe.height);
+      heads = FinalityGadget.buildHeads(heads.latest, finalized, safeBlock?.hash || null);
+    }
+    
+    res.json({
+      success: true,
+      data: {
+        ...heads,
+        finalizedCheckpoint: finalized && {
+          signedStake: finalized.signedStake,
+          totalStake: finalized.totalStake,
+          votes: finalized.votes.length,
+          finalizedAt: finalized.finalizedAt
+        },
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    console.error('BLOCKCHAIN IMMUTABILITY: Failed to get chain heads:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get chain heads'
+    });
+  }
+});
+
+// Get mempool contents ordered by fee
 router.get('/pending', async (req, res) => {
   try {
+    const limit = parseInt(req.query.limit as string) || 100;
     const pendingCount = immutableBlockchain.getPendingTransactionCount();
+    const pending = immutableBlockchain.getPendingTransactions(limit);
     
     res.json({
       success: true,
       data: {
         pendingTransactions: pendingCount,
+        mempool: immutableBlockchain.getMempoolStats(),
+        transactions: pending.map(tx => ({
+          hash: tx.hash,
+          from: tx.from,
+          to: tx.to,
+          amount: tx.amount,
+          fee: tx.fee,
+          nonce: tx.nonce,
+          timestamp: tx.timestamp
+        })),
         timestamp: new Date().toISOString()
       }
     });
@@ -180,4 +496,29 @@ router.get('/pending', async (req, res) => {
   }
 });
 
+// Get confirmed and next nonce for an address
+router.get('/nonce/:address', async (req, res) => {
+  try {
+    const { address } = req.params;
+    const { accountNonce, nextNonce, pending } = immutableBlockchain.getNonceInfo(address);
+    
+    res.json({
+      success: true,
+      data: {
+        address,
+        accountNonce,
+        nextNonce,
+        pendingTransactions: pending.length,
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    console.error('BLOCKCHAIN IMMUTABILITY: Failed to get nonce:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get account nonce'
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -4,6 +4,7 @@
  */
 import { Router } from 'express';
 import { CONFIG } from '../../shared/config';
+import { governanceParameters } from '../../shared/governance/parameters';
 // Config audit and fuzzer removed for production
 const router = Router();
 // Middleware for admin authentication (simplified for demo)
@@ -193,7 +194,7 @@ router.get('/config/health', requireAdmin, (req, res) => {
 });
 /**
  * GET /internal/config/diff/:blockHeight
- * Compare configuration at specific block with current
+ * Compare governed parameters in force at a specific block with current
  */
 router.get('/config/diff/:blockHeight', requireAdmin, async (req, res) => {
   try {
@@ -201,10 +202,11 @@ router.get('/config/diff/:blockHeight', requireAdmin, async (req, res) => {
     if (isNaN(blockHeight)) {
       return res.status(400).json({ error: 'Invalid block height' });
     }
-    const historicalConfig = {};
-    const differences: any[] = [];
+    const historicalConfig = governanceParameters.getAt(blockHeight);
+    const differences = governanceParameters.diff(blockHeight);
     res.json({
       blockHeight,
+      historicalConfig,
       differences,
       totalChanges: differences.length,
       timestamp: Date.now(),
@@ -0,0 +1,81 @@
+/**
+ * Light Client Proof API Routes
+ * Signed headers, validator keys and transaction inclusion proofs
+ */
+
+import { Router } from 'express';
+import { ChainProofs } from '../blockchain/ChainProofs';
+
+const router = Router();
+const proofs = new ChainProofs();
+
+// Get consecutive block headers starting at a height
+router.get('/headers', async (req, res) => {
+  try {
+    const from = parseInt(req.query.from as string, 10) || 0;
+    const limit = parseInt(req.query.limit as string, 10) || 100;
+    const headers = await proofs.getHeaders(from, limit);
+
+    res.json({
+      success: true,
+      data: {
+        headers,
+        maxHeaders: ChainProofs.MAX_HEADERS,
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    console.error('BLOCKCHAIN IMMUTABILITY: Failed to get block headers:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get block headers'
+    });
+  }
+});
+
+// Get validator public keys for header signature checks
+router.get('/validators', async (req, res) => {
+  try {
+    const validators = await proofs.getValidatorSet();
+
+    res.json({
+      success: true,
+      data: {
+        validators,
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    console.error('BLOCKCHAIN IMMUTABILITY: Failed to get validator set:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get validator set'
+    });
+  }
+});
+
+// Get a Merkle proof of transaction inclusion
+router.get('/tx/:hash', async (req, res) => {
+  try {
+    const proof = await proofs.getTransactionProof(req.params.hash);
+    if (!proof) {
+      return res.status(404).json({
+        success: false,
+        error: `Transaction ${req.params.hash} is not included in any block`
+      });
+    }
+
+    res.json({
+      success: true,
+      data: proof
+    });
+  } catch (error) {
+    console.error('BLOCKCHAIN IMMUTABILITY: Failed to build transaction proof:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to build transaction proof'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,106 @@
+/**
+ * Chain Snapshot API Routes
+ * Lists local state snapshots and serves manifests and chunks for fast sync
+ */
+
+import { Router } from 'express';
+import { SnapshotManager } from '../blockchain/SnapshotManager';
+
+const router = Router();
+const snapshots = new SnapshotManager();
+
+// List available snapshots, newest first
+router.get('/', async (req, res) => {
+  try {
+    const manifests = await snapshots.listSnapshots();
+
+    res.json({
+      success: true,
+      data: {
+        snapshots: manifests.map(manifest => ({
+          height: manifest.height,
+          blockHash: manifest.blockHash,
+          stateRoot: manifest.stateRoot,
+          createdAt: manifest.createdAt,
+          chunkCount: manifest.chunks.length,
+          accountCount: manifest.chunks.reduce((sum, chunk) => sum + chunk.accounts, 0),
+          manifestHash: manifest.manifestHash
+        })),
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    console.error('BLOCKCHAIN IMMUTABILITY: Failed to list snapshots:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list snapshots'
+    });
+  }
+});
+
+// Get a snapshot manifest (headers, validator set and chunk hashes)
+router.get('/:height', async (req, res) => {
+  try {
+    const height = parseInt(req.params.height, 10);
+    if (isNaN(height)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Snapshot height must be a number'
+      });
+    }
+
+    const manifest = await snapshots.getManifest(height);
+    if (!manifest) {
+      return res.status(404).json({
+        success: false,
+        error: `No snapshot at height ${height}`
+      });
+    }
+
+    res.json({
+      success: true,
+      data: manifest
+    });
+  } catch (error) {
+    console.error('BLOCKCHAIN IMMUTABILITY: Failed to get snapshot manifest:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get snapshot manifest'
+    });
+  }
+});
+
+// Get a single snapshot chunk
+router.get('/:height/chunks/:index', async (req, res) => {
+  try {
+    const height = parseInt(req.params.height, 10);
+    const index = parseInt(req.params.index, 10);
+    if (isNaN(height) || isNaN(index)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Snapshot height and chunk index must be numbers'
+      });
+    }
+
+    const chunk = await snapshots.getChunk(height, index);
+    if (!chunk) {
+      return res.status(404).json({
+        success: false,
+        error: `No chunk ${index} in snapshot at height ${height}`
+      });
+    }
+
+    res.json({
+      success: true,
+      data: chunk
+    });
+  } catch (error) {
+    console.error('BLOCKCHAIN IMMUTABILITY: Failed to get snapshot chunk:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get snapshot chunk'
+    });
+  }
+});
+
+export default router;
@@ -7,6 +7,10 @@ import express from 'express';
 import { hierarchicalConsensus, ValidatorTier, TIER_REQUIREMENTS } from '@shared/consensus/hierarchicalValidators';
 import { bandwidthMonitor } from '../monitoring/bandwidthMonitor';
 import { optimizedP2P } from '../p2p/optimizedGossip';
+import { db } from '../db';
+import { validatorStates } from '@shared/schema';
+import { eq } from 'drizzle-orm';
+import { ValidatorJail, type JailRecord } from '../../consensus/ValidatorJail';
 
 const router = express.Router();
 
@@ -48,6 +52,9 @@ router.get('/:address/tier', async (req, res) => {
     }
     
     const performance = await bandwidthMonitor.getPerformance(address, validator.tier);
+    const [state] = await db.select({ jail: validatorStates.jail })
+      .from(validatorStates)
+      .where(eq(validatorStates.validatorId, address));
     
     res.json({
       success: true,
@@ -58,6 +65,7 @@ router.get('/:address/tier', async (req, res) => {
         bandwidth: validator.bandwidth,
         uptime: validator.uptime,
         performance,
+        jail: ValidatorJail.statusOf(address, (state?.jail as JailRecord | null) ?? null),
       },
     });
   } catch (error) {
@@ -175,6 +183,7 @@ router.get('/network-stats', async (req, res) => {
     const stats = optimizedP2P.getNetworkStats();
     const config = optimizedP2P.getConfig();
     const topics = optimizedP2P.getTopics();
+    const transactionGossip = optimizedP2P.getTransactionGossipStats();
     
     res.json({
       success: true,
@@ -182,6 +191,7 @@ router.get('/network-stats', async (req, res) => {
         stats,
         config,
         topics,
+        transactionGossip,
       },
     });
   } catch (error) {
@@ -4,8 +4,9 @@ import { BootstrapNode } from '../blockchain/BootstrapNode';
 import { EmotionalWallet } from '../blockchain/EmotionalWallet';
 import { persistentTokenEconomics } from './token-economics-persistent';
 import { EmotionalStaking } from '../../consensus/EmotionalStaking';
-import { voluntaryStakingService } from './staking';
-import { ImmutableBlockchainService } from '../blockchain/ImmutableBlockchainService';
+import { stakingLedger } from './staking';
+import { CONFIG } from '@shared/config';
+import { ImmutableBlockchainService, type PendingTransaction } from '../blockchain/ImmutableBlockchainService';
 import { DatabaseToBlockchainMigration } from '../blockchain/DatabaseToBlockchainMigration.js';
 import { BlockchainBalanceCalculator } from '../blockchain/BlockchainBalanceCalculator.js';
 import { EmotionalTransaction } from '../../shared/types/BlockchainTypes.js';
@@ -13,6 +14,7 @@ import { DistributedBlockchainIntegration } from '../blockchain/DistributedBlock
 import { ValidatorNodeDeployment } from '../../deployment/ValidatorNodeDeployment';
 import { NetworkMonitoringDashboard } from '../../deployment/NetworkMonitoringDashboard';
 import { ProductionConfig } from '../../deployment/ProductionConfig';
+import { PeerScoring } from '../../network/PeerScoring';
 
 export class EmotionalChainService {
   private isRunning: boolean = false;
@@ -37,7 +39,7 @@ export class EmotionalChainService {
 
   constructor() {
     this.emotionalStaking = new EmotionalStaking();
-    this.immutableBlockchain = new ImmutableBlockchainService(); // Initialize immutable blockchain
+    this.immutableBlockchain = ImmutableBlockchainService.getInstance(); // Shared with block production and the API
     
     // Initialize production configuration
     this.productionConfig = ProductionConfig.getInstance();
@@ -175,7 +177,7 @@ export class EmotionalChainService {
   private async initializeRealBlockchain() {
     try {
       // Initialize bootstrap node with actual blockchain
-      this.bootstrapNode = new BootstrapNode(8000);
+      this.bootstrapNode = new BootstrapNode();
       await this.bootstrapNode.start();
       // Initialize wallet with the bootstrap node's blockchain and network
       this.wallet = new EmotionalWallet(
@@ -200,7 +202,10 @@ export class EmotionalChainService {
   public async getNetworkStatus() {
     try {
       // Get base network status
-      const baseStatus = await this.getBaseNetworkStatus();
+      const baseStatus = {
+        ...await this.getBaseNetworkStatus(),
+        peers: await this.getPeerList()
+      };
       
       // Add distributed network information if enabled
       if (this.isDistributedModeEnabled && this.distributedIntegration) {
@@ -234,6 +239,29 @@ export class EmotionalChainService {
     }
   }
 
+  /**
+   * Peers by score, read from the persisted peer scores so bans survive restarts
+   */
+  private async getPeerList() {
+    const now = Date.now();
+    const records = await storage.getAllPeerReputations();
+    return records
+      .map(record => PeerScoring.fromRecord(record))
+      .sort((a, b) => b.score - a.score)
+      .map(peer => ({
+        peerId: peer.peerId,
+        score: peer.score,
+        banned: peer.bannedUntil > now,
+        bannedUntil: peer.bannedUntil > now ? peer.bannedUntil : null,
+        banReason: peer.bannedUntil > now ? peer.banReason : null,
+        banCount: peer.banCount,
+        invalidMessages: peer.invalidMessages,
+        usefulBlocks: peer.usefulBlocks,
+        latency: Math.round(peer.latency),
+        lastSeen: peer.lastSeen
+      }));
+  }
+
   private async getBaseNetworkStatus() {
     // **ALWAYS USE REAL POE CONSENSUS**: Calculate authentic metrics from blockchain state
     const validators = await this.getValidators();
@@ -403,28 +431,28 @@ export class EmotionalChainService {
     }
     return [];
   }
-  public async transferEMO(from: string, to: string, amount: number): Promise<boolean> {
-    // **BLOCKCHAIN IMMUTABILITY**: Create transaction on immutable blockchain
-    try {
-      const transaction = await this.immutableBlockchain.createTransaction(
-        from,
-        to,
-        amount,
-        '', // emotionalProofHash - to be implemented with ZK proofs
-        '' // signature - to be implemented with cryptographic signing
-      );
-      
-
-      return true;
-    } catch (error) {
-      console.error('BLOCKCHAIN IMMUTABILITY: Transaction failed:', error);
-      
-      // Fallback to existing blockchain if immutable blockchain fails
-      if (this.blockchain && this.isRunning) {
-        return this.blockchain.transferEMO(from, to, amount);
-      }
-      return false;
-    }
+  /**
+   * Pool a plain transfer its sender signed; throws when the signature, nonce or balance
+   * would not pass the next block's state transition
+   */
+  public async transferEMO(transfer: {
+    from: string;
+    to: string;
+    amount: number;
+    fee: number;
+    nonce: number;
+    timestamp: number;
+    publicKey: string;
+    signature: string;
+  }): Promise<PendingTransaction> {
+    return this.immutableBlockchain.createTransaction(
+      transfer.from,
+      transfer.to,
+      transfer.amount,
+      '', // emotionalProofHash - to be implemented with ZK proofs
+      transfer.signature,
+      { publicKey: transfer.publicKey, nonce: transfer.nonce, fee: transfer.fee, timestamp: transfer.timestamp }
+    );
   }
   async getBalance(validatorId: string): Promise<number> {
     console.log(`BLOCKCHAIN: Getting balance for ${validatorId} from blockchain state`);
@@ -1093,56 +1121,33 @@ Mining rewards distributed to ecosystem validators.`;
       return { error: 'Token economics not available' };
     }
   }
-  async stakeEMO(validatorId: string, amount: number): Promise<boolean> {
-    return voluntaryStakingService.stakeTokens(validatorId, amount);
-  }
-
-  async unstakeEMO(validatorId: string, amount: number): Promise<boolean> {
-    return voluntaryStakingService.unstakeTokens(validatorId, amount);
+  async getUnbondingQueue(address: string) {
+    await stakingLedger.ready();
+    const entries = stakingLedger.getUnbondings(address);
+    return {
+      address,
+      unbondingDays: CONFIG.consensus.staking.unbondingDays,
+      totalUnbonding: entries.reduce((sum, e) => sum + e.amount, 0),
+      entries
+    };
   }
 
   async getStakingInfo(validatorId: string) {
-    // Get voluntary staking info from the staking service
-    const stakingInfo = voluntaryStakingService.getStakingInfo(validatorId);
-    
-    // Get delegation info from emotional staking engine
+    // Own bond and delegations both come from the staking ledger
+    const ownStake = stakingLedger.getPosition(validatorId, validatorId);
     const validatorStats = this.emotionalStaking.getValidatorStats(validatorId);
     
     return {
       validatorId,
-      voluntaryStaking: stakingInfo,
+      ownStake,
       validatorStats,
-      canDelegate: true,
-      delegationMinimum: 1000, // 1k EMO minimum
-      stakingAPY: stakingInfo.bonusAPY
+      canDelegate: !!validatorStats?.isActive,
+      delegationMinimum: CONFIG.consensus.staking.minimumDelegation,
+      minimumSelfStake: CONFIG.consensus.staking.minimumSelfStake
     };
   }
 
   // DELEGATION SYSTEM METHODS
-  async delegateToValidator(delegatorId: string, validatorId: string, amount: number) {
-    const result = await this.emotionalStaking.delegateStake(validatorId, delegatorId, amount);
-    if (result.success) {
-      console.log(`DELEGATION: ${delegatorId} delegated ${amount} EMO to ${validatorId}`);
-    }
-    return result;
-  }
-
-  async undelegateFromValidator(delegatorId: string, validatorId: string, amount: number) {
-    const result = await this.emotionalStaking.undelegateStake(validatorId, delegatorId, amount);
-    if (result.success) {
-      console.log(`UNDELEGATION: ${delegatorId} undelegated ${amount} EMO from ${validatorId}`);
-    }
-    return result;
-  }
-
-  async claimDelegationRewards(delegatorId: string, validatorId?: string) {
-    const result = this.emotionalStaking.claimDelegationRewards(delegatorId, validatorId);
-    if (result.success) {
-      console.log(`REWARDS CLAIMED: ${delegatorId} claimed ${result.amount} EMO`);
-    }
-    return result;
-  }
-
   async getValidatorStats(validatorId: string) {
     return this.emotionalStaking.getValidatorStats(validatorId);
   }
@@ -1167,13 +1172,14 @@ Mining rewards distributed to ecosystem validators.`;
       delegatorId,
       totalDelegated,
       pendingRewards,
+      claimableRewards: stakingLedger.getClaimableRewards(delegatorId),
       activeDelegations: delegations.length,
+      unbonding: stakingLedger.getUnbondings(delegatorId),
       delegations: delegations.map(d => ({
-        validatorId: d.validatorId,
+        validatorId: d.validatorAddress,
         amount: d.amount,
         rewards: d.rewards,
-        timestamp: d.timestamp,
-        status: d.status
+        timestamp: d.stakeTimestamp
       }))
     };
   }
@@ -39,6 +39,13 @@ export class NetworkHardeningService {
     console.log(' Phase 2 Network Hardening Service initialized');
   }
 
+  /**
+   * Byzantine detector, for components that act on its 'threatDetected' events
+   */
+  public getByzantineDetection(): AdvancedByzantineDetection {
+    return this.byzantineDetection;
+  }
+
   /**
    * Set up Byzantine detection event handlers
    */
@@ -1,79 +1,603 @@
 /**
- * Voluntary Staking Service for EmotionalChain
- * Provides optional staking with bonus rewards for validators
+ * Staking Ledger for EmotionalChain
+ * Validator commission, accrued rewards and penalty history per position, backed by
+ * validator_stakes. Bonded, delegated and unbonding amounts are read from chain state: stake
+ * only moves through typed stake transactions and double-sign evidence in blocks, so every node
+ * sees the same stake. Amounts are fixed-point with 8 decimals so reward splits and penalties
+ * give identical results on every node. The ledger's rewards are reporting only: claimable block
+ * rewards accrue in chain state and are paid out by typed claim transactions.
  */
+import { EventEmitter } from 'events';
+import { Mutex } from 'async-mutex';
+import { desc } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  stakeSlashingEvents,
+  validatorStakes,
+  type StakeSlashingEvent,
+  type ValidatorStake
+} from '@shared/schema';
+import { ImmutableBlockchainService } from '../blockchain/ImmutableBlockchainService';
+import { CONFIG } from '../../shared/config';
 
-export class VoluntaryStakingService {
-  private static instance: VoluntaryStakingService;
-  private validatorStakes = new Map<string, number>(); // validatorId -> staked amount
-  
-  public static getInstance(): VoluntaryStakingService {
-    if (!VoluntaryStakingService.instance) {
-      VoluntaryStakingService.instance = new VoluntaryStakingService();
+export type StakingRejectionReason =
+  | 'invalid_amount'
+  | 'unknown_validator'
+  | 'insufficient_stake'
+  | 'invalid_commission'
+  | 'on_chain';
+
+export class StakingError extends Error {
+  constructor(public readonly reason: StakingRejectionReason, message: string) {
+    super(message);
+    this.name = 'StakingError';
+  }
+
+  /**
+   * Rejection for a request to move stake or rewards off chain
+   */
+  static onChain(...kinds: Array<'stake' | 'unstake' | 'delegate' | 'undelegate' | 'redelegate' | 'claim'>): StakingError {
+    const transactions = `${kinds.join(' and ')} transaction${kinds.length > 1 ? 's' : ''}`;
+    return new StakingError('on_chain', `Stake moves on chain: submit signed ${transactions} to POST /api/blockchain/typed-transaction`);
+  }
+}
+
+export interface StakePosition {
+  validatorAddress: string;
+  delegatorAddress: string; // Equals validatorAddress for the validator's own bond
+  amount: number; // Committed in chain state
+  rewards: number; // Accrued, unclaimed
+  totalRewards: number;
+  totalSlashed: number;
+  slashingEvents: number;
+  commission: number; // Percent of rewards kept by the validator (own bond only)
+  stakeTimestamp: number;
+  lockedUntil: number;
+}
+
+export interface ValidatorStakeSummary {
+  validatorAddress: string;
+  selfStake: number;
+  delegatedStake: number;
+  totalStake: number;
+  delegators: number;
+  commission: number;
+  isActive: boolean; // Own bond meets CONFIG.consensus.staking.minimumSelfStake
+  totalRewards: number;
+  totalSlashed: number; // Stake burned on chain plus rewards forfeited to penalties
+  slashingEvents: number;
+  unbonding: number; // Own and delegated stake still unbonding on chain
+}
+
+export interface UnbondingEntry {
+  id: string; // The unstake or undelegate transaction
+  validatorAddress: string;
+  delegatorAddress: string;
+  amount: number; // Remaining after slashing
+  startHeight: number;
+  completionHeight: number; // The block at this height credits the amount to the delegator's balance
+}
+
+export interface SlashingRecord {
+  validatorAddress: string;
+  offense: string;
+  rate: number;
+  amount: number;
+  evidence: unknown;
+  blockHeight: number | null;
+  timestamp: number;
+}
+
+export interface RewardAccrual {
+  validatorAddress: string;
+  amount: number;
+  commission: number;
+  shares: { [delegatorAddress: string]: number };
+}
+
+interface LedgerEntry {
+  validatorAddress: string;
+  delegatorAddress: string;
+  amount: bigint; // Copied from chain state, never changed by the ledger
+  rewards: bigint;
+  totalRewards: bigint;
+  totalSlashed: bigint;
+  slashingEvents: number;
+  commissionBps: number;
+  stakeTimestamp: number;
+  lockedUntil: number;
+}
+
+type LedgerTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const DECIMALS = 8;
+const SCALE = BigInt(10 ** DECIMALS);
+const ZERO = BigInt(0);
+const BPS = BigInt(10000);
+
+export class StakingLedger extends EventEmitter {
+  private static instance: StakingLedger;
+  private positions = new Map<string, Map<string, LedgerEntry>>(); // validator -> delegator -> position
+  private slashingHistory: SlashingRecord[] = [];
+  private mutex = new Mutex();
+  private loaded: Promise<void>;
+
+  public static getInstance(): StakingLedger {
+    if (!StakingLedger.instance) {
+      StakingLedger.instance = new StakingLedger();
+    }
+    return StakingLedger.instance;
+  }
+
+  constructor() {
+    super();
+    this.loaded = this.load();
+  }
+
+  /**
+   * Resolves once the ledger has been loaded from validator_stakes
+   */
+  public ready(): Promise<void> {
+    return this.loaded;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const rows = await db.select().from(validatorStakes);
+      for (const row of rows) {
+        this.setEntry(this.fromRow(row));
+      }
+      const events = await db.select().from(stakeSlashingEvents).orderBy(desc(stakeSlashingEvents.timestamp)).limit(1000);
+      this.slashingHistory = events.reverse().map(event => this.fromSlashingRow(event));
+      console.log(`STAKING LEDGER: Loaded ${rows.length} positions and ${events.length} slashing events`);
+    } catch (error) {
+      console.error('STAKING LEDGER: Failed to load ledger:', error);
     }
-    return VoluntaryStakingService.instance;
   }
 
+  // Mutations (serialized, persisted before they are applied in memory)
+
   /**
-   * Stake EMO tokens voluntarily for bonus rewards
+   * Set the commission a validator keeps from the rewards of its positions
    */
-  public async stakeTokens(validatorId: string, amount: number): Promise<boolean> {
-    if (amount <= 0) return false;
-    
-    // TODO: Implement with real wallet balance checking
-    // For now, just track staking amounts
-    const currentStake = this.validatorStakes.get(validatorId) || 0;
-    this.validatorStakes.set(validatorId, currentStake + amount);
-    
-    console.log(`VOLUNTARY STAKING: ${validatorId} staked ${amount} EMO (total: ${currentStake + amount} EMO)`);
-    return true;
+  public async setCommission(validatorAddress: string, commission: number): Promise<StakePosition> {
+    return this.mutate(async () => {
+      const entry = this.cloneEntry(validatorAddress, validatorAddress, Date.now());
+      entry.commissionBps = this.commissionToBps(commission);
+      await this.persist([entry]);
+      return this.toPosition(entry);
+    });
   }
 
   /**
-   * Unstake EMO tokens back to liquid wallet
+   * Credit a validator's reward: its commission first, the rest pro rata to every
+   * position by stake in delegator order; rounding dust goes to the own bond
    */
-  public async unstakeTokens(validatorId: string, amount: number): Promise<boolean> {
-    const currentStake = this.validatorStakes.get(validatorId) || 0;
-    if (amount <= 0 || amount > currentStake) return false;
-    
-    this.validatorStakes.set(validatorId, currentStake - amount);
-    
-    console.log(`VOLUNTARY UNSTAKING: ${validatorId} unstaked ${amount} EMO (remaining: ${currentStake - amount} EMO)`);
-    return true;
+  public async accrueRewards(validatorAddress: string, amount: number): Promise<RewardAccrual> {
+    return this.mutate(async () => {
+      const units = this.requirePositive(amount);
+      const own = this.existingEntry(validatorAddress, validatorAddress);
+      const entries = this.entriesFor(validatorAddress).map(entry =>
+        entry.delegatorAddress === validatorAddress ? own : this.copy(entry)
+      );
+      const totalStake = entries.reduce((sum, entry) => sum + entry.amount, ZERO);
+      const commission = units * BigInt(own.commissionBps) / BPS;
+      const distributable = units - commission;
+      const shares: { [delegatorAddress: string]: bigint } = {};
+      let distributed = ZERO;
+      if (totalStake > ZERO) {
+        for (const entry of entries) {
+          const share = distributable * entry.amount / totalStake;
+          if (share === ZERO) continue;
+          entry.rewards += share;
+          entry.totalRewards += share;
+          shares[entry.delegatorAddress] = share;
+          distributed += share;
+        }
+      }
+      const ownCut = commission + (distributable - distributed);
+      own.rewards += ownCut;
+      own.totalRewards += ownCut;
+      shares[validatorAddress] = (shares[validatorAddress] || ZERO) + ownCut;
+
+      await this.persist(entries.filter(entry => shares[entry.delegatorAddress] !== undefined));
+      this.emit('rewards', { validatorAddress, amount });
+      return {
+        validatorAddress,
+        amount,
+        commission: toNumber(commission),
+        shares: Object.fromEntries(Object.entries(shares).map(([address, share]) => [address, toNumber(share)]))
+      };
+    });
   }
 
   /**
-   * Get staking information for a validator
+   * Record a poor-behaviour offence and burn rate of the unclaimed rewards of every position
+   * with the validator. Stake is only slashed on chain, by double-sign evidence in a block,
+   * so an offence seen by this node alone cannot change what other nodes count as stake.
    */
-  public getStakingInfo(validatorId: string) {
-    const stakedAmount = this.validatorStakes.get(validatorId) || 0;
+  public async penalize(
+    validatorAddress: string,
+    offense: string,
+    rate: number,
+    evidence: unknown = null,
+    blockHeight: number | null = null
+  ): Promise<SlashingRecord> {
+    return this.mutate(async () => {
+      if (!(rate > 0 && rate <= 1)) {
+        throw new StakingError('invalid_amount', `Penalty rate must be in (0, 1], got ${rate}`);
+      }
+      const own = this.existingEntry(validatorAddress, validatorAddress);
+      const rateBps = Math.round(rate * 10000);
+      const entries = this.entriesFor(validatorAddress).map(entry =>
+        entry.delegatorAddress === validatorAddress ? own : this.copy(entry)
+      );
+      let forfeited = ZERO;
+      for (const entry of entries) {
+        const penalty = entry.rewards * BigInt(rateBps) / BPS;
+        entry.rewards -= penalty;
+        entry.totalSlashed += penalty;
+        forfeited += penalty;
+      }
+      own.slashingEvents += 1;
+
+      const record: SlashingRecord = {
+        validatorAddress,
+        offense,
+        rate: rateBps / 10000,
+        amount: toNumber(forfeited),
+        evidence,
+        blockHeight,
+        timestamp: Date.now()
+      };
+      await this.persist(entries, async (tx) => {
+        await tx.insert(stakeSlashingEvents).values({
+          validatorAddress,
+          offense,
+          rateBps,
+          amount: fromUnits(forfeited),
+          evidence: evidence as any,
+          blockHeight,
+          timestamp: record.timestamp
+        });
+      });
+      this.slashingHistory.push(record);
+      if (this.slashingHistory.length > 1000) {
+        this.slashingHistory = this.slashingHistory.slice(-1000);
+      }
+      console.log(`STAKING LEDGER: ${validatorAddress} forfeited ${fromUnits(forfeited)} EMO of rewards for ${offense}`);
+      this.emit('penalized', record);
+      return record;
+    });
+  }
+
+  // Reads (stake from chain state, bookkeeping from the in-memory copy of the ledger)
+
+  public getPosition(validatorAddress: string, delegatorAddress: string): StakePosition | null {
+    this.syncChainStake();
+    const entry = this.positions.get(validatorAddress)?.get(delegatorAddress);
+    return entry ? this.toPosition(entry) : null;
+  }
+
+  public getPositions(validatorAddress: string): StakePosition[] {
+    this.syncChainStake();
+    return this.entriesFor(validatorAddress).map(entry => this.toPosition(entry));
+  }
+
+  /**
+   * Delegations made by an address to other validators (its own bond excluded)
+   */
+  public getDelegations(delegatorAddress: string): StakePosition[] {
+    this.syncChainStake();
+    return this.allEntries()
+      .filter(entry => entry.delegatorAddress === delegatorAddress &&
+        entry.validatorAddress !== delegatorAddress &&
+        (entry.amount > ZERO || entry.rewards > ZERO))
+      .map(entry => this.toPosition(entry));
+  }
+
+  public getPendingRewards(delegatorAddress: string, validatorAddress?: string): number {
+    return toNumber(this.allEntries()
+      .filter(entry => entry.delegatorAddress === delegatorAddress &&
+        (!validatorAddress || entry.validatorAddress === validatorAddress))
+      .reduce((sum, entry) => sum + entry.rewards, ZERO));
+  }
+
+  /**
+   * Block rewards accrued to the address in chain state, which a signed claim transaction pays out
+   */
+  public getClaimableRewards(address: string): number {
+    return ImmutableBlockchainService.getInstance().getAccountData(address)?.rewards || 0;
+  }
+
+  /**
+   * Stake unbonding on chain, filtered by delegator and/or validator, earliest completion first
+   */
+  public getUnbondings(delegatorAddress?: string, validatorAddress?: string): UnbondingEntry[] {
+    return ImmutableBlockchainService.getInstance().getUnbonding()
+      .filter(entry => (!delegatorAddress || entry.delegatorAddress === delegatorAddress) &&
+        (!validatorAddress || entry.validatorId === validatorAddress))
+      .sort((a, b) => a.completionHeight - b.completionHeight || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+      .map(entry => ({
+        id: entry.id,
+        validatorAddress: entry.validatorId,
+        delegatorAddress: entry.delegatorAddress,
+        amount: entry.amount,
+        startHeight: entry.startHeight,
+        completionHeight: entry.completionHeight
+      }));
+  }
+
+  public getValidator(validatorAddress: string): ValidatorStakeSummary | null {
+    this.syncChainStake();
+    return this.summarize(validatorAddress);
+  }
+
+  /**
+   * Validators with an own bond, largest total stake first
+   */
+  public getValidators(): ValidatorStakeSummary[] {
+    this.syncChainStake();
+    return Array.from(this.positions.keys())
+      .map(address => this.summarize(address))
+      .filter((summary): summary is ValidatorStakeSummary => summary !== null)
+      .sort((a, b) => b.totalStake - a.totalStake ||
+        (a.validatorAddress < b.validatorAddress ? -1 : a.validatorAddress > b.validatorAddress ? 1 : 0));
+  }
+
+  public getSlashingHistory(validatorAddress?: string): SlashingRecord[] {
+    return this.slashingHistory.filter(record => !validatorAddress || record.validatorAddress === validatorAddress);
+  }
+
+  public getTotals(): {
+    totalStaked: number;
+    totalUnbonding: number;
+    validators: number;
+    activeValidators: number;
+    delegators: number;
+    totalSlashed: number;
+  } {
+    const validators = this.getValidators();
+    const entries = this.allEntries();
     return {
-      validatorId,
-      stakedAmount,
-      bonusAPY: "15%",
-      stakingType: "voluntary",
-      canUnstake: true,
-      minStakeAmount: 100, // Minimum 100 EMO to stake
-      estimatedBonusPerDay: stakedAmount * 0.15 / 365 // 15% APY calculation
+      totalStaked: toNumber(entries.reduce((sum, entry) => sum + entry.amount, ZERO)),
+      totalUnbonding: this.getUnbondings().reduce((sum, entry) => sum + entry.amount, 0),
+      validators: validators.length,
+      activeValidators: validators.filter(validator => validator.isActive).length,
+      delegators: new Set(entries
+        .filter(entry => entry.delegatorAddress !== entry.validatorAddress && entry.amount > ZERO)
+        .map(entry => entry.delegatorAddress)).size,
+      totalSlashed: validators.reduce((sum, validator) => sum + validator.totalSlashed, 0)
     };
   }
 
+  // Internals
+
+  private async mutate<T>(operation: () => Promise<T>): Promise<T> {
+    await this.loaded;
+    return this.mutex.runExclusive(() => {
+      this.syncChainStake();
+      return operation();
+    });
+  }
+
   /**
-   * Get total voluntary staking across all validators
+   * Set every position's amount to the stake committed in chain state. Positions that exist
+   * only on chain get an entry with the default commission and no rewards; it is written to
+   * validator_stakes with the first reward or commission change.
    */
-  public getTotalVoluntaryStaking(): { totalStaked: number, stakingValidators: number } {
-    let totalStaked = 0;
-    let stakingValidators = 0;
-    
-    for (const [validatorId, amount] of this.validatorStakes.entries()) {
-      if (amount > 0) {
-        totalStaked += amount;
-        stakingValidators++;
+  private syncChainStake(): void {
+    const committed = new Map<string, bigint>(); // validator \0 delegator -> amount
+    for (const position of ImmutableBlockchainService.getInstance().getStakePositions()) {
+      committed.set(`${position.validatorAddress}\0${position.delegatorAddress}`, toUnits(position.amount));
+    }
+    for (const entry of this.allEntries()) {
+      entry.amount = committed.get(`${entry.validatorAddress}\0${entry.delegatorAddress}`) ?? ZERO;
+    }
+    const now = Date.now();
+    for (const [key, amount] of committed) {
+      const [validatorAddress, delegatorAddress] = key.split('\0');
+      if (this.positions.get(validatorAddress)?.has(delegatorAddress)) continue;
+      this.setEntry({ ...this.cloneEntry(validatorAddress, delegatorAddress, now), amount });
+    }
+  }
+
+  private summarize(validatorAddress: string): ValidatorStakeSummary | null {
+    const own = this.positions.get(validatorAddress)?.get(validatorAddress);
+    if (!own) return null;
+    const entries = this.entriesFor(validatorAddress);
+    const delegated = entries.filter(entry => entry.delegatorAddress !== validatorAddress);
+    const delegatedStake = delegated.reduce((sum, entry) => sum + entry.amount, ZERO);
+    // Double-sign slashes are recorded on the validator's account, one per offence
+    const slashedOnChain = Object.values(ImmutableBlockchainService.getInstance().getAccountData(validatorAddress)?.slashed || {});
+    return {
+      validatorAddress,
+      selfStake: toNumber(own.amount),
+      delegatedStake: toNumber(delegatedStake),
+      totalStake: toNumber(own.amount + delegatedStake),
+      delegators: delegated.filter(entry => entry.amount > ZERO).length,
+      commission: own.commissionBps / 100,
+      isActive: own.amount >= toUnits(CONFIG.consensus.staking.minimumSelfStake),
+      totalRewards: toNumber(entries.reduce((sum, entry) => sum + entry.totalRewards, ZERO)),
+      totalSlashed: slashedOnChain.reduce((sum, amount) => sum + amount, 0) +
+        toNumber(entries.reduce((sum, entry) => sum + entry.totalSlashed, ZERO)),
+      slashingEvents: own.slashingEvents + slashedOnChain.length,
+      unbonding: this.getUnbondings(undefined, validatorAddress).reduce((sum, entry) => sum + entry.amount, 0)
+    };
+  }
+
+  private async persist(
+    entries: LedgerEntry[],
+    writeRelated?: (tx: LedgerTransaction) => Promise<void>
+  ): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (const entry of entries) {
+        const values = {
+          validatorAddress: entry.validatorAddress,
+          delegatorAddress: entry.delegatorAddress,
+          stakedAmount: fromUnits(entry.amount),
+          rewards: fromUnits(entry.rewards),
+          totalRewards: fromUnits(entry.totalRewards),
+          commissionBps: entry.commissionBps,
+          stakeTimestamp: new Date(entry.stakeTimestamp),
+          lockedUntil: new Date(entry.lockedUntil),
+          slashingEvents: entry.slashingEvents,
+          totalSlashed: fromUnits(entry.totalSlashed)
+        };
+        await tx.insert(validatorStakes).values(values).onConflictDoUpdate({
+          target: [validatorStakes.validatorAddress, validatorStakes.delegatorAddress],
+          set: { ...values, updatedAt: new Date() }
+        });
       }
+      if (writeRelated) {
+        await writeRelated(tx);
+      }
+    });
+    entries.forEach(entry => this.setEntry(entry));
+  }
+
+  private setEntry(entry: LedgerEntry): void {
+    if (!this.positions.has(entry.validatorAddress)) {
+      this.positions.set(entry.validatorAddress, new Map());
+    }
+    this.positions.get(entry.validatorAddress)!.set(entry.delegatorAddress, entry);
+  }
+
+  /**
+   * Working copy of a position, or a fresh one, that is only applied after it persists
+   */
+  private cloneEntry(validatorAddress: string, delegatorAddress: string, now: number): LedgerEntry {
+    const existing = this.positions.get(validatorAddress)?.get(delegatorAddress);
+    if (existing) {
+      return this.copy(existing);
+    }
+    return {
+      validatorAddress,
+      delegatorAddress,
+      amount: ZERO,
+      rewards: ZERO,
+      totalRewards: ZERO,
+      totalSlashed: ZERO,
+      slashingEvents: 0,
+      commissionBps: this.commissionToBps(CONFIG.consensus.staking.defaultCommission),
+      stakeTimestamp: now,
+      lockedUntil: now
+    };
+  }
+
+  private existingEntry(validatorAddress: string, delegatorAddress: string): LedgerEntry {
+    const entry = this.positions.get(validatorAddress)?.get(delegatorAddress);
+    if (!entry) {
+      throw new StakingError(
+        delegatorAddress === validatorAddress ? 'unknown_validator' : 'insufficient_stake',
+        delegatorAddress === validatorAddress
+          ? `Validator ${validatorAddress} has no stake`
+          : `No delegation from ${delegatorAddress} to ${validatorAddress}`
+      );
     }
-    
-    return { totalStaked, stakingValidators };
+    return this.copy(entry);
+  }
+
+  private copy(entry: LedgerEntry): LedgerEntry {
+    return { ...entry };
   }
+
+  /**
+   * Positions of a validator in delegator order, so every node iterates identically
+   */
+  private entriesFor(validatorAddress: string): LedgerEntry[] {
+    return Array.from(this.positions.get(validatorAddress)?.values() || [])
+      .sort((a, b) => (a.delegatorAddress < b.delegatorAddress ? -1 : a.delegatorAddress > b.delegatorAddress ? 1 : 0));
+  }
+
+  private allEntries(): LedgerEntry[] {
+    return Array.from(this.positions.keys()).sort().flatMap(address => this.entriesFor(address));
+  }
+
+  private requirePositive(amount: number): bigint {
+    const units = Number.isFinite(amount) ? toUnits(amount) : ZERO;
+    if (units <= ZERO) {
+      throw new StakingError('invalid_amount', `Amount must be a positive number of EMO, got ${amount}`);
+    }
+    return units;
+  }
+
+  private commissionToBps(commission: number): number {
+    if (!(commission >= 0 && commission <= CONFIG.consensus.staking.maxCommission)) {
+      throw new StakingError('invalid_commission', `Commission must be between 0% and ${CONFIG.consensus.staking.maxCommission}%`);
+    }
+    return Math.round(commission * 100);
+  }
+
+  private fromRow(row: ValidatorStake): LedgerEntry {
+    return {
+      validatorAddress: row.validatorAddress,
+      delegatorAddress: row.delegatorAddress,
+      amount: toUnits(row.stakedAmount),
+      rewards: toUnits(row.rewards),
+      totalRewards: toUnits(row.totalRewards),
+      totalSlashed: toUnits(row.totalSlashed || '0'),
+      slashingEvents: row.slashingEvents || 0,
+      commissionBps: row.commissionBps,
+      stakeTimestamp: new Date(row.stakeTimestamp).getTime(),
+      lockedUntil: new Date(row.lockedUntil).getTime()
+    };
+  }
+
+  private fromSlashingRow(row: StakeSlashingEvent): SlashingRecord {
+    return {
+      validatorAddress: row.validatorAddress,
+      offense: row.offense,
+      rate: row.rateBps / 10000,
+      amount: Number(row.amount),
+      evidence: row.evidence,
+      blockHeight: row.blockHeight,
+      timestamp: row.timestamp
+    };
+  }
+
+  private toPosition(entry: LedgerEntry): StakePosition {
+    return {
+      validatorAddress: entry.validatorAddress,
+      delegatorAddress: entry.delegatorAddress,
+      amount: toNumber(entry.amount),
+      rewards: toNumber(entry.rewards),
+      totalRewards: toNumber(entry.totalRewards),
+      totalSlashed: toNumber(entry.totalSlashed),
+      slashingEvents: entry.slashingEvents,
+      commission: entry.commissionBps / 100,
+      stakeTimestamp: entry.stakeTimestamp,
+      lockedUntil: entry.lockedUntil
+    };
+  }
+}
+
+/**
+ * Parse an EMO amount (number or decimal string) into fixed-point units
+ */
+export function toUnits(value: number | string): bigint {
+  const text = typeof value === 'number' ? value.toFixed(DECIMALS) : value.trim();
+  const match = /^(-?)(\d+)(?:\.(\d+))?$/.exec(text);
+  if (!match) {
+    throw new StakingError('invalid_amount', `Invalid EMO amount: ${value}`);
+  }
+  const fraction = (match[3] || '').padEnd(DECIMALS, '0').slice(0, DECIMALS);
+  const units = BigInt(match[2]) * SCALE + BigInt(fraction);
+  return match[1] ? -units : units;
+}
+
+/**
+ * Format fixed-point units as a decimal EMO string without trailing zeros
+ */
+export function fromUnits(units: bigint): string {
+  const sign = units < ZERO ? '-' : '';
+  const magnitude = units < ZERO ? -units : units;
+  const fraction = (magnitude % SCALE).toString().padStart(DECIMALS, '0').replace(/0+$/, '');
+  return `${sign}${magnitude / SCALE}${fraction ? `.${fraction}` : ''}`;
+}
+
+function toNumber(units: bigint): number {
+  return Number(fromUnits(units));
 }
 
-export const voluntaryStakingService = VoluntaryStakingService.getInstance();
\ No newline at end of file
+export const stakingLedger = StakingLedger.getInstance();
@@ -0,0 +1,252 @@
+/**
+ * Transaction Receipt Service
+ * Tracks each transaction through pending -> included -> finalized (or failed)
+ * and persists receipts alongside the transactions table
+ */
+import { EventEmitter } from 'events';
+import { and, desc, eq, lte } from 'drizzle-orm';
+import { db } from '../db';
+import { blocks, transactionReceipts, type TransactionReceiptRecord } from '@shared/schema';
+import type { Mempool, MempoolTransaction } from '../blockchain/Mempool';
+import type { TransactionEnvelope } from '@shared/types/TransactionEnvelope';
+
+export type ReceiptStatus = 'pending' | 'included' | 'finalized' | 'failed';
+
+export type ReceiptTransaction = MempoolTransaction & { to: string; id?: string; envelope?: TransactionEnvelope };
+
+export interface ReceiptEvent {
+  type: string;
+  data: Record<string, any>;
+}
+
+export interface TransactionReceipt {
+  transactionHash: string;
+  status: ReceiptStatus;
+  from: string;
+  to: string;
+  nonce: number | null;
+  blockHash: string | null;
+  blockNumber: number | null;
+  transactionIndex: number | null;
+  feePaid: number;
+  failureReason: string | null;
+  events: ReceiptEvent[];
+  confirmations: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export class TransactionReceiptService extends EventEmitter {
+  private static instance: TransactionReceiptService;
+
+  public static getInstance(): TransactionReceiptService {
+    if (!TransactionReceiptService.instance) {
+      TransactionReceiptService.instance = new TransactionReceiptService();
+    }
+    return TransactionReceiptService.instance;
+  }
+
+  /**
+   * Fail receipts for transactions a mempool drops without including them
+   */
+  public trackMempool<T extends ReceiptTransaction>(mempool: Mempool<T>): void {
+    mempool.on('replaced', ({ previous, replacement }: { previous: T; replacement: T }) => {
+      this.recordFailed(previous.hash, `Replaced by higher-fee transaction ${replacement.hash}`);
+    });
+    mempool.on('evicted', (tx: T) => this.recordFailed(tx.hash, 'Evicted from full mempool by higher-fee transaction'));
+    mempool.on('expired', (tx: T) => this.recordFailed(tx.hash, 'Expired in mempool before inclusion'));
+    mempool.on('stale', (tx: T) => this.recordFailed(tx.hash, `Nonce ${tx.nonce} already used by an included transaction`));
+  }
+
+  /**
+   * Record a transaction accepted into the mempool
+   */
+  public async recordPending(tx: ReceiptTransaction): Promise<void> {
+    const now = Date.now();
+    try {
+      const [record] = await db.insert(transactionReceipts).values({
+        transactionHash: tx.hash,
+        status: 'pending',
+        fromAddress: tx.from,
+        toAddress: tx.to,
+        nonce: tx.nonce,
+        events: [],
+        createdAt: now,
+        updatedAt: now
+      }).onConflictDoNothing().returning();
+
+      if (record) this.emit('updated', this.toReceipt(record, 0));
+    } catch (error) {
+      console.error(`TRANSACTION RECEIPTS: Failed to record pending receipt ${tx.hash}:`, error);
+    }
+  }
+
+  /**
+   * Record transactions included in a block, in block order.
+   * indexOffset is the position of the first given transaction within the block.
+   */
+  public async recordIncluded(txs: ReceiptTransaction[], blockHash: string, blockNumber: number, indexOffset: number = 0): Promise<void> {
+    for (const [position, tx] of txs.entries()) {
+      const now = Date.now();
+      const included = {
+        status: 'included',
+        blockHash,
+        blockNumber,
+        transactionIndex: indexOffset + position,
+        feePaid: tx.fee.toString(),
+        failureReason: null,
+        events: this.buildEvents(tx),
+        updatedAt: now
+      };
+      try {
+        // Upsert: the transaction may have been submitted through another node's mempool
+        const [record] = await db.insert(transactionReceipts).values({
+          transactionHash: tx.hash,
+          fromAddress: tx.from,
+          toAddress: tx.to,
+          nonce: tx.nonce,
+          createdAt: now,
+          ...included
+        }).onConflictDoUpdate({
+          target: transactionReceipts.transactionHash,
+          set: included
+        }).returning();
+
+        this.emit('updated', this.toReceipt(record, blockNumber));
+      } catch (error) {
+        console.error(`TRANSACTION RECEIPTS: Failed to record inclusion of ${tx.hash}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Mark a pending transaction as failed (evicted, expired, replaced or stale)
+   */
+  public async recordFailed(hash: string, reason: string): Promise<void> {
+    try {
+      const [record] = await db.update(transactionReceipts)
+        .set({ status: 'failed', failureReason: reason, updatedAt: Date.now() })
+        .where(and(eq(transactionReceipts.transactionHash, hash), eq(transactionReceipts.status, 'pending')))
+        .returning();
+
+      if (record) {
+        const receipt = this.toReceipt(record, 0);
+        this.emit('updated', receipt);
+        this.emit('failed', receipt);
+      }
+    } catch (error) {
+      console.error(`TRANSACTION RECEIPTS: Failed to record failure of ${hash}:`, error);
+    }
+  }
+
+  /**
+   * Finalize every included receipt at or below the latest finalized checkpoint height
+   */
+  public async finalizeUpTo(finalizedHeight: number): Promise<TransactionReceipt[]> {
+    try {
+      const records = await db.update(transactionReceipts)
+        .set({ status: 'finalized', updatedAt: Date.now() })
+        .where(and(eq(transactionReceipts.status, 'included'), lte(transactionReceipts.blockNumber, finalizedHeight)))
+        .returning();
+      if (records.length === 0) return [];
+
+      const [latestBlock] = await db.select({ height: blocks.height }).from(blocks)
+        .orderBy(desc(blocks.height))
+        .limit(1);
+      const finalized = records.map(record => this.toReceipt(record, latestBlock?.height || finalizedHeight));
+      finalized.forEach(receipt => {
+        this.emit('updated', receipt);
+        this.emit('finalized', receipt);
+      });
+      return finalized;
+    } catch (error) {
+      console.error('TRANSACTION RECEIPTS: Failed to finalize receipts:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get receipt for a transaction hash
+   */
+  public async getReceipt(hash: string): Promise<TransactionReceipt | null> {
+    const [record] = await db.select().from(transactionReceipts)
+      .where(eq(transactionReceipts.transactionHash, hash))
+      .limit(1);
+    if (!record) return null;
+
+    const [latestBlock] = await db.select({ height: blocks.height }).from(blocks)
+      .orderBy(desc(blocks.height))
+      .limit(1);
+    return this.toReceipt(record, latestBlock?.height || 0);
+  }
+
+  /**
+   * One event for the state change the transaction makes (plain transfers carry no envelope),
+   * then the fee it paid
+   */
+  private buildEvents(tx: ReceiptTransaction): ReceiptEvent[] {
+    const events: ReceiptEvent[] = [this.kindEvent(tx)];
+    if (tx.fee > 0) {
+      events.push({ type: 'FeePaid', data: { payer: tx.from, amount: tx.fee } });
+    }
+    return events;
+  }
+
+  private kindEvent(tx: ReceiptTransaction): ReceiptEvent {
+    const envelope = tx.envelope;
+    if (!envelope || envelope.kind === 'transfer') {
+      return { type: 'Transfer', data: { from: tx.from, to: tx.to, amount: tx.amount } };
+    }
+    switch (envelope.kind) {
+      case 'stake':
+        return { type: 'Staked', data: { staker: tx.from, amount: envelope.payload.amount } };
+      case 'unstake':
+        return { type: 'Unstaked', data: { staker: tx.from, amount: envelope.payload.amount } };
+      case 'delegate':
+        return { type: 'Delegated', data: { delegator: tx.from, ...envelope.payload } };
+      case 'undelegate':
+        return { type: 'Undelegated', data: { delegator: tx.from, ...envelope.payload } };
+      case 'redelegate':
+        return { type: 'Redelegated', data: { delegator: tx.from, ...envelope.payload } };
+      case 'claim':
+        return { type: 'RewardsClaimed', data: { claimant: tx.from } };
+      case 'register_device':
+        return { type: 'DeviceRegistered', data: { owner: tx.from, deviceId: envelope.payload.deviceId, deviceType: envelope.payload.deviceType } };
+      case 'consent_grant':
+        return { type: 'ConsentGranted', data: { account: tx.from, purpose: envelope.payload.purpose } };
+      case 'consent_revoke':
+        return { type: 'ConsentRevoked', data: { account: tx.from, purpose: envelope.payload.purpose } };
+      case 'governance_propose':
+        return {
+          type: 'ProposalSubmitted',
+          data: { proposalId: tx.id, proposer: tx.from, title: envelope.payload.title, activationHeight: envelope.payload.activationHeight }
+        };
+      case 'governance_vote':
+        return { type: 'Voted', data: { voter: tx.from, proposalId: envelope.payload.proposalId, choice: envelope.payload.choice } };
+    }
+  }
+
+  private toReceipt(record: TransactionReceiptRecord, chainHeight: number): TransactionReceipt {
+    const confirmations = record.blockNumber !== null && record.status !== 'failed'
+      ? Math.max(0, chainHeight - record.blockNumber + 1)
+      : 0;
+    return {
+      transactionHash: record.transactionHash,
+      status: record.status as ReceiptStatus,
+      from: record.fromAddress,
+      to: record.toAddress,
+      nonce: record.nonce,
+      blockHash: record.blockHash,
+      blockNumber: record.blockNumber,
+      transactionIndex: record.transactionIndex,
+      feePaid: parseFloat(record.feePaid || '0'),
+      failureReason: record.failureReason,
+      events: (record.events as ReceiptEvent[]) || [],
+      confirmations,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt
+    };
+  }
+}
+
+export const transactionReceiptService = TransactionReceiptService.getInstance();
@@ -202,8 +202,8 @@ export class MemStorage implements IStorage {
 }
 // Import database storage
 import { db } from "./db";
-import { eq, desc, gte, sql, count, sum } from "drizzle-orm";
-import { blocks as blocksTable, transactions as transactionsTable, validatorStates as validatorsTable, biometricData as biometricTable, validatorStakes as stakesTable, deviceRegistrations as devicesTable, thresholdProofs as proofsTable, batchProofs as batchProofsTable } from "@shared/schema";
+import { eq, and, desc, gte, sql, count, sum } from "drizzle-orm";
+import { blocks as blocksTable, transactions as transactionsTable, validatorStates as validatorsTable, biometricData as biometricTable, validatorStakes as stakesTable, deviceRegistrations as devicesTable, thresholdProofs as proofsTable, batchProofs as batchProofsTable, peerReputation as peerReputationTable } from "@shared/schema";
 // Database Storage Implementation
 export class DatabaseStorage implements IStorage {
   // User methods
@@ -489,9 +489,10 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Validator stake methods (Hybrid Consensus - PoE + PoS)
+  // A validator's own bond is the ledger row where it is also the delegator
   async getValidatorStake(validatorAddress: string): Promise<ValidatorStake | undefined> {
     const results = await db.select().from(stakesTable)
-      .where(eq(stakesTable.validatorAddress, validatorAddress))
+      .where(and(eq(stakesTable.validatorAddress, validatorAddress), eq(stakesTable.delegatorAddress, validatorAddress)))
       .limit(1);
     return results[0];
   }
@@ -504,7 +505,7 @@ export class DatabaseStorage implements IStorage {
   async updateValidatorStake(validatorAddress: string, updates: Partial<ValidatorStake>): Promise<void> {
     await db.update(stakesTable)
       .set({ ...updates, updatedAt: new Date() })
-      .where(eq(stakesTable.validatorAddress, validatorAddress));
+      .where(and(eq(stakesTable.validatorAddress, validatorAddress), eq(stakesTable.delegatorAddress, validatorAddress)));
   }
 
   async getAllValidatorStakes(): Promise<ValidatorStake[]> {
@@ -615,5 +616,34 @@ export class DatabaseStorage implements IStorage {
     const [result] = await db.insert(batchProofsTable).values(proofWithVerification).returning();
     return result;
   }
+
+  // Peer scores and bans (network/PeerScoring)
+  async storePeerReputation(peerId: string, reputation: number, metadata: any): Promise<void> {
+    const row = {
+      reputation: reputation.toFixed(2),
+      lastSeen: Date.now(),
+      metadata,
+      updatedAt: new Date()
+    };
+    await db.insert(peerReputationTable)
+      .values({ peerId, ...row })
+      .onConflictDoUpdate({ target: peerReputationTable.peerId, set: row });
+  }
+
+  async getAllPeerReputations(): Promise<{ peerId: string; reputation: number; metadata: any; lastUpdated: number }[]> {
+    const results = await db.select()
+      .from(peerReputationTable)
+      .orderBy(desc(peerReputationTable.reputation));
+    return results.map(row => ({
+      peerId: row.peerId,
+      reputation: parseFloat(row.reputation),
+      metadata: row.metadata,
+      lastUpdated: row.lastSeen
+    }));
+  }
+
+  async deletePeerReputation(peerId: string): Promise<void> {
+    await db.delete(peerReputationTable).where(eq(peerReputationTable.peerId, peerId));
+  }
 }
 export const storage = new DatabaseStorage();
@@ -214,6 +214,22 @@ export const rawConfig = {
     },
   },
   storage: {
+    backend: parseString(process.env.STORAGE_BACKEND, 'leveldb') as 'postgresql' | 'leveldb' | 'memory',
+    leveldb: {
+      dataPath: parseString(process.env.LEVELDB_DATA_PATH, './data/leveldb/chain'),
+    },
+    pruning: {
+      mode: parseString(process.env.NODE_MODE, 'archive') as 'archive' | 'full' | 'light',
+      depth: parseInt(process.env.PRUNING_DEPTH, 10000),
+      interval: parseInt(process.env.PRUNING_INTERVAL, 600000),
+    },
+    snapshots: {
+      interval: parseInt(process.env.SNAPSHOT_INTERVAL, 1000),
+      retain: parseInt(process.env.SNAPSHOT_RETAIN, 3),
+      chunkSize: parseInt(process.env.SNAPSHOT_CHUNK_SIZE, 1000),
+      headerCount: parseInt(process.env.SNAPSHOT_HEADER_COUNT, 128),
+      directory: parseString(process.env.SNAPSHOT_DIR, './data/snapshots'),
+    },
     database: {
       connectionPoolSize: parseInt(process.env.DB_POOL_SIZE, 20),
       queryTimeout: parseInt(process.env.DB_QUERY_TIMEOUT, 30000),
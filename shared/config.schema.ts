@@ -202,6 +202,22 @@ const InfrastructureSchema = z.object({
 });
 // Storage Configuration Schema
 const StorageSchema = z.object({
+  backend: z.enum(['postgresql', 'leveldb', 'memory']),
+  leveldb: z.object({
+    dataPath: z.string().min(1),
+  }),
+  pruning: z.object({
+    mode: z.enum(['archive', 'full', 'light']),
+    depth: z.number().int().min(1).max(10000000), // Block bodies kept by full nodes
+    interval: z.number().int().min(60000).max(86400000), // 1min to 24h
+  }),
+  snapshots: z.object({
+    interval: z.number().int().min(10).max(1000000), // Blocks between snapshots
+    retain: z.number().int().min(1).max(100),
+    chunkSize: z.number().int().min(10).max(100000), // Accounts per chunk
+    headerCount: z.number().int().min(1).max(10000),
+    directory: z.string().min(1),
+  }),
   database: z.object({
     connectionPoolSize: z.number().int().min(5).max(100),
     queryTimeout: z.number().int().min(5000).max(300000), // 5s to 5min
@@ -48,10 +48,29 @@ export interface BiometricConfig {
 export interface ConsensusConfig {
   algorithm: 'proof-of-emotion';
   blockTime: number; // seconds
+  finalityDepth: number; // blocks on top of an inclusion before its receipt is final
+  checkpointInterval: number; // blocks between finality checkpoint votes
+  doubleSignSlashRate: number; // fraction of own and delegated stake burned per double-sign offence
+  staking: {
+    minimumSelfStake: number; // own bond for a validator to be active and accept delegations
+    minimumDelegation: number;
+    lockupDays: number;
+    unbondingDays: number; // unstaked funds stay slashable in the unbonding queue this long
+    defaultCommission: number; // percent of rewards kept by the validator
+    maxCommission: number;
+  };
+  jailing: {
+    signingWindow: number; // committee rounds tracked for missed votes
+    missedRoundsLimit: number; // missed votes within the window that jail a validator
+    lowScoreLimit: number; // consecutive assessments below thresholds.emotionalScore that jail a validator
+    minimumJailTime: number; // ms before an unjail transaction is accepted
+  };
   validators: {
     minimum: number;
     maximum: number;
     rotationInterval: number;
+    epochLength: number; // blocks between validator set changes
+    churnLimit: number; // joins plus leaves applied per epoch
   };
   thresholds: {
     emotionalScore: number;
@@ -86,7 +105,46 @@ export interface NetworkConfig {
   p2p: {
     port: number;
     maxPeers: number;
-    bootstrapNodes: string[];
+    bootstrapNodes: string[]; // /p2p/ multiaddrs dialed over the libp2p bootstrap list when the DHT is on
+    chainId: string; // peers on another chain are disconnected during the handshake
+    handshakeTimeout: number; // ms a new peer has to send its hello
+  };
+  discovery: {
+    useDHT: boolean; // libp2p bootstrap list and public DHT; off for private networks
+    roles: Array<'validator' | 'full' | 'bootstrap'>; // advertised in this node's record
+    nodeKeyFile: string; // secp256k1 key that signs this node's record, created if missing
+    staticPeersFile: string; // signed node records or /p2p/ multiaddrs always kept as targets
+    exchangeInterval: number; // ms between peer exchange rounds
+    peersPerExchange: number; // peers asked each round, bootstrap nodes first
+    maxRecordsPerResponse: number;
+    maxRecords: number; // records kept in the address book
+    recordMaxAge: number; // ms; older records are no longer shared or dialed
+  };
+  sync: {
+    maxHeadersPerRequest: number;
+    maxBodiesPerRequest: number;
+    parallelRequests: number; // sync requests in flight at once, spread over peers
+    requestTimeout: number; // ms
+    requestsPerMinute: number; // per peer, both served and sent
+    maxAncestorDepth: number; // missing ancestors fetched for one orphan block
+  };
+  peerScoring: {
+    banThreshold: number; // peers scoring below this (0-100, neutral 50) are banned
+    banDuration: number; // ms for a first ban, doubled for each repeat ban
+    maxBanDuration: number; // ms
+    decayHalfLife: number; // ms for penalties, rewards and uptime to halve
+    persistInterval: number; // ms between writes of changed scores
+    invalidMessagePenalty: number;
+    errorPenalty: number; // failed or timed out requests
+    byzantinePenalty: { medium: number; high: number }; // critical threats ban at once
+    usefulBlockReward: number; // per requested block delivered
+    maxBlockBonus: number;
+    maxLatencyAdjustment: number; // bonus for instant responses, penalty at slowResponseTime
+    slowResponseTime: number; // ms
+    maxUptimeBonus: number;
+    uptimeTarget: number; // ms connected (after decay) that earns the full uptime bonus
+    maxPeers: number; // scored peers kept; the longest unseen are forgotten beyond it
+    forgetAfter: number; // ms unseen after which a peer back at a neutral score is forgotten
   };
   api: {
     port: number;
@@ -114,6 +172,33 @@ export interface NetworkConfig {
   };
 }
 
+export interface StorageConfig {
+  backend: 'postgresql' | 'leveldb' | 'memory'; // chain storage for independent validator nodes
+  leveldb: {
+    dataPath: string; // used when the node does not set its own data directory
+  };
+  pruning: {
+    mode: 'archive' | 'full' | 'light';
+    depth: number; // block bodies kept by full nodes (never less than finalityDepth)
+    interval: number; // ms between pruning runs
+  };
+  snapshots: {
+    interval: number; // blocks between snapshots
+    retain: number; // snapshots kept on disk
+    chunkSize: number; // accounts per chunk
+    headerCount: number; // recent headers bundled with each snapshot
+    directory: string;
+  };
+}
+
+export interface GovernanceConfig {
+  votingPeriod: number; // blocks a proposal is open for votes
+  activationDelay: number; // minimum blocks between the end of voting and activation
+  quorum: number; // share of bonded stake that must vote (yes, no or abstain)
+  threshold: number; // share of yes among yes + no votes required to pass
+  maxChangesPerProposal: number;
+}
+
 export interface AIConfig {
   models: {
     anomalyDetector: {
@@ -137,6 +222,8 @@ export interface EmotionalChainConfig {
   consensus: ConsensusConfig;
   security: SecurityConfig;
   network: NetworkConfig;
+  storage: StorageConfig;
+  governance: GovernanceConfig;
   ai: AIConfig;
   environment: 'development' | 'staging' | 'production';
 }
@@ -186,10 +273,29 @@ export const CONFIG: EmotionalChainConfig = {
   consensus: {
     algorithm: 'proof-of-emotion',
     blockTime: 10,
+    finalityDepth: 6,
+    checkpointInterval: 10,
+    doubleSignSlashRate: 0.10, // matches the doubleVote rate in ValidatorEconomics
+    staking: {
+      minimumSelfStake: 10000,
+      minimumDelegation: 1000,
+      lockupDays: 21,
+      unbondingDays: 14,
+      defaultCommission: 5,
+      maxCommission: 20,
+    },
+    jailing: {
+      signingWindow: 100,          // Committee rounds tracked per validator
+      missedRoundsLimit: 50,       // Missed votes in the window that jail a validator
+      lowScoreLimit: 10,           // Consecutive assessments below thresholds.emotionalScore that jail a validator
+      minimumJailTime: 600000,     // 10 minutes before a signed unjail transaction is accepted
+    },
     validators: {
       minimum: 3,
       maximum: 21,
-      rotationInterval: 300 // 5 minutes
+      rotationInterval: 300, // 5 minutes
+      epochLength: 360,      // Validator set changes take effect every 360 blocks (1 hour)
+      churnLimit: 4          // Joins plus leaves applied per epoch
     },
     thresholds: {
       emotionalScore: 75,          // Minimum emotional score for consensus operations
@@ -258,12 +364,48 @@ export const CONFIG: EmotionalChainConfig = {
   },
   network: {
     p2p: {
-      port: 8000,
+      port: parseInt(process.env.P2P_PORT || '8000', 10),
       maxPeers: 50,
-      bootstrapNodes: [
-        '/ip4/127.0.0.1/tcp/8001/p2p/12D3KooWBootstrap1',
-        '/ip4/127.0.0.1/tcp/8002/p2p/12D3KooWBootstrap2'
-      ]
+      bootstrapNodes: (process.env.BOOTSTRAP_PEERS || '').split(',').filter(Boolean),
+      chainId: process.env.CHAIN_ID || 'emotionalchain-mainnet',
+      handshakeTimeout: 10000
+    },
+    discovery: {
+      useDHT: process.env.P2P_USE_DHT !== 'false',
+      roles: (process.env.NODE_ROLES || 'full').split(',') as Array<'validator' | 'full' | 'bootstrap'>,
+      nodeKeyFile: process.env.NODE_KEY_FILE || './data/node-key.json',
+      staticPeersFile: process.env.STATIC_PEERS_FILE || './data/static-peers.json',
+      exchangeInterval: 60000,
+      peersPerExchange: 3,
+      maxRecordsPerResponse: 32,
+      maxRecords: 1000,
+      recordMaxAge: 86400000 // 1 day; nodes re-sign their record every half of this
+    },
+    sync: {
+      maxHeadersPerRequest: 192,
+      maxBodiesPerRequest: 32,
+      parallelRequests: 4,
+      requestTimeout: 10000,
+      requestsPerMinute: 120,
+      maxAncestorDepth: 256
+    },
+    peerScoring: {
+      banThreshold: 30,
+      banDuration: 3600000,      // 1 hour, then 2, 4, ...
+      maxBanDuration: 86400000,  // 1 day
+      decayHalfLife: 3600000,    // 1 hour
+      persistInterval: 30000,
+      invalidMessagePenalty: 5,
+      errorPenalty: 2,
+      byzantinePenalty: { medium: 5, high: 15 },
+      usefulBlockReward: 0.5,
+      maxBlockBonus: 20,
+      maxLatencyAdjustment: 5,
+      slowResponseTime: 2000,
+      maxUptimeBonus: 10,
+      uptimeTarget: 3600000,
+      maxPeers: 5000,
+      forgetAfter: 86400000      // 1 day
     },
     api: {
       port: 5000,
@@ -295,6 +437,31 @@ export const CONFIG: EmotionalChainConfig = {
       websocket: 5000 // Same port as HTTP server with /ws path
     }
   },
+  storage: {
+    backend: (process.env.STORAGE_BACKEND as 'postgresql' | 'leveldb' | 'memory') || 'leveldb',
+    leveldb: {
+      dataPath: process.env.LEVELDB_DATA_PATH || './data/leveldb/chain'
+    },
+    pruning: {
+      mode: (process.env.NODE_MODE as 'archive' | 'full' | 'light') || 'archive',
+      depth: parseInt(process.env.PRUNING_DEPTH || '10000', 10),
+      interval: 600000 // 10 minutes
+    },
+    snapshots: {
+      interval: 1000,
+      retain: 3,
+      chunkSize: 1000,
+      headerCount: 128,
+      directory: process.env.SNAPSHOT_DIR || './data/snapshots'
+    }
+  },
+  governance: {
+    votingPeriod: 8640, // 1 day of 10s blocks
+    activationDelay: 360, // 1 hour
+    quorum: 0.334,
+    threshold: 0.5,
+    maxChangesPerProposal: 10
+  },
   ai: {
     models: {
       anomalyDetector: {
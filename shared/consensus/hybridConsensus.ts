@@ -10,12 +10,6 @@ export interface ValidatorRequirements {
   deviceTrustLevel: 1 | 2 | 3;
 }
 
-export interface StakeParams {
-  validatorAddress: string;
-  amount: bigint;
-  lockPeriod: number; // days
-}
-
 export interface RewardCalculation {
   baseReward: bigint;
   emotionalBonus: bigint;
@@ -26,7 +20,6 @@ export interface RewardCalculation {
 export class HybridConsensus {
   private static readonly MINIMUM_STAKE = BigInt(10000); // 10,000 EMO
   private static readonly EMOTIONAL_FITNESS_THRESHOLD = 75; // 75%
-  private static readonly LOCK_PERIOD_DAYS = 30; // 30 days minimum lock
   
   // Device trust level multipliers
   private static readonly DEVICE_MULTIPLIERS = {
@@ -45,8 +38,8 @@ export class HybridConsensus {
     stake: ValidatorStake | null,
     device: DeviceRegistration | null
   ): Promise<boolean> {
-    // Hard requirement 1: Minimum stake
-    const hasMinimumStake = stake && BigInt(stake.stakedAmount) >= HybridConsensus.MINIMUM_STAKE;
+    // Hard requirement 1: Minimum stake (ledger amounts are fixed-point decimal strings)
+    const hasMinimumStake = stake && Number(stake.stakedAmount) >= Number(HybridConsensus.MINIMUM_STAKE);
     
     // Hard requirement 2: Registered device
     const hasRegisteredDevice = device && device.isActive;
@@ -98,68 +91,6 @@ export class HybridConsensus {
     };
   }
 
-  /**
-   * Stake tokens for validator eligibility
-   */
-  async stakeTokens(params: StakeParams): Promise<ValidatorStake> {
-    if (params.amount < HybridConsensus.MINIMUM_STAKE) {
-      throw new Error(`Minimum stake is ${HybridConsensus.MINIMUM_STAKE} EMO`);
-    }
-
-    const now = new Date();
-    const lockPeriod = Math.max(params.lockPeriod, HybridConsensus.LOCK_PERIOD_DAYS);
-    const lockedUntil = new Date(now.getTime() + lockPeriod * 24 * 60 * 60 * 1000);
-
-    return {
-      id: 0, // Will be set by database
-      validatorAddress: params.validatorAddress,
-      stakedAmount: params.amount.toString(),
-      stakeTimestamp: now,
-      lockedUntil,
-      slashingEvents: 0,
-      totalSlashed: '0',
-      createdAt: now,
-      updatedAt: now
-    };
-  }
-
-  /**
-   * Unstake tokens after lock period
-   */
-  async unstakeTokens(stake: ValidatorStake): Promise<{ allowed: boolean; reason?: string }> {
-    const now = new Date();
-    
-    if (now < new Date(stake.lockedUntil)) {
-      return {
-        allowed: false,
-        reason: `Stake locked until ${stake.lockedUntil.toISOString()}`
-      };
-    }
-
-    return { allowed: true };
-  }
-
-  /**
-   * Slash validator for offline behavior (not stress)
-   */
-  async slashValidator(
-    stake: ValidatorStake,
-    reason: 'offline' | 'double_sign' | 'protocol_violation',
-    percentage: number
-  ): Promise<ValidatorStake> {
-    const slashAmount = BigInt(Math.floor(Number(stake.stakedAmount) * percentage));
-    const newStakedAmount = BigInt(stake.stakedAmount) - slashAmount;
-    const newTotalSlashed = BigInt(stake.totalSlashed || '0') + slashAmount;
-
-    return {
-      ...stake,
-      stakedAmount: newStakedAmount.toString(),
-      slashingEvents: (stake.slashingEvents || 0) + 1,
-      totalSlashed: newTotalSlashed.toString(),
-      updatedAt: new Date()
-    };
-  }
-
   /**
    * Calculate slashing percentage based on offense
    */
@@ -0,0 +1,233 @@
+/**
+ * Governable Parameters
+ * Whitelist of consensus and economic parameters that on-chain governance may change,
+ * and the registry of the parameter set currently active on chain. The authoritative
+ * copy lives in chain state (the governance account); the registry mirrors it for
+ * code that has no access to chain state.
+ */
+import { CONFIG } from '../config';
+import { TOKENOMICS } from '../tokenomics/emissionSchedule';
+
+interface ParameterSpec {
+  description: string;
+  min: number;
+  max: number;
+  integer?: boolean;
+  defaultValue: () => number; // Read lazily so the whitelist can reference modules that import it
+}
+
+export const GOVERNABLE_PARAMETERS = {
+  'consensus.emotionalThreshold': {
+    description: 'Minimum emotional score for committee eligibility',
+    min: 50, max: 95,
+    defaultValue: () => CONFIG.consensus.thresholds.emotionalScore
+  },
+  'consensus.committeeSize': {
+    description: 'Validators selected into each consensus committee',
+    min: 4, max: 101, integer: true,
+    defaultValue: () => CONFIG.consensus.validators.maximum
+  },
+  'consensus.doubleSignSlashRate': {
+    description: 'Share of own and delegated stake burned per double-sign offence',
+    min: 0.01, max: 0.5,
+    defaultValue: () => CONFIG.consensus.doubleSignSlashRate
+  },
+  'staking.slashingRates.minor': {
+    description: 'Stake slashed for minor poor-behaviour offences',
+    min: 0, max: 0.1,
+    defaultValue: () => 0.01
+  },
+  'staking.slashingRates.major': {
+    description: 'Stake slashed for major poor-behaviour offences',
+    min: 0, max: 0.25,
+    defaultValue: () => 0.05
+  },
+  'staking.slashingRates.critical': {
+    description: 'Stake slashed for critical poor-behaviour offences',
+    min: 0, max: 0.5,
+    defaultValue: () => 0.15
+  },
+  'tokenomics.blockReward.initial': {
+    description: 'Block reward in EMO before any halving',
+    min: 1, max: 1000,
+    defaultValue: () => TOKENOMICS.blockReward.initial
+  },
+  'tokenomics.blockReward.halvingInterval': {
+    description: 'Blocks between block reward halvings',
+    min: 100000, max: 10000000, integer: true,
+    defaultValue: () => TOKENOMICS.blockReward.halvingInterval
+  },
+  'tokenomics.blockReward.minimumReward': {
+    description: 'Floor for the block reward after halvings',
+    min: 0, max: 50,
+    defaultValue: () => TOKENOMICS.blockReward.minimumReward
+  },
+  'governance.votingPeriod': {
+    description: 'Blocks a proposal is open for votes',
+    min: 360, max: 604800, integer: true,
+    defaultValue: () => CONFIG.governance.votingPeriod
+  },
+  'governance.quorum': {
+    description: 'Share of bonded stake that must vote',
+    min: 0.1, max: 1,
+    defaultValue: () => CONFIG.governance.quorum
+  },
+  'governance.threshold': {
+    description: 'Share of yes among yes and no votes required to pass',
+    min: 0.5, max: 1,
+    defaultValue: () => CONFIG.governance.threshold
+  }
+} satisfies Record<string, ParameterSpec>;
+
+export type GovernableParameter = keyof typeof GOVERNABLE_PARAMETERS;
+export type ParameterSet = Record<GovernableParameter, number>;
+export type ParameterChanges = Partial<ParameterSet>;
+
+export type ProposalStatus = 'voting' | 'passed' | 'rejected' | 'activated';
+
+export interface GovernanceTally {
+  yes: number;
+  no: number;
+  abstain: number;
+  bondedStake: number; // Voting power of every account when voting closed
+}
+
+export interface GovernanceProposal {
+  id: string; // Id of the proposing transaction
+  proposer: string;
+  title: string;
+  changes: ParameterChanges;
+  submittedHeight: number;
+  votingEndHeight: number;
+  activationHeight: number;
+  status: ProposalStatus;
+  tally?: GovernanceTally; // Set when voting closes
+}
+
+export interface ParameterActivation {
+  height: number;
+  proposalId: string;
+  changes: ParameterChanges;
+}
+
+/**
+ * Governance state kept on the reserved governance account and committed in the state root
+ */
+export interface GovernanceState {
+  proposals: { [proposalId: string]: GovernanceProposal };
+  parameters: ParameterChanges; // Overrides of the defaults currently in force
+  history: ParameterActivation[]; // Activations in height order
+}
+
+export interface ParameterDiff {
+  parameter: GovernableParameter;
+  atHeight: number;
+  current: number;
+  activations: ParameterActivation[]; // Activations after the height that touched the parameter
+}
+
+// Reserved chain state address holding GovernanceState; not a valid wallet or validator name
+export const GOVERNANCE_ACCOUNT = '@governance';
+
+export function isGovernableParameter(name: string): name is GovernableParameter {
+  return Object.prototype.hasOwnProperty.call(GOVERNABLE_PARAMETERS, name);
+}
+
+/**
+ * Check a proposed value against the whitelist; returns the reason it is rejected, or null
+ */
+export function validateParameterChange(name: string, value: unknown): string | null {
+  if (!isGovernableParameter(name)) {
+    return `${name} is not a governable parameter`;
+  }
+  const spec: ParameterSpec = GOVERNABLE_PARAMETERS[name];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return `${name} must be a finite number`;
+  }
+  if (spec.integer && !Number.isInteger(value)) {
+    return `${name} must be an integer`;
+  }
+  if (value < spec.min || value > spec.max) {
+    return `${name} must be between ${spec.min} and ${spec.max}`;
+  }
+  return null;
+}
+
+export function defaultParameters(): ParameterSet {
+  const defaults = {} as ParameterSet;
+  for (const name of Object.keys(GOVERNABLE_PARAMETERS) as GovernableParameter[]) {
+    defaults[name] = GOVERNABLE_PARAMETERS[name].defaultValue();
+  }
+  return defaults;
+}
+
+export function emptyGovernanceState(): GovernanceState {
+  return { proposals: {}, parameters: {}, history: [] };
+}
+
+export class GovernanceParameterRegistry {
+  private overrides: ParameterChanges = {};
+  private history: ParameterActivation[] = [];
+  private listeners = new Set<(parameters: ParameterSet) => void>();
+
+  get(name: GovernableParameter): number {
+    return this.overrides[name] ?? GOVERNABLE_PARAMETERS[name].defaultValue();
+  }
+
+  getAll(): ParameterSet {
+    return { ...defaultParameters(), ...this.overrides };
+  }
+
+  /**
+   * Parameter set in force at a block height, rebuilt from the activation history
+   */
+  getAt(height: number): ParameterSet {
+    const parameters = defaultParameters();
+    for (const activation of this.history) {
+      if (activation.height > height) break;
+      Object.assign(parameters, activation.changes);
+    }
+    return parameters;
+  }
+
+  getHistory(): ParameterActivation[] {
+    return [...this.history];
+  }
+
+  /**
+   * Parameters whose value at a height differs from the value in force now
+   */
+  diff(height: number): ParameterDiff[] {
+    const then = this.getAt(height);
+    const now = this.getAll();
+    return (Object.keys(now) as GovernableParameter[])
+      .filter(name => then[name] !== now[name])
+      .map(name => ({
+        parameter: name,
+        atHeight: then[name],
+        current: now[name],
+        activations: this.history.filter(activation => activation.height > height && name in activation.changes)
+      }));
+  }
+
+  /**
+   * Mirror the governance state of the latest applied block
+   */
+  sync(state: GovernanceState | undefined): void {
+    const overrides = { ...(state?.parameters || {}) };
+    const changed = JSON.stringify(overrides) !== JSON.stringify(this.overrides);
+    this.overrides = overrides;
+    this.history = [...(state?.history || [])];
+    if (changed) {
+      const parameters = this.getAll();
+      this.listeners.forEach(listener => listener(parameters));
+    }
+  }
+
+  onChange(listener: (parameters: ParameterSet) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+}
+
+export const governanceParameters = new GovernanceParameterRegistry();
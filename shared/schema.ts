@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, decimal, timestamp, boolean, jsonb, bigint } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, decimal, timestamp, boolean, jsonb, bigint, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 export const users = pgTable("users", {
@@ -24,6 +24,10 @@ export const blocks = pgTable("blocks", {
   blockData: jsonb("block_data"),
   transactions: jsonb("transactions").default('[]'), // NEW: Full transaction list (immutable)
   zkProofs: jsonb("zk_proofs").default('[]'), // NEW: Privacy-preserving proofs
+  evidence: jsonb("evidence").default('[]'), // Double-sign evidence slashed by this block
+  signature: text("signature"), // Producer ECDSA signature over the block hash (light client header sync)
+  quorumCertificate: jsonb("quorum_certificate"), // Committee BLS aggregate signature and signer bitmap over the block hash
+  validatorSet: jsonb("validator_set"), // Next validator set and its hash, on the last block of a validator-set epoch
   transactionCount: integer("transaction_count").default(0),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -38,6 +42,7 @@ export const transactions = pgTable("transactions", {
   toAddress: text("to_address").notNull(),
   amount: decimal("amount", { precision: 18, scale: 8 }).notNull(),
   fee: decimal("fee", { precision: 18, scale: 8 }).default("0"),
+  nonce: integer("nonce"), // Sender account nonce (replay protection)
   timestamp: bigint("timestamp", { mode: "number" }).notNull(),
   signature: jsonb("signature").notNull(),
   emotionalProofHash: text("emotional_proof_hash"), // NEW: ZK proof commitment
@@ -47,12 +52,32 @@ export const transactions = pgTable("transactions", {
   isBlockchainVerified: boolean("is_blockchain_verified").default(false), // NEW: Verification flag
   createdAt: timestamp("created_at").defaultNow(),
 });
+// Transaction receipts: lifecycle pending -> included -> finalized (or failed)
+// Not keyed to transactions.hash since failed transactions never reach a block
+export const transactionReceipts = pgTable("transaction_receipts", {
+  transactionHash: text("transaction_hash").primaryKey(),
+  status: text("status").notNull().default("pending"), // pending, included, finalized, failed
+  fromAddress: text("from_address").notNull(),
+  toAddress: text("to_address").notNull(),
+  nonce: integer("nonce"),
+  blockHash: text("block_hash").references(() => blocks.hash),
+  blockNumber: integer("block_number"),
+  transactionIndex: integer("transaction_index"),
+  feePaid: decimal("fee_paid", { precision: 18, scale: 8 }).default("0"),
+  failureReason: text("failure_reason"),
+  events: jsonb("events").notNull().default([]),
+  createdAt: bigint("created_at", { mode: "number" }).notNull(),
+  updatedAt: bigint("updated_at", { mode: "number" }).notNull(),
+});
 export const validatorStates = pgTable("validator_states", {
   validatorId: text("validator_id").primaryKey(),
   balance: decimal("balance", { precision: 18, scale: 8 }).notNull().default("0"),
   emotionalScore: decimal("emotional_score", { precision: 5, scale: 2 }).notNull().default("0"),
   lastActivity: bigint("last_activity", { mode: "number" }).notNull(),
   publicKey: text("public_key").notNull(),
+  blsPublicKey: text("bls_public_key"), // Verifies the validator's share of quorum certificates
+  blsProof: text("bls_proof"), // Proof of possession of the BLS key, required before it counts in a certificate
+  jail: jsonb("jail"), // Latest jail record (consensus/ValidatorJail); releasedAt is set once unjailed
   reputation: decimal("reputation", { precision: 5, scale: 2 }).default("100"),
   totalBlocksMined: integer("total_blocks_mined").default(0),
   totalValidations: integer("total_validations").default(0),
@@ -285,17 +310,46 @@ export const storageMetrics = pgTable("storage_metrics", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Finalized checkpoints: blocks signed by 2/3 of validator stake, never re-orged past
+export const finalizedCheckpoints = pgTable("finalized_checkpoints", {
+  height: integer("height").primaryKey(),
+  blockHash: text("block_hash").notNull(),
+  signedStake: decimal("signed_stake", { precision: 18, scale: 8 }).notNull(),
+  totalStake: decimal("total_stake", { precision: 18, scale: 8 }).notNull(),
+  votes: jsonb("votes").notNull(), // Signed checkpoint votes that reached quorum
+  finalizedAt: bigint("finalized_at", { mode: "number" }).notNull(),
+});
+
 // Validator stakes table for hybrid consensus (PoE + PoS)
+// Staking ledger: one row per (validator, delegator) position; the validator's own bond has delegator = validator
 export const validatorStakes = pgTable("validator_stakes", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
-  validatorAddress: text("validator_address").notNull().unique(),
-  stakedAmount: text("staked_amount").notNull(), // Store as string for bigint
+  validatorAddress: text("validator_address").notNull(),
+  delegatorAddress: text("delegator_address").notNull(),
+  stakedAmount: text("staked_amount").notNull(), // Chain state amount at the last write, fixed-point EMO string (8 decimals)
+  rewards: text("rewards").notNull().default("0"), // Accrued, unclaimed rewards
+  totalRewards: text("total_rewards").notNull().default("0"),
+  commissionBps: integer("commission_bps").notNull().default(500), // Validator's cut of rewards (own bond only)
   stakeTimestamp: timestamp("stake_timestamp").notNull(),
   lockedUntil: timestamp("locked_until").notNull(),
   slashingEvents: integer("slashing_events").default(0),
   totalSlashed: text("total_slashed").default("0"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("validator_stakes_position").on(table.validatorAddress, table.delegatorAddress),
+]);
+
+// Penalty history for the staking ledger, one row per poor-behaviour offence
+export const stakeSlashingEvents = pgTable("stake_slashing_events", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  validatorAddress: text("validator_address").notNull(),
+  offense: text("offense").notNull(),
+  rateBps: integer("rate_bps").notNull(),
+  amount: text("amount").notNull(), // Unclaimed rewards forfeited
+  evidence: jsonb("evidence"),
+  blockHeight: integer("block_height"),
+  timestamp: bigint("timestamp", { mode: "number" }).notNull(),
 });
 
 // Device registrations for three-tier attestation
@@ -357,6 +411,7 @@ export const insertTransactionSchema = createInsertSchema(transactions).omit({
   id: true,
   createdAt: true,
 } as const);
+export const insertTransactionReceiptSchema = createInsertSchema(transactionReceipts);
 export const insertValidatorStateSchema = createInsertSchema(validatorStates).omit({
   updatedAt: true,
 } as const);
@@ -432,6 +487,8 @@ export const insertValidatorStakeSchema = createInsertSchema(validatorStakes).om
   updatedAt: true,
 } as const as any);
 
+export const insertStakeSlashingEventSchema = createInsertSchema(stakeSlashingEvents);
+
 export const insertDeviceRegistrationSchema = createInsertSchema(deviceRegistrations).omit({
   id: true,
   createdAt: true,
@@ -456,6 +513,9 @@ export type Block = typeof blocks.$inferSelect;
 export type InsertBlock = z.infer<typeof insertBlockSchema>;
 export type Transaction = typeof transactions.$inferSelect;
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
+export type TransactionReceiptRecord = typeof transactionReceipts.$inferSelect;
+export type InsertTransactionReceipt = z.infer<typeof insertTransactionReceiptSchema>;
+export type FinalizedCheckpointRecord = typeof finalizedCheckpoints.$inferSelect;
 export type ValidatorState = typeof validatorStates.$inferSelect;
 export type InsertValidatorState = z.infer<typeof insertValidatorStateSchema>;
 export type BiometricDataRecord = typeof biometricData.$inferSelect;
@@ -486,6 +546,8 @@ export type StorageMetrics = typeof storageMetrics.$inferSelect;
 export type InsertStorageMetrics = z.infer<typeof insertStorageMetricsSchema>;
 export type ValidatorStake = typeof validatorStakes.$inferSelect;
 export type InsertValidatorStake = z.infer<typeof insertValidatorStakeSchema>;
+export type StakeSlashingEvent = typeof stakeSlashingEvents.$inferSelect;
+export type InsertStakeSlashingEvent = z.infer<typeof insertStakeSlashingEventSchema>;
 export type DeviceRegistration = typeof deviceRegistrations.$inferSelect;
 export type InsertDeviceRegistration = z.infer<typeof insertDeviceRegistrationSchema>;
 export type ThresholdProof = typeof thresholdProofs.$inferSelect;
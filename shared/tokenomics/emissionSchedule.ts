@@ -2,6 +2,7 @@
  * EmotionalChain Token Economics
  * Realistic emission schedule with halving mechanism and validator ROI calculations
  */
+import { governanceParameters, type ParameterSet } from '../governance/parameters';
 
 export const TOKENOMICS = {
   totalSupply: 100_000_000, // 100M EMO
@@ -25,6 +26,22 @@ export const TOKENOMICS = {
   },
 };
 
+/**
+ * Block reward at a height under a parameter set; the state transition passes the set
+ * committed in chain state, everything else the registry's set in force at the height
+ */
+export function calculateBlockReward(
+  blockHeight: number,
+  parameters: ParameterSet = governanceParameters.getAt(blockHeight)
+): number {
+  let reward = parameters['tokenomics.blockReward.initial'];
+  const halvings = Math.floor(blockHeight / parameters['tokenomics.blockReward.halvingInterval']);
+  for (let i = 0; i < halvings; i++) {
+    reward = reward / 2;
+  }
+  return Math.max(reward, parameters['tokenomics.blockReward.minimumReward']);
+}
+
 export interface ValidatorROI {
   dailyReward: number;
   monthlyReward: number;
@@ -35,17 +52,11 @@ export interface ValidatorROI {
 export class EmissionSchedule {
   /**
    * Calculate block reward with halving mechanism
-   * Reward halves every 2.1M blocks (~2 years)
+   * Reward halves every 2.1M blocks (~2 years); the schedule in force at the
+   * height comes from on-chain governance, defaulting to TOKENOMICS.blockReward
    */
   calculateBlockReward(blockHeight: number): number {
-    let reward = TOKENOMICS.blockReward.initial;
-    const halvings = Math.floor(blockHeight / TOKENOMICS.blockReward.halvingInterval);
-    
-    for (let i = 0; i < halvings; i++) {
-      reward = reward / 2;
-    }
-    
-    return Math.max(reward, TOKENOMICS.blockReward.minimumReward);
+    return calculateBlockReward(blockHeight);
   }
   
   /**
@@ -57,7 +68,7 @@ export class EmissionSchedule {
     
     while (currentBlock < blockHeight) {
       const blocksInEra = Math.min(
-        TOKENOMICS.blockReward.halvingInterval,
+        governanceParameters.getAt(currentBlock)['tokenomics.blockReward.halvingInterval'],
         blockHeight - currentBlock
       );
       const rewardInEra = this.calculateBlockReward(currentBlock);
@@ -0,0 +1,219 @@
+/**
+ * Typed transaction envelope
+ * Every user state change (transfers, staking, delegation, devices, consent, governance)
+ * is a signed, versioned envelope included in blocks and replayed by the state manager.
+ */
+import { CONFIG } from '../config';
+import { validateParameterChange, type GovernanceState } from '../governance/parameters';
+
+export const TRANSACTION_ENVELOPE_VERSION = 1;
+
+export const TRANSACTION_KINDS = [
+  'transfer',
+  'stake',
+  'unstake',
+  'delegate',
+  'undelegate',
+  'redelegate',
+  'claim',
+  'register_device',
+  'consent_grant',
+  'consent_revoke',
+  'governance_propose',
+  'governance_vote'
+] as const;
+
+export type TransactionKind = typeof TRANSACTION_KINDS[number];
+
+// System-issued kinds that never travel in an envelope
+export type TransactionType = TransactionKind | 'mining_reward' | 'validation_reward';
+
+export type GovernanceChoice = 'yes' | 'no' | 'abstain';
+
+export interface TransactionPayloads {
+  transfer: Record<string, never>; // Amount and recipient are the transaction's own to/amount
+  stake: { amount: number };
+  unstake: { amount: number };
+  delegate: { validatorId: string; amount: number };
+  undelegate: { validatorId: string; amount: number };
+  redelegate: { fromValidatorId: string; toValidatorId: string; amount: number };
+  claim: Record<string, never>;
+  register_device: { deviceId: string; deviceType: string; attestationHash: string };
+  consent_grant: { purpose: string };
+  consent_revoke: { purpose: string };
+  governance_propose: { title: string; changes: { [parameter: string]: number }; activationHeight: number };
+  governance_vote: { proposalId: string; choice: GovernanceChoice };
+}
+
+export type TransactionEnvelope = {
+  [K in TransactionKind]: { version: number; kind: K; payload: TransactionPayloads[K] }
+}[TransactionKind];
+
+/**
+ * Stake leaving a validator: still slashable for offences committed before it started, and
+ * credited to the balance once the chain reaches completionHeight
+ */
+export interface UnbondingStake {
+  validatorId: string; // The account's own address for unstaked self-bond
+  amount: number;
+  startHeight: number;
+  completionHeight: number;
+}
+
+/**
+ * Delegation moved straight to another validator: until completionHeight the moved amount
+ * is still slashed, where it now sits, for offences of the source validator before it moved
+ */
+export interface Redelegation {
+  fromValidatorId: string;
+  toValidatorId: string;
+  amount: number;
+  startHeight: number;
+  completionHeight: number;
+}
+
+/**
+ * Per-account state written by typed transactions and committed in the state root
+ */
+export interface AccountData {
+  publicKey?: string; // Bound on the account's first typed transaction
+  delegations?: { [validatorId: string]: number };
+  delegatedStake?: number; // Stake delegated to this account by others
+  rewards?: number; // Unclaimed rewards
+  devices?: { [deviceId: string]: { deviceType: string; attestationHash: string; registeredAt: number } };
+  consents?: { [purpose: string]: number }; // Grant timestamp
+  votes?: { [proposalId: string]: GovernanceChoice };
+  slashed?: { [offence: string]: number }; // Stake burned per equivocation offence (validatorId:height:roundId)
+  unbonding?: { [transactionId: string]: UnbondingStake }; // Unstaked and undelegated amounts not yet released
+  redelegations?: { [transactionId: string]: Redelegation }; // Redelegated amounts still slashable for the source validator
+  governance?: GovernanceState; // Only on the governance account
+}
+
+/**
+ * Fields covered by the sender's signature
+ */
+export interface TypedTransactionBody {
+  envelope: TransactionEnvelope;
+  from: string;
+  to: string;
+  amount: number;
+  fee: number;
+  nonce: number;
+  timestamp: number;
+}
+
+/**
+ * Canonical string a typed transaction's hash (and signature) commits to
+ */
+export function serializeTypedTransaction(body: TypedTransactionBody): string {
+  const { envelope, from, to, amount, fee, nonce, timestamp } = body;
+  return JSON.stringify({
+    version: envelope.version,
+    kind: envelope.kind,
+    payload: sortKeys(envelope.payload),
+    from,
+    to,
+    amount,
+    fee,
+    nonce,
+    timestamp
+  });
+}
+
+/**
+ * Structural checks on an envelope; returns the problems found (empty when valid)
+ */
+export function validateEnvelope(envelope: TransactionEnvelope, tx: { from: string; to: string; amount: number }): string[] {
+  const errors: string[] = [];
+  if (envelope.version !== TRANSACTION_ENVELOPE_VERSION) {
+    errors.push(`Unsupported envelope version ${envelope.version}`);
+  }
+  if (!TRANSACTION_KINDS.includes(envelope.kind)) {
+    return [...errors, `Unknown transaction kind ${envelope.kind}`];
+  }
+  const payload: Record<string, any> = envelope.payload || {};
+  const positive = (field: string) => {
+    if (typeof payload[field] !== 'number' || !(payload[field] > 0)) {
+      errors.push(`${envelope.kind} requires a positive ${field}`);
+    }
+  };
+  const text = (field: string) => {
+    if (typeof payload[field] !== 'string' || payload[field].length === 0) {
+      errors.push(`${envelope.kind} requires ${field}`);
+    }
+  };
+
+  switch (envelope.kind) {
+    case 'transfer':
+      if (!(tx.amount > 0)) errors.push('transfer requires a positive amount');
+      if (tx.to === tx.from) errors.push('Cannot transfer to self');
+      break;
+    case 'stake':
+    case 'unstake':
+      positive('amount');
+      break;
+    case 'delegate':
+    case 'undelegate':
+      text('validatorId');
+      positive('amount');
+      if (payload.validatorId === tx.from) errors.push(`Cannot ${envelope.kind} to self`);
+      break;
+    case 'redelegate':
+      text('fromValidatorId');
+      text('toValidatorId');
+      positive('amount');
+      if (payload.fromValidatorId === payload.toValidatorId) errors.push('Cannot redelegate to the same validator');
+      if (payload.toValidatorId === tx.from) errors.push('Cannot redelegate to self');
+      break;
+    case 'claim':
+      break;
+    case 'register_device':
+      text('deviceId');
+      text('deviceType');
+      text('attestationHash');
+      break;
+    case 'consent_grant':
+    case 'consent_revoke':
+      text('purpose');
+      break;
+    case 'governance_propose': {
+      text('title');
+      const changes = payload.changes;
+      const names = changes && typeof changes === 'object' && !Array.isArray(changes) ? Object.keys(changes) : [];
+      if (names.length === 0) {
+        errors.push('governance_propose requires at least one parameter change');
+      } else if (names.length > CONFIG.governance.maxChangesPerProposal) {
+        errors.push(`governance_propose may change at most ${CONFIG.governance.maxChangesPerProposal} parameters`);
+      }
+      for (const name of names) {
+        const problem = validateParameterChange(name, changes[name]);
+        if (problem) errors.push(problem);
+      }
+      if (!Number.isInteger(payload.activationHeight) || !(payload.activationHeight > 0)) {
+        errors.push('governance_propose requires a positive integer activationHeight');
+      }
+      break;
+    }
+    case 'governance_vote':
+      text('proposalId');
+      if (!['yes', 'no', 'abstain'].includes(payload.choice)) {
+        errors.push('governance_vote choice must be yes, no or abstain');
+      }
+      break;
+  }
+
+  // Only transfers move value through to/amount; everything else carries it in the payload
+  if (envelope.kind !== 'transfer' && tx.amount !== 0) {
+    errors.push(`${envelope.kind} transactions must have amount 0`);
+  }
+  return errors;
+}
+
+// Nested objects are sorted too so payloads such as governance changes hash the same in any key order
+function sortKeys(value: Record<string, any>): Record<string, any> {
+  return Object.keys(value || {}).sort().reduce((sorted, key) => {
+    const field = value[key];
+    sorted[key] = field && typeof field === 'object' && !Array.isArray(field) ? sortKeys(field) : field;
+    return sorted;
+  }, {} as Record<string, any>);
+}
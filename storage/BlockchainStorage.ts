@@ -37,6 +37,7 @@ export interface BlockchainStorageInterface {
   storePeerReputation(peerId: string, reputation: number, metadata: any, transaction?: StorageTransaction): Promise<void>;
   getPeerReputation(peerId: string): Promise<{ reputation: number; metadata: any; lastUpdated: number } | null>;
   getAllPeerReputations(): Promise<{ peerId: string; reputation: number; metadata: any; lastUpdated: number }[]>;
+  deletePeerReputation(peerId: string): Promise<void>;
   // Batch operations for efficiency
   batchStore(operations: BatchOperation[], transaction?: StorageTransaction): Promise<void>;
   // Transaction management
@@ -44,16 +45,36 @@ export interface BlockchainStorageInterface {
   // Storage maintenance
   vacuum(): Promise<void>;
   getStorageStats(): Promise<StorageStats>;
+  // Drops transactions, block bodies and biometric readings below a height; headers are kept
+  pruneHistory(belowHeight: number): Promise<PruneResult>;
   // Backup and recovery
   createBackup(destination: string): Promise<void>;
   restoreBackup(source: string): Promise<void>;
   // Health checks
   healthCheck(): Promise<{ healthy: boolean; details: any }>;
 }
+/**
+ * Block and transaction records as the backends persist them: blocks are keyed by
+ * height and hash, transactions by hash
+ */
+export type StoredTransaction = Transaction & { hash: string };
+export interface StoredBlock {
+  hash: string;
+  height: number;
+  timestamp: number;
+  transactions: StoredTransaction[];
+  [field: string]: any;
+}
 export interface BatchOperation {
   type: 'STORE_BLOCK' | 'STORE_TRANSACTION' | 'STORE_VALIDATOR_STATE' | 'STORE_BIOMETRIC_DATA' | 'STORE_CONSENSUS_ROUND' | 'STORE_PEER_REPUTATION';
   data: any;
 }
+/**
+ * archive - keeps every block body, transaction and biometric reading
+ * full    - keeps bodies for the most recent N blocks (pruning depth)
+ * light   - keeps block headers only
+ */
+export type NodeMode = 'archive' | 'full' | 'light';
 export interface StorageStats {
   totalBlocks: number;
   totalTransactions: number;
@@ -63,12 +84,22 @@ export interface StorageStats {
   indexSize: number;
   diskUsage: number;
   memoryUsage: number;
+  nodeMode: NodeMode;
+  prunedBelowHeight: number; // Blocks below this height are headers only
+  lastPruned: number;
+}
+export interface PruneResult {
+  prunedBelowHeight: number;
+  blockBodiesPruned: number;
+  transactionsPruned: number;
+  biometricReadingsPruned: number;
 }
 /**
  * Base implementation with common functionality
  */
 export abstract class BaseBlockchainStorage implements BlockchainStorageInterface {
   protected initialized = false;
+  protected nodeMode: NodeMode = 'archive';
   abstract storeBlock(block: Block, transaction?: StorageTransaction): Promise<void>;
   abstract getBlock(hash: string): Promise<Block | null>;
   abstract getBlockByHeight(height: number): Promise<Block | null>;
@@ -89,10 +120,12 @@ export abstract class BaseBlockchainStorage implements BlockchainStorageInterfac
   abstract storePeerReputation(peerId: string, reputation: number, metadata: any, transaction?: StorageTransaction): Promise<void>;
   abstract getPeerReputation(peerId: string): Promise<{ reputation: number; metadata: any; lastUpdated: number } | null>;
   abstract getAllPeerReputations(): Promise<{ peerId: string; reputation: number; metadata: any; lastUpdated: number }[]>;
+  abstract deletePeerReputation(peerId: string): Promise<void>;
   abstract batchStore(operations: BatchOperation[], transaction?: StorageTransaction): Promise<void>;
   abstract beginTransaction(): Promise<StorageTransaction>;
   abstract vacuum(): Promise<void>;
   abstract getStorageStats(): Promise<StorageStats>;
+  abstract pruneHistory(belowHeight: number): Promise<PruneResult>;
   abstract createBackup(destination: string): Promise<void>;
   abstract restoreBackup(source: string): Promise<void>;
   abstract healthCheck(): Promise<{ healthy: boolean; details: any }>;
@@ -102,6 +135,12 @@ export abstract class BaseBlockchainStorage implements BlockchainStorageInterfac
     this.initialized = true;
   }
   protected abstract performInitialization(): Promise<void>;
+  setNodeMode(mode: NodeMode): void {
+    this.nodeMode = mode;
+  }
+  getNodeMode(): NodeMode {
+    return this.nodeMode;
+  }
   protected validateBlock(block: Block): void {
     if (!block.hash || !block.previousHash || block.height < 0) {
       throw new Error('Invalid block data');
@@ -2,11 +2,15 @@ import { PostgreSQLStorage } from './PostgreSQLStorage';
 import { StateManager } from './StateManager';
 import { CacheManager } from './CacheManager';
 import { ReplicationManager } from './ReplicationManager';
+import { PruningManager, PruningConfig } from './PruningManager';
+import { StorageStats } from './BlockchainStorage';
 import { Block } from '../server/blockchain/Block';
 import { Transaction } from '../crypto/Transaction';
 import { BiometricReading } from '../biometric/BiometricDevice';
 import { AuthenticityProof } from '../biometric/AuthenticityProof';
 import { P2PNode } from '../network/P2PNode';
+import type { JailRecord } from '../consensus/ValidatorJail';
+import type { ValidatorSetUpdate } from '../consensus/ValidatorSetManager';
 /**
  * Integrated database storage system for EmotionalChain
  * Replaces all in-memory Maps with persistent distributed storage
@@ -17,12 +21,14 @@ export interface DatabaseStorageConfig {
   enableCaching: boolean;
   cacheSize: number;
   backupInterval: number; // minutes
+  pruning: Partial<PruningConfig>; // Node mode; defaults to CONFIG.storage.pruning
 }
 export class DatabaseStorage {
   private postgresStorage: PostgreSQLStorage;
   private stateManager: StateManager;
   private cacheManager: CacheManager;
   private replicationManager?: ReplicationManager;
+  private pruningManager: PruningManager;
   private config: DatabaseStorageConfig;
   private initialized = false;
   constructor(p2pNode?: P2PNode, config: Partial<DatabaseStorageConfig> = {}) {
@@ -32,10 +38,12 @@ export class DatabaseStorage {
       enableCaching: true,
       cacheSize: 10000,
       backupInterval: 60, // 1 hour
+      pruning: {},
       ...config
     };
     this.postgresStorage = new PostgreSQLStorage();
     this.stateManager = new StateManager(this.postgresStorage);
+    this.pruningManager = new PruningManager(this.postgresStorage, this.config.pruning);
     if (this.config.enableCaching) {
       this.cacheManager = new CacheManager(this.config.cacheSize);
     }
@@ -61,6 +69,8 @@ export class DatabaseStorage {
     if (this.cacheManager) {
       await this.warmCache();
     }
+    // Start background pruning for full and light nodes
+    this.pruningManager.start();
     this.initialized = true;
   }
   // Block operations with caching and replication
@@ -243,6 +253,38 @@ export class DatabaseStorage {
       }
     }
   }
+  // Signing keys light clients check header signatures and quorum certificates against
+  async storeValidatorKeys(validatorId: string, publicKey: string, blsPublicKey: string, blsProof: string): Promise<void> {
+    await this.ensureInitialized();
+    await this.postgresStorage.storeValidatorKeys(validatorId, publicKey, blsPublicKey, blsProof);
+  }
+  // Jail records, kept after release so jail counts survive restarts
+  async storeJailRecord(validatorId: string, record: JailRecord): Promise<void> {
+    await this.ensureInitialized();
+    await this.postgresStorage.storeJailRecord(validatorId, record);
+  }
+  async getJailRecords(): Promise<JailRecord[]> {
+    await this.ensureInitialized();
+    return this.postgresStorage.getJailRecords();
+  }
+  // Peer scores and bans, restored by PeerScoring on start
+  async storePeerReputation(peerId: string, reputation: number, metadata: any): Promise<void> {
+    await this.ensureInitialized();
+    await this.postgresStorage.storePeerReputation(peerId, reputation, metadata);
+  }
+  async getAllPeerReputations(): Promise<{ peerId: string; reputation: number; metadata: any; lastUpdated: number }[]> {
+    await this.ensureInitialized();
+    return this.postgresStorage.getAllPeerReputations();
+  }
+  async deletePeerReputation(peerId: string): Promise<void> {
+    await this.ensureInitialized();
+    await this.postgresStorage.deletePeerReputation(peerId);
+  }
+  // Validator set committed in the most recent epoch-ending block
+  async getLatestValidatorSet(): Promise<ValidatorSetUpdate | null> {
+    await this.ensureInitialized();
+    return this.postgresStorage.getLatestValidatorSet();
+  }
   async updateValidatorEmotionalScore(
     validatorId: string, 
     emotionalScore: number, 
@@ -369,6 +411,10 @@ export class DatabaseStorage {
       }
     };
   }
+  async getStorageStats(): Promise<StorageStats> {
+    await this.ensureInitialized();
+    return this.postgresStorage.getStorageStats();
+  }
   async performMaintenance(): Promise<void> {
     console.log('🧹 Performing database maintenance...');
     // Vacuum database
@@ -471,6 +517,7 @@ export class DatabaseStorage {
   // Shutdown cleanup
   async shutdown(): Promise<void> {
     console.log('🛑 Shutting down database storage system...');
+    this.pruningManager.stop();
     if (this.cacheManager) {
       this.cacheManager.shutdown();
     }
@@ -0,0 +1,485 @@
+import fs from 'fs';
+import path from 'path';
+import { Level } from 'level';
+import { BaseBlockchainStorage, StorageTransaction, BatchOperation, StorageStats, PruneResult, StoredBlock, StoredTransaction } from './BlockchainStorage';
+import { BiometricReading } from '../biometric/BiometricDevice';
+import { AuthenticityProof } from '../biometric/AuthenticityProof';
+/**
+ * Embedded LevelDB storage implementation for EmotionalChain
+ * Lets validator nodes persist the chain locally without a PostgreSQL server
+ *
+ * Key layout (all values JSON encoded):
+ *   block!<hash>                                  block record
+ *   height!<height>                               block hash at height
+ *   tx!<hash>                                     { tx, blockHash }
+ *   blocktx!<blockHash>!<timestamp>!<txHash>      transaction hash (per-block index)
+ *   addr!<address>!<timestamp>!<txHash>           transaction hash (per-address index)
+ *   validator!<validatorId>                       { balance, emotionalScore, lastActivity }
+ *   bio!<validatorId>!<timestamp>!<seq>           { reading, proof, timestamp }
+ *   round!<roundId>                               { participants, emotionalScores, timestamp }
+ *   peer!<peerId>                                 { reputation, metadata, lastUpdated }
+ *   meta!<name>                                   bookkeeping values
+ */
+export interface LevelDBBlockchainStorageConfig {
+  dataPath: string;
+}
+type LevelOperation = { type: 'put'; key: string; value: any } | { type: 'del'; key: string };
+type WritePlan = (context: LevelWriteContext) => Promise<void>;
+const SEPARATOR = '!';
+const RANGE_END = '\xff';
+/**
+ * Collects the operations of one atomic write. Reads see staged puts so that
+ * later steps of a batch can depend on earlier ones (e.g. a transaction referencing
+ * a block stored in the same batch).
+ */
+class LevelWriteContext {
+  readonly operations: LevelOperation[] = [];
+  private staged = new Map<string, any>();
+  constructor(private db: Level<string, any>) {}
+  async get(key: string): Promise<any> {
+    if (this.staged.has(key)) return this.staged.get(key);
+    return readKey(this.db, key);
+  }
+  put(key: string, value: any): void {
+    this.staged.set(key, value);
+    this.operations.push({ type: 'put', key, value });
+  }
+  del(key: string): void {
+    this.staged.set(key, undefined);
+    this.operations.push({ type: 'del', key });
+  }
+}
+class LevelDBTransaction implements StorageTransaction {
+  private active = true;
+  private plans: WritePlan[] = [];
+  constructor(private storage: LevelDBBlockchainStorage) {}
+  addPlan(plan: WritePlan): void {
+    if (!this.active) {
+      throw new Error('Transaction is not active');
+    }
+    this.plans.push(plan);
+  }
+  async commit(): Promise<void> {
+    if (!this.active) {
+      throw new Error('Transaction is not active');
+    }
+    try {
+      await this.storage.applyAtomically(this.plans);
+    } finally {
+      this.plans = [];
+      this.active = false;
+    }
+  }
+  async rollback(): Promise<void> {
+    if (!this.active) {
+      return;
+    }
+    this.plans = [];
+    this.active = false;
+  }
+  isActive(): boolean {
+    return this.active;
+  }
+}
+export class LevelDBBlockchainStorage extends BaseBlockchainStorage {
+  private db: Level<string, any>;
+  private config: LevelDBBlockchainStorageConfig;
+  private biometricSequence = 0;
+  constructor(config: Partial<LevelDBBlockchainStorageConfig> = {}) {
+    super();
+    this.config = {
+      dataPath: config.dataPath || './data/leveldb/chain'
+    };
+    this.db = new Level<string, any>(this.config.dataPath, { valueEncoding: 'json' });
+  }
+  protected async performInitialization(): Promise<void> {
+    fs.mkdirSync(this.config.dataPath, { recursive: true });
+    await this.db.open();
+  }
+  async close(): Promise<void> {
+    await this.db.close();
+    this.initialized = false;
+  }
+  // Block operations
+  async storeBlock(block: StoredBlock, transaction?: StorageTransaction): Promise<void> {
+    await this.initialize();
+    this.validateBlock(block);
+    await this.write(transaction, async context => {
+      if (await context.get(key('block', block.hash))) return; // Duplicate inserts are ignored
+      if (await context.get(key('height', pad(block.height)))) {
+        throw new Error(`Block at height ${block.height} already exists`);
+      }
+      context.put(key('block', block.hash), { ...block, transactions: block.transactions.map(tx => ({ ...tx })) });
+      context.put(key('height', pad(block.height)), block.hash);
+    });
+  }
+  async getBlock(hash: string): Promise<StoredBlock | null> {
+    await this.initialize();
+    return (await readKey(this.db, key('block', hash))) || null;
+  }
+  async getBlockByHeight(height: number): Promise<StoredBlock | null> {
+    await this.initialize();
+    const hash = await readKey(this.db, key('height', pad(height)));
+    return hash ? this.getBlock(hash) : null;
+  }
+  async getLatestBlock(): Promise<StoredBlock | null> {
+    await this.initialize();
+    const [latest] = await this.db.values(prefixRange('height', { reverse: true, limit: 1 })).all();
+    return latest ? this.getBlock(latest) : null;
+  }
+  async getBlockRange(startHeight: number, endHeight: number): Promise<StoredBlock[]> {
+    await this.initialize();
+    const hashes = await this.db.values({
+      gte: key('height', pad(startHeight)),
+      lte: key('height', pad(endHeight))
+    }).all();
+    const blocks = await Promise.all(hashes.map(hash => this.getBlock(hash)));
+    return blocks.filter((block): block is StoredBlock => block !== null);
+  }
+  // Transaction operations
+  async storeTransaction(tx: StoredTransaction, blockHash: string, transaction?: StorageTransaction): Promise<void> {
+    await this.initialize();
+    this.validateTransaction(tx);
+    await this.write(transaction, async context => {
+      if (await context.get(key('tx', tx.hash))) return; // Duplicate inserts are ignored
+      if (!(await context.get(key('block', blockHash)))) {
+        throw new Error(`Referenced block ${blockHash} does not exist`);
+      }
+      // Own fields, not Transaction.toJSON, which leaves out the hash records are keyed by
+      context.put(key('tx', tx.hash), { tx: { ...tx }, blockHash });
+      context.put(key('blocktx', blockHash, pad(tx.timestamp), tx.hash), tx.hash);
+      for (const address of new Set([tx.from, tx.to])) {
+        context.put(key('addr', address, pad(tx.timestamp), tx.hash), tx.hash);
+      }
+    });
+  }
+  async getTransaction(hash: string): Promise<StoredTransaction | null> {
+    await this.initialize();
+    const record = await readKey(this.db, key('tx', hash));
+    return record ? record.tx : null;
+  }
+  async getTransactionsByAddress(address: string, limit: number = 100): Promise<StoredTransaction[]> {
+    await this.initialize();
+    const hashes = await this.db.values(prefixRange(key('addr', address), { reverse: true, limit })).all();
+    return this.loadTransactions(hashes);
+  }
+  async getTransactionsByBlock(blockHash: string): Promise<StoredTransaction[]> {
+    await this.initialize();
+    const hashes = await this.db.values(prefixRange(key('blocktx', blockHash))).all();
+    return this.loadTransactions(hashes);
+  }
+  // Validator state operations
+  async storeValidatorState(validatorId: string, balance: number, emotionalScore: number, transaction?: StorageTransaction): Promise<void> {
+    await this.initialize();
+    this.validateValidatorId(validatorId);
+    const lastActivity = Date.now();
+    await this.write(transaction, async context => {
+      context.put(key('validator', validatorId), { balance, emotionalScore, lastActivity });
+    });
+  }
+  async getValidatorState(validatorId: string): Promise<{ balance: number; emotionalScore: number } | null> {
+    await this.initialize();
+    const state = await readKey(this.db, key('validator', validatorId));
+    return state ? { balance: state.balance, emotionalScore: state.emotionalScore } : null;
+  }
+  async getAllValidatorStates(): Promise<{ validatorId: string; balance: number; emotionalScore: number }[]> {
+    await this.initialize();
+    const entries = await this.db.iterator(prefixRange('validator')).all();
+    return entries
+      .map(([entryKey, state]) => ({
+        validatorId: entryKey.slice(key('validator', '').length),
+        balance: state.balance,
+        emotionalScore: state.emotionalScore
+      }))
+      .sort((a, b) => b.balance - a.balance);
+  }
+  // Biometric data operations
+  async storeBiometricData(validatorId: string, reading: BiometricReading, proof: AuthenticityProof, transaction?: StorageTransaction): Promise<void> {
+    await this.initialize();
+    const sequence = this.biometricSequence++;
+    await this.write(transaction, async context => {
+      if (!(await context.get(key('validator', validatorId)))) {
+        throw new Error(`Referenced validator ${validatorId} does not exist`);
+      }
+      context.put(
+        key('bio', validatorId, pad(reading.timestamp), pad(sequence)),
+        { reading, proof, timestamp: reading.timestamp }
+      );
+    });
+  }
+  async getBiometricHistory(validatorId: string, limit: number = 100): Promise<{ reading: BiometricReading; proof: AuthenticityProof; timestamp: number }[]> {
+    await this.initialize();
+    return this.db.values(prefixRange(key('bio', validatorId), { reverse: true, limit })).all();
+  }
+  // Consensus operations
+  async storeConsensusRound(roundId: number, participants: string[], emotionalScores: { [validatorId: string]: number }, transaction?: StorageTransaction): Promise<void> {
+    await this.initialize();
+    const timestamp = Date.now();
+    await this.write(transaction, async context => {
+      if (await context.get(key('round', pad(roundId)))) return; // Duplicate inserts are ignored
+      context.put(key('round', pad(roundId)), { participants, emotionalScores, timestamp });
+    });
+  }
+  async getConsensusRound(roundId: number): Promise<{ participants: string[]; emotionalScores: { [validatorId: string]: number } } | null> {
+    await this.initialize();
+    const round = await readKey(this.db, key('round', pad(roundId)));
+    return round ? { participants: round.participants, emotionalScores: round.emotionalScores } : null;
+  }
+  async getLatestConsensusRound(): Promise<{ roundId: number; participants: string[]; emotionalScores: { [validatorId: string]: number } } | null> {
+    await this.initialize();
+    const [latest] = await this.db.iterator(prefixRange('round', { reverse: true, limit: 1 })).all();
+    if (!latest) return null;
+    const [entryKey, round] = latest;
+    return {
+      roundId: parseInt(entryKey.slice(key('round', '').length), 10),
+      participants: round.participants,
+      emotionalScores: round.emotionalScores
+    };
+  }
+  // Peer reputation operations
+  async storePeerReputation(peerId: string, reputation: number, metadata: any, transaction?: StorageTransaction): Promise<void> {
+    await this.initialize();
+    const lastUpdated = Date.now();
+    await this.write(transaction, async context => {
+      context.put(key('peer', peerId), { reputation, metadata, lastUpdated });
+    });
+  }
+  async getPeerReputation(peerId: string): Promise<{ reputation: number; metadata: any; lastUpdated: number } | null> {
+    await this.initialize();
+    return (await readKey(this.db, key('peer', peerId))) || null;
+  }
+  async getAllPeerReputations(): Promise<{ peerId: string; reputation: number; metadata: any; lastUpdated: number }[]> {
+    await this.initialize();
+    const entries = await this.db.iterator(prefixRange('peer')).all();
+    return entries
+      .map(([entryKey, record]) => ({ peerId: entryKey.slice(key('peer', '').length), ...record }))
+      .sort((a, b) => b.reputation - a.reputation);
+  }
+  async deletePeerReputation(peerId: string): Promise<void> {
+    await this.initialize();
+    await this.db.del(key('peer', peerId));
+  }
+  // Batch operations
+  async batchStore(operations: BatchOperation[], transaction?: StorageTransaction): Promise<void> {
+    const tx = transaction || await this.beginTransaction();
+    try {
+      for (const op of operations) {
+        switch (op.type) {
+          case 'STORE_BLOCK':
+            await this.storeBlock(op.data, tx);
+            break;
+          case 'STORE_TRANSACTION':
+            await this.storeTransaction(op.data.transaction, op.data.blockHash, tx);
+            break;
+          case 'STORE_VALIDATOR_STATE':
+            await this.storeValidatorState(op.data.validatorId, op.data.balance, op.data.emotionalScore, tx);
+            break;
+          case 'STORE_BIOMETRIC_DATA':
+            await this.storeBiometricData(op.data.validatorId, op.data.reading, op.data.proof, tx);
+            break;
+          case 'STORE_CONSENSUS_ROUND':
+            await this.storeConsensusRound(op.data.roundId, op.data.participants, op.data.emotionalScores, tx);
+            break;
+          case 'STORE_PEER_REPUTATION':
+            await this.storePeerReputation(op.data.peerId, op.data.reputation, op.data.metadata, tx);
+            break;
+        }
+      }
+      if (!transaction) {
+        await tx.commit();
+      }
+    } catch (error) {
+      if (!transaction) {
+        await tx.rollback();
+      }
+      throw error;
+    }
+  }
+  async beginTransaction(): Promise<StorageTransaction> {
+    await this.initialize();
+    return new LevelDBTransaction(this);
+  }
+  /**
+   * Run write plans and flush their operations as a single LevelDB batch.
+   * If any plan throws, nothing is written.
+   */
+  async applyAtomically(plans: WritePlan[]): Promise<void> {
+    const context = new LevelWriteContext(this.db);
+    for (const plan of plans) {
+      await plan(context);
+    }
+    if (context.operations.length > 0) {
+      await this.db.batch(context.operations);
+    }
+  }
+  // Maintenance operations
+  async vacuum(): Promise<void> {
+    await this.initialize();
+    // Compacting the whole key range reclaims space from overwritten and deleted entries
+    if (canCompact(this.db)) {
+      await this.db.compactRange('', RANGE_END);
+    }
+  }
+  async getStorageStats(): Promise<StorageStats> {
+    await this.initialize();
+    const [totalBlocks, totalTransactions, totalValidators, indexEntries] = await Promise.all([
+      this.countKeys('block'),
+      this.countKeys('tx'),
+      this.countKeys('validator'),
+      Promise.all([this.countKeys('height'), this.countKeys('blocktx'), this.countKeys('addr')])
+    ]);
+    const diskUsage = directorySize(this.config.dataPath);
+    return {
+      totalBlocks,
+      totalTransactions,
+      totalValidators,
+      databaseSize: diskUsage,
+      lastBackup: (await readKey(this.db, key('meta', 'lastBackup'))) || 0,
+      indexSize: indexEntries.reduce((sum, count) => sum + count, 0),
+      diskUsage,
+      memoryUsage: process.memoryUsage().rss,
+      nodeMode: this.nodeMode,
+      prunedBelowHeight: (await readKey(this.db, key('meta', 'prunedBelowHeight'))) || 0,
+      lastPruned: (await readKey(this.db, key('meta', 'lastPruned'))) || 0
+    };
+  }
+  async pruneHistory(belowHeight: number): Promise<PruneResult> {
+    await this.initialize();
+    const previous: number = (await readKey(this.db, key('meta', 'prunedBelowHeight'))) || 0;
+    const result: PruneResult = {
+      prunedBelowHeight: Math.max(previous, belowHeight),
+      blockBodiesPruned: 0,
+      transactionsPruned: 0,
+      biometricReadingsPruned: 0
+    };
+    await this.applyAtomically([async context => {
+      // Resume from the previous watermark; everything below it is already headers only
+      let cutoff: number | null = null;
+      const hashes = belowHeight > previous
+        ? await this.db.values({ gte: key('height', pad(previous)), lt: key('height', pad(belowHeight)) }).all()
+        : [];
+      for (const hash of hashes) {
+        const block = await context.get(key('block', hash));
+        if (!block) continue;
+        cutoff = Math.max(cutoff ?? block.timestamp, block.timestamp);
+        if (block.transactions?.length > 0) {
+          context.put(key('block', hash), { ...block, transactions: [] });
+          result.blockBodiesPruned++;
+        }
+        for (const [indexKey, txHash] of await this.db.iterator(prefixRange(key('blocktx', hash))).all()) {
+          context.del(indexKey);
+          const record = await context.get(key('tx', txHash));
+          if (!record) continue;
+          context.del(key('tx', txHash));
+          for (const address of new Set([record.tx.from, record.tx.to])) {
+            context.del(key('addr', address, pad(record.tx.timestamp), txHash));
+          }
+          result.transactionsPruned++;
+        }
+      }
+      // Biometric readings up to the newest pruned block go with it
+      if (cutoff !== null) {
+        for (const bioKey of await this.db.keys(prefixRange('bio')).all()) {
+          const parts = bioKey.split(SEPARATOR);
+          if (parseInt(parts[parts.length - 2], 10) <= cutoff) {
+            context.del(bioKey);
+            result.biometricReadingsPruned++;
+          }
+        }
+      }
+      context.put(key('meta', 'prunedBelowHeight'), result.prunedBelowHeight);
+      context.put(key('meta', 'lastPruned'), Date.now());
+    }]);
+    return result;
+  }
+  async createBackup(destination: string): Promise<void> {
+    await this.initialize();
+    fs.mkdirSync(path.dirname(destination), { recursive: true });
+    const entries = await this.db.iterator().all();
+    fs.writeFileSync(destination, JSON.stringify(entries));
+    await this.db.put(key('meta', 'lastBackup'), Date.now());
+  }
+  async restoreBackup(source: string): Promise<void> {
+    await this.initialize();
+    const entries: Array<[string, any]> = JSON.parse(fs.readFileSync(source, 'utf-8'));
+    await this.db.clear();
+    await this.db.batch(entries.map(([entryKey, value]) => ({ type: 'put' as const, key: entryKey, value })));
+  }
+  async healthCheck(): Promise<{ healthy: boolean; details: any }> {
+    try {
+      const stats = await this.getStorageStats();
+      return {
+        healthy: this.db.status === 'open',
+        details: {
+          backend: 'leveldb',
+          dataPath: this.config.dataPath,
+          totalBlocks: stats.totalBlocks,
+          totalTransactions: stats.totalTransactions,
+          totalValidators: stats.totalValidators,
+          timestamp: Date.now()
+        }
+      };
+    } catch (error) {
+      return {
+        healthy: false,
+        details: {
+          error: (error as Error).message,
+          timestamp: Date.now()
+        }
+      };
+    }
+  }
+  // Helper methods
+  private async write(transaction: StorageTransaction | undefined, plan: WritePlan): Promise<void> {
+    if (transaction && transaction instanceof LevelDBTransaction) {
+      transaction.addPlan(plan);
+    } else {
+      await this.applyAtomically([plan]);
+    }
+  }
+  private async loadTransactions(hashes: string[]): Promise<StoredTransaction[]> {
+    const transactions = await Promise.all(hashes.map(hash => this.getTransaction(hash)));
+    return transactions.filter((tx): tx is StoredTransaction => tx !== null);
+  }
+  private async countKeys(namespace: string): Promise<number> {
+    let count = 0;
+    for await (const _ of this.db.keys(prefixRange(namespace))) {
+      count++;
+    }
+    return count;
+  }
+}
+/**
+ * On Node, level is classic-level, which can compact a key range; level's own types leave
+ * that method out because browser-level lacks it
+ */
+function canCompact(db: object): db is { compactRange(start: string, end: string): Promise<void> } {
+  return 'compactRange' in db && typeof db.compactRange === 'function';
+}
+function key(...parts: string[]): string {
+  return parts.join(SEPARATOR);
+}
+/**
+ * Fixed-width numeric key part so lexicographic order matches numeric order
+ */
+function pad(value: number): string {
+  return Math.max(0, Math.floor(value)).toString().padStart(16, '0');
+}
+function prefixRange(prefix: string, options: { reverse?: boolean; limit?: number } = {}): { gt: string; lt: string; reverse?: boolean; limit?: number } {
+  return { gt: prefix + SEPARATOR, lt: prefix + SEPARATOR + RANGE_END, ...options };
+}
+async function readKey(db: Level<string, any>, entryKey: string): Promise<any> {
+  try {
+    return await db.get(entryKey);
+  } catch (error: any) {
+    if (error?.code === 'LEVEL_NOT_FOUND' || error?.notFound) return undefined;
+    throw error;
+  }
+}
+function directorySize(dir: string): number {
+  if (!fs.existsSync(dir)) return 0;
+  return fs.readdirSync(dir, { withFileTypes: true }).reduce((total, entry) => {
+    const entryPath = path.join(dir, entry.name);
+    return total + (entry.isDirectory() ? directorySize(entryPath) : fs.statSync(entryPath).size);
+  }, 0);
+}
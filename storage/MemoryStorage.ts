@@ -0,0 +1,450 @@
+import fs from 'fs';
+import path from 'path';
+import { BaseBlockchainStorage, StorageTransaction, BatchOperation, StorageStats, PruneResult, StoredBlock, StoredTransaction } from './BlockchainStorage';
+import { BiometricReading } from '../biometric/BiometricDevice';
+import { AuthenticityProof } from '../biometric/AuthenticityProof';
+/**
+ * In-memory storage implementation for EmotionalChain
+ * Mirrors PostgreSQLStorage semantics without a database, for tests and light nodes
+ */
+type ConsensusRoundRecord = {
+  participants: string[];
+  emotionalScores: { [validatorId: string]: number };
+  timestamp: number;
+};
+type PeerReputationRecord = { reputation: number; metadata: any; lastUpdated: number };
+type BiometricRecord = { reading: BiometricReading; proof: AuthenticityProof; timestamp: number };
+type Mutation = (undo: Array<() => void>) => void;
+class MemoryTransaction implements StorageTransaction {
+  private active = true;
+  private mutations: Mutation[] = [];
+  constructor(private storage: MemoryBlockchainStorage) {}
+  addMutation(mutation: Mutation): void {
+    if (!this.active) {
+      throw new Error('Transaction is not active');
+    }
+    this.mutations.push(mutation);
+  }
+  async commit(): Promise<void> {
+    if (!this.active) {
+      throw new Error('Transaction is not active');
+    }
+    try {
+      this.storage.applyAtomically(this.mutations);
+    } finally {
+      this.mutations = [];
+      this.active = false;
+    }
+  }
+  async rollback(): Promise<void> {
+    if (!this.active) {
+      return;
+    }
+    this.mutations = [];
+    this.active = false;
+  }
+  isActive(): boolean {
+    return this.active;
+  }
+}
+export class MemoryBlockchainStorage extends BaseBlockchainStorage {
+  private blocks = new Map<string, StoredBlock>();
+  private blocksByHeight = new Map<number, string>();
+  private transactions = new Map<string, { tx: StoredTransaction; blockHash: string }>();
+  private transactionsByBlock = new Map<string, string[]>();
+  private transactionsByAddress = new Map<string, Set<string>>();
+  private validatorStates = new Map<string, { balance: number; emotionalScore: number; lastActivity: number }>();
+  private biometricData = new Map<string, BiometricRecord[]>();
+  private consensusRounds = new Map<number, ConsensusRoundRecord>();
+  private peerReputations = new Map<string, PeerReputationRecord>();
+  private lastBackup = 0;
+  private prunedBelowHeight = 0;
+  private lastPruned = 0;
+  protected async performInitialization(): Promise<void> {
+    // Nothing to provision - all state lives in process memory
+  }
+  // Block operations
+  async storeBlock(block: StoredBlock, transaction?: StorageTransaction): Promise<void> {
+    await this.initialize();
+    this.validateBlock(block);
+    const stored = this.clone(block);
+    this.write(transaction, undo => {
+      if (this.blocks.has(stored.hash)) return; // ON CONFLICT DO NOTHING
+      if (this.blocksByHeight.has(stored.height)) {
+        throw new Error(`Block at height ${stored.height} already exists`);
+      }
+      this.setEntry(this.blocks, stored.hash, stored, undo);
+      this.setEntry(this.blocksByHeight, stored.height, stored.hash, undo);
+    });
+  }
+  async getBlock(hash: string): Promise<StoredBlock | null> {
+    await this.initialize();
+    const block = this.blocks.get(hash);
+    return block ? this.clone(block) : null;
+  }
+  async getBlockByHeight(height: number): Promise<StoredBlock | null> {
+    await this.initialize();
+    const hash = this.blocksByHeight.get(height);
+    return hash ? this.getBlock(hash) : null;
+  }
+  async getLatestBlock(): Promise<StoredBlock | null> {
+    await this.initialize();
+    if (this.blocksByHeight.size === 0) return null;
+    const latestHeight = Math.max(...Array.from(this.blocksByHeight.keys()));
+    return this.getBlockByHeight(latestHeight);
+  }
+  async getBlockRange(startHeight: number, endHeight: number): Promise<StoredBlock[]> {
+    await this.initialize();
+    return Array.from(this.blocksByHeight.entries())
+      .filter(([height]) => height >= startHeight && height <= endHeight)
+      .sort(([a], [b]) => a - b)
+      .map(([, hash]) => this.clone(this.blocks.get(hash)!));
+  }
+  // Transaction operations
+  async storeTransaction(tx: StoredTransaction, blockHash: string, transaction?: StorageTransaction): Promise<void> {
+    await this.initialize();
+    this.validateTransaction(tx);
+    const stored = this.clone(tx);
+    this.write(transaction, undo => {
+      if (this.transactions.has(stored.hash)) return; // ON CONFLICT DO NOTHING
+      if (!this.blocks.has(blockHash)) {
+        throw new Error(`Referenced block ${blockHash} does not exist`);
+      }
+      this.setEntry(this.transactions, stored.hash, { tx: stored, blockHash }, undo);
+      const blockTxs = this.transactionsByBlock.get(blockHash) || [];
+      this.setEntry(this.transactionsByBlock, blockHash, [...blockTxs, stored.hash], undo);
+      for (const address of new Set([stored.from, stored.to])) {
+        const hashes = new Set(this.transactionsByAddress.get(address) || []);
+        hashes.add(stored.hash);
+        this.setEntry(this.transactionsByAddress, address, hashes, undo);
+      }
+    });
+  }
+  async getTransaction(hash: string): Promise<StoredTransaction | null> {
+    await this.initialize();
+    const record = this.transactions.get(hash);
+    return record ? this.clone(record.tx) : null;
+  }
+  async getTransactionsByAddress(address: string, limit: number = 100): Promise<StoredTransaction[]> {
+    await this.initialize();
+    const hashes = Array.from(this.transactionsByAddress.get(address) || []);
+    return hashes
+      .map(hash => this.transactions.get(hash)!.tx)
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, limit)
+      .map(tx => this.clone(tx));
+  }
+  async getTransactionsByBlock(blockHash: string): Promise<StoredTransaction[]> {
+    await this.initialize();
+    return (this.transactionsByBlock.get(blockHash) || [])
+      .map(hash => this.transactions.get(hash)!.tx)
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .map(tx => this.clone(tx));
+  }
+  // Validator state operations
+  async storeValidatorState(validatorId: string, balance: number, emotionalScore: number, transaction?: StorageTransaction): Promise<void> {
+    await this.initialize();
+    this.validateValidatorId(validatorId);
+    const lastActivity = Date.now();
+    this.write(transaction, undo => {
+      this.setEntry(this.validatorStates, validatorId, { balance, emotionalScore, lastActivity }, undo);
+    });
+  }
+  async getValidatorState(validatorId: string): Promise<{ balance: number; emotionalScore: number } | null> {
+    await this.initialize();
+    const state = this.validatorStates.get(validatorId);
+    return state ? { balance: state.balance, emotionalScore: state.emotionalScore } : null;
+  }
+  async getAllValidatorStates(): Promise<{ validatorId: string; balance: number; emotionalScore: number }[]> {
+    await this.initialize();
+    return Array.from(this.validatorStates.entries())
+      .map(([validatorId, state]) => ({ validatorId, balance: state.balance, emotionalScore: state.emotionalScore }))
+      .sort((a, b) => b.balance - a.balance);
+  }
+  // Biometric data operations
+  async storeBiometricData(validatorId: string, reading: BiometricReading, proof: AuthenticityProof, transaction?: StorageTransaction): Promise<void> {
+    await this.initialize();
+    const record: BiometricRecord = {
+      reading: this.clone(reading),
+      proof: this.clone(proof),
+      timestamp: reading.timestamp
+    };
+    this.write(transaction, undo => {
+      if (!this.validatorStates.has(validatorId)) {
+        throw new Error(`Referenced validator ${validatorId} does not exist`);
+      }
+      const history = this.biometricData.get(validatorId) || [];
+      this.setEntry(this.biometricData, validatorId, [...history, record], undo);
+    });
+  }
+  async getBiometricHistory(validatorId: string, limit: number = 100): Promise<{ reading: BiometricReading; proof: AuthenticityProof; timestamp: number }[]> {
+    await this.initialize();
+    return [...(this.biometricData.get(validatorId) || [])]
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, limit)
+      .map(record => this.clone(record));
+  }
+  // Consensus operations
+  async storeConsensusRound(roundId: number, participants: string[], emotionalScores: { [validatorId: string]: number }, transaction?: StorageTransaction): Promise<void> {
+    await this.initialize();
+    const record: ConsensusRoundRecord = {
+      participants: [...participants],
+      emotionalScores: { ...emotionalScores },
+      timestamp: Date.now()
+    };
+    this.write(transaction, undo => {
+      if (this.consensusRounds.has(roundId)) return; // ON CONFLICT DO NOTHING
+      this.setEntry(this.consensusRounds, roundId, record, undo);
+    });
+  }
+  async getConsensusRound(roundId: number): Promise<{ participants: string[]; emotionalScores: { [validatorId: string]: number } } | null> {
+    await this.initialize();
+    const round = this.consensusRounds.get(roundId);
+    return round ? { participants: [...round.participants], emotionalScores: { ...round.emotionalScores } } : null;
+  }
+  async getLatestConsensusRound(): Promise<{ roundId: number; participants: string[]; emotionalScores: { [validatorId: string]: number } } | null> {
+    await this.initialize();
+    if (this.consensusRounds.size === 0) return null;
+    const roundId = Math.max(...Array.from(this.consensusRounds.keys()));
+    const round = this.consensusRounds.get(roundId)!;
+    return { roundId, participants: [...round.participants], emotionalScores: { ...round.emotionalScores } };
+  }
+  // Peer reputation operations
+  async storePeerReputation(peerId: string, reputation: number, metadata: any, transaction?: StorageTransaction): Promise<void> {
+    await this.initialize();
+    const record: PeerReputationRecord = { reputation, metadata: this.clone(metadata), lastUpdated: Date.now() };
+    this.write(transaction, undo => {
+      this.setEntry(this.peerReputations, peerId, record, undo);
+    });
+  }
+  async getPeerReputation(peerId: string): Promise<{ reputation: number; metadata: any; lastUpdated: number } | null> {
+    await this.initialize();
+    const record = this.peerReputations.get(peerId);
+    return record ? this.clone(record) : null;
+  }
+  async getAllPeerReputations(): Promise<{ peerId: string; reputation: number; metadata: any; lastUpdated: number }[]> {
+    await this.initialize();
+    return Array.from(this.peerReputations.entries())
+      .map(([peerId, record]) => ({ peerId, ...this.clone(record) }))
+      .sort((a, b) => b.reputation - a.reputation);
+  }
+  async deletePeerReputation(peerId: string): Promise<void> {
+    await this.initialize();
+    this.peerReputations.delete(peerId);
+  }
+  // Batch operations
+  async batchStore(operations: BatchOperation[], transaction?: StorageTransaction): Promise<void> {
+    const tx = transaction || await this.beginTransaction();
+    try {
+      for (const op of operations) {
+        switch (op.type) {
+          case 'STORE_BLOCK':
+            await this.storeBlock(op.data, tx);
+            break;
+          case 'STORE_TRANSACTION':
+            await this.storeTransaction(op.data.transaction, op.data.blockHash, tx);
+            break;
+          case 'STORE_VALIDATOR_STATE':
+            await this.storeValidatorState(op.data.validatorId, op.data.balance, op.data.emotionalScore, tx);
+            break;
+          case 'STORE_BIOMETRIC_DATA':
+            await this.storeBiometricData(op.data.validatorId, op.data.reading, op.data.proof, tx);
+            break;
+          case 'STORE_CONSENSUS_ROUND':
+            await this.storeConsensusRound(op.data.roundId, op.data.participants, op.data.emotionalScores, tx);
+            break;
+          case 'STORE_PEER_REPUTATION':
+            await this.storePeerReputation(op.data.peerId, op.data.reputation, op.data.metadata, tx);
+            break;
+        }
+      }
+      if (!transaction) {
+        await tx.commit();
+      }
+    } catch (error) {
+      if (!transaction) {
+        await tx.rollback();
+      }
+      throw error;
+    }
+  }
+  async beginTransaction(): Promise<StorageTransaction> {
+    return new MemoryTransaction(this);
+  }
+  /**
+   * Apply mutations as a unit: if any mutation throws, every change made so far is undone
+   */
+  applyAtomically(mutations: Mutation[]): void {
+    const undo: Array<() => void> = [];
+    try {
+      for (const mutation of mutations) {
+        mutation(undo);
+      }
+    } catch (error) {
+      for (let i = undo.length - 1; i >= 0; i--) {
+        undo[i]();
+      }
+      throw error;
+    }
+  }
+  // Maintenance operations
+  async vacuum(): Promise<void> {
+    this.transactionsByAddress.forEach((hashes, address) => {
+      if (hashes.size === 0) this.transactionsByAddress.delete(address);
+    });
+    this.biometricData.forEach((history, validatorId) => {
+      if (history.length === 0) this.biometricData.delete(validatorId);
+    });
+  }
+  async getStorageStats(): Promise<StorageStats> {
+    await this.initialize();
+    const databaseSize = Buffer.byteLength(JSON.stringify(this.serialize()));
+    const indexSize = Buffer.byteLength(JSON.stringify({
+      heights: Array.from(this.blocksByHeight.entries()),
+      byBlock: Array.from(this.transactionsByBlock.entries()),
+      byAddress: Array.from(this.transactionsByAddress.entries()).map(([address, hashes]) => [address, Array.from(hashes)])
+    }));
+    return {
+      totalBlocks: this.blocks.size,
+      totalTransactions: this.transactions.size,
+      totalValidators: this.validatorStates.size,
+      databaseSize,
+      lastBackup: this.lastBackup,
+      indexSize,
+      diskUsage: 0, // Nothing is written to disk outside of backups
+      memoryUsage: databaseSize + indexSize,
+      nodeMode: this.nodeMode,
+      prunedBelowHeight: this.prunedBelowHeight,
+      lastPruned: this.lastPruned
+    };
+  }
+  async pruneHistory(belowHeight: number): Promise<PruneResult> {
+    await this.initialize();
+    const result: PruneResult = {
+      prunedBelowHeight: Math.max(this.prunedBelowHeight, belowHeight),
+      blockBodiesPruned: 0,
+      transactionsPruned: 0,
+      biometricReadingsPruned: 0
+    };
+    this.applyAtomically([undo => {
+      // Resume from the previous watermark; everything below it is already headers only
+      let cutoff: number | null = null;
+      for (const [height, hash] of Array.from(this.blocksByHeight.entries())) {
+        if (height < this.prunedBelowHeight || height >= belowHeight) continue;
+        const block = this.blocks.get(hash)!;
+        cutoff = Math.max(cutoff ?? block.timestamp, block.timestamp);
+        if (block.transactions.length > 0) {
+          this.setEntry(this.blocks, hash, { ...block, transactions: [] }, undo);
+          result.blockBodiesPruned++;
+        }
+        for (const txHash of this.transactionsByBlock.get(hash) || []) {
+          const record = this.transactions.get(txHash);
+          if (!record) continue;
+          this.deleteEntry(this.transactions, txHash, undo);
+          for (const address of new Set([record.tx.from, record.tx.to])) {
+            const hashes = new Set(this.transactionsByAddress.get(address) || []);
+            hashes.delete(txHash);
+            this.setEntry(this.transactionsByAddress, address, hashes, undo);
+          }
+          result.transactionsPruned++;
+        }
+        this.deleteEntry(this.transactionsByBlock, hash, undo);
+      }
+      // Biometric readings up to the newest pruned block go with it
+      if (cutoff !== null) {
+        this.biometricData.forEach((history, validatorId) => {
+          const kept = history.filter(record => record.timestamp > cutoff!);
+          if (kept.length === history.length) return;
+          result.biometricReadingsPruned += history.length - kept.length;
+          this.setEntry(this.biometricData, validatorId, kept, undo);
+        });
+      }
+    }]);
+    this.prunedBelowHeight = result.prunedBelowHeight;
+    this.lastPruned = Date.now();
+    return result;
+  }
+  async createBackup(destination: string): Promise<void> {
+    await this.initialize();
+    fs.mkdirSync(path.dirname(destination), { recursive: true });
+    fs.writeFileSync(destination, JSON.stringify(this.serialize()));
+    this.lastBackup = Date.now();
+  }
+  async restoreBackup(source: string): Promise<void> {
+    await this.initialize();
+    const data = JSON.parse(fs.readFileSync(source, 'utf-8'));
+    this.blocks = new Map(data.blocks);
+    this.blocksByHeight = new Map(Array.from(this.blocks.values()).map(block => [block.height, block.hash]));
+    this.transactions = new Map();
+    this.transactionsByBlock = new Map();
+    this.transactionsByAddress = new Map();
+    for (const [hash, record] of data.transactions as Array<[string, { tx: StoredTransaction; blockHash: string }]>) {
+      this.transactions.set(hash, record);
+      this.transactionsByBlock.set(record.blockHash, [...(this.transactionsByBlock.get(record.blockHash) || []), hash]);
+      for (const address of [record.tx.from, record.tx.to]) {
+        const hashes = this.transactionsByAddress.get(address) || new Set<string>();
+        hashes.add(hash);
+        this.transactionsByAddress.set(address, hashes);
+      }
+    }
+    this.validatorStates = new Map(data.validatorStates);
+    this.biometricData = new Map(data.biometricData);
+    this.consensusRounds = new Map(data.consensusRounds);
+    this.peerReputations = new Map(data.peerReputations);
+    this.prunedBelowHeight = data.pruning?.prunedBelowHeight || 0;
+    this.lastPruned = data.pruning?.lastPruned || 0;
+  }
+  async healthCheck(): Promise<{ healthy: boolean; details: any }> {
+    const stats = await this.getStorageStats();
+    return {
+      healthy: true,
+      details: {
+        backend: 'memory',
+        totalBlocks: stats.totalBlocks,
+        totalTransactions: stats.totalTransactions,
+        totalValidators: stats.totalValidators,
+        timestamp: Date.now()
+      }
+    };
+  }
+  // Helper methods
+  private write(transaction: StorageTransaction | undefined, mutation: Mutation): void {
+    if (transaction && transaction instanceof MemoryTransaction) {
+      transaction.addMutation(mutation);
+    } else {
+      this.applyAtomically([mutation]);
+    }
+  }
+  private setEntry<K, V>(map: Map<K, V>, key: K, value: V, undo: Array<() => void>): void {
+    const existed = map.has(key);
+    const previous = map.get(key);
+    map.set(key, value);
+    undo.push(() => {
+      if (existed) {
+        map.set(key, previous as V);
+      } else {
+        map.delete(key);
+      }
+    });
+  }
+  private deleteEntry<K, V>(map: Map<K, V>, key: K, undo: Array<() => void>): void {
+    if (!map.has(key)) return;
+    const previous = map.get(key) as V;
+    map.delete(key);
+    undo.push(() => map.set(key, previous));
+  }
+  private serialize(): any {
+    return {
+      blocks: Array.from(this.blocks.entries()),
+      transactions: Array.from(this.transactions.entries()),
+      validatorStates: Array.from(this.validatorStates.entries()),
+      biometricData: Array.from(this.biometricData.entries()),
+      consensusRounds: Array.from(this.consensusRounds.entries()),
+      peerReputations: Array.from(this.peerReputations.entries()),
+      pruning: { prunedBelowHeight: this.prunedBelowHeight, lastPruned: this.lastPruned }
+    };
+  }
+  private clone<T>(value: T): T {
+    return value === undefined || value === null ? value : structuredClone(value);
+  }
+}
@@ -1,10 +1,12 @@
 import { Pool } from '@neondatabase/serverless';
-import { BaseBlockchainStorage, StorageTransaction, BatchOperation, StorageStats, BlockchainStorageInterface } from './BlockchainStorage';
+import { BaseBlockchainStorage, StorageTransaction, BatchOperation, StorageStats, BlockchainStorageInterface, PruneResult } from './BlockchainStorage';
 import { Block } from '../server/blockchain/Block';
 import { Transaction } from '../crypto/Transaction';
 import { BiometricReading } from '../biometric/BiometricDevice';
 import { AuthenticityProof } from '../biometric/AuthenticityProof';
 import { db } from '../server/db';
+import type { JailRecord } from '../consensus/ValidatorJail';
+import type { ValidatorSetUpdate } from '../consensus/ValidatorSetManager';
 /**
  * PostgreSQL-based storage implementation for EmotionalChain
  * Provides ACID transactions, replication, and high availability
@@ -81,6 +83,8 @@ export class PostgreSQLStorage extends BaseBlockchainStorage {
           emotional_score DECIMAL(5,2) NOT NULL,
           emotional_proof JSONB NOT NULL,
           block_data JSONB NOT NULL,
+          quorum_certificate JSONB,
+          validator_set JSONB,
           created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
         )
       `);
@@ -108,6 +112,9 @@ export class PostgreSQLStorage extends BaseBlockchainStorage {
           emotional_score DECIMAL(5,2) NOT NULL DEFAULT 0,
           last_activity BIGINT NOT NULL,
           public_key VARCHAR(130) NOT NULL,
+          bls_public_key VARCHAR(96),
+          bls_proof VARCHAR(192),
+          jail JSONB,
           reputation DECIMAL(5,2) DEFAULT 100,
           total_blocks_mined INTEGER DEFAULT 0,
           total_validations INTEGER DEFAULT 0,
@@ -189,6 +196,8 @@ export class PostgreSQLStorage extends BaseBlockchainStorage {
       // Peer reputation indexes
       await client.query('CREATE INDEX IF NOT EXISTS idx_peer_reputation ON peer_reputation(reputation)');
       await client.query('CREATE INDEX IF NOT EXISTS idx_peer_last_seen ON peer_reputation(last_seen)');
+      // Storage metrics indexes
+      await client.query('CREATE INDEX IF NOT EXISTS idx_storage_metrics_name ON storage_metrics(metric_name, timestamp)');
     } finally {
       client.release();
     }
@@ -199,8 +208,8 @@ export class PostgreSQLStorage extends BaseBlockchainStorage {
     this.validateBlock(block);
     const sql = `
       INSERT INTO blocks (hash, height, previous_hash, merkle_root, timestamp, nonce, difficulty, 
-                         validator_id, emotional_score, emotional_proof, block_data)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+                         validator_id, emotional_score, emotional_proof, block_data, quorum_certificate, validator_set)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
       ON CONFLICT (hash) DO NOTHING
     `;
     const params = [
@@ -217,7 +226,9 @@ export class PostgreSQLStorage extends BaseBlockchainStorage {
       JSON.stringify({
         transactions: block.transactions.map(tx => tx.hash),
         size: JSON.stringify(block).length
-      })
+      }),
+      block.consensusMetadata?.quorumCertificate ? JSON.stringify(block.consensusMetadata.quorumCertificate) : null,
+      block.validatorSet ? JSON.stringify(block.validatorSet) : null
     ];
     if (transaction && transaction instanceof PostgreSQLTransaction) {
       transaction.addQuery(sql, params);
@@ -405,6 +416,54 @@ export class PostgreSQLStorage extends BaseBlockchainStorage {
       }
     }
   }
+  async storeValidatorKeys(validatorId: string, publicKey: string, blsPublicKey: string, blsProof: string): Promise<void> {
+    await this.initialize();
+    this.validateValidatorId(validatorId);
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        'UPDATE validator_states SET public_key = $2, bls_public_key = $3, bls_proof = $4, updated_at = CURRENT_TIMESTAMP WHERE validator_id = $1',
+        [validatorId, publicKey, blsPublicKey || null, blsProof || null]
+      );
+    } finally {
+      client.release();
+    }
+  }
+  async storeJailRecord(validatorId: string, record: JailRecord): Promise<void> {
+    await this.initialize();
+    this.validateValidatorId(validatorId);
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        'UPDATE validator_states SET jail = $2, updated_at = CURRENT_TIMESTAMP WHERE validator_id = $1',
+        [validatorId, JSON.stringify(record)]
+      );
+    } finally {
+      client.release();
+    }
+  }
+  async getJailRecords(): Promise<JailRecord[]> {
+    await this.initialize();
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query('SELECT jail FROM validator_states WHERE jail IS NOT NULL');
+      return result.rows.map(row => row.jail as JailRecord);
+    } finally {
+      client.release();
+    }
+  }
+  async getLatestValidatorSet(): Promise<ValidatorSetUpdate | null> {
+    await this.initialize();
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'SELECT validator_set FROM blocks WHERE validator_set IS NOT NULL ORDER BY height DESC LIMIT 1'
+      );
+      return result.rows.length > 0 ? result.rows[0].validator_set as ValidatorSetUpdate : null;
+    } finally {
+      client.release();
+    }
+  }
   async getValidatorState(validatorId: string): Promise<{ balance: number; emotionalScore: number } | null> {
     await this.initialize();
     const client = await this.pool.connect();
@@ -629,6 +688,15 @@ export class PostgreSQLStorage extends BaseBlockchainStorage {
       client.release();
     }
   }
+  async deletePeerReputation(peerId: string): Promise<void> {
+    await this.initialize();
+    const client = await this.pool.connect();
+    try {
+      await client.query('DELETE FROM peer_reputation WHERE peer_id = $1', [peerId]);
+    } finally {
+      client.release();
+    }
+  }
   // Batch operations
   async batchStore(operations: BatchOperation[], transaction?: StorageTransaction): Promise<void> {
     const tx = transaction || await this.beginTransaction();
@@ -681,10 +749,14 @@ export class PostgreSQLStorage extends BaseBlockchainStorage {
     await this.initialize();
     const client = await this.pool.connect();
     try {
-      const [blocks, transactions, validators] = await Promise.all([
+      const [blocks, transactions, validators, pruning] = await Promise.all([
         client.query('SELECT COUNT(*) as count FROM blocks'),
         client.query('SELECT COUNT(*) as count FROM transactions'),
-        client.query('SELECT COUNT(*) as count FROM validator_states')
+        client.query('SELECT COUNT(*) as count FROM validator_states'),
+        client.query(`
+          SELECT MAX(metric_value) as pruned_below_height, MAX(timestamp) as last_pruned
+          FROM storage_metrics WHERE metric_name = 'pruned_below_height'
+        `)
       ]);
       return {
         totalBlocks: parseInt(blocks.rows[0].count),
@@ -694,8 +766,57 @@ export class PostgreSQLStorage extends BaseBlockchainStorage {
         lastBackup: 0, // TODO: Track backup timestamps
         indexSize: 0, // TODO: Calculate index sizes
         diskUsage: 0, // TODO: Calculate disk usage
-        memoryUsage: 0 // TODO: Calculate memory usage
+        memoryUsage: 0, // TODO: Calculate memory usage
+        nodeMode: this.nodeMode,
+        prunedBelowHeight: parseInt(pruning.rows[0].pruned_below_height || 0),
+        lastPruned: parseInt(pruning.rows[0].last_pruned || 0)
+      };
+    } finally {
+      client.release();
+    }
+  }
+  async pruneHistory(belowHeight: number): Promise<PruneResult> {
+    await this.initialize();
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const previous = await client.query(
+        `SELECT COALESCE(MAX(metric_value), 0) as height FROM storage_metrics WHERE metric_name = 'pruned_below_height'`
+      );
+      const fromHeight = parseInt(previous.rows[0].height);
+      // Headers (and the receipts and consensus rounds referencing them) stay; bodies go
+      const transactions = await client.query(
+        'DELETE FROM transactions WHERE block_hash IN (SELECT hash FROM blocks WHERE height >= $1 AND height < $2)',
+        [fromHeight, belowHeight]
+      );
+      const bodies = await client.query(
+        `UPDATE blocks SET block_data = jsonb_build_object('pruned', true, 'size', block_data->'size')
+         WHERE height >= $1 AND height < $2 AND NOT (block_data ? 'pruned')`,
+        [fromHeight, belowHeight]
+      );
+      // Biometric readings up to the newest pruned block go with it
+      const cutoff = await client.query(
+        'SELECT MAX(timestamp) as timestamp FROM blocks WHERE height < $1',
+        [belowHeight]
+      );
+      const readings = cutoff.rows[0].timestamp !== null
+        ? await client.query('DELETE FROM biometric_data WHERE timestamp <= $1', [cutoff.rows[0].timestamp])
+        : { rowCount: 0 };
+      const prunedBelowHeight = Math.max(fromHeight, belowHeight);
+      await client.query(
+        `INSERT INTO storage_metrics (metric_name, metric_value, timestamp) VALUES ('pruned_below_height', $1, $2)`,
+        [prunedBelowHeight, Date.now()]
+      );
+      await client.query('COMMIT');
+      return {
+        prunedBelowHeight,
+        blockBodiesPruned: bodies.rowCount || 0,
+        transactionsPruned: transactions.rowCount || 0,
+        biometricReadingsPruned: readings.rowCount || 0
       };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
     } finally {
       client.release();
     }
@@ -0,0 +1,85 @@
+/**
+ * Block and biometric pruning for full and light nodes
+ * Periodically drops history the node mode no longer needs so validator disks stay bounded
+ */
+import { EventEmitter } from 'events';
+import { BaseBlockchainStorage, NodeMode, PruneResult } from './BlockchainStorage';
+import { SnapshotManager } from '../server/blockchain/SnapshotManager';
+import { CONFIG } from '../shared/config';
+export interface PruningConfig {
+  mode: NodeMode;
+  depth: number; // Block bodies kept by full nodes
+  interval: number; // ms between pruning runs
+}
+export class PruningManager extends EventEmitter {
+  private config: PruningConfig;
+  private pruneTimer?: NodeJS.Timeout;
+  private pruneInProgress = false;
+  constructor(
+    private storage: BaseBlockchainStorage,
+    config: Partial<PruningConfig> = {},
+    private snapshots: SnapshotManager = new SnapshotManager()
+  ) {
+    super();
+    this.config = { ...CONFIG.storage.pruning, ...config };
+    this.storage.setNodeMode(this.config.mode);
+  }
+  public start(): void {
+    if (this.config.mode === 'archive' || this.pruneTimer) return;
+    this.pruneTimer = setInterval(() => {
+      this.prune().catch(error => console.error('❌ Pruning failed:', error));
+    }, this.config.interval);
+    this.prune().catch(error => console.error('❌ Pruning failed:', error));
+    console.log(`✂️ Pruning enabled (${this.config.mode} node${this.config.mode === 'full' ? `, depth ${this.getRetainedDepth()}` : ''})`);
+  }
+  public stop(): void {
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = undefined;
+    }
+  }
+  /**
+   * Prune everything below the height the node mode allows; null when nothing to do
+   */
+  public async prune(): Promise<PruneResult | null> {
+    if (this.pruneInProgress) return null;
+    this.pruneInProgress = true;
+    try {
+      const tip = await this.storage.getLatestBlock();
+      const modeHeight = tip ? this.getPruneHeight(tip.height) : null;
+      if (modeHeight === null || modeHeight <= 0) return null;
+      // Blocks after the newest snapshot are the only way to rebuild state from it; without one keep everything
+      const snapshot = await this.snapshots.getLatestSnapshot();
+      if (!snapshot) return null;
+      const belowHeight = Math.min(modeHeight, snapshot.height + 1);
+      const result = await this.storage.pruneHistory(belowHeight);
+      if (result.blockBodiesPruned > 0 || result.transactionsPruned > 0 || result.biometricReadingsPruned > 0) {
+        console.log(`✂️ Pruned below height ${result.prunedBelowHeight}: ${result.blockBodiesPruned} bodies, ${result.transactionsPruned} transactions, ${result.biometricReadingsPruned} biometric readings`);
+      }
+      this.emit('pruned', result);
+      return result;
+    } finally {
+      this.pruneInProgress = false;
+    }
+  }
+  /**
+   * Lowest height whose body the node mode keeps, before capping at the newest snapshot
+   */
+  public getPruneHeight(tipHeight: number): number | null {
+    switch (this.config.mode) {
+      case 'archive':
+        return null;
+      case 'full':
+        return tipHeight - this.getRetainedDepth() + 1;
+      case 'light':
+        return tipHeight - CONFIG.consensus.finalityDepth + 1;
+    }
+  }
+  public getMode(): NodeMode {
+    return this.config.mode;
+  }
+  private getRetainedDepth(): number {
+    // Bodies of blocks that are not yet final may still be needed
+    return Math.max(this.config.depth, CONFIG.consensus.finalityDepth);
+  }
+}
@@ -0,0 +1,289 @@
+import { createHash } from 'crypto';
+import { Transaction } from '../crypto/Transaction';
+import type { BlockchainStorageInterface, StoredBlock, StoredTransaction } from './BlockchainStorage';
+import type { BiometricReading } from '../biometric/BiometricDevice';
+import type { AuthenticityProof } from '../biometric/AuthenticityProof';
+import type { TestCase, TestResult, TestSuite } from '../sdk/TestingFramework';
+/**
+ * Shared conformance suite for BlockchainStorageInterface backends
+ * Every backend must pass the same cases so nodes can swap storage without behaviour changes
+ *
+ * @example
+ * ```typescript
+ * const tester = new EmotionalChainTester({ logLevel: 'error' });
+ * const results = await tester.runTestSuite(
+ *   createStorageConformanceSuite('memory', async () => new MemoryBlockchainStorage())
+ * );
+ * ```
+ *
+ * Backends sharing state between instances (e.g. PostgreSQL) should point at an empty database.
+ * `npm run check:storage` runs the suite against the memory and LevelDB backends.
+ */
+/**
+ * A backend under test, with reads typed as the records the backends persist
+ */
+export interface ConformanceStorage extends BlockchainStorageInterface {
+  getBlock(hash: string): Promise<StoredBlock | null>;
+  getBlockByHeight(height: number): Promise<StoredBlock | null>;
+  getLatestBlock(): Promise<StoredBlock | null>;
+  getBlockRange(startHeight: number, endHeight: number): Promise<StoredBlock[]>;
+  getTransaction(hash: string): Promise<StoredTransaction | null>;
+  getTransactionsByAddress(address: string, limit?: number): Promise<StoredTransaction[]>;
+  getTransactionsByBlock(blockHash: string): Promise<StoredTransaction[]>;
+}
+export type StorageFactory = () => Promise<ConformanceStorage>;
+export function createStorageConformanceSuite(backendName: string, createStorage: StorageFactory): TestSuite {
+  const cases: Array<[string, (storage: ConformanceStorage, fixtures: ConformanceFixtures) => Promise<void>]> = [
+    ['stores and retrieves blocks by hash and height', async (storage, fixtures) => {
+      const [first, second] = [fixtures.block(0), fixtures.block(1)];
+      await storage.storeBlock(first);
+      await storage.storeBlock(second);
+      const byHash = await storage.getBlock(first.hash);
+      const byHeight = await storage.getBlockByHeight(second.height);
+      const latest = await storage.getLatestBlock();
+      const range = await storage.getBlockRange(first.height, second.height);
+      check(byHash?.hash === first.hash && byHash?.previousHash === first.previousHash, 'getBlock returned wrong block');
+      check(byHeight?.hash === second.hash, 'getBlockByHeight returned wrong block');
+      check(latest?.hash === second.hash, 'getLatestBlock did not return highest block');
+      check(range.map(b => b.hash).join() === [first.hash, second.hash].join(), 'getBlockRange not ordered by height');
+      check(await storage.getBlock(fixtures.hash('missing')) === null, 'unknown block hash should return null');
+    }],
+    ['ignores duplicate block inserts', async (storage, fixtures) => {
+      const block = fixtures.block(0);
+      await storage.storeBlock(block);
+      await storage.storeBlock(block);
+      const range = await storage.getBlockRange(block.height, block.height);
+      check(range.length === 1, `expected 1 block, found ${range.length}`);
+    }],
+    ['indexes transactions by block and address', async (storage, fixtures) => {
+      const block = fixtures.block(0);
+      await storage.storeBlock(block);
+      const older = fixtures.transaction('alice', 'bob', 10, 1);
+      const newer = fixtures.transaction('bob', 'carol', 5, 2);
+      await storage.storeTransaction(newer, block.hash);
+      await storage.storeTransaction(older, block.hash);
+      const fetched = await storage.getTransaction(older.hash);
+      const byBlock = await storage.getTransactionsByBlock(block.hash);
+      const byBob = await storage.getTransactionsByAddress(fixtures.id('bob'));
+      const limited = await storage.getTransactionsByAddress(fixtures.id('bob'), 1);
+      check(fetched?.hash === older.hash && Number(fetched?.amount) === 10, 'getTransaction returned wrong transaction');
+      check(byBlock.map(tx => tx.hash).join() === [older.hash, newer.hash].join(), 'block transactions not ordered by timestamp ascending');
+      check(byBob.map(tx => tx.hash).join() === [newer.hash, older.hash].join(), 'address transactions not ordered by timestamp descending');
+      check(limited.length === 1 && limited[0].hash === newer.hash, 'address query limit not applied');
+    }],
+    ['upserts validator state', async (storage, fixtures) => {
+      const rich = fixtures.id('rich');
+      const poor = fixtures.id('poor');
+      await storage.storeValidatorState(poor, 10, 70);
+      await storage.storeValidatorState(rich, 100, 80);
+      await storage.storeValidatorState(rich, 200, 90);
+      const state = await storage.getValidatorState(rich);
+      const ours = (await storage.getAllValidatorStates()).filter(s => s.validatorId === rich || s.validatorId === poor);
+      check(state?.balance === 200 && state?.emotionalScore === 90, 'validator state not updated in place');
+      check(ours.map(s => s.validatorId).join() === [rich, poor].join(), 'validator states not ordered by balance descending');
+      check(await storage.getValidatorState(fixtures.id('nobody')) === null, 'unknown validator should return null');
+    }],
+    ['returns biometric history newest first', async (storage, fixtures) => {
+      const validatorId = fixtures.id('validator');
+      await storage.storeValidatorState(validatorId, 0, 75);
+      for (let i = 0; i < 3; i++) {
+        await storage.storeBiometricData(validatorId, fixtures.reading(i), fixtures.proof());
+      }
+      const history = await storage.getBiometricHistory(validatorId, 2);
+      check(history.length === 2, `expected 2 readings, found ${history.length}`);
+      check(history[0].timestamp > history[1].timestamp, 'biometric history not ordered newest first');
+      check(history[0].reading.value === fixtures.reading(2).value, 'biometric reading value not preserved');
+    }],
+    ['stores consensus rounds once', async (storage, fixtures) => {
+      const roundId = fixtures.baseHeight;
+      await storage.storeConsensusRound(roundId, ['a', 'b'], { a: 80, b: 90 });
+      await storage.storeConsensusRound(roundId, ['c'], { c: 10 });
+      await storage.storeConsensusRound(roundId + 1, ['a'], { a: 85 });
+      const round = await storage.getConsensusRound(roundId);
+      const latest = await storage.getLatestConsensusRound();
+      check(round?.participants.join() === 'a,b' && round?.emotionalScores.b === 90, 'duplicate consensus round overwrote original');
+      check(latest?.roundId === roundId + 1, 'getLatestConsensusRound did not return highest round');
+    }],
+    ['upserts peer reputation', async (storage, fixtures) => {
+      const peerId = fixtures.id('peer');
+      await storage.storePeerReputation(peerId, 50, { region: 'eu' });
+      await storage.storePeerReputation(peerId, 75, { region: 'us' });
+      const record = await storage.getPeerReputation(peerId);
+      const all = await storage.getAllPeerReputations();
+      check(record?.reputation === 75 && record?.metadata?.region === 'us', 'peer reputation not updated in place');
+      check(typeof record?.lastUpdated === 'number' && record.lastUpdated > 0, 'peer reputation missing lastUpdated');
+      check(all.filter(p => p.peerId === peerId).length === 1, 'peer reputation duplicated');
+      await storage.deletePeerReputation(peerId);
+      check(await storage.getPeerReputation(peerId) === null, 'peer reputation not deleted');
+    }],
+    ['commits batches atomically', async (storage, fixtures) => {
+      const block = fixtures.block(0);
+      const validatorId = fixtures.id('batch');
+      await storage.batchStore([
+        { type: 'STORE_BLOCK', data: block },
+        { type: 'STORE_TRANSACTION', data: { transaction: fixtures.transaction('alice', 'bob', 1, 1), blockHash: block.hash } },
+        { type: 'STORE_VALIDATOR_STATE', data: { validatorId, balance: 5, emotionalScore: 80 } }
+      ]);
+      check((await storage.getBlock(block.hash)) !== null, 'batched block not stored');
+      check((await storage.getValidatorState(validatorId))?.balance === 5, 'batched validator state not stored');
+
+      const orphanBlock = fixtures.block(1);
+      const failingValidator = fixtures.id('failing');
+      let failed = false;
+      try {
+        await storage.batchStore([
+          { type: 'STORE_BLOCK', data: orphanBlock },
+          { type: 'STORE_VALIDATOR_STATE', data: { validatorId: failingValidator, balance: 1, emotionalScore: 1 } },
+          // References a block that does not exist, so the whole batch must fail
+          { type: 'STORE_TRANSACTION', data: { transaction: fixtures.transaction('x', 'y', 1, 2), blockHash: fixtures.hash('missing') } }
+        ]);
+      } catch (error) {
+        failed = true;
+      }
+      check(failed, 'batch referencing a missing block should fail');
+      check((await storage.getBlock(orphanBlock.hash)) === null, 'failed batch left a block behind');
+      check((await storage.getValidatorState(failingValidator)) === null, 'failed batch left validator state behind');
+    }],
+    ['discards writes on rollback', async (storage, fixtures) => {
+      const block = fixtures.block(0);
+      const rolledBack = await storage.beginTransaction();
+      await storage.storeBlock(block, rolledBack);
+      check((await storage.getBlock(block.hash)) === null, 'uncommitted write visible outside transaction');
+      await rolledBack.rollback();
+      check(!rolledBack.isActive(), 'transaction still active after rollback');
+      check((await storage.getBlock(block.hash)) === null, 'rolled back block was stored');
+
+      const committed = await storage.beginTransaction();
+      await storage.storeBlock(block, committed);
+      await committed.commit();
+      check(!committed.isActive(), 'transaction still active after commit');
+      check((await storage.getBlock(block.hash)) !== null, 'committed block not stored');
+    }],
+    ['prunes history below a height but keeps headers', async (storage, fixtures) => {
+      const validatorId = fixtures.id('pruned');
+      const [old, recent] = [fixtures.block(0), fixtures.block(1)];
+      const oldTx = fixtures.transaction('alice', 'bob', 1, 1);
+      const recentTx = fixtures.transaction('bob', 'carol', 2, 2);
+      await storage.storeBlock(old);
+      await storage.storeBlock(recent);
+      await storage.storeTransaction(oldTx, old.hash);
+      await storage.storeTransaction(recentTx, recent.hash);
+      await storage.storeValidatorState(validatorId, 100, 80);
+      await storage.storeBiometricData(validatorId, fixtures.reading(-60000), fixtures.proof());
+      await storage.storeBiometricData(validatorId, fixtures.reading(60000), fixtures.proof());
+
+      const result = await storage.pruneHistory(recent.height);
+      const history = await storage.getBiometricHistory(validatorId);
+      const stats = await storage.getStorageStats();
+      check(result.prunedBelowHeight === recent.height && result.transactionsPruned >= 1, 'pruneHistory reported nothing pruned');
+      check((await storage.getBlock(old.hash))?.hash === old.hash, 'pruned block header removed');
+      check((await storage.getTransaction(oldTx.hash)) === null, 'transaction below prune height still stored');
+      check((await storage.getTransactionsByAddress(fixtures.id('alice'))).length === 0, 'address index still lists pruned transaction');
+      check((await storage.getTransaction(recentTx.hash))?.hash === recentTx.hash, 'transaction above prune height removed');
+      check(history.length === 1 && history[0].timestamp > old.timestamp, 'biometric readings not pruned up to the pruned block');
+      check(stats.prunedBelowHeight === recent.height, 'prune watermark not reported in storage stats');
+    }],
+    ['reports storage stats and health', async (storage, fixtures) => {
+      const before = await storage.getStorageStats();
+      const block = fixtures.block(0);
+      await storage.storeBlock(block);
+      await storage.storeTransaction(fixtures.transaction('alice', 'bob', 1, 1), block.hash);
+      const after = await storage.getStorageStats();
+      const health = await storage.healthCheck();
+      check(after.totalBlocks === before.totalBlocks + 1, 'totalBlocks not incremented');
+      check(after.totalTransactions === before.totalTransactions + 1, 'totalTransactions not incremented');
+      check(health.healthy, 'healthCheck reported unhealthy storage');
+    }]
+  ];
+  return {
+    name: `BlockchainStorage conformance (${backendName})`,
+    tests: cases.map(([name, run]): TestCase => ({
+      name,
+      retry: 0,
+      test: async (): Promise<TestResult> => {
+        const startTime = Date.now();
+        try {
+          const storage = await createStorage();
+          await run(storage, new ConformanceFixtures());
+          return { passed: true, duration: Date.now() - startTime, logs: [`${backendName}: ${name} passed`] };
+        } catch (error) {
+          return {
+            passed: false,
+            duration: Date.now() - startTime,
+            error: error as Error,
+            logs: [`${backendName}: ${name} failed: ${(error as Error).message}`]
+          };
+        }
+      }
+    }))
+  };
+}
+/**
+ * Fixture builder producing unique, schema-compatible records per test case
+ */
+class ConformanceFixtures {
+  private readonly runId = `${Date.now().toString(36)}${Math.floor(Math.random() * 1e6).toString(36)}`;
+  // Heights and round ids high enough to sort after existing data, within INTEGER range
+  readonly baseHeight = 2000000000 + Math.floor(Math.random() * 100000000);
+  id(name: string): string {
+    return `${name}_${this.runId}`;
+  }
+  hash(seed: string): string {
+    return createHash('sha256').update(`${this.runId}:${seed}`).digest('hex');
+  }
+  block(offset: number): StoredBlock {
+    const height = this.baseHeight + offset;
+    return {
+      hash: this.hash(`block_${height}`),
+      height,
+      previousHash: this.hash(`block_${height - 1}`),
+      merkleRoot: this.hash(`merkle_${height}`),
+      timestamp: Date.now() + offset,
+      nonce: 0,
+      difficulty: 1,
+      validatorId: this.id('proposer'),
+      emotionalScore: 85.5,
+      emotionalProof: { consensusScore: 90 },
+      transactions: []
+    };
+  }
+  transaction(from: string, to: string, amount: number, order: number): StoredTransaction {
+    const transaction = new Transaction({
+      from: this.id(from),
+      to: this.id(to),
+      amount,
+      fee: 0.01,
+      timestamp: Date.now() + order,
+      type: 'transfer'
+    });
+    return Object.assign(transaction, { hash: this.hash(`tx_${from}_${to}_${order}`) });
+  }
+  reading(order: number): BiometricReading {
+    return {
+      timestamp: Date.now() + order,
+      deviceId: this.id('device'),
+      type: 'heartRate',
+      value: 70 + order,
+      quality: 0.95,
+      rawData: { order }
+    };
+  }
+  proof(): AuthenticityProof {
+    const timestamp = Date.now();
+    return {
+      proofId: this.id('proof'),
+      deviceSignature: this.hash('proof'),
+      biometricHash: { hash: this.hash('biometric'), salt: this.runId, timestamp, deviceId: this.id('device'), algorithm: 'sha256' },
+      merkleProof: [],
+      nonceProof: this.hash('nonce'),
+      timestamp,
+      validityPeriod: 60000,
+      antiReplayToken: this.hash('replay')
+    };
+  }
+}
+function check(condition: unknown, message: string): void {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
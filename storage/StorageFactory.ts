@@ -0,0 +1,35 @@
+import { CONFIG } from '../shared/config';
+import type { BaseBlockchainStorage } from './BlockchainStorage';
+import { LevelDBBlockchainStorage } from './LevelDBBlockchainStorage';
+import { MemoryBlockchainStorage } from './MemoryStorage';
+/**
+ * Storage backend selection for EmotionalChain nodes
+ * Unset fields fall back to `CONFIG.storage.backend` / `CONFIG.storage.leveldb`
+ * (STORAGE_BACKEND, LEVELDB_DATA_PATH)
+ */
+export type StorageBackend = 'postgresql' | 'leveldb' | 'memory';
+export interface StorageBackendConfig {
+  backend: StorageBackend;
+  leveldb?: {
+    dataPath: string;
+  };
+}
+export async function createBlockchainStorage(overrides: Partial<StorageBackendConfig> = {}): Promise<BaseBlockchainStorage> {
+  const config: StorageBackendConfig = {
+    backend: overrides.backend ?? CONFIG.storage.backend,
+    leveldb: overrides.leveldb ?? CONFIG.storage.leveldb
+  };
+  switch (config.backend) {
+    case 'postgresql': {
+      // Loaded lazily: the PostgreSQL backend requires DATABASE_URL at import time
+      const { PostgreSQLStorage } = await import('./PostgreSQLStorage');
+      return new PostgreSQLStorage();
+    }
+    case 'leveldb':
+      return new LevelDBBlockchainStorage({ dataPath: config.leveldb?.dataPath });
+    case 'memory':
+      return new MemoryBlockchainStorage();
+    default:
+      throw new Error(`Unknown storage backend: ${(config as StorageBackendConfig).backend}`);
+  }
+}